@@ -0,0 +1,190 @@
+-- CreateTable
+CREATE TABLE "base_camps" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "codename" TEXT NOT NULL,
+    "region" TEXT NOT NULL,
+    "latitude" REAL NOT NULL,
+    "longitude" REAL NOT NULL,
+    "capacity" INTEGER NOT NULL,
+    "chargingBaysTotal" INTEGER NOT NULL,
+    "chargingBaysInUse" INTEGER NOT NULL DEFAULT 0,
+    "powerSource" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ONLINE',
+    "signalStrength" REAL,
+    "temperature" REAL,
+    "metadata" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "drones" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "callSign" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'IDLE',
+    "battery" REAL NOT NULL DEFAULT 100,
+    "altitude" REAL NOT NULL DEFAULT 0,
+    "speed" REAL NOT NULL DEFAULT 0,
+    "heading" REAL NOT NULL DEFAULT 0,
+    "latitude" REAL NOT NULL,
+    "longitude" REAL NOT NULL,
+    "flightTime" REAL NOT NULL DEFAULT 0,
+    "coverage" REAL NOT NULL DEFAULT 0,
+    "lastMission" TEXT,
+    "baseCampId" TEXT,
+    "metadata" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "drones_baseCampId_fkey" FOREIGN KEY ("baseCampId") REFERENCES "base_camps" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "missions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "schedule" TEXT NOT NULL DEFAULT 'once',
+    "priority" TEXT NOT NULL DEFAULT 'normal',
+    "status" TEXT NOT NULL DEFAULT 'SCHEDULED',
+    "area" TEXT NOT NULL,
+    "droneId" TEXT,
+    "createdById" TEXT,
+    "startTime" DATETIME NOT NULL,
+    "estimatedDuration" INTEGER NOT NULL,
+    "altitude" REAL NOT NULL,
+    "maxSpeed" REAL NOT NULL,
+    "cameraMode" TEXT NOT NULL DEFAULT 'photo',
+    "notes" TEXT,
+    "actualStart" DATETIME,
+    "actualEnd" DATETIME,
+    "metadata" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "missions_droneId_fkey" FOREIGN KEY ("droneId") REFERENCES "drones" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "missions_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- Migrate data
+-- droneId/missionId used to be free text (usually a call sign). The drones and
+-- missions tables start empty, so keep the old value in the row's metadata and
+-- clear the column before the foreign keys below are enforced.
+UPDATE "herd_telemetry" SET "metadata" = json_set(CASE WHEN json_valid("metadata") THEN "metadata" ELSE '{}' END, '$.legacyDroneId', "droneId") WHERE "droneId" IS NOT NULL AND "droneId" NOT IN (SELECT "id" FROM "drones");
+UPDATE "herd_telemetry" SET "droneId" = NULL WHERE "droneId" IS NOT NULL AND "droneId" NOT IN (SELECT "id" FROM "drones");
+UPDATE "herd_telemetry" SET "metadata" = json_set(CASE WHEN json_valid("metadata") THEN "metadata" ELSE '{}' END, '$.legacyMissionId', "missionId") WHERE "missionId" IS NOT NULL AND "missionId" NOT IN (SELECT "id" FROM "missions");
+UPDATE "herd_telemetry" SET "missionId" = NULL WHERE "missionId" IS NOT NULL AND "missionId" NOT IN (SELECT "id" FROM "missions");
+UPDATE "animal_telemetry" SET "metadata" = json_set(CASE WHEN json_valid("metadata") THEN "metadata" ELSE '{}' END, '$.legacyDroneId', "droneId") WHERE "droneId" IS NOT NULL AND "droneId" NOT IN (SELECT "id" FROM "drones");
+UPDATE "animal_telemetry" SET "droneId" = NULL WHERE "droneId" IS NOT NULL AND "droneId" NOT IN (SELECT "id" FROM "drones");
+UPDATE "patrols" SET "metadata" = json_set(CASE WHEN json_valid("metadata") THEN "metadata" ELSE '{}' END, '$.legacyDroneId', "droneId") WHERE "droneId" IS NOT NULL AND "droneId" NOT IN (SELECT "id" FROM "drones");
+UPDATE "patrols" SET "droneId" = NULL WHERE "droneId" IS NOT NULL AND "droneId" NOT IN (SELECT "id" FROM "drones");
+UPDATE "land_surveys" SET "metadata" = json_set(CASE WHEN json_valid("metadata") THEN "metadata" ELSE '{}' END, '$.legacyDroneId', "droneId") WHERE "droneId" IS NOT NULL AND "droneId" NOT IN (SELECT "id" FROM "drones");
+UPDATE "land_surveys" SET "droneId" = NULL WHERE "droneId" IS NOT NULL AND "droneId" NOT IN (SELECT "id" FROM "drones");
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_herd_telemetry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "herdId" TEXT NOT NULL,
+    "countDetected" INTEGER NOT NULL,
+    "countHealthy" INTEGER,
+    "countSick" INTEGER,
+    "countMissing" INTEGER,
+    "latitude" REAL NOT NULL,
+    "longitude" REAL NOT NULL,
+    "altitude" REAL,
+    "temperature" REAL,
+    "humidity" REAL,
+    "windSpeed" REAL,
+    "droneId" TEXT,
+    "missionId" TEXT,
+    "imageUrl" TEXT,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "metadata" TEXT,
+    CONSTRAINT "herd_telemetry_herdId_fkey" FOREIGN KEY ("herdId") REFERENCES "herds" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "herd_telemetry_droneId_fkey" FOREIGN KEY ("droneId") REFERENCES "drones" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "herd_telemetry_missionId_fkey" FOREIGN KEY ("missionId") REFERENCES "missions" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_herd_telemetry" ("altitude", "countDetected", "countHealthy", "countMissing", "countSick", "droneId", "herdId", "humidity", "id", "imageUrl", "latitude", "longitude", "metadata", "missionId", "temperature", "timestamp", "windSpeed") SELECT "altitude", "countDetected", "countHealthy", "countMissing", "countSick", "droneId", "herdId", "humidity", "id", "imageUrl", "latitude", "longitude", "metadata", "missionId", "temperature", "timestamp", "windSpeed" FROM "herd_telemetry";
+DROP TABLE "herd_telemetry";
+ALTER TABLE "new_herd_telemetry" RENAME TO "herd_telemetry";
+CREATE TABLE "new_animal_telemetry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "animalId" TEXT NOT NULL,
+    "latitude" REAL NOT NULL,
+    "longitude" REAL NOT NULL,
+    "temperature" REAL,
+    "heartRate" INTEGER,
+    "activity" TEXT,
+    "confidence" REAL,
+    "droneId" TEXT,
+    "imageUrl" TEXT,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "metadata" TEXT,
+    CONSTRAINT "animal_telemetry_animalId_fkey" FOREIGN KEY ("animalId") REFERENCES "animals" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "animal_telemetry_droneId_fkey" FOREIGN KEY ("droneId") REFERENCES "drones" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_animal_telemetry" ("activity", "animalId", "confidence", "droneId", "heartRate", "id", "imageUrl", "latitude", "longitude", "metadata", "temperature", "timestamp") SELECT "activity", "animalId", "confidence", "droneId", "heartRate", "id", "imageUrl", "latitude", "longitude", "metadata", "temperature", "timestamp" FROM "animal_telemetry";
+DROP TABLE "animal_telemetry";
+ALTER TABLE "new_animal_telemetry" RENAME TO "animal_telemetry";
+CREATE TABLE "new_patrols" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "parkId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "patrolType" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'SCHEDULED',
+    "routeCoordinates" TEXT NOT NULL,
+    "plannedDistance" REAL,
+    "actualDistance" REAL,
+    "scheduledStart" DATETIME NOT NULL,
+    "scheduledEnd" DATETIME NOT NULL,
+    "actualStart" DATETIME,
+    "actualEnd" DATETIME,
+    "rangers" TEXT,
+    "vehicles" TEXT,
+    "droneId" TEXT,
+    "findings" TEXT,
+    "evidenceUrls" TEXT,
+    "metadata" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "patrols_parkId_fkey" FOREIGN KEY ("parkId") REFERENCES "parks" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "patrols_droneId_fkey" FOREIGN KEY ("droneId") REFERENCES "drones" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_patrols" ("actualDistance", "actualEnd", "actualStart", "createdAt", "droneId", "evidenceUrls", "findings", "id", "metadata", "name", "parkId", "patrolType", "plannedDistance", "rangers", "routeCoordinates", "scheduledEnd", "scheduledStart", "status", "updatedAt", "vehicles") SELECT "actualDistance", "actualEnd", "actualStart", "createdAt", "droneId", "evidenceUrls", "findings", "id", "metadata", "name", "parkId", "patrolType", "plannedDistance", "rangers", "routeCoordinates", "scheduledEnd", "scheduledStart", "status", "updatedAt", "vehicles" FROM "patrols";
+DROP TABLE "patrols";
+ALTER TABLE "new_patrols" RENAME TO "patrols";
+CREATE TABLE "new_land_surveys" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "zoneId" TEXT NOT NULL,
+    "surveyType" TEXT NOT NULL,
+    "ndvi" REAL,
+    "biomass" REAL,
+    "treeCanopyCover" REAL,
+    "bareGround" REAL,
+    "waterBodies" REAL,
+    "healthScore" REAL,
+    "trends" TEXT,
+    "recommendations" TEXT,
+    "imageUrls" TEXT,
+    "dataSource" TEXT,
+    "droneId" TEXT,
+    "surveyDate" DATETIME NOT NULL,
+    "metadata" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "land_surveys_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "land_zones" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "land_surveys_droneId_fkey" FOREIGN KEY ("droneId") REFERENCES "drones" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_land_surveys" ("bareGround", "biomass", "createdAt", "dataSource", "droneId", "healthScore", "id", "imageUrls", "metadata", "ndvi", "recommendations", "surveyDate", "surveyType", "treeCanopyCover", "trends", "waterBodies", "zoneId") SELECT "bareGround", "biomass", "createdAt", "dataSource", "droneId", "healthScore", "id", "imageUrls", "metadata", "ndvi", "recommendations", "surveyDate", "surveyType", "treeCanopyCover", "trends", "waterBodies", "zoneId" FROM "land_surveys";
+DROP TABLE "land_surveys";
+ALTER TABLE "new_land_surveys" RENAME TO "land_surveys";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "base_camps_codename_key" ON "base_camps"("codename");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "drones_callSign_key" ON "drones"("callSign");
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "missions" ADD COLUMN "nextRunAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "mission_runs" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "missionId" TEXT NOT NULL,
+    "droneId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'SCHEDULED',
+    "scheduledFor" DATETIME NOT NULL,
+    "startedAt" DATETIME,
+    "completedAt" DATETIME,
+    "skipReason" TEXT,
+    "triggeredBy" TEXT NOT NULL DEFAULT 'scheduler',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "mission_runs_missionId_fkey" FOREIGN KEY ("missionId") REFERENCES "missions" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "mission_runs_droneId_fkey" FOREIGN KEY ("droneId") REFERENCES "drones" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "mission_runs_missionId_status_idx" ON "mission_runs"("missionId", "status");
+
+-- CreateIndex
+CREATE INDEX "missions_nextRunAt_idx" ON "missions"("nextRunAt");
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "herd_telemetry" ADD COLUMN "clientId" TEXT;
+
+-- AlterTable
+ALTER TABLE "animal_telemetry" ADD COLUMN "clientId" TEXT;
+
+-- AlterTable
+ALTER TABLE "wildlife_sightings" ADD COLUMN "clientId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "herd_telemetry_clientId_key" ON "herd_telemetry"("clientId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "animal_telemetry_clientId_key" ON "animal_telemetry"("clientId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wildlife_sightings_clientId_key" ON "wildlife_sightings"("clientId");
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "device_keys" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "deviceType" TEXT NOT NULL,
+    "keyPrefix" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "farmId" TEXT,
+    "parkId" TEXT,
+    "droneId" TEXT,
+    "scopes" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "createdById" TEXT NOT NULL,
+    "lastUsedAt" DATETIME,
+    "lastUsedIp" TEXT,
+    "revokedAt" DATETIME,
+    "rotatedFromId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "device_keys_farmId_fkey" FOREIGN KEY ("farmId") REFERENCES "farms" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "device_keys_parkId_fkey" FOREIGN KEY ("parkId") REFERENCES "parks" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "device_keys_droneId_fkey" FOREIGN KEY ("droneId") REFERENCES "drones" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "device_keys_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "device_keys_keyPrefix_key" ON "device_keys"("keyPrefix");
@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "alert_rules" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "ruleType" TEXT NOT NULL,
+    "threshold" REAL NOT NULL,
+    "severity" TEXT NOT NULL DEFAULT 'WARNING',
+    "cooldownMinutes" INTEGER NOT NULL DEFAULT 60,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "farmId" TEXT,
+    "parkId" TEXT,
+    "zoneId" TEXT,
+    "createdById" TEXT,
+    "lastTriggeredAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "alert_rules_farmId_fkey" FOREIGN KEY ("farmId") REFERENCES "farms" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "alert_rules_parkId_fkey" FOREIGN KEY ("parkId") REFERENCES "parks" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "alert_rules_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "land_zones" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "alert_rules_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_alerts" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'NEW',
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "details" TEXT,
+    "module" TEXT NOT NULL,
+    "entityType" TEXT,
+    "entityId" TEXT,
+    "latitude" REAL,
+    "longitude" REAL,
+    "location" TEXT,
+    "assignedToId" TEXT,
+    "farmId" TEXT,
+    "actionTaken" TEXT,
+    "resolvedBy" TEXT,
+    "resolvedAt" DATETIME,
+    "notificationSent" BOOLEAN NOT NULL DEFAULT false,
+    "notificationChannels" TEXT,
+    "ruleId" TEXT,
+    "metadata" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "alerts_assignedToId_fkey" FOREIGN KEY ("assignedToId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "alerts_farmId_fkey" FOREIGN KEY ("farmId") REFERENCES "farms" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "alerts_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "alert_rules" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_alerts" ("actionTaken", "assignedToId", "createdAt", "details", "entityId", "entityType", "farmId", "id", "latitude", "location", "longitude", "message", "metadata", "module", "notificationChannels", "notificationSent", "resolvedAt", "resolvedBy", "severity", "status", "title", "type", "updatedAt") SELECT "actionTaken", "assignedToId", "createdAt", "details", "entityId", "entityType", "farmId", "id", "latitude", "location", "longitude", "message", "metadata", "module", "notificationChannels", "notificationSent", "resolvedAt", "resolvedBy", "severity", "status", "title", "type", "updatedAt" FROM "alerts";
+DROP TABLE "alerts";
+ALTER TABLE "new_alerts" RENAME TO "alerts";
+CREATE INDEX "alerts_ruleId_entityId_createdAt_idx" ON "alerts"("ruleId", "entityId", "createdAt");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "alert_rules_ruleType_enabled_idx" ON "alert_rules"("ruleType", "enabled");
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "notification_preferences" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "emailEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "emailMinSeverity" TEXT NOT NULL DEFAULT 'WARNING',
+    "smsEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "smsMinSeverity" TEXT NOT NULL DEFAULT 'CRITICAL',
+    "pushEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "webhookUrl" TEXT,
+    "webhookMinSeverity" TEXT NOT NULL DEFAULT 'INFO',
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "notification_preferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "notification_deliveries" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "alertId" TEXT,
+    "userId" TEXT,
+    "channel" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "nextAttemptAt" DATETIME,
+    "sentAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "notification_deliveries_alertId_fkey" FOREIGN KEY ("alertId") REFERENCES "alerts" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "notification_deliveries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_preferences_userId_key" ON "notification_preferences"("userId");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_status_nextAttemptAt_idx" ON "notification_deliveries"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_alertId_idx" ON "notification_deliveries"("alertId");
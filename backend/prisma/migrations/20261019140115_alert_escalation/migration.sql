@@ -0,0 +1,84 @@
+-- CreateTable
+CREATE TABLE "alert_events" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "alertId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "actorId" TEXT,
+    "message" TEXT,
+    "data" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "alert_events_alertId_fkey" FOREIGN KEY ("alertId") REFERENCES "alerts" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "alert_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "escalation_policies" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "module" TEXT,
+    "severity" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "escalation_steps" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "policyId" TEXT NOT NULL,
+    "level" INTEGER NOT NULL,
+    "afterMinutes" INTEGER NOT NULL,
+    "reassignTo" TEXT,
+    "reassignUserId" TEXT,
+    "notifyRoles" TEXT,
+    CONSTRAINT "escalation_steps_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "escalation_policies" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "escalation_steps_reassignUserId_fkey" FOREIGN KEY ("reassignUserId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_alerts" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'NEW',
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "details" TEXT,
+    "module" TEXT NOT NULL,
+    "entityType" TEXT,
+    "entityId" TEXT,
+    "latitude" REAL,
+    "longitude" REAL,
+    "location" TEXT,
+    "assignedToId" TEXT,
+    "farmId" TEXT,
+    "actionTaken" TEXT,
+    "acknowledgedAt" DATETIME,
+    "resolvedBy" TEXT,
+    "resolvedAt" DATETIME,
+    "escalationLevel" INTEGER NOT NULL DEFAULT 0,
+    "escalatedAt" DATETIME,
+    "notificationSent" BOOLEAN NOT NULL DEFAULT false,
+    "notificationChannels" TEXT,
+    "ruleId" TEXT,
+    "metadata" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "alerts_assignedToId_fkey" FOREIGN KEY ("assignedToId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "alerts_farmId_fkey" FOREIGN KEY ("farmId") REFERENCES "farms" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "alerts_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "alert_rules" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_alerts" ("actionTaken", "assignedToId", "createdAt", "details", "entityId", "entityType", "farmId", "id", "latitude", "location", "longitude", "message", "metadata", "module", "notificationChannels", "notificationSent", "resolvedAt", "resolvedBy", "ruleId", "severity", "status", "title", "type", "updatedAt") SELECT "actionTaken", "assignedToId", "createdAt", "details", "entityId", "entityType", "farmId", "id", "latitude", "location", "longitude", "message", "metadata", "module", "notificationChannels", "notificationSent", "resolvedAt", "resolvedBy", "ruleId", "severity", "status", "title", "type", "updatedAt" FROM "alerts";
+DROP TABLE "alerts";
+ALTER TABLE "new_alerts" RENAME TO "alerts";
+CREATE INDEX "alerts_ruleId_entityId_createdAt_idx" ON "alerts"("ruleId", "entityId", "createdAt");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "alert_events_alertId_createdAt_idx" ON "alert_events"("alertId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "escalation_steps_policyId_level_key" ON "escalation_steps"("policyId", "level");
@@ -0,0 +1,71 @@
+-- CreateTable
+CREATE TABLE "alert_groups" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'NEW',
+    "module" TEXT NOT NULL,
+    "entityType" TEXT,
+    "entityId" TEXT,
+    "latitude" REAL,
+    "longitude" REAL,
+    "farmId" TEXT,
+    "alertCount" INTEGER NOT NULL DEFAULT 1,
+    "firstSeenAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedBy" TEXT,
+    "resolvedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "alert_groups_farmId_fkey" FOREIGN KEY ("farmId") REFERENCES "farms" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_alerts" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'NEW',
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "details" TEXT,
+    "module" TEXT NOT NULL,
+    "entityType" TEXT,
+    "entityId" TEXT,
+    "latitude" REAL,
+    "longitude" REAL,
+    "location" TEXT,
+    "assignedToId" TEXT,
+    "farmId" TEXT,
+    "actionTaken" TEXT,
+    "acknowledgedAt" DATETIME,
+    "resolvedBy" TEXT,
+    "resolvedAt" DATETIME,
+    "escalationLevel" INTEGER NOT NULL DEFAULT 0,
+    "escalatedAt" DATETIME,
+    "notificationSent" BOOLEAN NOT NULL DEFAULT false,
+    "notificationChannels" TEXT,
+    "ruleId" TEXT,
+    "occurrenceCount" INTEGER NOT NULL DEFAULT 1,
+    "lastOccurredAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "groupId" TEXT,
+    "metadata" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "alerts_assignedToId_fkey" FOREIGN KEY ("assignedToId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "alerts_farmId_fkey" FOREIGN KEY ("farmId") REFERENCES "farms" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "alerts_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "alert_rules" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "alerts_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "alert_groups" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_alerts" ("acknowledgedAt", "actionTaken", "assignedToId", "createdAt", "details", "entityId", "entityType", "escalatedAt", "escalationLevel", "farmId", "id", "latitude", "location", "longitude", "message", "metadata", "module", "notificationChannels", "notificationSent", "resolvedAt", "resolvedBy", "ruleId", "severity", "status", "title", "type", "updatedAt") SELECT "acknowledgedAt", "actionTaken", "assignedToId", "createdAt", "details", "entityId", "entityType", "escalatedAt", "escalationLevel", "farmId", "id", "latitude", "location", "longitude", "message", "metadata", "module", "notificationChannels", "notificationSent", "resolvedAt", "resolvedBy", "ruleId", "severity", "status", "title", "type", "updatedAt" FROM "alerts";
+DROP TABLE "alerts";
+ALTER TABLE "new_alerts" RENAME TO "alerts";
+CREATE INDEX "alerts_ruleId_entityId_createdAt_idx" ON "alerts"("ruleId", "entityId", "createdAt");
+CREATE INDEX "alerts_type_entityType_entityId_status_idx" ON "alerts"("type", "entityType", "entityId", "status");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "alert_groups_status_lastSeenAt_idx" ON "alert_groups"("status", "lastSeenAt");
@@ -0,0 +1,79 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_land_zones" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "coordinates" TEXT NOT NULL,
+    "area" REAL NOT NULL,
+    "region" TEXT NOT NULL,
+    "district" TEXT,
+    "landUseType" TEXT NOT NULL,
+    "ownership" TEXT,
+    "managerId" TEXT,
+    "vegetationIndex" REAL,
+    "soilHealth" REAL,
+    "degradationLevel" REAL,
+    "erosionRisk" REAL,
+    "avgRainfall" REAL,
+    "avgTemperature" REAL,
+    "droughtRisk" REAL,
+    "lastSurveyAt" DATETIME,
+    "metadata" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "land_zones_managerId_fkey" FOREIGN KEY ("managerId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_land_zones" ("area", "avgRainfall", "avgTemperature", "coordinates", "createdAt", "degradationLevel", "description", "district", "droughtRisk", "erosionRisk", "id", "landUseType", "lastSurveyAt", "metadata", "name", "ownership", "region", "soilHealth", "updatedAt", "vegetationIndex") SELECT "area", "avgRainfall", "avgTemperature", "coordinates", "createdAt", "degradationLevel", "description", "district", "droughtRisk", "erosionRisk", "id", "landUseType", "lastSurveyAt", "metadata", "name", "ownership", "region", "soilHealth", "updatedAt", "vegetationIndex" FROM "land_zones";
+DROP TABLE "land_zones";
+ALTER TABLE "new_land_zones" RENAME TO "land_zones";
+CREATE TABLE "new_alerts" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'NEW',
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "details" TEXT,
+    "module" TEXT NOT NULL,
+    "entityType" TEXT,
+    "entityId" TEXT,
+    "latitude" REAL,
+    "longitude" REAL,
+    "location" TEXT,
+    "assignedToId" TEXT,
+    "farmId" TEXT,
+    "parkId" TEXT,
+    "parkZoneId" TEXT,
+    "landZoneId" TEXT,
+    "actionTaken" TEXT,
+    "acknowledgedAt" DATETIME,
+    "resolvedBy" TEXT,
+    "resolvedAt" DATETIME,
+    "escalationLevel" INTEGER NOT NULL DEFAULT 0,
+    "escalatedAt" DATETIME,
+    "notificationSent" BOOLEAN NOT NULL DEFAULT false,
+    "notificationChannels" TEXT,
+    "ruleId" TEXT,
+    "occurrenceCount" INTEGER NOT NULL DEFAULT 1,
+    "lastOccurredAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "groupId" TEXT,
+    "metadata" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "alerts_assignedToId_fkey" FOREIGN KEY ("assignedToId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "alerts_farmId_fkey" FOREIGN KEY ("farmId") REFERENCES "farms" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "alerts_parkId_fkey" FOREIGN KEY ("parkId") REFERENCES "parks" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "alerts_parkZoneId_fkey" FOREIGN KEY ("parkZoneId") REFERENCES "park_zones" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "alerts_landZoneId_fkey" FOREIGN KEY ("landZoneId") REFERENCES "land_zones" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "alerts_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "alert_rules" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "alerts_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "alert_groups" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_alerts" ("acknowledgedAt", "actionTaken", "assignedToId", "createdAt", "details", "entityId", "entityType", "escalatedAt", "escalationLevel", "farmId", "groupId", "id", "lastOccurredAt", "latitude", "location", "longitude", "message", "metadata", "module", "notificationChannels", "notificationSent", "occurrenceCount", "resolvedAt", "resolvedBy", "ruleId", "severity", "status", "title", "type", "updatedAt") SELECT "acknowledgedAt", "actionTaken", "assignedToId", "createdAt", "details", "entityId", "entityType", "escalatedAt", "escalationLevel", "farmId", "groupId", "id", "lastOccurredAt", "latitude", "location", "longitude", "message", "metadata", "module", "notificationChannels", "notificationSent", "occurrenceCount", "resolvedAt", "resolvedBy", "ruleId", "severity", "status", "title", "type", "updatedAt" FROM "alerts";
+DROP TABLE "alerts";
+ALTER TABLE "new_alerts" RENAME TO "alerts";
+CREATE INDEX "alerts_ruleId_entityId_createdAt_idx" ON "alerts"("ruleId", "entityId", "createdAt");
+CREATE INDEX "alerts_type_entityType_entityId_status_idx" ON "alerts"("type", "entityType", "entityId", "status");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
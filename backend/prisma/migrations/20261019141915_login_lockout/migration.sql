@@ -0,0 +1,37 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_users" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "email" TEXT NOT NULL,
+    "password" TEXT NOT NULL,
+    "firstName" TEXT NOT NULL,
+    "lastName" TEXT NOT NULL,
+    "phone" TEXT,
+    "role" TEXT NOT NULL DEFAULT 'FARMER',
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "emailVerifiedAt" DATETIME,
+    "twoFactorEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "twoFactorSecret" TEXT,
+    "twoFactorLastStep" INTEGER,
+    "failedLoginCount" INTEGER NOT NULL DEFAULT 0,
+    "lockedUntil" DATETIME,
+    "avatar" TEXT,
+    "organization" TEXT,
+    "location" TEXT,
+    "language" TEXT NOT NULL DEFAULT 'en',
+    "businessType" TEXT,
+    "services" TEXT,
+    "companyName" TEXT,
+    "companySize" TEXT,
+    "industry" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "lastLoginAt" DATETIME
+);
+INSERT INTO "new_users" ("avatar", "businessType", "companyName", "companySize", "createdAt", "email", "emailVerifiedAt", "firstName", "id", "industry", "language", "lastLoginAt", "lastName", "location", "organization", "password", "phone", "role", "services", "status", "twoFactorEnabled", "twoFactorLastStep", "twoFactorSecret", "updatedAt") SELECT "avatar", "businessType", "companyName", "companySize", "createdAt", "email", "emailVerifiedAt", "firstName", "id", "industry", "language", "lastLoginAt", "lastName", "location", "organization", "password", "phone", "role", "services", "status", "twoFactorEnabled", "twoFactorLastStep", "twoFactorSecret", "updatedAt" FROM "users";
+DROP TABLE "users";
+ALTER TABLE "new_users" RENAME TO "users";
+CREATE UNIQUE INDEX "users_email_key" ON "users"("email");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
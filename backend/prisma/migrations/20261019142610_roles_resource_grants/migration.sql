@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "roles" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "permissions" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "resource_grants" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "resourceType" TEXT NOT NULL,
+    "resourceId" TEXT NOT NULL,
+    "access" TEXT NOT NULL DEFAULT 'READ',
+    "userId" TEXT NOT NULL,
+    "grantedById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "resource_grants_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "resource_grants_grantedById_fkey" FOREIGN KEY ("grantedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "roles_name_key" ON "roles"("name");
+
+-- CreateIndex
+CREATE INDEX "resource_grants_resourceType_resourceId_idx" ON "resource_grants"("resourceType", "resourceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "resource_grants_userId_resourceType_resourceId_key" ON "resource_grants"("userId", "resourceType", "resourceId");
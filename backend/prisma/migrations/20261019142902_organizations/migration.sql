@@ -0,0 +1,108 @@
+-- CreateTable
+CREATE TABLE "organizations" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "companySize" TEXT,
+    "industry" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "organization_members" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "role" TEXT NOT NULL DEFAULT 'MEMBER',
+    "organizationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "organization_members_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "organization_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_farms" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "location" TEXT NOT NULL,
+    "latitude" REAL NOT NULL,
+    "longitude" REAL NOT NULL,
+    "area" REAL NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "ownerId" TEXT NOT NULL,
+    "organizationId" TEXT,
+    "metadata" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "farms_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "farms_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_farms" ("area", "createdAt", "description", "id", "latitude", "location", "longitude", "metadata", "name", "ownerId", "status", "updatedAt") SELECT "area", "createdAt", "description", "id", "latitude", "location", "longitude", "metadata", "name", "ownerId", "status", "updatedAt" FROM "farms";
+DROP TABLE "farms";
+ALTER TABLE "new_farms" RENAME TO "farms";
+CREATE TABLE "new_parks" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "parkType" TEXT NOT NULL,
+    "location" TEXT NOT NULL,
+    "latitude" REAL NOT NULL,
+    "longitude" REAL NOT NULL,
+    "area" REAL NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'MONITORED',
+    "managerId" TEXT NOT NULL,
+    "organizationId" TEXT,
+    "metadata" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "parks_managerId_fkey" FOREIGN KEY ("managerId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "parks_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_parks" ("area", "createdAt", "description", "id", "latitude", "location", "longitude", "managerId", "metadata", "name", "parkType", "status", "updatedAt") SELECT "area", "createdAt", "description", "id", "latitude", "location", "longitude", "managerId", "metadata", "name", "parkType", "status", "updatedAt" FROM "parks";
+DROP TABLE "parks";
+ALTER TABLE "new_parks" RENAME TO "parks";
+CREATE TABLE "new_land_zones" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "coordinates" TEXT NOT NULL,
+    "area" REAL NOT NULL,
+    "region" TEXT NOT NULL,
+    "district" TEXT,
+    "landUseType" TEXT NOT NULL,
+    "ownership" TEXT,
+    "managerId" TEXT,
+    "organizationId" TEXT,
+    "vegetationIndex" REAL,
+    "soilHealth" REAL,
+    "degradationLevel" REAL,
+    "erosionRisk" REAL,
+    "avgRainfall" REAL,
+    "avgTemperature" REAL,
+    "droughtRisk" REAL,
+    "lastSurveyAt" DATETIME,
+    "metadata" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "land_zones_managerId_fkey" FOREIGN KEY ("managerId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "land_zones_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_land_zones" ("area", "avgRainfall", "avgTemperature", "coordinates", "createdAt", "degradationLevel", "description", "district", "droughtRisk", "erosionRisk", "id", "landUseType", "lastSurveyAt", "managerId", "metadata", "name", "ownership", "region", "soilHealth", "updatedAt", "vegetationIndex") SELECT "area", "avgRainfall", "avgTemperature", "coordinates", "createdAt", "degradationLevel", "description", "district", "droughtRisk", "erosionRisk", "id", "landUseType", "lastSurveyAt", "managerId", "metadata", "name", "ownership", "region", "soilHealth", "updatedAt", "vegetationIndex" FROM "land_zones";
+DROP TABLE "land_zones";
+ALTER TABLE "new_land_zones" RENAME TO "land_zones";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organizations_slug_key" ON "organizations"("slug");
+
+-- CreateIndex
+CREATE INDEX "organization_members_userId_idx" ON "organization_members"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organization_members_organizationId_userId_key" ON "organization_members"("organizationId", "userId");
@@ -0,0 +1,8 @@
+-- CreateIndex
+CREATE INDEX "activities_entityType_entityId_idx" ON "activities"("entityType", "entityId");
+
+-- CreateIndex
+CREATE INDEX "activities_userId_timestamp_idx" ON "activities"("userId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "activities_timestamp_idx" ON "activities"("timestamp");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "animal_movements" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "animalId" TEXT NOT NULL,
+    "fromHerdId" TEXT,
+    "toHerdId" TEXT,
+    "occurredAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reason" TEXT,
+    "counterparty" TEXT,
+    "price" REAL,
+    "notes" TEXT,
+    "recordedById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "animal_movements_animalId_fkey" FOREIGN KEY ("animalId") REFERENCES "animals" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "animal_movements_fromHerdId_fkey" FOREIGN KEY ("fromHerdId") REFERENCES "herds" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "animal_movements_toHerdId_fkey" FOREIGN KEY ("toHerdId") REFERENCES "herds" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "animal_movements_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "animal_movements_animalId_occurredAt_idx" ON "animal_movements"("animalId", "occurredAt");
@@ -0,0 +1,79 @@
+-- CreateTable
+CREATE TABLE "treatment_plans" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "animalId" TEXT NOT NULL,
+    "healthEventId" TEXT,
+    "prescribedBy" TEXT,
+    "notes" TEXT,
+    "meatWithdrawalDays" INTEGER NOT NULL DEFAULT 0,
+    "milkWithdrawalDays" INTEGER NOT NULL DEFAULT 0,
+    "meatWithdrawalEndsAt" DATETIME,
+    "milkWithdrawalEndsAt" DATETIME,
+    "createdById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "treatment_plans_animalId_fkey" FOREIGN KEY ("animalId") REFERENCES "animals" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "treatment_plans_healthEventId_fkey" FOREIGN KEY ("healthEventId") REFERENCES "health_events" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "treatment_plans_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "treatment_doses" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "planId" TEXT NOT NULL,
+    "drug" TEXT NOT NULL,
+    "dosage" TEXT NOT NULL,
+    "route" TEXT,
+    "scheduledAt" DATETIME NOT NULL,
+    "administeredAt" DATETIME,
+    "administeredBy" TEXT,
+    "notes" TEXT,
+    CONSTRAINT "treatment_doses_planId_fkey" FOREIGN KEY ("planId") REFERENCES "treatment_plans" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "vaccination_schedules" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "farmId" TEXT NOT NULL,
+    "species" TEXT NOT NULL,
+    "vaccine" TEXT NOT NULL,
+    "description" TEXT,
+    "firstDoseDays" INTEGER NOT NULL DEFAULT 0,
+    "intervalDays" INTEGER,
+    "reminderDays" INTEGER NOT NULL DEFAULT 7,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "vaccination_schedules_farmId_fkey" FOREIGN KEY ("farmId") REFERENCES "farms" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "vaccinations" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "animalId" TEXT NOT NULL,
+    "scheduleId" TEXT,
+    "vaccine" TEXT NOT NULL,
+    "administeredAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "batchNumber" TEXT,
+    "administeredBy" TEXT,
+    "notes" TEXT,
+    "recordedById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "vaccinations_animalId_fkey" FOREIGN KEY ("animalId") REFERENCES "animals" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "vaccinations_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "vaccination_schedules" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "vaccinations_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "treatment_plans_animalId_idx" ON "treatment_plans"("animalId");
+
+-- CreateIndex
+CREATE INDEX "treatment_doses_planId_scheduledAt_idx" ON "treatment_doses"("planId", "scheduledAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vaccination_schedules_farmId_species_vaccine_key" ON "vaccination_schedules"("farmId", "species", "vaccine");
+
+-- CreateIndex
+CREATE INDEX "vaccinations_animalId_vaccine_idx" ON "vaccinations"("animalId", "vaccine");
@@ -0,0 +1,71 @@
+-- CreateTable
+CREATE TABLE "outbreaks" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "disease" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "latitude" REAL NOT NULL,
+    "longitude" REAL NOT NULL,
+    "radiusKm" REAL NOT NULL,
+    "caseCount" INTEGER NOT NULL,
+    "animalCount" INTEGER NOT NULL,
+    "farmIds" TEXT NOT NULL,
+    "notifiedFarmIds" TEXT,
+    "alertId" TEXT,
+    "firstCaseAt" DATETIME NOT NULL,
+    "lastCaseAt" DATETIME NOT NULL,
+    "endedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "outbreaks_alertId_fkey" FOREIGN KEY ("alertId") REFERENCES "alerts" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "_HerdToOutbreak" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+    CONSTRAINT "_HerdToOutbreak_A_fkey" FOREIGN KEY ("A") REFERENCES "herds" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "_HerdToOutbreak_B_fkey" FOREIGN KEY ("B") REFERENCES "outbreaks" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_herds" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "animalType" TEXT NOT NULL,
+    "totalCount" INTEGER NOT NULL,
+    "healthyCount" INTEGER NOT NULL,
+    "sickCount" INTEGER NOT NULL,
+    "missingCount" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'HEALTHY',
+    "farmId" TEXT NOT NULL,
+    "lastSeenAt" DATETIME,
+    "avgHealth" REAL,
+    "riskScore" REAL,
+    "quarantined" BOOLEAN NOT NULL DEFAULT false,
+    "quarantineReason" TEXT,
+    "quarantinedAt" DATETIME,
+    "metadata" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "herds_farmId_fkey" FOREIGN KEY ("farmId") REFERENCES "farms" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_herds" ("animalType", "avgHealth", "createdAt", "description", "farmId", "healthyCount", "id", "lastSeenAt", "metadata", "missingCount", "name", "riskScore", "sickCount", "status", "totalCount", "updatedAt") SELECT "animalType", "avgHealth", "createdAt", "description", "farmId", "healthyCount", "id", "lastSeenAt", "metadata", "missingCount", "name", "riskScore", "sickCount", "status", "totalCount", "updatedAt" FROM "herds";
+DROP TABLE "herds";
+ALTER TABLE "new_herds" RENAME TO "herds";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "outbreaks_alertId_key" ON "outbreaks"("alertId");
+
+-- CreateIndex
+CREATE INDEX "outbreaks_status_disease_idx" ON "outbreaks"("status", "disease");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_HerdToOutbreak_AB_unique" ON "_HerdToOutbreak"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_HerdToOutbreak_B_index" ON "_HerdToOutbreak"("B");
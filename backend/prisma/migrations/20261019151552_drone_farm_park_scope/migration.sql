@@ -0,0 +1,41 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_drones" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "callSign" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'IDLE',
+    "battery" REAL NOT NULL DEFAULT 100,
+    "altitude" REAL NOT NULL DEFAULT 0,
+    "speed" REAL NOT NULL DEFAULT 0,
+    "heading" REAL NOT NULL DEFAULT 0,
+    "latitude" REAL NOT NULL,
+    "longitude" REAL NOT NULL,
+    "flightTime" REAL NOT NULL DEFAULT 0,
+    "coverage" REAL NOT NULL DEFAULT 0,
+    "lastMission" TEXT,
+    "baseCampId" TEXT,
+    "farmId" TEXT,
+    "parkId" TEXT,
+    "metadata" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "drones_baseCampId_fkey" FOREIGN KEY ("baseCampId") REFERENCES "base_camps" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "drones_farmId_fkey" FOREIGN KEY ("farmId") REFERENCES "farms" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "drones_parkId_fkey" FOREIGN KEY ("parkId") REFERENCES "parks" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_drones" ("altitude", "baseCampId", "battery", "callSign", "coverage", "createdAt", "flightTime", "heading", "id", "lastMission", "latitude", "longitude", "metadata", "model", "name", "speed", "status", "updatedAt") SELECT "altitude", "baseCampId", "battery", "callSign", "coverage", "createdAt", "flightTime", "heading", "id", "lastMission", "latitude", "longitude", "metadata", "model", "name", "speed", "status", "updatedAt" FROM "drones";
+DROP TABLE "drones";
+ALTER TABLE "new_drones" RENAME TO "drones";
+CREATE UNIQUE INDEX "drones_callSign_key" ON "drones"("callSign");
+CREATE INDEX "drones_farmId_idx" ON "drones"("farmId");
+CREATE INDEX "drones_parkId_idx" ON "drones"("parkId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- Migrate data
+-- Drones with a device key already fly for that key's farm or park
+UPDATE "drones" SET "farmId" = (SELECT "farmId" FROM "device_keys" WHERE "device_keys"."droneId" = "drones"."id" AND "farmId" IS NOT NULL ORDER BY "createdAt" LIMIT 1);
+UPDATE "drones" SET "parkId" = (SELECT "parkId" FROM "device_keys" WHERE "device_keys"."droneId" = "drones"."id" AND "parkId" IS NOT NULL ORDER BY "createdAt" LIMIT 1) WHERE "farmId" IS NULL;
@@ -0,0 +1,39 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_alert_groups" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'NEW',
+    "module" TEXT NOT NULL,
+    "entityType" TEXT,
+    "entityId" TEXT,
+    "latitude" REAL,
+    "longitude" REAL,
+    "farmId" TEXT,
+    "parkId" TEXT,
+    "landZoneId" TEXT,
+    "alertCount" INTEGER NOT NULL DEFAULT 1,
+    "firstSeenAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedBy" TEXT,
+    "resolvedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "alert_groups_farmId_fkey" FOREIGN KEY ("farmId") REFERENCES "farms" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "alert_groups_parkId_fkey" FOREIGN KEY ("parkId") REFERENCES "parks" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "alert_groups_landZoneId_fkey" FOREIGN KEY ("landZoneId") REFERENCES "land_zones" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_alert_groups" ("alertCount", "createdAt", "entityId", "entityType", "farmId", "firstSeenAt", "id", "lastSeenAt", "latitude", "longitude", "module", "resolvedAt", "resolvedBy", "severity", "status", "title", "updatedAt") SELECT "alertCount", "createdAt", "entityId", "entityType", "farmId", "firstSeenAt", "id", "lastSeenAt", "latitude", "longitude", "module", "resolvedAt", "resolvedBy", "severity", "status", "title", "updatedAt" FROM "alert_groups";
+DROP TABLE "alert_groups";
+ALTER TABLE "new_alert_groups" RENAME TO "alert_groups";
+CREATE INDEX "alert_groups_status_lastSeenAt_idx" ON "alert_groups"("status", "lastSeenAt");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- Migrate data
+-- Existing groups take the park and land zone of their first alert
+UPDATE "alert_groups" SET
+    "parkId" = (SELECT "parkId" FROM "alerts" WHERE "alerts"."groupId" = "alert_groups"."id" ORDER BY "createdAt" LIMIT 1),
+    "landZoneId" = (SELECT "landZoneId" FROM "alerts" WHERE "alerts"."groupId" = "alert_groups"."id" ORDER BY "createdAt" LIMIT 1);
@@ -0,0 +1,442 @@
+/**
+ * Access Controller
+ * Roles, their permissions, and per-resource grants
+ */
+
+import { Request, Response } from 'express';
+import prisma from '../utils/db';
+import {
+  BUILT_IN_ROLES,
+  clearRoleCache,
+  hasPermission,
+  isBuiltInRole,
+  isPermission,
+  parsePermissions,
+  PERMISSIONS
+} from '../services/access.permissions';
+import {
+  ACCESS_LEVELS,
+  AccessLevel,
+  findResourceScope,
+  RESOURCE_TYPES,
+  ResourceScope,
+  ResourceType
+} from '../services/access.scope';
+import { canManageOrganization } from '../services/organization.members';
+import { getSocketEmitters } from '../socket/socket.handlers';
+
+const ROLE_NAME_PATTERN = /^[A-Z][A-Z0-9_]{1,31}$/;
+
+/**
+ * Validate a role's permission list, returning the problem or null
+ */
+const validatePermissions = (permissions: any): string | null => {
+  if (!Array.isArray(permissions)) return 'permissions must be an array';
+
+  const unknown = permissions.filter(permission => !isPermission(permission));
+  if (unknown.length > 0) return `Unknown permissions: ${unknown.join(', ')}`;
+
+  return null;
+};
+
+const toRole = (role: { permissions: string }) => ({
+  ...role,
+  permissions: parsePermissions(role.permissions),
+  builtIn: false
+});
+
+/**
+ * Grants on a resource are managed by its owner or manager, its
+ * organization's owners and admins, or with role:manage
+ */
+const canManageGrants = async (user: Request['user'], scope: ResourceScope) => {
+  if (!user) return false;
+  if (hasPermission(user, 'role:manage') || scope.holderId === user.id) return true;
+  return !!scope.organizationId && canManageOrganization(scope.organizationId, user.id);
+};
+
+/**
+ * Get the current user's role and permissions
+ */
+export const getMyAccess = async (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: {
+      role: req.user?.role,
+      permissions: req.user?.permissions ?? []
+    }
+  });
+};
+
+/**
+ * Get every permission a role can be given
+ */
+export const getPermissions = async (_req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: { permissions: PERMISSIONS }
+  });
+};
+
+/**
+ * Get built-in and custom roles with their permissions and member counts
+ */
+export const getRoles = async (_req: Request, res: Response) => {
+  try {
+    const [custom, counts] = await Promise.all([
+      prisma.role.findMany({ orderBy: { name: 'asc' } }),
+      prisma.user.groupBy({ by: ['role'], _count: { _all: true } })
+    ]);
+
+    const userCount = (name: string) => counts.find(count => count.role === name)?._count._all ?? 0;
+
+    const roles = [
+      ...Object.entries(BUILT_IN_ROLES).map(([name, permissions]) => ({
+        name,
+        permissions,
+        builtIn: true,
+        userCount: userCount(name)
+      })),
+      ...custom.map(role => ({ ...toRole(role), userCount: userCount(role.name) }))
+    ];
+
+    res.json({
+      success: true,
+      data: { roles }
+    });
+  } catch (error) {
+    console.error('Get roles error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get roles'
+    });
+  }
+};
+
+/**
+ * Create a custom role
+ */
+export const createRole = async (req: Request, res: Response) => {
+  try {
+    const { name, description, permissions } = req.body;
+
+    if (typeof name !== 'string' || !ROLE_NAME_PATTERN.test(name)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Role name must be 2-32 upper-case letters, digits or underscores'
+      });
+    }
+
+    const permissionsError = validatePermissions(permissions);
+    if (permissionsError) {
+      return res.status(400).json({
+        success: false,
+        message: permissionsError
+      });
+    }
+
+    const existing = isBuiltInRole(name) || (await prisma.role.findUnique({ where: { name } }));
+    if (existing) {
+      return res.status(400).json({
+        success: false,
+        message: 'A role with this name already exists'
+      });
+    }
+
+    const role = await prisma.role.create({
+      data: {
+        name,
+        description,
+        permissions: JSON.stringify([...new Set(permissions)])
+      }
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Role created successfully',
+      data: { role: toRole(role) }
+    });
+  } catch (error) {
+    console.error('Create role error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to create role'
+    });
+  }
+};
+
+/**
+ * Update a custom role's description or permissions; built-in roles are fixed
+ */
+export const updateRole = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { description, permissions } = req.body;
+
+    if (permissions !== undefined) {
+      const permissionsError = validatePermissions(permissions);
+      if (permissionsError) {
+        return res.status(400).json({
+          success: false,
+          message: permissionsError
+        });
+      }
+    }
+
+    const existing = await prisma.role.findUnique({ where: { id } });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Role not found'
+      });
+    }
+
+    const role = await prisma.role.update({
+      where: { id },
+      data: {
+        description,
+        permissions: permissions !== undefined ? JSON.stringify([...new Set(permissions)]) : undefined
+      }
+    });
+
+    clearRoleCache();
+    // Live sockets of the role's holders were authorized with its old permissions
+    getSocketEmitters()?.disconnectRole(role.name);
+
+    return res.json({
+      success: true,
+      message: 'Role updated successfully',
+      data: { role: toRole(role) }
+    });
+  } catch (error) {
+    console.error('Update role error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update role'
+    });
+  }
+};
+
+/**
+ * Delete a custom role nobody holds
+ */
+export const deleteRole = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const role = await prisma.role.findUnique({ where: { id } });
+
+    if (!role) {
+      return res.status(404).json({
+        success: false,
+        message: 'Role not found'
+      });
+    }
+
+    const holders = await prisma.user.count({ where: { role: role.name } });
+    if (holders > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Role is assigned to ${holders} user(s); move them to another role first`
+      });
+    }
+
+    await prisma.role.delete({ where: { id } });
+    clearRoleCache();
+
+    return res.json({
+      success: true,
+      message: 'Role deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete role error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to delete role'
+    });
+  }
+};
+
+/**
+ * Get the grants on a farm, park or land zone
+ */
+export const getGrants = async (req: Request, res: Response) => {
+  try {
+    const { resourceType, resourceId } = req.query;
+
+    if (!RESOURCE_TYPES.includes(resourceType as ResourceType) || typeof resourceId !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: `resourceType (${RESOURCE_TYPES.join(', ')}) and resourceId are required`
+      });
+    }
+
+    const scope = await findResourceScope(resourceType as ResourceType, resourceId);
+
+    if (!scope) {
+      return res.status(404).json({
+        success: false,
+        message: 'Resource not found'
+      });
+    }
+
+    if (!(await canManageGrants(req.user, scope))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to manage access to this resource'
+      });
+    }
+
+    const grants = await prisma.resourceGrant.findMany({
+      where: { resourceType: scope.type, resourceId: scope.id },
+      include: {
+        user: { select: { id: true, firstName: true, lastName: true, email: true, role: true } },
+        grantedBy: { select: { id: true, firstName: true, lastName: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return res.json({
+      success: true,
+      data: { grants }
+    });
+  } catch (error) {
+    console.error('Get grants error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get grants'
+    });
+  }
+};
+
+/**
+ * Grant a user READ or WRITE access to a farm, park or land zone;
+ * granting again changes the access level
+ */
+export const createGrant = async (req: Request, res: Response) => {
+  try {
+    const { userId, resourceType, resourceId, access = 'READ' } = req.body;
+
+    if (!userId || !RESOURCE_TYPES.includes(resourceType) || !resourceId) {
+      return res.status(400).json({
+        success: false,
+        message: `userId, resourceType (${RESOURCE_TYPES.join(', ')}) and resourceId are required`
+      });
+    }
+
+    if (!ACCESS_LEVELS.includes(access)) {
+      return res.status(400).json({
+        success: false,
+        message: `access must be one of: ${ACCESS_LEVELS.join(', ')}`
+      });
+    }
+
+    const scope = await findResourceScope(resourceType, resourceId);
+
+    if (!scope) {
+      return res.status(404).json({
+        success: false,
+        message: 'Resource not found'
+      });
+    }
+
+    if (!(await canManageGrants(req.user, scope))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to manage access to this resource'
+      });
+    }
+
+    if (userId === scope.holderId) {
+      return res.status(400).json({
+        success: false,
+        message: 'This user already owns or manages the resource'
+      });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const grant = await prisma.resourceGrant.upsert({
+      where: {
+        userId_resourceType_resourceId: { userId, resourceType: scope.type, resourceId: scope.id }
+      },
+      create: {
+        userId,
+        resourceType: scope.type,
+        resourceId: scope.id,
+        access: access as AccessLevel,
+        grantedById: req.user!.id
+      },
+      update: {
+        access: access as AccessLevel,
+        grantedById: req.user!.id
+      },
+      include: {
+        user: { select: { id: true, firstName: true, lastName: true, email: true, role: true } }
+      }
+    });
+
+    // Live sockets rejoin their alert rooms with the new access
+    getSocketEmitters()?.disconnectUser(userId);
+
+    return res.status(201).json({
+      success: true,
+      message: 'Access granted successfully',
+      data: { grant }
+    });
+  } catch (error) {
+    console.error('Create grant error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to grant access'
+    });
+  }
+};
+
+/**
+ * Revoke a grant
+ */
+export const deleteGrant = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const grant = await prisma.resourceGrant.findUnique({ where: { id } });
+    const scope = grant && (await findResourceScope(grant.resourceType as ResourceType, grant.resourceId));
+
+    if (!grant || !scope) {
+      return res.status(404).json({
+        success: false,
+        message: 'Grant not found'
+      });
+    }
+
+    if (!(await canManageGrants(req.user, scope))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to manage access to this resource'
+      });
+    }
+
+    await prisma.resourceGrant.delete({ where: { id } });
+    getSocketEmitters()?.disconnectUser(grant.userId);
+
+    return res.json({
+      success: true,
+      message: 'Access revoked successfully'
+    });
+  } catch (error) {
+    console.error('Delete grant error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to revoke access'
+    });
+  }
+};
@@ -4,15 +4,84 @@
  */
 
 import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import prisma from '../utils/db';
+import { ALERT_SEVERITIES, RULE_TYPES } from '../services/alert.engine';
+import { getSocketEmitters } from '../socket/socket.handlers';
+import { notifyInBackground } from '../services/notification.service';
+import { recordAlert, syncGroupStatus } from '../services/alert.correlation';
+import { alertGroupVisibility, alertVisibility, canReachAlert } from '../services/alert.visibility';
+import { hasPermission, permissionsForRole } from '../services/access.permissions';
+import { canAccessResource, farmScope, landZoneScope, parkScope, ResourceType } from '../services/access.scope';
+
+const alertInclude = {
+  assignedTo: {
+    select: { id: true, firstName: true, lastName: true, email: true }
+  },
+  farm: {
+    select: { id: true, name: true }
+  },
+  park: {
+    select: { id: true, name: true }
+  },
+  parkZone: {
+    select: { id: true, name: true }
+  },
+  landZone: {
+    select: { id: true, name: true }
+  }
+};
+
+// Allowed status changes; a resolved alert only goes back to NEW through reopenAlert
+const ALERT_TRANSITIONS: Record<string, string[]> = {
+  NEW: ['ACKNOWLEDGED', 'IN_PROGRESS', 'RESOLVED'],
+  ACKNOWLEDGED: ['IN_PROGRESS', 'RESOLVED'],
+  IN_PROGRESS: ['ACKNOWLEDGED', 'RESOLVED'],
+  RESOLVED: []
+};
+
+const eventActorSelect = {
+  select: { id: true, firstName: true, lastName: true, role: true }
+};
 
 /**
  * Get all alerts
  */
 export const getAlerts = async (req: Request, res: Response) => {
   try {
-    const { status, type, severity, module } = req.query;
-    const userId = req.user?.id;
+    const { status, type, severity, module, grouped, farmId, parkId, landZoneId } = req.query;
+
+    if (grouped === 'true') {
+      const visible = await alertVisibility(req.user);
+
+      const groups = await prisma.alertGroup.findMany({
+        where: {
+          ...(status && { status: String(status) }),
+          ...(severity && { severity: String(severity) }),
+          ...(module && { module: String(module) }),
+          ...(type && { alerts: { some: { type: String(type) } } }),
+          AND: [await alertGroupVisibility(req.user)]
+        },
+        include: {
+          farm: { select: { id: true, name: true } },
+          alerts: {
+            where: visible,
+            include: alertInclude,
+            orderBy: { createdAt: 'asc' }
+          }
+        },
+        orderBy: [
+          { severity: 'desc' },
+          { lastSeenAt: 'desc' }
+        ],
+        take: 100
+      });
+
+      return res.json({
+        success: true,
+        data: { groups }
+      });
+    }
 
     const alerts = await prisma.alert.findMany({
       where: {
@@ -20,21 +89,12 @@ export const getAlerts = async (req: Request, res: Response) => {
         ...(type && { type: String(type) as any }),
         ...(severity && { severity: String(severity) as any }),
         ...(module && { module: String(module) }),
-        ...(req.user?.role !== 'ADMIN' && {
-          OR: [
-            { assignedToId: userId },
-            { farm: { ownerId: userId } }
-          ]
-        })
-      },
-      include: {
-        assignedTo: {
-          select: { id: true, firstName: true, lastName: true, email: true }
-        },
-        farm: {
-          select: { id: true, name: true }
-        }
+        ...(parkId && { parkId: String(parkId) }),
+        ...(landZoneId && { landZoneId: String(landZoneId) }),
+        ...(farmId && { farmId: String(farmId) }),
+        ...(await alertVisibility(req.user))
       },
+      include: alertInclude,
       orderBy: [
         { severity: 'desc' },
         { createdAt: 'desc' }
@@ -42,13 +102,13 @@ export const getAlerts = async (req: Request, res: Response) => {
       take: 100
     });
 
-    res.json({
+    return res.json({
       success: true,
       data: { alerts }
     });
   } catch (error) {
     console.error('Get alerts error:', error);
-    res.status(500).json({
+    return res.status(500).json({
       success: false,
       message: 'Failed to get alerts'
     });
@@ -62,14 +122,13 @@ export const getAlertById = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
-    const alert = await prisma.alert.findUnique({
-      where: { id },
+    const alert = await prisma.alert.findFirst({
+      where: { id, ...(await alertVisibility(req.user)) },
       include: {
-        assignedTo: {
-          select: { id: true, firstName: true, lastName: true, email: true }
-        },
-        farm: {
-          select: { id: true, name: true }
+        ...alertInclude,
+        events: {
+          include: { actor: eventActorSelect },
+          orderBy: { createdAt: 'asc' }
         }
       }
     });
@@ -99,7 +158,8 @@ export const getAlertById = async (req: Request, res: Response) => {
  */
 export const createAlert = async (req: Request, res: Response) => {
   try {
-    const { type, severity, title, message, details, module, entityType, entityId, latitude, longitude, location, farmId } = req.body;
+    const { type, severity, title, message, details, module, entityType, entityId, latitude, longitude, location, farmId, parkZoneId, landZoneId } = req.body;
+    let { parkId } = req.body;
 
     if (!type || !severity || !title || !message || !module) {
       return res.status(400).json({
@@ -108,29 +168,73 @@ export const createAlert = async (req: Request, res: Response) => {
       });
     }
 
-    const alert = await prisma.alert.create({
-      data: {
-        type,
-        severity,
-        title,
-        message,
-        details,
-        module,
-        entityType,
-        entityId,
-        latitude,
-        longitude,
-        location,
-        farmId
+    // A park zone alert is also an alert for its park
+    if (parkZoneId) {
+      const zone = await prisma.parkZone.findUnique({ where: { id: parkZoneId } });
+
+      if (!zone || (parkId && parkId !== zone.parkId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Park zone not found in the given park'
+        });
+      }
+      parkId = zone.parkId;
+    }
+
+    // Alerts can only be raised about resources the user can reach
+    const targets: [ResourceType, string | undefined][] = [['FARM', farmId], ['PARK', parkId], ['LAND_ZONE', landZoneId]];
+    for (const [resourceType, resourceId] of targets) {
+      if (resourceId && !(await canAccessResource(req.user, resourceType, resourceId))) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have access to the farm, park or land zone for this alert'
+        });
+      }
+    }
+
+    const { alert: recorded, duplicate } = await recordAlert({
+      type,
+      severity,
+      title,
+      message,
+      details,
+      module,
+      entityType,
+      entityId,
+      latitude,
+      longitude,
+      location,
+      farmId,
+      parkId,
+      parkZoneId,
+      landZoneId,
+      events: {
+        create: { type: 'CREATED', actorId: req.user?.id, message: 'Alert raised manually' }
       }
     });
 
-    // TODO: Trigger real-time notification via Socket.IO
+    const alert = await prisma.alert.findUniqueOrThrow({
+      where: { id: recorded.id },
+      include: alertInclude
+    });
+
+    if (duplicate) {
+      getSocketEmitters()?.emitAlertUpdate(alert);
+
+      return res.json({
+        success: true,
+        message: 'Alert matches an open alert; occurrence recorded',
+        data: { alert, duplicate }
+      });
+    }
+
+    getSocketEmitters()?.emitAlert(alert);
+    notifyInBackground(alert);
 
     return res.status(201).json({
       success: true,
       message: 'Alert created successfully',
-      data: { alert }
+      data: { alert, duplicate }
     });
   } catch (error) {
     console.error('Create alert error:', error);
@@ -143,6 +247,7 @@ export const createAlert = async (req: Request, res: Response) => {
 
 /**
  * Update alert status
+ * Only transitions in ALERT_TRANSITIONS are accepted; each change is logged
  */
 export const updateAlertStatus = async (req: Request, res: Response) => {
   try {
@@ -156,18 +261,54 @@ export const updateAlertStatus = async (req: Request, res: Response) => {
       });
     }
 
-    const alert = await prisma.alert.update({
-      where: { id },
-      data: {
-        status,
-        actionTaken,
-        ...(status === 'RESOLVED' && {
-          resolvedBy: req.user?.id,
-          resolvedAt: new Date()
-        })
-      }
+    const existing = await prisma.alert.findFirst({
+      where: { id, ...(await alertVisibility(req.user)) }
     });
 
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Alert not found'
+      });
+    }
+
+    if (!ALERT_TRANSITIONS[existing.status]?.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: existing.status === 'RESOLVED'
+          ? 'Resolved alerts must be reopened before changing status'
+          : `Cannot change alert status from ${existing.status} to ${status}`
+      });
+    }
+
+    const [alert] = await prisma.$transaction([
+      prisma.alert.update({
+        where: { id },
+        data: {
+          status,
+          ...(actionTaken !== undefined && { actionTaken }),
+          ...(status === 'ACKNOWLEDGED' && { acknowledgedAt: new Date() }),
+          ...(status === 'RESOLVED' && {
+            resolvedBy: req.user?.id,
+            resolvedAt: new Date()
+          })
+        },
+        include: alertInclude
+      }),
+      prisma.alertEvent.create({
+        data: {
+          alertId: id,
+          type: 'STATUS_CHANGED',
+          actorId: req.user?.id,
+          message: actionTaken,
+          data: JSON.stringify({ from: existing.status, to: status })
+        }
+      })
+    ]);
+
+    await syncGroupStatus(alert.groupId);
+    getSocketEmitters()?.emitAlertUpdate(alert);
+
     return res.json({
       success: true,
       message: 'Alert updated successfully',
@@ -182,6 +323,78 @@ export const updateAlertStatus = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Reopen a resolved alert
+ */
+export const reopenAlert = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    if (!reason) {
+      return res.status(400).json({
+        success: false,
+        message: 'A reason is required to reopen an alert'
+      });
+    }
+
+    const existing = await prisma.alert.findFirst({
+      where: { id, ...(await alertVisibility(req.user)) }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Alert not found'
+      });
+    }
+
+    if (existing.status !== 'RESOLVED') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only resolved alerts can be reopened'
+      });
+    }
+
+    const [alert] = await prisma.$transaction([
+      prisma.alert.update({
+        where: { id },
+        data: {
+          status: 'NEW',
+          acknowledgedAt: null,
+          resolvedBy: null,
+          resolvedAt: null
+        },
+        include: alertInclude
+      }),
+      prisma.alertEvent.create({
+        data: {
+          alertId: id,
+          type: 'REOPENED',
+          actorId: req.user?.id,
+          message: reason,
+          data: JSON.stringify({ from: 'RESOLVED', to: 'NEW' })
+        }
+      })
+    ]);
+
+    await syncGroupStatus(alert.groupId);
+    getSocketEmitters()?.emitAlertUpdate(alert);
+
+    return res.json({
+      success: true,
+      message: 'Alert reopened successfully',
+      data: { alert }
+    });
+  } catch (error) {
+    console.error('Reopen alert error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to reopen alert'
+    });
+  }
+};
+
 /**
  * Assign alert to user
  */
@@ -197,18 +410,62 @@ export const assignAlert = async (req: Request, res: Response) => {
       });
     }
 
-    const alert = await prisma.alert.update({
-      where: { id },
-      data: {
-        assignedToId,
-        status: 'ACKNOWLEDGED'
-      },
-      include: {
-        assignedTo: {
-          select: { id: true, firstName: true, lastName: true, email: true }
+    const [existing, assignee] = await Promise.all([
+      prisma.alert.findFirst({ where: { id, ...(await alertVisibility(req.user)) } }),
+      prisma.user.findUnique({ where: { id: assignedToId } })
+    ]);
+
+    if (!existing || !assignee) {
+      return res.status(404).json({
+        success: false,
+        message: existing ? 'User not found' : 'Alert not found'
+      });
+    }
+
+    if (existing.status === 'RESOLVED') {
+      return res.status(400).json({
+        success: false,
+        message: 'A resolved alert cannot be assigned'
+      });
+    }
+
+    if (assignee.status !== 'ACTIVE') {
+      return res.status(400).json({
+        success: false,
+        message: 'Alerts can only be assigned to active users'
+      });
+    }
+
+    // Assignment makes the alert visible to the assignee, so it must not reach beyond their access
+    const assigneeAccess = { id: assignee.id, permissions: await permissionsForRole(assignee.role) };
+    if (!hasPermission(assigneeAccess, 'alert:read') || !(await canReachAlert(assigneeAccess, existing))) {
+      return res.status(400).json({
+        success: false,
+        message: 'User cannot access this alert'
+      });
+    }
+
+    const [alert] = await prisma.$transaction([
+      prisma.alert.update({
+        where: { id },
+        // Assigning is not acknowledging; escalation keeps running until the assignee acknowledges
+        data: {
+          assignedToId
+        },
+        include: alertInclude
+      }),
+      prisma.alertEvent.create({
+        data: {
+          alertId: id,
+          type: 'ASSIGNED',
+          actorId: req.user?.id,
+          message: `Assigned to ${assignee.firstName} ${assignee.lastName}`,
+          data: JSON.stringify({ from: existing.assignedToId, to: assignedToId })
         }
-      }
-    });
+      })
+    ]);
+
+    getSocketEmitters()?.emitAlertAssigned(alert);
 
     return res.json({
       success: true,
@@ -229,39 +486,42 @@ export const assignAlert = async (req: Request, res: Response) => {
  */
 export const getAlertStats = async (req: Request, res: Response) => {
   try {
-    const userId = req.user?.id;
+    if (req.query.grouped === 'true') {
+      const byStatus = await prisma.alertGroup.groupBy({
+        by: ['status'],
+        where: await alertGroupVisibility(req.user),
+        _count: { _all: true },
+        _sum: { alertCount: true }
+      });
 
-    const [total, newAlerts, acknowledged, inProgress, resolved] = await Promise.all([
-      prisma.alert.count({
-        where: req.user?.role !== 'ADMIN' ? { assignedToId: userId } : undefined
-      }),
-      prisma.alert.count({
-        where: {
-          status: 'NEW',
-          ...(req.user?.role !== 'ADMIN' && { assignedToId: userId })
-        }
-      }),
-      prisma.alert.count({
-        where: {
-          status: 'ACKNOWLEDGED',
-          ...(req.user?.role !== 'ADMIN' && { assignedToId: userId })
-        }
-      }),
-      prisma.alert.count({
-        where: {
-          status: 'IN_PROGRESS',
-          ...(req.user?.role !== 'ADMIN' && { assignedToId: userId })
-        }
-      }),
-      prisma.alert.count({
-        where: {
-          status: 'RESOLVED',
-          ...(req.user?.role !== 'ADMIN' && { assignedToId: userId })
+      const countFor = (status: string) => byStatus.find(row => row.status === status)?._count._all ?? 0;
+
+      return res.json({
+        success: true,
+        data: {
+          stats: {
+            total: byStatus.reduce((sum, row) => sum + row._count._all, 0),
+            new: countFor('NEW'),
+            acknowledged: countFor('ACKNOWLEDGED'),
+            inProgress: countFor('IN_PROGRESS'),
+            resolved: countFor('RESOLVED'),
+            alerts: byStatus.reduce((sum, row) => sum + (row._sum.alertCount ?? 0), 0)
+          }
         }
-      })
+      });
+    }
+
+    const visible = await alertVisibility(req.user);
+
+    const [total, newAlerts, acknowledged, inProgress, resolved] = await Promise.all([
+      prisma.alert.count({ where: visible }),
+      prisma.alert.count({ where: { status: 'NEW', ...visible } }),
+      prisma.alert.count({ where: { status: 'ACKNOWLEDGED', ...visible } }),
+      prisma.alert.count({ where: { status: 'IN_PROGRESS', ...visible } }),
+      prisma.alert.count({ where: { status: 'RESOLVED', ...visible } })
     ]);
 
-    res.json({
+    return res.json({
       success: true,
       data: {
         stats: {
@@ -275,9 +535,482 @@ export const getAlertStats = async (req: Request, res: Response) => {
     });
   } catch (error) {
     console.error('Get alert stats error:', error);
-    res.status(500).json({
+    return res.status(500).json({
       success: false,
       message: 'Failed to get alert statistics'
     });
   }
 };
+
+/**
+ * Get an alert group with its alerts
+ */
+export const getAlertGroupById = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const visible = await alertVisibility(req.user);
+
+    const group = await prisma.alertGroup.findFirst({
+      where: { id, ...(await alertGroupVisibility(req.user)) },
+      include: {
+        farm: { select: { id: true, name: true } },
+        alerts: {
+          where: visible,
+          include: alertInclude,
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    });
+
+    if (!group) {
+      return res.status(404).json({
+        success: false,
+        message: 'Alert group not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { group }
+    });
+  } catch (error) {
+    console.error('Get alert group error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get alert group'
+    });
+  }
+};
+
+/**
+ * Resolve every open alert in a group that the user can see; the group is
+ * resolved once none of its alerts are left open
+ */
+export const resolveAlertGroup = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { actionTaken } = req.body;
+    const visible = await alertVisibility(req.user);
+
+    const group = await prisma.alertGroup.findFirst({
+      where: { id, ...(await alertGroupVisibility(req.user)) },
+      include: { alerts: { where: { status: { not: 'RESOLVED' }, AND: [visible] } } }
+    });
+
+    if (!group) {
+      return res.status(404).json({
+        success: false,
+        message: 'Alert group not found'
+      });
+    }
+
+    if (group.status === 'RESOLVED') {
+      return res.status(400).json({
+        success: false,
+        message: 'Alert group is already resolved'
+      });
+    }
+
+    const resolvedAt = new Date();
+
+    await prisma.$transaction(
+      group.alerts.flatMap(alert => [
+        prisma.alert.update({
+          where: { id: alert.id },
+          data: {
+            status: 'RESOLVED',
+            resolvedBy: req.user?.id,
+            resolvedAt,
+            ...(actionTaken !== undefined && { actionTaken })
+          }
+        }),
+        prisma.alertEvent.create({
+          data: {
+            alertId: alert.id,
+            type: 'STATUS_CHANGED',
+            actorId: req.user?.id,
+            message: actionTaken,
+            data: JSON.stringify({ from: alert.status, to: 'RESOLVED', groupId: id })
+          }
+        })
+      ])
+    );
+
+    await syncGroupStatus(id);
+
+    const resolved = await prisma.alertGroup.findUniqueOrThrow({
+      where: { id },
+      include: { alerts: { where: visible, include: alertInclude, orderBy: { createdAt: 'asc' } } }
+    });
+
+    const emitters = getSocketEmitters();
+    resolved.alerts
+      .filter(alert => group.alerts.some(open => open.id === alert.id))
+      .forEach(alert => emitters?.emitAlertUpdate(alert));
+
+    return res.json({
+      success: true,
+      message: `Resolved ${group.alerts.length} alert(s) in group`,
+      data: { group: resolved }
+    });
+  } catch (error) {
+    console.error('Resolve alert group error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to resolve alert group'
+    });
+  }
+};
+
+/**
+ * Get the comment thread for an alert
+ */
+export const getAlertComments = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const alert = await prisma.alert.findFirst({
+      where: { id, ...(await alertVisibility(req.user)) },
+      select: { id: true }
+    });
+
+    if (!alert) {
+      return res.status(404).json({
+        success: false,
+        message: 'Alert not found'
+      });
+    }
+
+    const comments = await prisma.alertEvent.findMany({
+      where: { alertId: id, type: 'COMMENT' },
+      include: { actor: eventActorSelect },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return res.json({
+      success: true,
+      data: { comments }
+    });
+  } catch (error) {
+    console.error('Get alert comments error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get alert comments'
+    });
+  }
+};
+
+/**
+ * Add a comment to an alert
+ * Comments are events, so they appear in the timeline and cannot be edited
+ */
+export const addAlertComment = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { message } = req.body;
+
+    if (!message || typeof message !== 'string' || !message.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Comment message is required'
+      });
+    }
+
+    const alert = await prisma.alert.findFirst({
+      where: { id, ...(await alertVisibility(req.user)) }
+    });
+
+    if (!alert) {
+      return res.status(404).json({
+        success: false,
+        message: 'Alert not found'
+      });
+    }
+
+    const comment = await prisma.alertEvent.create({
+      data: {
+        alertId: id,
+        type: 'COMMENT',
+        actorId: req.user?.id,
+        message: message.trim()
+      },
+      include: { actor: eventActorSelect }
+    });
+
+    getSocketEmitters()?.emitAlertUpdate({ ...alert, lastEvent: comment });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Comment added successfully',
+      data: { comment }
+    });
+  } catch (error) {
+    console.error('Add alert comment error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to add comment'
+    });
+  }
+};
+
+/**
+ * Check the user may manage rules for a farm, park or land zone: rules
+ * change what the resource raises, so they need write access to it
+ */
+const canManageRuleScope = async (
+  user: Request['user'],
+  scope: { farmId?: string | null; parkId?: string | null; zoneId?: string | null }
+) => {
+  if (scope.farmId) return canAccessResource(user, 'FARM', scope.farmId, 'WRITE');
+  if (scope.parkId) return canAccessResource(user, 'PARK', scope.parkId, 'WRITE');
+  if (scope.zoneId) return canAccessResource(user, 'LAND_ZONE', scope.zoneId, 'WRITE');
+  return false;
+};
+
+/**
+ * Validate rule fields shared by create and update, returning the problem or null
+ */
+const validateRuleFields = (fields: any): string | null => {
+  if (fields.threshold !== undefined && (typeof fields.threshold !== 'number' || !Number.isFinite(fields.threshold))) {
+    return 'threshold must be a number';
+  }
+  if (fields.severity !== undefined && !ALERT_SEVERITIES.includes(fields.severity)) {
+    return `Invalid severity: ${fields.severity}`;
+  }
+  if (fields.cooldownMinutes !== undefined && (!Number.isInteger(fields.cooldownMinutes) || fields.cooldownMinutes < 0)) {
+    return 'cooldownMinutes must be a non-negative integer';
+  }
+  return null;
+};
+
+/**
+ * Rules on the farms, parks and land zones the user can reach
+ */
+const ruleVisibility = async (user: Request['user']): Promise<Prisma.AlertRuleWhereInput> => {
+  if (hasPermission(user, 'farm:all') && hasPermission(user, 'park:all') && hasPermission(user, 'land:all')) {
+    return {};
+  }
+
+  const [farm, park, zone] = await Promise.all([farmScope(user), parkScope(user), landZoneScope(user)]);
+  return { OR: [{ farm }, { park }, { zone }] };
+};
+
+/**
+ * Get alert rules
+ */
+export const getAlertRules = async (req: Request, res: Response) => {
+  try {
+    const { farmId, parkId, zoneId, ruleType } = req.query;
+
+    const rules = await prisma.alertRule.findMany({
+      where: {
+        ...(farmId && { farmId: String(farmId) }),
+        ...(parkId && { parkId: String(parkId) }),
+        ...(zoneId && { zoneId: String(zoneId) }),
+        ...(ruleType && { ruleType: String(ruleType) }),
+        AND: [await ruleVisibility(req.user)]
+      },
+      include: {
+        farm: { select: { id: true, name: true } },
+        park: { select: { id: true, name: true } },
+        zone: { select: { id: true, name: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: { rules }
+    });
+  } catch (error) {
+    console.error('Get alert rules error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get alert rules'
+    });
+  }
+};
+
+/**
+ * Create an alert rule for a farm, park or land zone
+ */
+export const createAlertRule = async (req: Request, res: Response) => {
+  try {
+    const { name, description, ruleType, threshold, severity, cooldownMinutes, enabled, farmId, parkId, zoneId } = req.body;
+
+    if (!name || !ruleType || threshold === undefined) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please provide all required fields'
+      });
+    }
+
+    const definition = RULE_TYPES[ruleType];
+
+    if (!definition) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid rule type: ${ruleType}`
+      });
+    }
+
+    const scopeIds = { farm: farmId, park: parkId, zone: zoneId };
+    const providedScopes = Object.entries(scopeIds).filter(([, id]) => id);
+
+    if (providedScopes.length !== 1 || providedScopes[0][0] !== definition.scope) {
+      return res.status(400).json({
+        success: false,
+        message: `${ruleType} rules must be scoped to exactly one ${definition.scope}`
+      });
+    }
+
+    const validationError = validateRuleFields({ threshold, severity, cooldownMinutes });
+
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError
+      });
+    }
+
+    if (!(await canManageRuleScope(req.user, { farmId, parkId, zoneId }))) {
+      return res.status(403).json({
+        success: false,
+        message: 'Insufficient permissions'
+      });
+    }
+
+    const rule = await prisma.alertRule.create({
+      data: {
+        name,
+        description,
+        ruleType,
+        threshold,
+        severity,
+        cooldownMinutes,
+        enabled,
+        farmId,
+        parkId,
+        zoneId,
+        createdById: req.user?.id
+      }
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Alert rule created successfully',
+      data: { rule }
+    });
+  } catch (error) {
+    console.error('Create alert rule error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to create alert rule'
+    });
+  }
+};
+
+/**
+ * Update an alert rule
+ * Type and scope are fixed once created
+ */
+export const updateAlertRule = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, description, threshold, severity, cooldownMinutes, enabled } = req.body;
+
+    const existing = await prisma.alertRule.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Alert rule not found'
+      });
+    }
+
+    if (!(await canManageRuleScope(req.user, existing))) {
+      return res.status(403).json({
+        success: false,
+        message: 'Insufficient permissions'
+      });
+    }
+
+    const validationError = validateRuleFields({ threshold, severity, cooldownMinutes });
+
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError
+      });
+    }
+
+    const rule = await prisma.alertRule.update({
+      where: { id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(description !== undefined && { description }),
+        ...(threshold !== undefined && { threshold }),
+        ...(severity !== undefined && { severity }),
+        ...(cooldownMinutes !== undefined && { cooldownMinutes }),
+        ...(enabled !== undefined && { enabled: Boolean(enabled) })
+      }
+    });
+
+    return res.json({
+      success: true,
+      message: 'Alert rule updated successfully',
+      data: { rule }
+    });
+  } catch (error) {
+    console.error('Update alert rule error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update alert rule'
+    });
+  }
+};
+
+/**
+ * Delete an alert rule
+ * Alerts it already raised are kept
+ */
+export const deleteAlertRule = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.alertRule.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Alert rule not found'
+      });
+    }
+
+    if (!(await canManageRuleScope(req.user, existing))) {
+      return res.status(403).json({
+        success: false,
+        message: 'Insufficient permissions'
+      });
+    }
+
+    await prisma.alertRule.delete({
+      where: { id }
+    });
+
+    return res.json({
+      success: true,
+      message: 'Alert rule deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete alert rule error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to delete alert rule'
+    });
+  }
+};
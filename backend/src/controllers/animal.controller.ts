@@ -0,0 +1,612 @@
+/**
+ * Animal Controller
+ * Animal registry lifecycle: register, edit, transfer between herds and
+ * record a sale, slaughter or death. Every change to an animal's herd or
+ * standing is kept as a movement, and the herds involved are re-counted in
+ * the same transaction. Also bulk import and export of a farm's registry.
+ */
+
+import { Request, Response } from 'express';
+import prisma from '../utils/db';
+import { canAccessResource } from '../services/access.scope';
+import { syncHerdAggregates } from '../services/herd.aggregates';
+import { meatWithdrawalEnd } from '../services/treatment.plans';
+import {
+  ACTIVE_ANIMAL_STATUSES,
+  ANIMAL_GENDERS,
+  DISPOSITIONS,
+  isActiveStatus,
+  isDuplicateTagError,
+  isTagTaken,
+  normalizeTagId
+} from '../services/animal.registry';
+import {
+  commitImport,
+  detectSheetFormat,
+  exportRegistry,
+  validateImport,
+  XLSX_CONTENT_TYPE
+} from '../services/animal.import';
+
+const movementInclude = {
+  fromHerd: { select: { id: true, name: true, farmId: true } },
+  toHerd: { select: { id: true, name: true, farmId: true } },
+  recordedBy: { select: { id: true, firstName: true, lastName: true } }
+};
+
+const duplicateTag = (res: Response, tagId: string) =>
+  res.status(409).json({
+    success: false,
+    message: `Tag ${tagId} is already registered`
+  });
+
+const invalidDate = (value: unknown) => value !== undefined && value !== null && value !== '' &&
+  Number.isNaN(new Date(String(value)).getTime());
+
+const optionalNumber = (value: unknown) => value === undefined || value === null || value === ''
+  ? undefined
+  : Number(value);
+
+/**
+ * Validate gender, age and weight with the registry import's rules, returning the problem or null
+ */
+const validateDetails = ({ gender, age, weight }: Record<string, unknown>): string | null => {
+  if (gender !== undefined && !ANIMAL_GENDERS.includes(gender as string)) {
+    return `gender must be one of: ${ANIMAL_GENDERS.join(', ')}`;
+  }
+
+  const ageValue = optionalNumber(age);
+  if (ageValue !== undefined && !(Number.isInteger(ageValue) && ageValue >= 0)) {
+    return 'age must be a whole number, 0 or more';
+  }
+
+  const weightValue = optionalNumber(weight);
+  if (weightValue !== undefined && !(Number.isFinite(weightValue) && weightValue > 0)) {
+    return 'weight must be a positive number';
+  }
+
+  return null;
+};
+
+// Vaccinations arrive as a list of records or as free text
+const serializeVaccinations = (value: unknown) => {
+  if (value === undefined) return undefined;
+  if (value === null || typeof value === 'string') return value;
+  return JSON.stringify(value);
+};
+
+/**
+ * Register a new animal in a herd
+ */
+export const registerAnimal = async (req: Request, res: Response) => {
+  try {
+    const { herdId } = req.params;
+    const { name, species, breed, gender, age, weight, status, vaccinations, registeredAt, reason, counterparty, notes } = req.body;
+    const tagId = normalizeTagId(req.body.tagId);
+
+    if (!tagId || !gender) {
+      return res.status(400).json({
+        success: false,
+        message: 'tagId and gender are required'
+      });
+    }
+
+    const problem = validateDetails({ gender, age, weight });
+    if (problem) {
+      return res.status(400).json({
+        success: false,
+        message: problem
+      });
+    }
+
+    if (status !== undefined && !isActiveStatus(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `status must be one of: ${ACTIVE_ANIMAL_STATUSES.join(', ')}`
+      });
+    }
+
+    if (invalidDate(registeredAt)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid registeredAt'
+      });
+    }
+
+    const herd = await prisma.herd.findUnique({
+      where: { id: herdId },
+      select: { animalType: true }
+    });
+
+    if (!herd) {
+      return res.status(404).json({
+        success: false,
+        message: 'Herd not found'
+      });
+    }
+
+    if (await isTagTaken(tagId)) {
+      return duplicateTag(res, tagId);
+    }
+
+    const animal = await prisma.$transaction(async (tx) => {
+      const created = await tx.animal.create({
+        data: {
+          tagId,
+          name,
+          species: species || herd.animalType,
+          breed,
+          gender,
+          age: optionalNumber(age),
+          weight: optionalNumber(weight),
+          status,
+          vaccinations: serializeVaccinations(vaccinations),
+          herdId
+        }
+      });
+
+      await tx.animalMovement.create({
+        data: {
+          type: 'REGISTRATION',
+          animalId: created.id,
+          toHerdId: herdId,
+          occurredAt: registeredAt ? new Date(registeredAt) : undefined,
+          reason,
+          counterparty,
+          notes,
+          recordedById: req.user?.id
+        }
+      });
+
+      await syncHerdAggregates(tx, herdId);
+      return created;
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Animal registered successfully',
+      data: { animal }
+    });
+  } catch (error) {
+    if (isDuplicateTagError(error)) {
+      return duplicateTag(res, normalizeTagId(req.body.tagId));
+    }
+
+    console.error('Register animal error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to register animal'
+    });
+  }
+};
+
+/**
+ * Edit an animal's registry details. Herd changes go through a transfer and
+ * leaving the herd through a disposition, so neither is accepted here.
+ */
+export const updateAnimal = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, species, breed, gender, age, weight, status, vaccinations } = req.body;
+    const tagId = req.body.tagId !== undefined ? normalizeTagId(req.body.tagId) : undefined;
+
+    if (tagId === '') {
+      return res.status(400).json({
+        success: false,
+        message: 'tagId cannot be empty'
+      });
+    }
+
+    const problem = validateDetails({ gender, age, weight });
+    if (problem) {
+      return res.status(400).json({
+        success: false,
+        message: problem
+      });
+    }
+
+    if (status !== undefined && !isActiveStatus(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `status must be one of: ${ACTIVE_ANIMAL_STATUSES.join(', ')}`
+      });
+    }
+
+    const existing = await prisma.animal.findUnique({
+      where: { id },
+      select: { status: true }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Animal not found'
+      });
+    }
+
+    if (status !== undefined && !isActiveStatus(existing.status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Animal has left the herd (${existing.status}) and its status cannot change`
+      });
+    }
+
+    if (tagId && await isTagTaken(tagId, id)) {
+      return duplicateTag(res, tagId);
+    }
+
+    const animal = await prisma.$transaction(async (tx) => {
+      const updated = await tx.animal.update({
+        where: { id },
+        data: {
+          tagId,
+          name,
+          species,
+          breed,
+          gender,
+          age: optionalNumber(age),
+          weight: optionalNumber(weight),
+          status,
+          vaccinations: serializeVaccinations(vaccinations)
+        }
+      });
+      await syncHerdAggregates(tx, updated.herdId);
+      return updated;
+    });
+
+    return res.json({
+      success: true,
+      message: 'Animal updated successfully',
+      data: { animal }
+    });
+  } catch (error) {
+    if (isDuplicateTagError(error)) {
+      return duplicateTag(res, normalizeTagId(req.body.tagId));
+    }
+
+    console.error('Update animal error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update animal'
+    });
+  }
+};
+
+/**
+ * Move an animal to another herd, possibly on another farm the user can write to
+ */
+export const transferAnimal = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { toHerdId, date, reason, counterparty, notes } = req.body;
+
+    if (!toHerdId) {
+      return res.status(400).json({
+        success: false,
+        message: 'toHerdId is required'
+      });
+    }
+
+    if (invalidDate(date)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid date'
+      });
+    }
+
+    const [animal, toHerd] = await Promise.all([
+      prisma.animal.findUnique({
+        where: { id },
+        select: { herdId: true, status: true, herd: { select: { quarantined: true } } }
+      }),
+      prisma.herd.findUnique({ where: { id: toHerdId }, select: { id: true, farmId: true, quarantined: true } })
+    ]);
+
+    if (!animal) {
+      return res.status(404).json({
+        success: false,
+        message: 'Animal not found'
+      });
+    }
+
+    if (!toHerd) {
+      return res.status(404).json({
+        success: false,
+        message: 'Destination herd not found'
+      });
+    }
+
+    if (!await canAccessResource(req.user, 'FARM', toHerd.farmId, 'WRITE')) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied to the destination herd'
+      });
+    }
+
+    if (!isActiveStatus(animal.status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Animal has left the herd (${animal.status}) and cannot be transferred`
+      });
+    }
+
+    if (animal.herd.quarantined || toHerd.quarantined) {
+      return res.status(409).json({
+        success: false,
+        message: animal.herd.quarantined
+          ? 'Animal\'s herd is quarantined; animals cannot leave it'
+          : 'Destination herd is quarantined; animals cannot join it'
+      });
+    }
+
+    if (animal.herdId === toHerd.id) {
+      return res.status(400).json({
+        success: false,
+        message: 'Animal is already in that herd'
+      });
+    }
+
+    const movement = await prisma.$transaction(async (tx) => {
+      await tx.animal.update({
+        where: { id },
+        data: { herdId: toHerd.id }
+      });
+
+      const created = await tx.animalMovement.create({
+        data: {
+          type: 'TRANSFER',
+          animalId: id,
+          fromHerdId: animal.herdId,
+          toHerdId: toHerd.id,
+          occurredAt: date ? new Date(date) : undefined,
+          reason,
+          counterparty,
+          notes,
+          recordedById: req.user?.id
+        },
+        include: movementInclude
+      });
+
+      await syncHerdAggregates(tx, animal.herdId);
+      await syncHerdAggregates(tx, toHerd.id);
+      return created;
+    });
+
+    return res.json({
+      success: true,
+      message: 'Animal transferred successfully',
+      data: { movement }
+    });
+  } catch (error) {
+    console.error('Transfer animal error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to transfer animal'
+    });
+  }
+};
+
+/**
+ * Record that an animal was sold, slaughtered or died. The animal stays in
+ * the registry with its final status so its history remains readable.
+ */
+export const disposeAnimal = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { type, date, reason, counterparty, price, notes } = req.body;
+
+    if (!DISPOSITIONS[type]) {
+      return res.status(400).json({
+        success: false,
+        message: `type must be one of: ${Object.keys(DISPOSITIONS).join(', ')}`
+      });
+    }
+
+    if (invalidDate(date)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid date'
+      });
+    }
+
+    const amount = optionalNumber(price);
+    if (amount !== undefined && (!Number.isFinite(amount) || amount < 0)) {
+      return res.status(400).json({
+        success: false,
+        message: 'price must be a non-negative number'
+      });
+    }
+
+    const animal = await prisma.animal.findUnique({
+      where: { id },
+      select: { herdId: true, status: true, herd: { select: { quarantined: true } } }
+    });
+
+    if (!animal) {
+      return res.status(404).json({
+        success: false,
+        message: 'Animal not found'
+      });
+    }
+
+    if (!isActiveStatus(animal.status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Animal has already left the herd (${animal.status})`
+      });
+    }
+
+    // Only a sale moves a live animal off the farm; deaths and culls are still recorded
+    if (type === 'SALE' && animal.herd.quarantined) {
+      return res.status(409).json({
+        success: false,
+        message: 'Animal\'s herd is quarantined; it cannot be sold'
+      });
+    }
+
+    // Meat from an animal still under drug withdrawal cannot enter the food chain
+    if (type === 'SLAUGHTER') {
+      const withdrawalEnds = await meatWithdrawalEnd(id, date ? new Date(date) : new Date());
+      if (withdrawalEnds) {
+        return res.status(409).json({
+          success: false,
+          message: `Animal is under drug withdrawal until ${withdrawalEnds.toISOString()}`
+        });
+      }
+    }
+
+    const movement = await prisma.$transaction(async (tx) => {
+      await tx.animal.update({
+        where: { id },
+        data: { status: DISPOSITIONS[type] }
+      });
+
+      const created = await tx.animalMovement.create({
+        data: {
+          type,
+          animalId: id,
+          fromHerdId: animal.herdId,
+          occurredAt: date ? new Date(date) : undefined,
+          reason,
+          counterparty,
+          price: amount,
+          notes,
+          recordedById: req.user?.id
+        },
+        include: movementInclude
+      });
+
+      await syncHerdAggregates(tx, animal.herdId);
+      return created;
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Disposition recorded successfully',
+      data: { movement }
+    });
+  } catch (error) {
+    console.error('Dispose animal error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to record disposition'
+    });
+  }
+};
+
+/**
+ * An animal's registration, transfers and disposition, newest first
+ */
+export const getAnimalMovements = async (req: Request, res: Response) => {
+  try {
+    const movements = await prisma.animalMovement.findMany({
+      where: { animalId: req.params.id },
+      include: movementInclude,
+      orderBy: { occurredAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: { movements }
+    });
+  } catch (error) {
+    console.error('Get animal movements error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get animal movements'
+    });
+  }
+};
+
+/**
+ * Import animals from a CSV or XLSX sheet sent as the request body.
+ * `dryRun=true` only returns the validation report. Otherwise the sheet is
+ * imported only when every row is valid; a sheet with errors writes nothing.
+ */
+export const importAnimals = async (req: Request, res: Response) => {
+  try {
+    const { farmId } = req.params;
+    const dryRun = req.query.dryRun === 'true';
+
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Send the sheet as the request body with Content-Type text/csv or ${XLSX_CONTENT_TYPE}`
+      });
+    }
+
+    let validation;
+    try {
+      validation = await validateImport(farmId, req.body, detectSheetFormat(req.get('content-type'), req.body));
+    } catch {
+      return res.status(400).json({
+        success: false,
+        message: 'Could not read the sheet; check it is a valid CSV or XLSX file'
+      });
+    }
+
+    const { report, rows } = validation;
+
+    if (dryRun || report.errors.length > 0) {
+      return res.status(dryRun ? 200 : 422).json({
+        success: dryRun,
+        message: report.errors.length > 0
+          ? `${report.errors.length} problem(s) found; nothing was imported`
+          : `${report.validRows} animal(s) ready to import`,
+        data: { report, dryRun }
+      });
+    }
+
+    if (rows.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'The sheet has no animals',
+        data: { report, dryRun }
+      });
+    }
+
+    const result = await commitImport(rows, req.user?.id);
+
+    return res.status(201).json({
+      success: true,
+      message: `${result.created} animal(s) imported`,
+      data: { report, dryRun, created: result.created }
+    });
+  } catch (error) {
+    if (isDuplicateTagError(error)) {
+      return res.status(409).json({
+        success: false,
+        message: 'A tag in the sheet was registered while importing; validate the sheet again'
+      });
+    }
+
+    console.error('Import animals error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to import animals'
+    });
+  }
+};
+
+/**
+ * Download a farm's active animals as CSV (default) or XLSX, in import columns
+ */
+export const exportAnimals = async (req: Request, res: Response) => {
+  try {
+    const { farmId } = req.params;
+    const format = req.query.format === 'xlsx' ? 'xlsx' : 'csv';
+
+    const file = await exportRegistry(farmId, format);
+    const filename = `animals-${farmId}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Content-Type', format === 'xlsx' ? XLSX_CONTENT_TYPE : 'text/csv; charset=utf-8');
+    return res.send(file);
+  } catch (error) {
+    console.error('Export animals error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to export animals'
+    });
+  }
+};
@@ -0,0 +1,199 @@
+/**
+ * Audit Controller
+ * Search and export the audit trail, and show one record's history
+ */
+
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/db';
+import { csvCell } from '../utils/csv';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const MAX_EXPORT_ROWS = 10000;
+
+const EXPORT_COLUMNS = [
+  'timestamp', 'userEmail', 'action', 'type', 'module', 'entityType', 'entityId',
+  'description', 'changes', 'ipAddress', 'userAgent'
+] as const;
+
+const activityInclude = {
+  user: { select: { id: true, firstName: true, lastName: true, email: true } }
+};
+
+type AuditActivity = Prisma.ActivityGetPayload<{ include: typeof activityInclude }>;
+
+const parseJson = (value: string | null) => {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const toEntry = (activity: AuditActivity) => ({
+  ...activity,
+  changes: parseJson(activity.changes),
+  metadata: parseJson(activity.metadata)
+});
+
+/**
+ * Build the filter shared by search and export
+ */
+const auditFilter = (query: Request['query']): Prisma.ActivityWhereInput => {
+  const { userId, module, entityType, entityId, action, type, q, from, to } = query;
+
+  return {
+    ...(userId && { userId: String(userId) }),
+    ...(module && { module: String(module) }),
+    ...(entityType && { entityType: String(entityType) }),
+    ...(entityId && { entityId: String(entityId) }),
+    ...(action && { action: String(action) }),
+    ...(type && { type: String(type) }),
+    ...(q && {
+      OR: [
+        { description: { contains: String(q) } },
+        { ipAddress: { contains: String(q) } },
+        { user: { email: { contains: String(q) } } }
+      ]
+    }),
+    ...((from || to) && {
+      timestamp: {
+        ...(from && { gte: new Date(String(from)) }),
+        ...(to && { lte: new Date(String(to)) })
+      }
+    })
+  };
+};
+
+const invalidDate = (query: Request['query']) =>
+  [query.from, query.to].some(value => value && Number.isNaN(new Date(String(value)).getTime()));
+
+/**
+ * Search the audit trail, newest first
+ */
+export const getAuditLog = async (req: Request, res: Response) => {
+  try {
+    if (invalidDate(req.query)) {
+      return res.status(400).json({
+        success: false,
+        message: 'from and to must be valid dates'
+      });
+    }
+
+    const page = Math.max(1, parseInt(String(req.query.page ?? 1), 10) || 1);
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(String(req.query.limit ?? DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE));
+    const where = auditFilter(req.query);
+
+    const [activities, total] = await Promise.all([
+      prisma.activity.findMany({
+        where,
+        include: activityInclude,
+        orderBy: { timestamp: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.activity.count({ where })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        activities: activities.map(toEntry),
+        total,
+        page,
+        limit
+      }
+    });
+  } catch (error) {
+    console.error('Get audit log error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get audit log'
+    });
+  }
+};
+
+/**
+ * Export matching audit entries as CSV (default) or JSON
+ */
+export const exportAuditLog = async (req: Request, res: Response) => {
+  try {
+    const format = req.query.format === 'json' ? 'json' : 'csv';
+
+    if (invalidDate(req.query)) {
+      return res.status(400).json({
+        success: false,
+        message: 'from and to must be valid dates'
+      });
+    }
+
+    const activities = await prisma.activity.findMany({
+      where: auditFilter(req.query),
+      include: activityInclude,
+      orderBy: { timestamp: 'desc' },
+      take: MAX_EXPORT_ROWS
+    });
+
+    const filename = `audit-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'json') {
+      return res.json(activities.map(toEntry));
+    }
+
+    const rows = activities.map(activity => {
+      const row: Record<typeof EXPORT_COLUMNS[number], unknown> = {
+        timestamp: activity.timestamp.toISOString(),
+        userEmail: activity.user?.email,
+        action: activity.action,
+        type: activity.type,
+        module: activity.module,
+        entityType: activity.entityType,
+        entityId: activity.entityId,
+        description: activity.description,
+        changes: activity.changes,
+        ipAddress: activity.ipAddress,
+        userAgent: activity.userAgent
+      };
+      return EXPORT_COLUMNS.map(column => csvCell(row[column])).join(',');
+    });
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    return res.send([EXPORT_COLUMNS.join(','), ...rows].join('\n'));
+  } catch (error) {
+    console.error('Export audit log error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to export audit log'
+    });
+  }
+};
+
+/**
+ * History of one record, for its own page. The route checks access to the
+ * record; this only picks the entity type.
+ */
+export const getEntityHistory = (entityType: string, param = 'id') =>
+  async (req: Request, res: Response) => {
+    try {
+      const activities = await prisma.activity.findMany({
+        where: { entityType, entityId: req.params[param] },
+        include: activityInclude,
+        orderBy: { timestamp: 'desc' },
+        take: 200
+      });
+
+      res.json({
+        success: true,
+        data: { activities: activities.map(toEntry) }
+      });
+    } catch (error) {
+      console.error('Get entity history error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get history'
+      });
+    }
+  };
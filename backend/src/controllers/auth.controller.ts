@@ -5,8 +5,25 @@
 
 import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import prisma from '../utils/db';
+import {
+  completeLogin,
+  createSession,
+  findSessionIdByRefreshToken,
+  revokeSession,
+  revokeUserSessions,
+  rotateRefreshToken,
+  sessionContext
+} from '../services/auth.tokens';
+import { isTwoFactorRequired, signChallengeToken } from '../services/auth.mfa';
+import { lockoutRemainingSeconds, recordFailedLogin, sendAccountLocked } from '../services/auth.lockout';
+import {
+  consumeUserToken,
+  sendInBackground,
+  sendPasswordResetEmail,
+  sendVerificationEmail
+} from '../services/account.tokens';
+import { createOrganization, uniqueOrganizationSlug } from '../services/organization.members';
 
 /**
  * Register a new user
@@ -14,7 +31,7 @@ import prisma from '../utils/db';
 export const register = async (req: Request, res: Response) => {
   try {
     const {
-      email, password, firstName, lastName, phone, role, organization,
+      email, password, firstName, lastName, phone, organization,
       businessType, services, companyName, companySize, industry
     } = req.body;
 
@@ -61,42 +78,60 @@ export const register = async (req: Request, res: Response) => {
     // Hash password
     const hashedPassword = await bcrypt.hash(password, 10);
 
-    // Create user
-    const user = await prisma.user.create({
-      data: {
-        email,
-        password: hashedPassword,
-        firstName,
-        lastName,
-        phone,
-        role: role || 'FARMER',
-        organization: companyName || organization,
-        businessType: businessType || undefined,
-        services: services && Array.isArray(services) ? JSON.stringify(services) : null,
-        companyName,
-        companySize,
-        industry
-      },
-      select: {
-        id: true,
-        email: true,
-        firstName: true,
-        lastName: true,
-        role: true,
-        businessType: true,
-        services: true,
-        companyName: true,
-        industry: true,
-        createdAt: true
+    // Create the user; business accounts also get an organization they own
+    const user = await prisma.$transaction(async (tx) => {
+      const created = await tx.user.create({
+        data: {
+          email,
+          password: hashedPassword,
+          firstName,
+          lastName,
+          phone,
+          // Self-registration never grants a privileged role
+          role: 'FARMER',
+          organization: companyName || organization,
+          businessType: businessType || undefined,
+          services: services && Array.isArray(services) ? JSON.stringify(services) : null,
+          companyName,
+          companySize,
+          industry
+        },
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+          role: true,
+          businessType: true,
+          services: true,
+          companyName: true,
+          industry: true,
+          emailVerifiedAt: true,
+          twoFactorEnabled: true,
+          createdAt: true
+        }
+      });
+
+      if (businessType === 'B2B') {
+        await createOrganization(
+          {
+            name: companyName,
+            companySize: companySize || null,
+            industry: industry || null,
+            slug: await uniqueOrganizationSlug(companyName)
+          },
+          created.id,
+          tx
+        );
       }
+
+      return created;
     });
 
-    // Generate token
-    const token = jwt.sign(
-      { id: user.id, email: user.email, role: user.role },
-      process.env.JWT_SECRET || 'default-secret',
-      { expiresIn: '7d' }
-    );
+    sendInBackground(sendVerificationEmail(user));
+
+    // Start a session
+    const { token, refreshToken } = await createSession(user, sessionContext(req));
 
     // Parse services JSON string back to array for frontend
     const parsedUser = {
@@ -107,7 +142,7 @@ export const register = async (req: Request, res: Response) => {
     return res.status(201).json({
       success: true,
       message: 'User registered successfully',
-      data: { user: parsedUser, token }
+      data: { user: parsedUser, token, refreshToken }
     });
   } catch (error) {
     console.error('Registration error:', error);
@@ -145,10 +180,21 @@ export const login = async (req: Request, res: Response) => {
       });
     }
 
+    // Locked accounts are refused before the password is even compared
+    const lockedFor = lockoutRemainingSeconds(user);
+    if (lockedFor > 0) {
+      return sendAccountLocked(res, lockedFor);
+    }
+
     // Check password
     const isPasswordValid = await bcrypt.compare(password, user.password);
 
     if (!isPasswordValid) {
+      const lockedUntil = await recordFailedLogin(user.id);
+      if (lockedUntil) {
+        return sendAccountLocked(res, lockoutRemainingSeconds({ lockedUntil }));
+      }
+
       return res.status(401).json({
         success: false,
         message: 'Invalid credentials'
@@ -163,32 +209,29 @@ export const login = async (req: Request, res: Response) => {
       });
     }
 
-    // Update last login
-    await prisma.user.update({
-      where: { id: user.id },
-      data: { lastLoginAt: new Date() }
-    });
-
-    // Generate token
-    const token = jwt.sign(
-      { id: user.id, email: user.email, role: user.role },
-      process.env.JWT_SECRET || 'default-secret',
-      { expiresIn: '7d' }
-    );
+    // Second step: the password alone does not start a session
+    if (user.twoFactorEnabled) {
+      return res.json({
+        success: true,
+        message: 'Enter your authentication code',
+        data: { twoFactorRequired: true, challengeToken: signChallengeToken(user.id, 'verify') }
+      });
+    }
 
-    // Return user data (without password)
-    const { password: _, ...userData } = user;
+    if (isTwoFactorRequired(user.role)) {
+      return res.json({
+        success: true,
+        message: 'Two-factor authentication must be set up for this account',
+        data: { twoFactorSetupRequired: true, challengeToken: signChallengeToken(user.id, 'enroll') }
+      });
+    }
 
-    // Parse services JSON string back to array for frontend
-    const parsedUser = {
-      ...userData,
-      services: userData.services ? JSON.parse(userData.services) : []
-    };
+    const { user: parsedUser, token, refreshToken } = await completeLogin(user, sessionContext(req));
 
     return res.json({
       success: true,
       message: 'Login successful',
-      data: { user: parsedUser, token }
+      data: { user: parsedUser, token, refreshToken }
     });
   } catch (error) {
     console.error('Login error:', error);
@@ -230,8 +273,13 @@ export const getProfile = async (req: Request, res: Response) => {
         companyName: true,
         companySize: true,
         industry: true,
+        emailVerifiedAt: true,
+        twoFactorEnabled: true,
         createdAt: true,
-        lastLoginAt: true
+        lastLoginAt: true,
+        memberships: {
+          select: { role: true, organization: { select: { id: true, name: true, slug: true } } }
+        }
       }
     });
 
@@ -245,7 +293,8 @@ export const getProfile = async (req: Request, res: Response) => {
     // Parse services JSON string back to array for frontend
     const parsedUser = {
       ...user,
-      services: user.services ? JSON.parse(user.services) : []
+      services: user.services ? JSON.parse(user.services) : [],
+      permissions: req.user.permissions
     };
 
     return res.json({
@@ -263,26 +312,31 @@ export const getProfile = async (req: Request, res: Response) => {
 
 /**
  * Refresh token
+ * Spends the refresh token and returns a new access and refresh token pair
  */
 export const refreshToken = async (req: Request, res: Response) => {
   try {
-    if (!req.user) {
-      return res.status(401).json({
+    const { refreshToken: presented } = req.body;
+
+    if (!presented || typeof presented !== 'string') {
+      return res.status(400).json({
         success: false,
-        message: 'Not authenticated'
+        message: 'Refresh token is required'
       });
     }
 
-    // Generate new token
-    const token = jwt.sign(
-      { id: req.user.id, email: req.user.email, role: req.user.role },
-      process.env.JWT_SECRET || 'default-secret',
-      { expiresIn: '7d' }
-    );
+    const result = await rotateRefreshToken(presented, sessionContext(req));
+
+    if (result.error !== undefined) {
+      return res.status(401).json({
+        success: false,
+        message: result.error
+      });
+    }
 
     return res.json({
       success: true,
-      data: { token }
+      data: { token: result.token, refreshToken: result.refreshToken }
     });
   } catch (error) {
     console.error('Refresh token error:', error);
@@ -293,6 +347,36 @@ export const refreshToken = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Logout
+ * Revokes the session behind the refresh token; works with an expired access token
+ */
+export const logout = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken: presented } = req.body;
+
+    const sessionId = typeof presented === 'string'
+      ? await findSessionIdByRefreshToken(presented)
+      : null;
+
+    if (sessionId) {
+      await revokeSession(sessionId, 'logout');
+    }
+
+    // Always succeeds so clients can clear local state regardless
+    return res.json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    console.error('Logout error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to log out'
+    });
+  }
+};
+
 /**
  * Update user profile
  */
@@ -332,6 +416,8 @@ export const updateProfile = async (req: Request, res: Response) => {
         businessType: true,
         services: true,
         companyName: true,
+        emailVerifiedAt: true,
+        twoFactorEnabled: true,
         createdAt: true
       }
     });
@@ -415,9 +501,14 @@ export const changePassword = async (req: Request, res: Response) => {
       data: { password: hashedPassword }
     });
 
+    // Sign out everywhere, then give this device a fresh session
+    await revokeUserSessions(user.id, 'password_changed');
+    const { token, refreshToken } = await createSession(user, sessionContext(req));
+
     return res.json({
       success: true,
-      message: 'Password changed successfully'
+      message: 'Password changed successfully',
+      data: { token, refreshToken }
     });
   } catch (error) {
     console.error('Change password error:', error);
@@ -427,3 +518,176 @@ export const changePassword = async (req: Request, res: Response) => {
     });
   }
 };
+
+/**
+ * Request a password reset link
+ * Responds the same whether or not the email is registered
+ */
+export const forgotPassword = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Email is required'
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email }
+    });
+
+    if (user && user.status === 'ACTIVE') {
+      sendInBackground(sendPasswordResetEmail(user));
+    }
+
+    return res.json({
+      success: true,
+      message: 'If an account exists for that email, a reset link has been sent'
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to request password reset'
+    });
+  }
+};
+
+/**
+ * Set a new password with a reset token
+ */
+export const resetPassword = async (req: Request, res: Response) => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || !password) {
+      return res.status(400).json({
+        success: false,
+        message: 'Token and new password are required'
+      });
+    }
+
+    if (password.length < 6) {
+      return res.status(400).json({
+        success: false,
+        message: 'New password must be at least 6 characters'
+      });
+    }
+
+    const userId = await consumeUserToken(token, 'password_reset');
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Reset link is invalid or has expired'
+      });
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    // Following the emailed link also proves the address, and lifts any lockout
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        password: hashedPassword,
+        emailVerifiedAt: new Date(),
+        failedLoginCount: 0,
+        lockedUntil: null
+      }
+    });
+
+    await revokeUserSessions(user.id, 'password_reset');
+
+    return res.json({
+      success: true,
+      message: 'Password has been reset. Please sign in.'
+    });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to reset password'
+    });
+  }
+};
+
+/**
+ * Confirm an email address with a verification token
+ */
+export const verifyEmail = async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return res.status(400).json({
+        success: false,
+        message: 'Verification token is required'
+      });
+    }
+
+    const userId = await consumeUserToken(token, 'email_verification');
+
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Verification link is invalid or has expired'
+      });
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { emailVerifiedAt: new Date() }
+    });
+
+    return res.json({
+      success: true,
+      message: 'Email address verified'
+    });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to verify email'
+    });
+  }
+};
+
+/**
+ * Send a new verification link to the current user
+ */
+export const resendVerification = async (req: Request, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id }
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    if (user.emailVerifiedAt) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email address is already verified'
+      });
+    }
+
+    await sendVerificationEmail(user);
+
+    return res.json({
+      success: true,
+      message: 'Verification email sent'
+    });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to send verification email'
+    });
+  }
+};
@@ -5,14 +5,31 @@
 
 import { Request, Response } from 'express';
 import prisma from '../utils/db';
+import { alertVisibility, organizationAlerts } from '../services/alert.visibility';
+import { hasPermission } from '../services/access.permissions';
+import { farmScope, landZoneScope, parkScope, withinOrganization } from '../services/access.scope';
 
 /**
- * Get overall statistics
+ * Alerts the user can see, narrowed to one organization when the dashboard asks for it
+ */
+const dashboardAlerts = async (req: Request) => {
+  const { organizationId } = req.query;
+  const visible = await alertVisibility(req.user);
+  return organizationId ? { AND: [visible, organizationAlerts(String(organizationId))] } : visible;
+};
+
+/**
+ * Get overall statistics; `organizationId` narrows every figure to one organization
  */
 export const getOverviewStats = async (req: Request, res: Response) => {
   try {
-    const userId = req.user?.id;
-    const isAdmin = req.user?.role === 'ADMIN';
+    const { organizationId } = req.query;
+    const [farm, park, landZone, visibleAlerts] = await Promise.all([
+      farmScope(req.user).then(scope => withinOrganization(scope, organizationId)),
+      parkScope(req.user).then(scope => withinOrganization(scope, organizationId)),
+      landZoneScope(req.user).then(scope => withinOrganization(scope, organizationId)),
+      dashboardAlerts(req)
+    ]);
 
     const [
       farmsCount,
@@ -26,43 +43,45 @@ export const getOverviewStats = async (req: Request, res: Response) => {
     ] = await Promise.all([
       // Farms
       prisma.farm.count({
-        where: !isAdmin ? { ownerId: userId } : undefined
+        where: farm
       }),
 
       // Herds
       prisma.herd.count({
-        where: !isAdmin ? { farm: { ownerId: userId } } : undefined
+        where: { farm }
       }),
 
       // Animals
       prisma.animal.count({
-        where: !isAdmin ? { herd: { farm: { ownerId: userId } } } : undefined
+        where: { herd: { farm } }
       }),
 
       // Parks
       prisma.park.count({
-        where: !isAdmin ? { managerId: userId } : undefined
+        where: park
       }),
 
       // Wildlife populations
       prisma.wildlifePopulation.count({
-        where: !isAdmin ? { park: { managerId: userId } } : undefined
+        where: { park }
       }),
 
       // Land zones
-      prisma.landZone.count(),
+      prisma.landZone.count({
+        where: landZone
+      }),
 
       // Active alerts
       prisma.alert.count({
         where: {
           status: { not: 'RESOLVED' },
-          ...(!isAdmin && { assignedToId: userId })
+          ...visibleAlerts
         }
       }),
 
       // Recent activities
       prisma.activity.findMany({
-        where: !isAdmin ? { userId } : undefined,
+        where: hasPermission(req.user, 'user:read') ? undefined : { userId: req.user?.id },
         orderBy: { timestamp: 'desc' },
         take: 10,
         include: {
@@ -102,8 +121,10 @@ export const getOverviewStats = async (req: Request, res: Response) => {
  */
 export const getFarmDashboard = async (req: Request, res: Response) => {
   try {
-    const userId = req.user?.id;
-    const isAdmin = req.user?.role === 'ADMIN';
+    const [farm, visibleAlerts] = await Promise.all([
+      farmScope(req.user).then(scope => withinOrganization(scope, req.query.organizationId)),
+      dashboardAlerts(req)
+    ]);
 
     const [
       totalAnimals,
@@ -112,18 +133,20 @@ export const getFarmDashboard = async (req: Request, res: Response) => {
       missingAnimals,
       herds,
       recentAlerts,
-      healthTrend
+      healthTrend,
+      quarantinedHerds,
+      activeOutbreaks
     ] = await Promise.all([
       // Total animals
       prisma.animal.count({
-        where: !isAdmin ? { herd: { farm: { ownerId: userId } } } : undefined
+        where: { herd: { farm } }
       }),
 
       // Healthy animals
       prisma.animal.count({
         where: {
           status: 'HEALTHY',
-          ...(!isAdmin && { herd: { farm: { ownerId: userId } } })
+          herd: { farm }
         }
       }),
 
@@ -131,7 +154,7 @@ export const getFarmDashboard = async (req: Request, res: Response) => {
       prisma.animal.count({
         where: {
           status: 'SICK',
-          ...(!isAdmin && { herd: { farm: { ownerId: userId } } })
+          herd: { farm }
         }
       }),
 
@@ -139,13 +162,13 @@ export const getFarmDashboard = async (req: Request, res: Response) => {
       prisma.animal.count({
         where: {
           status: 'MISSING',
-          ...(!isAdmin && { herd: { farm: { ownerId: userId } } })
+          herd: { farm }
         }
       }),
 
       // Herds with details
       prisma.herd.findMany({
-        where: !isAdmin ? { farm: { ownerId: userId } } : undefined,
+        where: { farm },
         include: {
           farm: {
             select: { id: true, name: true }
@@ -160,7 +183,7 @@ export const getFarmDashboard = async (req: Request, res: Response) => {
         where: {
           module: 'farm',
           status: { not: 'RESOLVED' },
-          ...(!isAdmin && { farm: { ownerId: userId } })
+          ...visibleAlerts
         },
         orderBy: { createdAt: 'desc' },
         take: 5
@@ -174,8 +197,23 @@ export const getFarmDashboard = async (req: Request, res: Response) => {
           detectedAt: {
             gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
           },
-          ...(!isAdmin && { animal: { herd: { farm: { ownerId: userId } } } })
+          animal: { herd: { farm } }
         }
+      }),
+
+      // Herds under quarantine
+      prisma.herd.count({
+        where: { quarantined: true, farm }
+      }),
+
+      // Outbreaks affecting these farms
+      prisma.outbreak.findMany({
+        where: {
+          status: 'ACTIVE',
+          herds: { some: { farm } }
+        },
+        select: { id: true, disease: true, caseCount: true, animalCount: true, lastCaseAt: true, alertId: true },
+        orderBy: { lastCaseAt: 'desc' }
       })
     ]);
 
@@ -187,11 +225,13 @@ export const getFarmDashboard = async (req: Request, res: Response) => {
           healthyAnimals,
           sickAnimals,
           missingAnimals,
-          healthRate: totalAnimals > 0 ? ((healthyAnimals / totalAnimals) * 100).toFixed(1) : '0'
+          healthRate: totalAnimals > 0 ? ((healthyAnimals / totalAnimals) * 100).toFixed(1) : '0',
+          quarantinedHerds
         },
         herds,
         recentAlerts,
-        healthTrend
+        healthTrend,
+        activeOutbreaks
       }
     });
   } catch (error) {
@@ -208,8 +248,7 @@ export const getFarmDashboard = async (req: Request, res: Response) => {
  */
 export const getParkDashboard = async (req: Request, res: Response) => {
   try {
-    const userId = req.user?.id;
-    const isAdmin = req.user?.role === 'ADMIN';
+    const park = withinOrganization(await parkScope(req.user), req.query.organizationId);
 
     const [
       parksCount,
@@ -221,19 +260,19 @@ export const getParkDashboard = async (req: Request, res: Response) => {
     ] = await Promise.all([
       // Total parks
       prisma.park.count({
-        where: !isAdmin ? { managerId: userId } : undefined
+        where: park
       }),
 
       // Wildlife species count
       prisma.wildlifePopulation.count({
-        where: !isAdmin ? { park: { managerId: userId } } : undefined
+        where: { park }
       }),
 
       // Active patrols
       prisma.patrol.count({
         where: {
           status: { in: ['SCHEDULED', 'IN_PROGRESS'] },
-          ...(!isAdmin && { park: { managerId: userId } })
+          park
         }
       }),
 
@@ -241,7 +280,7 @@ export const getParkDashboard = async (req: Request, res: Response) => {
       prisma.incident.findMany({
         where: {
           status: { not: 'resolved' },
-          ...(!isAdmin && { park: { managerId: userId } })
+          park
         },
         orderBy: { reportedAt: 'desc' },
         take: 5,
@@ -254,7 +293,7 @@ export const getParkDashboard = async (req: Request, res: Response) => {
 
       // Wildlife populations
       prisma.wildlifePopulation.findMany({
-        where: !isAdmin ? { park: { managerId: userId } } : undefined,
+        where: { park },
         orderBy: { estimatedCount: 'desc' },
         take: 10
       }),
@@ -268,7 +307,8 @@ export const getParkDashboard = async (req: Request, res: Response) => {
         where: {
           timestamp: {
             gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
-          }
+          },
+          population: { park }
         }
       })
     ]);
@@ -299,8 +339,10 @@ export const getParkDashboard = async (req: Request, res: Response) => {
 /**
  * Get KUBE-Land dashboard data
  */
-export const getLandDashboard = async (_req: Request, res: Response) => {
+export const getLandDashboard = async (req: Request, res: Response) => {
   try {
+    const landZone = withinOrganization(await landZoneScope(req.user), req.query.organizationId);
+
     const [
       totalZones,
       healthyZones,
@@ -310,11 +352,14 @@ export const getLandDashboard = async (_req: Request, res: Response) => {
       zones
     ] = await Promise.all([
       // Total zones
-      prisma.landZone.count(),
+      prisma.landZone.count({
+        where: landZone
+      }),
 
       // Healthy zones (degradation < 30)
       prisma.landZone.count({
         where: {
+          ...landZone,
           degradationLevel: {
             lt: 30
           }
@@ -324,6 +369,7 @@ export const getLandDashboard = async (_req: Request, res: Response) => {
       // Degraded zones (degradation >= 60)
       prisma.landZone.count({
         where: {
+          ...landZone,
           degradationLevel: {
             gte: 60
           }
@@ -332,6 +378,7 @@ export const getLandDashboard = async (_req: Request, res: Response) => {
 
       // Recent changes
       prisma.landChange.findMany({
+        where: { zone: landZone },
         orderBy: { detectedAt: 'desc' },
         take: 5,
         include: {
@@ -351,12 +398,14 @@ export const getLandDashboard = async (_req: Request, res: Response) => {
         where: {
           surveyDate: {
             gte: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000)
-          }
+          },
+          zone: landZone
         }
       }),
 
       // All zones with latest survey
       prisma.landZone.findMany({
+        where: landZone,
         include: {
           surveys: {
             orderBy: { surveyDate: 'desc' },
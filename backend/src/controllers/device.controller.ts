@@ -0,0 +1,259 @@
+/**
+ * Device Controller
+ * Issue, rotate and revoke API keys for drones and ground stations (Admin only)
+ */
+
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/db';
+import { DEVICE_SCOPES, DEVICE_TYPES, generateDeviceKey } from '../services/device.keys';
+
+// Never return the stored hash
+const deviceKeySelect = {
+  id: true,
+  name: true,
+  deviceType: true,
+  keyPrefix: true,
+  farmId: true,
+  parkId: true,
+  droneId: true,
+  scopes: true,
+  status: true,
+  createdById: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  rotatedFromId: true,
+  createdAt: true,
+  farm: { select: { id: true, name: true } },
+  park: { select: { id: true, name: true } },
+  drone: { select: { id: true, callSign: true } }
+};
+
+const parseScopes = <T extends { scopes: string }>(deviceKey: T) => ({
+  ...deviceKey,
+  scopes: JSON.parse(deviceKey.scopes) as string[]
+});
+
+/**
+ * Get all device keys
+ */
+export const getDeviceKeys = async (req: Request, res: Response) => {
+  try {
+    const { status, farmId, parkId } = req.query;
+
+    const where: Prisma.DeviceKeyWhereInput = {};
+    if (status) where.status = String(status);
+    if (farmId) where.farmId = String(farmId);
+    if (parkId) where.parkId = String(parkId);
+
+    const deviceKeys = await prisma.deviceKey.findMany({
+      where,
+      select: deviceKeySelect,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: { deviceKeys: deviceKeys.map(parseScopes) }
+    });
+  } catch (error) {
+    console.error('Get device keys error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get device keys'
+    });
+  }
+};
+
+/**
+ * Issue a new device key
+ * The plain key is only included in this response
+ */
+export const issueDeviceKey = async (req: Request, res: Response) => {
+  try {
+    const { name, deviceType, farmId, parkId, droneId, scopes = ['telemetry:ingest'] } = req.body;
+
+    if (!name || !deviceType) {
+      return res.status(400).json({
+        success: false,
+        message: 'Missing required fields'
+      });
+    }
+
+    if (!DEVICE_TYPES.includes(deviceType)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid device type: ${deviceType}`
+      });
+    }
+
+    if (!farmId === !parkId) {
+      return res.status(400).json({
+        success: false,
+        message: 'A device key must be scoped to exactly one farm or park'
+      });
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0 || scopes.some((scope: string) => !DEVICE_SCOPES.includes(scope))) {
+      return res.status(400).json({
+        success: false,
+        message: `scopes must be a non-empty list of: ${DEVICE_SCOPES.join(', ')}`
+      });
+    }
+
+    const [farm, park, drone] = await Promise.all([
+      farmId ? prisma.farm.findUnique({ where: { id: farmId } }) : null,
+      parkId ? prisma.park.findUnique({ where: { id: parkId } }) : null,
+      droneId ? prisma.drone.findUnique({ where: { id: droneId } }) : null
+    ]);
+
+    if ((farmId && !farm) || (parkId && !park) || (droneId && !drone)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Farm, park or drone not found'
+      });
+    }
+
+    if (drone && ((drone.farmId && drone.farmId !== farmId) || (drone.parkId && drone.parkId !== parkId))) {
+      return res.status(400).json({
+        success: false,
+        message: 'The drone flies for a different farm or park than this key'
+      });
+    }
+
+    const { key, keyPrefix, keyHash } = generateDeviceKey();
+
+    const deviceKey = await prisma.deviceKey.create({
+      data: {
+        name,
+        deviceType,
+        keyPrefix,
+        keyHash,
+        farmId,
+        parkId,
+        droneId,
+        scopes: JSON.stringify(scopes),
+        createdById: req.user!.id
+      },
+      select: deviceKeySelect
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Device key issued. Store it now, it will not be shown again.',
+      data: { deviceKey: parseScopes(deviceKey), key }
+    });
+  } catch (error) {
+    console.error('Issue device key error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to issue device key'
+    });
+  }
+};
+
+/**
+ * Rotate a device key
+ * Issues a replacement with the same scope and revokes the old key
+ */
+export const rotateDeviceKey = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.deviceKey.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Device key not found'
+      });
+    }
+
+    if (existing.status !== 'ACTIVE') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only active device keys can be rotated'
+      });
+    }
+
+    const { key, keyPrefix, keyHash } = generateDeviceKey();
+
+    const [, deviceKey] = await prisma.$transaction([
+      prisma.deviceKey.update({
+        where: { id },
+        data: { status: 'REVOKED', revokedAt: new Date() }
+      }),
+      prisma.deviceKey.create({
+        data: {
+          name: existing.name,
+          deviceType: existing.deviceType,
+          keyPrefix,
+          keyHash,
+          farmId: existing.farmId,
+          parkId: existing.parkId,
+          droneId: existing.droneId,
+          scopes: existing.scopes,
+          createdById: req.user!.id,
+          rotatedFromId: existing.id
+        },
+        select: deviceKeySelect
+      })
+    ]);
+
+    return res.json({
+      success: true,
+      message: 'Device key rotated. Store the new key now, it will not be shown again.',
+      data: { deviceKey: parseScopes(deviceKey), key }
+    });
+  } catch (error) {
+    console.error('Rotate device key error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to rotate device key'
+    });
+  }
+};
+
+/**
+ * Revoke a device key
+ */
+export const revokeDeviceKey = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.deviceKey.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Device key not found'
+      });
+    }
+
+    const deviceKey = await prisma.deviceKey.update({
+      where: { id },
+      data: {
+        status: 'REVOKED',
+        revokedAt: existing.revokedAt ?? new Date()
+      },
+      select: deviceKeySelect
+    });
+
+    return res.json({
+      success: true,
+      message: 'Device key revoked',
+      data: { deviceKey: parseScopes(deviceKey) }
+    });
+  } catch (error) {
+    console.error('Revoke device key error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to revoke device key'
+    });
+  }
+};
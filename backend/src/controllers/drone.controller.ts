@@ -0,0 +1,868 @@
+/**
+ * Drone Controller
+ * Handles drone fleet, base camp and mission operations
+ */
+
+import { Request, Response } from 'express';
+import prisma from '../utils/db';
+import { getLaunchBlocker, launchMission, completeMission } from '../services/mission.scheduler';
+import { hasPermission } from '../services/access.permissions';
+import { canAccessDrone, canAccessResource, droneScope, missionScope } from '../services/access.scope';
+
+const MISSION_TYPES = ['surveillance', 'census', 'health_scan', 'mapping', 'patrol', 'crop_monitor', 'emergency'];
+const MISSION_SCHEDULES = ['daily', 'weekly', 'monthly', 'once'];
+const MISSION_PRIORITIES = ['low', 'normal', 'high', 'critical'];
+const CAMERA_MODES = ['photo', 'video', 'thermal', 'multispectral'];
+const DRONE_STATUSES = ['ACTIVE', 'IDLE', 'CHARGING', 'MAINTENANCE'];
+const POWER_SOURCES = ['solar', 'grid', 'hybrid'];
+const CAMP_STATUSES = ['ONLINE', 'OFFLINE', 'LOW_POWER'];
+
+const invalidDate = (value: unknown) => value !== undefined && value !== null && value !== '' &&
+  Number.isNaN(new Date(String(value)).getTime());
+
+/**
+ * Check the farm or park a drone is being assigned to, returning the problem or null
+ */
+const checkDroneAssignment = async (req: Request, farmId?: string, parkId?: string) => {
+  if (farmId && parkId) {
+    return { status: 400, message: 'A drone flies for a farm or a park, not both' };
+  }
+  if (farmId && !(await canAccessResource(req.user, 'FARM', farmId, 'WRITE'))) {
+    return { status: 403, message: 'Access denied to this farm' };
+  }
+  if (parkId && !(await canAccessResource(req.user, 'PARK', parkId, 'WRITE'))) {
+    return { status: 403, message: 'Access denied to this park' };
+  }
+  return null;
+};
+
+/**
+ * Get all drones
+ */
+export const getDrones = async (req: Request, res: Response) => {
+  try {
+    const { status, baseCampId, farmId, parkId } = req.query;
+
+    const drones = await prisma.drone.findMany({
+      where: {
+        ...(status && { status: String(status) }),
+        ...(baseCampId && { baseCampId: String(baseCampId) }),
+        ...(farmId && { farmId: String(farmId) }),
+        ...(parkId && { parkId: String(parkId) }),
+        AND: [await droneScope(req.user)]
+      },
+      include: {
+        baseCamp: {
+          select: { id: true, name: true, codename: true }
+        }
+      },
+      orderBy: { callSign: 'asc' }
+    });
+
+    res.json({
+      success: true,
+      data: { drones }
+    });
+  } catch (error) {
+    console.error('Get drones error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get drones'
+    });
+  }
+};
+
+/**
+ * Get single drone by ID
+ */
+export const getDroneById = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const drone = await prisma.drone.findUnique({
+      where: { id },
+      include: {
+        baseCamp: true,
+        missions: {
+          orderBy: { startTime: 'desc' },
+          take: 10
+        }
+      }
+    });
+
+    if (!drone) {
+      return res.status(404).json({
+        success: false,
+        message: 'Drone not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { drone }
+    });
+  } catch (error) {
+    console.error('Get drone error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get drone'
+    });
+  }
+};
+
+/**
+ * Register a new drone (Admin only)
+ */
+export const createDrone = async (req: Request, res: Response) => {
+  try {
+    const { callSign, name, model, status, battery, latitude, longitude, baseCampId, farmId, parkId } = req.body;
+
+    if (!callSign || !name || !model || latitude === undefined || longitude === undefined) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please provide all required fields'
+      });
+    }
+
+    if (status && !DRONE_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid drone status: ${status}`
+      });
+    }
+
+    const existingDrone = await prisma.drone.findUnique({
+      where: { callSign }
+    });
+
+    if (existingDrone) {
+      return res.status(400).json({
+        success: false,
+        message: 'A drone with this call sign already exists'
+      });
+    }
+
+    if (baseCampId && !(await prisma.baseCamp.findUnique({ where: { id: baseCampId } }))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Base camp not found'
+      });
+    }
+
+    const assignmentError = await checkDroneAssignment(req, farmId, parkId);
+    if (assignmentError) {
+      return res.status(assignmentError.status).json({
+        success: false,
+        message: assignmentError.message
+      });
+    }
+
+    const drone = await prisma.drone.create({
+      data: {
+        callSign,
+        name,
+        model,
+        status,
+        battery,
+        latitude,
+        longitude,
+        baseCampId,
+        farmId,
+        parkId
+      },
+      include: {
+        baseCamp: {
+          select: { id: true, name: true, codename: true }
+        }
+      }
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Drone registered successfully',
+      data: { drone }
+    });
+  } catch (error) {
+    console.error('Create drone error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to register drone'
+    });
+  }
+};
+
+/**
+ * Update drone state
+ */
+export const updateDrone = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const {
+      name, model, status, battery, altitude, speed, heading, latitude, longitude, baseCampId, farmId, parkId
+    } = req.body;
+
+    if (status && !DRONE_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid drone status: ${status}`
+      });
+    }
+
+    const existing = await prisma.drone.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Drone not found'
+      });
+    }
+
+    if (baseCampId && !(await prisma.baseCamp.findUnique({ where: { id: baseCampId } }))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Base camp not found'
+      });
+    }
+
+    // Moving a drone to another farm or park is a fleet decision
+    const reassigned = farmId !== undefined || parkId !== undefined;
+
+    if (reassigned && !hasPermission(req.user, 'drone:manage')) {
+      return res.status(403).json({
+        success: false,
+        message: 'Insufficient permissions to reassign drones'
+      });
+    }
+
+    const assignmentError = reassigned && await checkDroneAssignment(req, farmId, parkId);
+    if (assignmentError) {
+      return res.status(assignmentError.status).json({
+        success: false,
+        message: assignmentError.message
+      });
+    }
+
+    const drone = await prisma.drone.update({
+      where: { id },
+      data: {
+        name,
+        model,
+        status,
+        battery,
+        altitude,
+        speed,
+        heading,
+        latitude,
+        longitude,
+        baseCampId,
+        ...(reassigned && { farmId: farmId || null, parkId: parkId || null })
+      },
+      include: {
+        baseCamp: {
+          select: { id: true, name: true, codename: true }
+        }
+      }
+    });
+
+    return res.json({
+      success: true,
+      message: 'Drone updated successfully',
+      data: { drone }
+    });
+  } catch (error) {
+    console.error('Update drone error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update drone'
+    });
+  }
+};
+
+/**
+ * Get all base camps
+ */
+export const getBaseCamps = async (_req: Request, res: Response) => {
+  try {
+    const baseCamps = await prisma.baseCamp.findMany({
+      include: {
+        _count: {
+          select: { drones: true }
+        }
+      },
+      orderBy: { codename: 'asc' }
+    });
+
+    res.json({
+      success: true,
+      data: { baseCamps }
+    });
+  } catch (error) {
+    console.error('Get base camps error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get base camps'
+    });
+  }
+};
+
+/**
+ * Create a new base camp (Admin only)
+ */
+export const createBaseCamp = async (req: Request, res: Response) => {
+  try {
+    const {
+      name, codename, region, latitude, longitude, capacity,
+      chargingBaysTotal, chargingBaysInUse, powerSource, status, signalStrength, temperature
+    } = req.body;
+
+    if (!name || !codename || !region || latitude === undefined || longitude === undefined || !capacity || !chargingBaysTotal || !powerSource) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please provide all required fields'
+      });
+    }
+
+    if (!POWER_SOURCES.includes(powerSource)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid power source: ${powerSource}`
+      });
+    }
+
+    if (status && !CAMP_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid base camp status: ${status}`
+      });
+    }
+
+    const baseCamp = await prisma.baseCamp.create({
+      data: {
+        name,
+        codename,
+        region,
+        latitude,
+        longitude,
+        capacity,
+        chargingBaysTotal,
+        chargingBaysInUse: chargingBaysInUse || 0,
+        powerSource,
+        status,
+        signalStrength,
+        temperature
+      }
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Base camp created successfully',
+      data: { baseCamp }
+    });
+  } catch (error) {
+    console.error('Create base camp error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to create base camp'
+    });
+  }
+};
+
+/**
+ * Update base camp status (Admin only)
+ */
+export const updateBaseCamp = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, capacity, chargingBaysTotal, chargingBaysInUse, powerSource, status, signalStrength, temperature } = req.body;
+
+    if (powerSource && !POWER_SOURCES.includes(powerSource)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid power source: ${powerSource}`
+      });
+    }
+
+    if (status && !CAMP_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid base camp status: ${status}`
+      });
+    }
+
+    if (!(await prisma.baseCamp.findUnique({ where: { id }, select: { id: true } }))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Base camp not found'
+      });
+    }
+
+    const baseCamp = await prisma.baseCamp.update({
+      where: { id },
+      data: {
+        name,
+        capacity,
+        chargingBaysTotal,
+        chargingBaysInUse,
+        powerSource,
+        status,
+        signalStrength,
+        temperature
+      }
+    });
+
+    return res.json({
+      success: true,
+      message: 'Base camp updated successfully',
+      data: { baseCamp }
+    });
+  } catch (error) {
+    console.error('Update base camp error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update base camp'
+    });
+  }
+};
+
+/**
+ * Get all missions
+ */
+export const getMissions = async (req: Request, res: Response) => {
+  try {
+    const { status, droneId } = req.query;
+
+    const missions = await prisma.mission.findMany({
+      where: {
+        ...(status && { status: String(status) }),
+        ...(droneId && { droneId: String(droneId) }),
+        AND: [await missionScope(req.user)]
+      },
+      include: {
+        drone: {
+          select: { id: true, callSign: true, name: true, model: true }
+        },
+        createdBy: {
+          select: { id: true, firstName: true, lastName: true }
+        },
+        runs: {
+          orderBy: { scheduledFor: 'desc' },
+          take: 1
+        }
+      },
+      orderBy: { startTime: 'asc' }
+    });
+
+    res.json({
+      success: true,
+      data: { missions }
+    });
+  } catch (error) {
+    console.error('Get missions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get missions'
+    });
+  }
+};
+
+/**
+ * Get single mission by ID
+ */
+export const getMissionById = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const mission = await prisma.mission.findUnique({
+      where: { id },
+      include: {
+        drone: true,
+        createdBy: {
+          select: { id: true, firstName: true, lastName: true }
+        },
+        runs: {
+          orderBy: { scheduledFor: 'desc' },
+          take: 20
+        },
+        herdTelemetry: {
+          orderBy: { timestamp: 'desc' },
+          take: 50
+        }
+      }
+    });
+
+    if (!mission) {
+      return res.status(404).json({
+        success: false,
+        message: 'Mission not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { mission }
+    });
+  } catch (error) {
+    console.error('Get mission error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get mission'
+    });
+  }
+};
+
+/**
+ * Plan a new mission
+ */
+export const createMission = async (req: Request, res: Response) => {
+  try {
+    const {
+      name, type, schedule, priority, area, droneId, startTime, estimatedDuration,
+      altitude, maxSpeed, cameraMode, notes, launchNow
+    } = req.body;
+
+    if (!name || !type || !area || !droneId || (!startTime && !launchNow) || !estimatedDuration || !altitude || !maxSpeed) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please provide all required fields'
+      });
+    }
+
+    if (!MISSION_TYPES.includes(type)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid mission type: ${type}`
+      });
+    }
+
+    if (!launchNow && invalidDate(startTime)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid startTime'
+      });
+    }
+
+    if ((schedule && !MISSION_SCHEDULES.includes(schedule)) ||
+        (priority && !MISSION_PRIORITIES.includes(priority)) ||
+        (cameraMode && !CAMERA_MODES.includes(cameraMode))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid schedule, priority or camera mode'
+      });
+    }
+
+    if (!Array.isArray(area) || area.length < 3) {
+      return res.status(400).json({
+        success: false,
+        message: 'Mission area must be a polygon of at least 3 points'
+      });
+    }
+
+    const drone = await prisma.drone.findUnique({
+      where: { id: droneId }
+    });
+
+    if (!drone) {
+      return res.status(404).json({
+        success: false,
+        message: 'Drone not found'
+      });
+    }
+
+    if (!(await canAccessDrone(req.user, droneId, 'WRITE'))) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied to this drone'
+      });
+    }
+
+    if (launchNow) {
+      const blocker = getLaunchBlocker(drone);
+      if (blocker) {
+        return res.status(409).json({
+          success: false,
+          message: blocker
+        });
+      }
+    }
+
+    const firstRun = launchNow ? new Date() : new Date(startTime);
+
+    const created = await prisma.mission.create({
+      data: {
+        name,
+        type,
+        schedule,
+        priority,
+        area: JSON.stringify(area),
+        droneId,
+        createdById: req.user?.id,
+        startTime: firstRun,
+        nextRunAt: firstRun,
+        estimatedDuration,
+        altitude,
+        maxSpeed,
+        cameraMode,
+        notes
+      }
+    });
+
+    if (launchNow) {
+      await launchMission(created.id, req.user?.id);
+    }
+
+    const mission = await prisma.mission.findUnique({
+      where: { id: created.id },
+      include: {
+        drone: {
+          select: { id: true, callSign: true, name: true, model: true }
+        },
+        runs: {
+          orderBy: { scheduledFor: 'desc' },
+          take: 1
+        }
+      }
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Mission created successfully',
+      data: { mission }
+    });
+  } catch (error) {
+    console.error('Create mission error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to create mission'
+    });
+  }
+};
+
+/**
+ * Update mission plan
+ */
+export const updateMission = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const {
+      name, type, schedule, priority, area, droneId, startTime, estimatedDuration,
+      altitude, maxSpeed, cameraMode, notes
+    } = req.body;
+
+    if ((type && !MISSION_TYPES.includes(type)) ||
+        (schedule && !MISSION_SCHEDULES.includes(schedule)) ||
+        (priority && !MISSION_PRIORITIES.includes(priority)) ||
+        (cameraMode && !CAMERA_MODES.includes(cameraMode))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid type, schedule, priority or camera mode'
+      });
+    }
+
+    if (invalidDate(startTime)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid startTime'
+      });
+    }
+
+    if (area && (!Array.isArray(area) || area.length < 3)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Mission area must be a polygon of at least 3 points'
+      });
+    }
+
+    const existing = await prisma.mission.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Mission not found'
+      });
+    }
+
+    if (droneId && !(await prisma.drone.findUnique({ where: { id: droneId } }))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Drone not found'
+      });
+    }
+
+    if (droneId && !(await canAccessDrone(req.user, droneId, 'WRITE'))) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied to this drone'
+      });
+    }
+
+    // Moving the start time re-arms the schedule, including for completed one-off missions
+    const rescheduled = startTime && existing.status !== 'IN_PROGRESS';
+
+    const mission = await prisma.mission.update({
+      where: { id },
+      data: {
+        name,
+        type,
+        schedule,
+        priority,
+        area: area ? JSON.stringify(area) : undefined,
+        droneId,
+        startTime: startTime ? new Date(startTime) : undefined,
+        ...(rescheduled && {
+          nextRunAt: new Date(startTime),
+          status: 'SCHEDULED'
+        }),
+        estimatedDuration,
+        altitude,
+        maxSpeed,
+        cameraMode,
+        notes
+      },
+      include: {
+        drone: {
+          select: { id: true, callSign: true, name: true, model: true }
+        }
+      }
+    });
+
+    return res.json({
+      success: true,
+      message: 'Mission updated successfully',
+      data: { mission }
+    });
+  } catch (error) {
+    console.error('Update mission error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update mission'
+    });
+  }
+};
+
+/**
+ * Update mission status
+ * Manual launches go through the same drone readiness checks as the scheduler
+ */
+export const updateMissionStatus = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { status } = req.body;
+
+    if (status !== 'IN_PROGRESS' && status !== 'COMPLETED') {
+      return res.status(400).json({
+        success: false,
+        message: 'Status must be IN_PROGRESS or COMPLETED'
+      });
+    }
+
+    const existing = await prisma.mission.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Mission not found'
+      });
+    }
+
+    if (status === 'IN_PROGRESS') {
+      const result = await launchMission(id, req.user?.id);
+
+      if (!result) {
+        return res.status(400).json({
+          success: false,
+          message: 'Mission is already in progress'
+        });
+      }
+
+      if (result.skipReason) {
+        return res.status(409).json({
+          success: false,
+          message: result.skipReason,
+          data: { run: result.run }
+        });
+      }
+    } else {
+      const completedRuns = await completeMission(id);
+
+      if (!completedRuns) {
+        return res.status(400).json({
+          success: false,
+          message: 'Mission is not in progress'
+        });
+      }
+    }
+
+    const mission = await prisma.mission.findUnique({
+      where: { id },
+      include: {
+        drone: {
+          select: { id: true, callSign: true, name: true, model: true }
+        },
+        runs: {
+          orderBy: { scheduledFor: 'desc' },
+          take: 1
+        }
+      }
+    });
+
+    return res.json({
+      success: true,
+      message: 'Mission status updated successfully',
+      data: { mission }
+    });
+  } catch (error) {
+    console.error('Update mission status error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update mission status'
+    });
+  }
+};
+
+/**
+ * Delete a scheduled mission
+ */
+export const deleteMission = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const mission = await prisma.mission.findUnique({
+      where: { id }
+    });
+
+    if (!mission) {
+      return res.status(404).json({
+        success: false,
+        message: 'Mission not found'
+      });
+    }
+
+    if (mission.status !== 'SCHEDULED' && mission.status !== 'SKIPPED') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only scheduled or skipped missions can be deleted'
+      });
+    }
+
+    await prisma.mission.delete({
+      where: { id }
+    });
+
+    return res.json({
+      success: true,
+      message: 'Mission deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete mission error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to delete mission'
+    });
+  }
+};
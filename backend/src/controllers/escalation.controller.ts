@@ -0,0 +1,238 @@
+/**
+ * Escalation Controller
+ * Manage alert escalation policies (escalation:manage)
+ */
+
+import { Request, Response } from 'express';
+import prisma from '../utils/db';
+import { ALERT_SEVERITIES } from '../services/alert.engine';
+import { REASSIGN_TARGETS } from '../services/alert.escalation';
+import { roleNames } from '../services/access.permissions';
+
+const ALERT_MODULES = ['farm', 'park', 'land'];
+
+/**
+ * Validate a policy's steps, returning the problem or null
+ * Steps must fire in order, each later than the one before
+ */
+const validateSteps = (steps: any, roles: string[]): string | null => {
+  if (!Array.isArray(steps) || steps.length === 0) return 'steps must be a non-empty array';
+
+  let previousMinutes = 0;
+
+  for (const [index, step] of steps.entries()) {
+    if (!Number.isInteger(step.afterMinutes) || step.afterMinutes <= previousMinutes) {
+      return `Step ${index + 1}: afterMinutes must be an integer greater than the previous step`;
+    }
+    if (step.reassignTo && !REASSIGN_TARGETS.includes(step.reassignTo)) {
+      return `Step ${index + 1}: invalid reassignTo ${step.reassignTo}`;
+    }
+    if (step.reassignTo === 'user' && !step.reassignUserId) {
+      return `Step ${index + 1}: reassignUserId is required when reassigning to a user`;
+    }
+    if (step.notifyRoles && (!Array.isArray(step.notifyRoles) || step.notifyRoles.some((role: string) => !roles.includes(role)))) {
+      return `Step ${index + 1}: notifyRoles must be a list of: ${roles.join(', ')}`;
+    }
+    if (!step.reassignTo && !step.notifyRoles?.length) {
+      return `Step ${index + 1}: must reassign the alert or notify at least one role`;
+    }
+    previousMinutes = step.afterMinutes;
+  }
+
+  return null;
+};
+
+const toStepData = (steps: any[]) =>
+  steps.map((step, index) => ({
+    level: index + 1,
+    afterMinutes: step.afterMinutes,
+    reassignTo: step.reassignTo || null,
+    reassignUserId: step.reassignTo === 'user' ? step.reassignUserId : null,
+    notifyRoles: step.notifyRoles?.length ? JSON.stringify(step.notifyRoles) : null
+  }));
+
+const policyInclude = {
+  steps: {
+    orderBy: { level: 'asc' as const },
+    include: {
+      reassignUser: { select: { id: true, firstName: true, lastName: true, email: true } }
+    }
+  }
+};
+
+/**
+ * Get all escalation policies
+ */
+export const getEscalationPolicies = async (_req: Request, res: Response) => {
+  try {
+    const policies = await prisma.escalationPolicy.findMany({
+      include: policyInclude,
+      orderBy: [{ module: 'asc' }, { severity: 'asc' }]
+    });
+
+    res.json({
+      success: true,
+      data: { policies }
+    });
+  } catch (error) {
+    console.error('Get escalation policies error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get escalation policies'
+    });
+  }
+};
+
+/**
+ * Create an escalation policy with its steps
+ */
+export const createEscalationPolicy = async (req: Request, res: Response) => {
+  try {
+    const { name, module, severity, enabled, steps } = req.body;
+
+    if (!name || !severity) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please provide all required fields'
+      });
+    }
+
+    if (!ALERT_SEVERITIES.includes(severity) || (module && !ALERT_MODULES.includes(module))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid module or severity'
+      });
+    }
+
+    const stepsError = validateSteps(steps, await roleNames());
+
+    if (stepsError) {
+      return res.status(400).json({
+        success: false,
+        message: stepsError
+      });
+    }
+
+    const policy = await prisma.escalationPolicy.create({
+      data: {
+        name,
+        module: module || null,
+        severity,
+        enabled,
+        steps: { create: toStepData(steps) }
+      },
+      include: policyInclude
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Escalation policy created successfully',
+      data: { policy }
+    });
+  } catch (error) {
+    console.error('Create escalation policy error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to create escalation policy'
+    });
+  }
+};
+
+/**
+ * Update an escalation policy
+ * When steps are given they replace the existing ones
+ */
+export const updateEscalationPolicy = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, module, severity, enabled, steps } = req.body;
+
+    const existing = await prisma.escalationPolicy.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Escalation policy not found'
+      });
+    }
+
+    if ((severity !== undefined && !ALERT_SEVERITIES.includes(severity)) || (module && !ALERT_MODULES.includes(module))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid module or severity'
+      });
+    }
+
+    const stepsError = steps !== undefined ? validateSteps(steps, await roleNames()) : null;
+
+    if (stepsError) {
+      return res.status(400).json({
+        success: false,
+        message: stepsError
+      });
+    }
+
+    const policy = await prisma.escalationPolicy.update({
+      where: { id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(module !== undefined && { module: module || null }),
+        ...(severity !== undefined && { severity }),
+        ...(enabled !== undefined && { enabled: Boolean(enabled) }),
+        ...(steps !== undefined && {
+          steps: { deleteMany: {}, create: toStepData(steps) }
+        })
+      },
+      include: policyInclude
+    });
+
+    return res.json({
+      success: true,
+      message: 'Escalation policy updated successfully',
+      data: { policy }
+    });
+  } catch (error) {
+    console.error('Update escalation policy error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update escalation policy'
+    });
+  }
+};
+
+/**
+ * Delete an escalation policy
+ */
+export const deleteEscalationPolicy = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.escalationPolicy.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Escalation policy not found'
+      });
+    }
+
+    await prisma.escalationPolicy.delete({
+      where: { id }
+    });
+
+    return res.json({
+      success: true,
+      message: 'Escalation policy deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete escalation policy error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to delete escalation policy'
+    });
+  }
+};
@@ -5,22 +5,35 @@
 
 import { Request, Response } from 'express';
 import prisma from '../utils/db';
+import { farmScope } from '../services/access.scope';
+import { canAddAssetsTo } from '../services/organization.members';
+import {
+  findCountDiscrepancies,
+  HEALTH_EVENT_SEVERITIES,
+  syncHerdAggregates
+} from '../services/herd.aggregates';
+import { ACTIVE_ANIMAL_STATUSES, INACTIVE_ANIMAL_STATUSES, isActiveStatus } from '../services/animal.registry';
 
 /**
- * Get all farms for current user
+ * Get the farms the current user owns, reaches through an organization or has been granted;
+ * `organizationId` narrows the list to one organization
  */
 export const getFarms = async (req: Request, res: Response) => {
   try {
-    const userId = req.user?.id;
+    const { organizationId } = req.query;
 
     const farms = await prisma.farm.findMany({
       where: {
-        ...(req.user?.role !== 'ADMIN' && { ownerId: userId })
+        ...(organizationId && { organizationId: String(organizationId) }),
+        AND: [await farmScope(req.user)]
       },
       include: {
         owner: {
           select: { id: true, firstName: true, lastName: true, email: true }
         },
+        organization: {
+          select: { id: true, name: true }
+        },
         herds: {
           select: {
             id: true,
@@ -103,7 +116,7 @@ export const getFarmById = async (req: Request, res: Response) => {
  */
 export const createFarm = async (req: Request, res: Response) => {
   try {
-    const { name, description, location, latitude, longitude, area } = req.body;
+    const { name, description, location, latitude, longitude, area, organizationId } = req.body;
     const ownerId = req.user?.id;
 
     if (!name || !location || !latitude || !longitude) {
@@ -113,6 +126,13 @@ export const createFarm = async (req: Request, res: Response) => {
       });
     }
 
+    if (organizationId && !(await canAddAssetsTo(req.user!, organizationId))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You cannot add farms to this organization'
+      });
+    }
+
     const farm = await prisma.farm.create({
       data: {
         name,
@@ -121,7 +141,8 @@ export const createFarm = async (req: Request, res: Response) => {
         latitude,
         longitude,
         area: area || 0,
-        ownerId: ownerId!
+        ownerId: ownerId!,
+        organizationId: organizationId || null
       },
       include: {
         owner: {
@@ -199,17 +220,21 @@ export const createHerd = async (req: Request, res: Response) => {
       });
     }
 
-    const herd = await prisma.herd.create({
-      data: {
-        name,
-        description,
-        animalType,
-        totalCount,
-        healthyCount: totalCount,
-        sickCount: 0,
-        missingCount: 0,
-        farmId
-      }
+    // The declared head count stands until animals are registered or counted
+    const herd = await prisma.$transaction(async (tx) => {
+      const created = await tx.herd.create({
+        data: {
+          name,
+          description,
+          animalType,
+          totalCount,
+          healthyCount: totalCount,
+          sickCount: 0,
+          missingCount: 0,
+          farmId
+        }
+      });
+      return syncHerdAggregates(tx, created.id);
     });
 
     return res.status(201).json({
@@ -226,6 +251,80 @@ export const createHerd = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Put a herd under quarantine or lift it. Quarantined herds cannot transfer
+ * or sell animals, nor receive animals by transfer.
+ */
+export const setHerdQuarantine = async (req: Request, res: Response) => {
+  try {
+    const { herdId } = req.params;
+    const { quarantined, reason } = req.body;
+
+    if (typeof quarantined !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        message: 'quarantined must be true or false'
+      });
+    }
+
+    const herd = await prisma.herd.update({
+      where: { id: herdId },
+      data: quarantined
+        ? { quarantined, quarantineReason: reason, quarantinedAt: new Date() }
+        : { quarantined, quarantineReason: null, quarantinedAt: null }
+    });
+
+    return res.json({
+      success: true,
+      message: quarantined ? 'Herd quarantined' : 'Herd quarantine lifted',
+      data: { herd }
+    });
+  } catch (error) {
+    console.error('Set herd quarantine error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update herd quarantine'
+    });
+  }
+};
+
+/**
+ * Herds whose registry disagrees with the latest drone count.
+ * `tolerance` (percent) hides small differences.
+ */
+export const getHerdDiscrepancies = async (req: Request, res: Response) => {
+  try {
+    const { farmId, tolerance } = req.query;
+    const tolerancePercent = tolerance !== undefined ? Number(tolerance) : 0;
+
+    if (!Number.isFinite(tolerancePercent) || tolerancePercent < 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'tolerance must be a non-negative number'
+      });
+    }
+
+    const discrepancies = await findCountDiscrepancies(
+      {
+        ...(farmId && { farmId: String(farmId) }),
+        farm: await farmScope(req.user)
+      },
+      tolerancePercent
+    );
+
+    return res.json({
+      success: true,
+      data: { discrepancies }
+    });
+  } catch (error) {
+    console.error('Get herd discrepancies error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get herd discrepancies'
+    });
+  }
+};
+
 /**
  * Get animals in a herd
  */
@@ -284,6 +383,20 @@ export const getAnimalById = async (req: Request, res: Response) => {
         telemetry: {
           orderBy: { timestamp: 'desc' },
           take: 50
+        },
+        movements: {
+          include: {
+            fromHerd: { select: { id: true, name: true } },
+            toHerd: { select: { id: true, name: true } }
+          },
+          orderBy: { occurredAt: 'desc' }
+        },
+        treatmentPlans: {
+          include: { doses: { orderBy: { scheduledAt: 'asc' } } },
+          orderBy: { createdAt: 'desc' }
+        },
+        vaccinationRecords: {
+          orderBy: { administeredAt: 'desc' }
         }
       }
     });
@@ -308,6 +421,307 @@ export const getAnimalById = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Change an animal's status; the herd's counters follow in the same transaction
+ */
+export const updateAnimalStatus = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { status } = req.body;
+
+    if (!isActiveStatus(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `status must be one of: ${ACTIVE_ANIMAL_STATUSES.join(', ')}; record a sale, slaughter or death as a disposition`
+      });
+    }
+
+    const existing = await prisma.animal.findUnique({
+      where: { id },
+      select: { status: true }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Animal not found'
+      });
+    }
+
+    if (!isActiveStatus(existing.status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Animal has left the herd (${existing.status}) and its status cannot change`
+      });
+    }
+
+    const animal = await prisma.$transaction(async (tx) => {
+      const updated = await tx.animal.update({
+        where: { id },
+        data: { status }
+      });
+      await syncHerdAggregates(tx, updated.herdId);
+      return updated;
+    });
+
+    return res.json({
+      success: true,
+      message: 'Animal status updated successfully',
+      data: { animal }
+    });
+  } catch (error) {
+    console.error('Update animal status error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update animal status'
+    });
+  }
+};
+
+/**
+ * Record a health event for an animal, optionally changing its status
+ */
+export const createHealthEvent = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { type, severity, description, diagnosis, treatment, detectedBy, detectedAt, status } = req.body;
+
+    if (!type || !description || !HEALTH_EVENT_SEVERITIES.includes(severity)) {
+      return res.status(400).json({
+        success: false,
+        message: `type, description and severity (${HEALTH_EVENT_SEVERITIES.join(', ')}) are required`
+      });
+    }
+
+    if (status !== undefined && !isActiveStatus(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `status must be one of: ${ACTIVE_ANIMAL_STATUSES.join(', ')}`
+      });
+    }
+
+    if (detectedAt && isNaN(new Date(detectedAt).getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid detectedAt'
+      });
+    }
+
+    const existing = await prisma.animal.findUnique({
+      where: { id },
+      select: { status: true }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Animal not found'
+      });
+    }
+
+    // A case can still be recorded for an animal that has left, but it stays gone
+    if (status && !isActiveStatus(existing.status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Animal has left the herd (${existing.status}) and its status cannot change`
+      });
+    }
+
+    const healthEvent = await prisma.$transaction(async (tx) => {
+      const created = await tx.healthEvent.create({
+        data: {
+          animalId: id,
+          type,
+          severity,
+          description,
+          diagnosis,
+          treatment,
+          detectedBy: detectedBy || 'manual',
+          detectedAt: detectedAt ? new Date(detectedAt) : undefined
+        }
+      });
+
+      const animal = await tx.animal.update({
+        where: { id, ...(status && { status: { notIn: INACTIVE_ANIMAL_STATUSES } }) },
+        data: {
+          lastHealthCheck: created.detectedAt,
+          ...(status && { status })
+        }
+      });
+
+      await syncHerdAggregates(tx, animal.herdId);
+      return created;
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Health event recorded successfully',
+      data: { healthEvent }
+    });
+  } catch (error) {
+    console.error('Create health event error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to record health event'
+    });
+  }
+};
+
+/**
+ * Get an animal's health cases with their treatment plans, newest first
+ */
+export const getHealthEvents = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { open } = req.query;
+
+    const healthEvents = await prisma.healthEvent.findMany({
+      where: {
+        animalId: id,
+        ...(open === 'true' && { resolvedAt: null })
+      },
+      include: {
+        treatmentPlans: {
+          include: { doses: { orderBy: { scheduledAt: 'asc' } } }
+        }
+      },
+      orderBy: { detectedAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: { healthEvents }
+    });
+  } catch (error) {
+    console.error('Get health events error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get health events'
+    });
+  }
+};
+
+/**
+ * Update a health case's diagnosis, treatment notes, outcome or severity
+ */
+export const updateHealthEvent = async (req: Request, res: Response) => {
+  try {
+    const { id, eventId } = req.params;
+    const { type, severity, description, diagnosis, treatment, outcome } = req.body;
+
+    if (severity !== undefined && !HEALTH_EVENT_SEVERITIES.includes(severity)) {
+      return res.status(400).json({
+        success: false,
+        message: `severity must be one of: ${HEALTH_EVENT_SEVERITIES.join(', ')}`
+      });
+    }
+
+    const existing = await prisma.healthEvent.findFirst({
+      where: { id: eventId, animalId: id },
+      include: { animal: { select: { herdId: true } } }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Health event not found'
+      });
+    }
+
+    // Severity of an open case feeds the herd's health and risk scores
+    const healthEvent = await prisma.$transaction(async (tx) => {
+      const updated = await tx.healthEvent.update({
+        where: { id: eventId },
+        data: { type, severity, description, diagnosis, treatment, outcome }
+      });
+      await syncHerdAggregates(tx, existing.animal.herdId);
+      return updated;
+    });
+
+    return res.json({
+      success: true,
+      message: 'Health event updated successfully',
+      data: { healthEvent }
+    });
+  } catch (error) {
+    console.error('Update health event error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update health event'
+    });
+  }
+};
+
+/**
+ * Resolve an open health event, optionally changing the animal's status
+ */
+export const resolveHealthEvent = async (req: Request, res: Response) => {
+  try {
+    const { id, eventId } = req.params;
+    const { outcome, status } = req.body;
+
+    if (status !== undefined && !isActiveStatus(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `status must be one of: ${ACTIVE_ANIMAL_STATUSES.join(', ')}`
+      });
+    }
+
+    const existing = await prisma.healthEvent.findFirst({
+      where: { id: eventId, animalId: id },
+      include: { animal: { select: { status: true } } }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Health event not found'
+      });
+    }
+
+    if (existing.resolvedAt) {
+      return res.status(400).json({
+        success: false,
+        message: 'Health event is already resolved'
+      });
+    }
+
+    if (status && !isActiveStatus(existing.animal.status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Animal has left the herd (${existing.animal.status}) and its status cannot change`
+      });
+    }
+
+    const healthEvent = await prisma.$transaction(async (tx) => {
+      const resolved = await tx.healthEvent.update({
+        where: { id: eventId },
+        data: { resolvedAt: new Date(), outcome }
+      });
+
+      const animal = await tx.animal.update({
+        where: { id, ...(status && { status: { notIn: INACTIVE_ANIMAL_STATUSES } }) },
+        data: status ? { status } : {}
+      });
+
+      await syncHerdAggregates(tx, animal.herdId);
+      return resolved;
+    });
+
+    return res.json({
+      success: true,
+      message: 'Health event resolved successfully',
+      data: { healthEvent }
+    });
+  } catch (error) {
+    console.error('Resolve health event error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to resolve health event'
+    });
+  }
+};
+
 /**
  * Get pasture zones for a farm
  */
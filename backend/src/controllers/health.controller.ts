@@ -0,0 +1,589 @@
+/**
+ * Animal Health Controller
+ * Treatment plans with dose schedules and withdrawal periods, per-species
+ * vaccination schedules and the vaccinations given against them
+ */
+
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/db';
+import { refreshWithdrawal, TREATMENT_STATUSES } from '../services/treatment.plans';
+import { findDueVaccinations } from '../services/vaccination.schedule';
+
+const invalidDate = (value: unknown) => value !== undefined && value !== null && value !== '' &&
+  Number.isNaN(new Date(String(value)).getTime());
+
+const isDayCount = (value: unknown) => value === undefined || (Number.isInteger(Number(value)) && Number(value) >= 0);
+
+const optionalDays = (value: unknown) => (value === undefined ? undefined : Number(value));
+
+const planInclude = {
+  doses: { orderBy: { scheduledAt: 'asc' as const } },
+  healthEvent: { select: { id: true, type: true, severity: true, diagnosis: true } }
+};
+
+interface DoseInput {
+  drug?: string;
+  dosage?: string;
+  route?: string;
+  scheduledAt?: string;
+  notes?: string;
+}
+
+/**
+ * Get an animal's treatment plans, newest first
+ */
+export const getTreatmentPlans = async (req: Request, res: Response) => {
+  try {
+    const plans = await prisma.treatmentPlan.findMany({
+      where: { animalId: req.params.id },
+      include: planInclude,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: { plans }
+    });
+  } catch (error) {
+    console.error('Get treatment plans error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get treatment plans'
+    });
+  }
+};
+
+/**
+ * Prescribe a treatment plan: an ordered list of doses and the withdrawal
+ * periods that follow the last one
+ */
+export const createTreatmentPlan = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, healthEventId, prescribedBy, notes, meatWithdrawalDays, milkWithdrawalDays } = req.body;
+    const doses: DoseInput[] = Array.isArray(req.body.doses) ? req.body.doses : [];
+
+    if (!name || doses.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'name and at least one dose are required'
+      });
+    }
+
+    const badDose = doses.findIndex(dose => !dose.drug || !dose.dosage || !dose.scheduledAt || invalidDate(dose.scheduledAt));
+    if (badDose !== -1) {
+      return res.status(400).json({
+        success: false,
+        message: `Dose ${badDose + 1} needs a drug, a dosage and a valid scheduledAt`
+      });
+    }
+
+    if (!isDayCount(meatWithdrawalDays) || !isDayCount(milkWithdrawalDays)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Withdrawal periods must be whole numbers of days, 0 or more'
+      });
+    }
+
+    if (healthEventId) {
+      const healthEvent = await prisma.healthEvent.findFirst({
+        where: { id: healthEventId, animalId: id },
+        select: { id: true }
+      });
+
+      if (!healthEvent) {
+        return res.status(404).json({
+          success: false,
+          message: 'Health event not found'
+        });
+      }
+    }
+
+    const plan = await prisma.$transaction(async (tx) => {
+      const created = await tx.treatmentPlan.create({
+        data: {
+          name,
+          animalId: id,
+          healthEventId,
+          prescribedBy,
+          notes,
+          meatWithdrawalDays: optionalDays(meatWithdrawalDays),
+          milkWithdrawalDays: optionalDays(milkWithdrawalDays),
+          createdById: req.user?.id,
+          doses: {
+            create: doses.map(dose => ({
+              drug: dose.drug!,
+              dosage: dose.dosage!,
+              route: dose.route,
+              scheduledAt: new Date(dose.scheduledAt!),
+              notes: dose.notes
+            }))
+          }
+        }
+      });
+      await refreshWithdrawal(tx, created.id);
+      return tx.treatmentPlan.findUniqueOrThrow({ where: { id: created.id }, include: planInclude });
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Treatment plan created successfully',
+      data: { plan }
+    });
+  } catch (error) {
+    console.error('Create treatment plan error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to create treatment plan'
+    });
+  }
+};
+
+/**
+ * Update a plan's status, notes or withdrawal periods
+ */
+export const updateTreatmentPlan = async (req: Request, res: Response) => {
+  try {
+    const { id, planId } = req.params;
+    const { status, prescribedBy, notes, meatWithdrawalDays, milkWithdrawalDays } = req.body;
+
+    if (status !== undefined && !TREATMENT_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `status must be one of: ${TREATMENT_STATUSES.join(', ')}`
+      });
+    }
+
+    if (!isDayCount(meatWithdrawalDays) || !isDayCount(milkWithdrawalDays)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Withdrawal periods must be whole numbers of days, 0 or more'
+      });
+    }
+
+    const existing = await prisma.treatmentPlan.findFirst({
+      where: { id: planId, animalId: id },
+      select: { id: true }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Treatment plan not found'
+      });
+    }
+
+    const plan = await prisma.$transaction(async (tx) => {
+      await tx.treatmentPlan.update({
+        where: { id: planId },
+        data: {
+          status,
+          prescribedBy,
+          notes,
+          meatWithdrawalDays: optionalDays(meatWithdrawalDays),
+          milkWithdrawalDays: optionalDays(milkWithdrawalDays)
+        }
+      });
+      await refreshWithdrawal(tx, planId);
+      return tx.treatmentPlan.findUniqueOrThrow({ where: { id: planId }, include: planInclude });
+    });
+
+    return res.json({
+      success: true,
+      message: 'Treatment plan updated successfully',
+      data: { plan }
+    });
+  } catch (error) {
+    console.error('Update treatment plan error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update treatment plan'
+    });
+  }
+};
+
+/**
+ * Record that a scheduled dose was given. The plan completes with its last dose.
+ */
+export const administerDose = async (req: Request, res: Response) => {
+  try {
+    const { id, planId, doseId } = req.params;
+    const { administeredAt, administeredBy, notes } = req.body;
+
+    if (invalidDate(administeredAt)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid administeredAt'
+      });
+    }
+
+    const dose = await prisma.treatmentDose.findFirst({
+      where: { id: doseId, planId, plan: { animalId: id } },
+      include: { plan: { select: { status: true } } }
+    });
+
+    if (!dose) {
+      return res.status(404).json({
+        success: false,
+        message: 'Dose not found'
+      });
+    }
+
+    if (dose.plan.status !== 'ACTIVE') {
+      return res.status(400).json({
+        success: false,
+        message: `Treatment plan is ${dose.plan.status.toLowerCase()}`
+      });
+    }
+
+    if (dose.administeredAt) {
+      return res.status(400).json({
+        success: false,
+        message: 'Dose has already been given'
+      });
+    }
+
+    const plan = await prisma.$transaction(async (tx) => {
+      await tx.treatmentDose.update({
+        where: { id: doseId },
+        data: {
+          administeredAt: administeredAt ? new Date(administeredAt) : new Date(),
+          administeredBy,
+          notes: notes ?? dose.notes
+        }
+      });
+
+      const pending = await tx.treatmentDose.count({ where: { planId, administeredAt: null } });
+      if (pending === 0) {
+        await tx.treatmentPlan.update({ where: { id: planId }, data: { status: 'COMPLETED' } });
+      }
+
+      await refreshWithdrawal(tx, planId);
+      return tx.treatmentPlan.findUniqueOrThrow({ where: { id: planId }, include: planInclude });
+    });
+
+    return res.json({
+      success: true,
+      message: 'Dose recorded successfully',
+      data: { plan }
+    });
+  } catch (error) {
+    console.error('Administer dose error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to record dose'
+    });
+  }
+};
+
+/**
+ * Get a farm's vaccination schedules
+ */
+export const getVaccinationSchedules = async (req: Request, res: Response) => {
+  try {
+    const schedules = await prisma.vaccinationSchedule.findMany({
+      where: { farmId: req.params.farmId },
+      orderBy: [{ species: 'asc' }, { vaccine: 'asc' }]
+    });
+
+    res.json({
+      success: true,
+      data: { schedules }
+    });
+  } catch (error) {
+    console.error('Get vaccination schedules error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get vaccination schedules'
+    });
+  }
+};
+
+const validateScheduleDays = (body: Request['body']) => {
+  const { firstDoseDays, intervalDays, reminderDays } = body;
+
+  if (!isDayCount(firstDoseDays) || !isDayCount(reminderDays)) {
+    return 'firstDoseDays and reminderDays must be whole numbers of days, 0 or more';
+  }
+  if (intervalDays !== undefined && intervalDays !== null && (!Number.isInteger(Number(intervalDays)) || Number(intervalDays) < 1)) {
+    return 'intervalDays must be a whole number of days, 1 or more, or null for a single dose';
+  }
+  return null;
+};
+
+const isDuplicateSchedule = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+/**
+ * Add a vaccine to a farm's schedule for one species
+ */
+export const createVaccinationSchedule = async (req: Request, res: Response) => {
+  try {
+    const { farmId } = req.params;
+    const { species, vaccine, description, firstDoseDays, intervalDays, reminderDays, active } = req.body;
+
+    if (!species || !vaccine) {
+      return res.status(400).json({
+        success: false,
+        message: 'species and vaccine are required'
+      });
+    }
+
+    const invalid = validateScheduleDays(req.body);
+    if (invalid) {
+      return res.status(400).json({
+        success: false,
+        message: invalid
+      });
+    }
+
+    const schedule = await prisma.vaccinationSchedule.create({
+      data: {
+        farmId,
+        species,
+        vaccine,
+        description,
+        firstDoseDays: optionalDays(firstDoseDays),
+        intervalDays: intervalDays === null ? null : optionalDays(intervalDays),
+        reminderDays: optionalDays(reminderDays),
+        active
+      }
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Vaccination schedule created successfully',
+      data: { schedule }
+    });
+  } catch (error) {
+    if (isDuplicateSchedule(error)) {
+      return res.status(409).json({
+        success: false,
+        message: 'This farm already schedules that vaccine for that species'
+      });
+    }
+
+    console.error('Create vaccination schedule error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to create vaccination schedule'
+    });
+  }
+};
+
+/**
+ * Update a vaccination schedule
+ */
+export const updateVaccinationSchedule = async (req: Request, res: Response) => {
+  try {
+    const { farmId, scheduleId } = req.params;
+    const { species, vaccine, description, firstDoseDays, intervalDays, reminderDays, active } = req.body;
+
+    const invalid = validateScheduleDays(req.body);
+    if (invalid) {
+      return res.status(400).json({
+        success: false,
+        message: invalid
+      });
+    }
+
+    const existing = await prisma.vaccinationSchedule.findFirst({
+      where: { id: scheduleId, farmId },
+      select: { id: true }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Vaccination schedule not found'
+      });
+    }
+
+    const schedule = await prisma.vaccinationSchedule.update({
+      where: { id: scheduleId },
+      data: {
+        species,
+        vaccine,
+        description,
+        firstDoseDays: optionalDays(firstDoseDays),
+        intervalDays: intervalDays === null ? null : optionalDays(intervalDays),
+        reminderDays: optionalDays(reminderDays),
+        active
+      }
+    });
+
+    return res.json({
+      success: true,
+      message: 'Vaccination schedule updated successfully',
+      data: { schedule }
+    });
+  } catch (error) {
+    if (isDuplicateSchedule(error)) {
+      return res.status(409).json({
+        success: false,
+        message: 'This farm already schedules that vaccine for that species'
+      });
+    }
+
+    console.error('Update vaccination schedule error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update vaccination schedule'
+    });
+  }
+};
+
+/**
+ * Remove a vaccination schedule; vaccinations already given keep their record
+ */
+export const deleteVaccinationSchedule = async (req: Request, res: Response) => {
+  try {
+    const { farmId, scheduleId } = req.params;
+
+    const { count } = await prisma.vaccinationSchedule.deleteMany({
+      where: { id: scheduleId, farmId }
+    });
+
+    if (count === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Vaccination schedule not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Vaccination schedule deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete vaccination schedule error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to delete vaccination schedule'
+    });
+  }
+};
+
+/**
+ * Doses due or overdue on a farm. `days` looks that far ahead instead of
+ * each schedule's reminder window.
+ */
+export const getDueVaccinations = async (req: Request, res: Response) => {
+  try {
+    const { days } = req.query;
+
+    if (days !== undefined && !isDayCount(days)) {
+      return res.status(400).json({
+        success: false,
+        message: 'days must be a whole number, 0 or more'
+      });
+    }
+
+    const until = days !== undefined ? new Date(Date.now() + Number(days) * 24 * 60 * 60 * 1000) : undefined;
+    const vaccinations = await findDueVaccinations(req.params.farmId, until);
+
+    return res.json({
+      success: true,
+      data: {
+        vaccinations,
+        overdue: vaccinations.filter(vaccination => vaccination.status === 'OVERDUE').length
+      }
+    });
+  } catch (error) {
+    console.error('Get due vaccinations error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get due vaccinations'
+    });
+  }
+};
+
+/**
+ * Get an animal's vaccinations, most recent first
+ */
+export const getVaccinations = async (req: Request, res: Response) => {
+  try {
+    const vaccinations = await prisma.vaccination.findMany({
+      where: { animalId: req.params.id },
+      orderBy: { administeredAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: { vaccinations }
+    });
+  } catch (error) {
+    console.error('Get vaccinations error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get vaccinations'
+    });
+  }
+};
+
+/**
+ * Record a vaccination, against one of the farm's schedules or by vaccine name
+ */
+export const recordVaccination = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { scheduleId, administeredAt, batchNumber, administeredBy, notes } = req.body;
+    let { vaccine } = req.body;
+
+    if (!scheduleId && !vaccine) {
+      return res.status(400).json({
+        success: false,
+        message: 'scheduleId or vaccine is required'
+      });
+    }
+
+    if (invalidDate(administeredAt)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid administeredAt'
+      });
+    }
+
+    if (scheduleId) {
+      const schedule = await prisma.vaccinationSchedule.findFirst({
+        where: { id: scheduleId, farm: { herds: { some: { animals: { some: { id } } } } } },
+        select: { vaccine: true }
+      });
+
+      if (!schedule) {
+        return res.status(404).json({
+          success: false,
+          message: 'Vaccination schedule not found on this animal\'s farm'
+        });
+      }
+
+      vaccine = vaccine || schedule.vaccine;
+    }
+
+    const vaccination = await prisma.vaccination.create({
+      data: {
+        animalId: id,
+        scheduleId,
+        vaccine,
+        administeredAt: administeredAt ? new Date(administeredAt) : undefined,
+        batchNumber,
+        administeredBy,
+        notes,
+        recordedById: req.user?.id
+      }
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Vaccination recorded successfully',
+      data: { vaccination }
+    });
+  } catch (error) {
+    console.error('Record vaccination error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to record vaccination'
+    });
+  }
+};
@@ -5,18 +5,24 @@
 
 import { Request, Response } from 'express';
 import prisma from '../utils/db';
+import { hasPermission } from '../services/access.permissions';
+import { landZoneScope } from '../services/access.scope';
+import { canAddAssetsTo } from '../services/organization.members';
+import { evaluateLandSurvey, runRulesInBackground } from '../services/alert.engine';
 
 /**
- * Get all land zones
+ * Get the land zones the current user manages or has been granted
  */
 export const getLandZones = async (req: Request, res: Response) => {
   try {
-    const { region, district } = req.query;
+    const { region, district, organizationId } = req.query;
 
     const zones = await prisma.landZone.findMany({
       where: {
         ...(region && { region: String(region) }),
-        ...(district && { district: String(district) })
+        ...(district && { district: String(district) }),
+        ...(organizationId && { organizationId: String(organizationId) }),
+        AND: [await landZoneScope(req.user)]
       },
       include: {
         surveys: {
@@ -88,7 +94,7 @@ export const getLandZoneById = async (req: Request, res: Response) => {
  */
 export const createLandZone = async (req: Request, res: Response) => {
   try {
-    const { name, description, coordinates, area, region, district, landUseType, ownership } = req.body;
+    const { name, description, coordinates, area, region, district, landUseType, ownership, managerId, organizationId } = req.body;
 
     if (!name || !coordinates || !area || !region || !landUseType) {
       return res.status(400).json({
@@ -97,6 +103,13 @@ export const createLandZone = async (req: Request, res: Response) => {
       });
     }
 
+    if (organizationId && !(await canAddAssetsTo(req.user!, organizationId))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You cannot add land zones to this organization'
+      });
+    }
+
     const zone = await prisma.landZone.create({
       data: {
         name,
@@ -106,7 +119,10 @@ export const createLandZone = async (req: Request, res: Response) => {
         region,
         district,
         landUseType,
-        ownership
+        ownership,
+        // Only users over every zone may appoint another manager; others steward what they create
+        managerId: hasPermission(req.user, 'land:all') ? managerId : req.user?.id,
+        organizationId: organizationId || null
       }
     });
 
@@ -178,6 +194,8 @@ export const createSurvey = async (req: Request, res: Response) => {
       }
     });
 
+    runRulesInBackground(evaluateLandSurvey(survey));
+
     return res.status(201).json({
       success: true,
       message: 'Survey created successfully',
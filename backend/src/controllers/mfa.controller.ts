@@ -0,0 +1,386 @@
+/**
+ * Two-Factor Authentication Controller
+ * Enrollment, the code step of login, recovery codes, and admin reset
+ */
+
+import { Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import prisma from '../utils/db';
+import {
+  decryptSecret,
+  encryptSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  isTwoFactorRequired,
+  provisionTotp,
+  verifyChallengeToken,
+  verifySecondFactor,
+  verifyTotp
+} from '../services/auth.mfa';
+import { completeLogin, revokeUserSessions, sessionContext } from '../services/auth.tokens';
+import { lockoutRemainingSeconds, recordFailedLogin, sendAccountLocked } from '../services/auth.lockout';
+
+/**
+ * The user enrolling: the signed-in user, or the holder of an enrollment
+ * challenge when 2FA is mandatory and must be set up before the first session
+ */
+const findEnrollingUser = async (req: Request) => {
+  const { challengeToken } = req.body;
+
+  const userId = typeof challengeToken === 'string'
+    ? verifyChallengeToken(challengeToken, 'enroll')
+    : req.user?.id;
+
+  return userId ? prisma.user.findUnique({ where: { id: userId } }) : null;
+};
+
+/**
+ * Get the current user's two-factor status
+ */
+export const getTwoFactorStatus = async (req: Request, res: Response) => {
+  try {
+    const [user, remainingCodes] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: req.user!.id },
+        select: { twoFactorEnabled: true, role: true }
+      }),
+      prisma.recoveryCode.count({
+        where: { userId: req.user!.id, usedAt: null }
+      })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        enabled: user?.twoFactorEnabled ?? false,
+        required: user ? isTwoFactorRequired(user.role) : false,
+        recoveryCodesRemaining: remainingCodes
+      }
+    });
+  } catch (error) {
+    console.error('Get two-factor status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get two-factor status'
+    });
+  }
+};
+
+/**
+ * Start enrollment: store a new pending secret and return it as a QR code
+ */
+export const setupTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const user = await findEnrollingUser(req);
+
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Sign in again to set up two-factor authentication'
+      });
+    }
+
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is already enabled'
+      });
+    }
+
+    const secret = generateTotpSecret();
+
+    // Pending until a code from the app confirms it
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorSecret: encryptSecret(secret), twoFactorLastStep: null }
+    });
+
+    const { uri, qrCode } = await provisionTotp(user.email, secret);
+
+    return res.json({
+      success: true,
+      data: { secret, otpauthUrl: uri, qrCode }
+    });
+  } catch (error) {
+    console.error('Setup two-factor error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to start two-factor setup'
+    });
+  }
+};
+
+/**
+ * Confirm enrollment with a code from the app and issue recovery codes.
+ * When enrolling during login, this also starts the session.
+ */
+export const enableTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { code, challengeToken } = req.body;
+    const user = await findEnrollingUser(req);
+
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Sign in again to set up two-factor authentication'
+      });
+    }
+
+    if (user.twoFactorEnabled || !user.twoFactorSecret) {
+      return res.status(400).json({
+        success: false,
+        message: user.twoFactorEnabled
+          ? 'Two-factor authentication is already enabled'
+          : 'Start two-factor setup first'
+      });
+    }
+
+    const step = typeof code === 'string' ? verifyTotp(decryptSecret(user.twoFactorSecret), code.trim()) : null;
+
+    if (step === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid authentication code'
+      });
+    }
+
+    const enabled = await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorEnabled: true, twoFactorLastStep: step }
+    });
+
+    const recoveryCodes = await generateRecoveryCodes(user.id);
+
+    if (typeof challengeToken === 'string') {
+      const login = await completeLogin(enabled, sessionContext(req));
+
+      return res.json({
+        success: true,
+        message: 'Two-factor authentication enabled',
+        data: { ...login, recoveryCodes }
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Two-factor authentication enabled',
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    console.error('Enable two-factor error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to enable two-factor authentication'
+    });
+  }
+};
+
+/**
+ * Second login step: exchange the challenge token and a code for a session
+ */
+export const verifyTwoFactorLogin = async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code } = req.body;
+
+    if (!challengeToken || !code) {
+      return res.status(400).json({
+        success: false,
+        message: 'Challenge token and code are required'
+      });
+    }
+
+    const userId = verifyChallengeToken(challengeToken, 'verify');
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Login expired, please sign in again'
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user || user.status !== 'ACTIVE' || !user.twoFactorEnabled) {
+      return res.status(401).json({
+        success: false,
+        message: 'Login expired, please sign in again'
+      });
+    }
+
+    const lockedFor = lockoutRemainingSeconds(user);
+    if (lockedFor > 0) {
+      return sendAccountLocked(res, lockedFor);
+    }
+
+    if (!(await verifySecondFactor(user, String(code)))) {
+      const lockedUntil = await recordFailedLogin(user.id);
+      if (lockedUntil) {
+        return sendAccountLocked(res, lockoutRemainingSeconds({ lockedUntil }));
+      }
+
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid authentication code'
+      });
+    }
+
+    const login = await completeLogin(user, sessionContext(req));
+
+    return res.json({
+      success: true,
+      message: 'Login successful',
+      data: login
+    });
+  } catch (error) {
+    console.error('Verify two-factor error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to verify code'
+    });
+  }
+};
+
+/**
+ * Replace the current user's recovery codes (needs a current code)
+ */
+export const regenerateRecoveryCodes = async (req: Request, res: Response) => {
+  try {
+    const { code } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id }
+    });
+
+    if (!user || !user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is not enabled'
+      });
+    }
+
+    if (!code || !(await verifySecondFactor(user, String(code)))) {
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid authentication code'
+      });
+    }
+
+    const recoveryCodes = await generateRecoveryCodes(user.id);
+
+    return res.json({
+      success: true,
+      message: 'New recovery codes generated',
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to generate recovery codes'
+    });
+  }
+};
+
+/**
+ * Turn off two-factor authentication (needs the password and a current code)
+ */
+export const disableTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { password, code } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id }
+    });
+
+    if (!user || !user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is not enabled'
+      });
+    }
+
+    if (isTwoFactorRequired(user.role)) {
+      return res.status(403).json({
+        success: false,
+        message: `Two-factor authentication is required for ${user.role} accounts`
+      });
+    }
+
+    if (!password || !(await bcrypt.compare(password, user.password))) {
+      return res.status(401).json({
+        success: false,
+        message: 'Password is incorrect'
+      });
+    }
+
+    if (!code || !(await verifySecondFactor(user, String(code)))) {
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid authentication code'
+      });
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: { twoFactorEnabled: false, twoFactorSecret: null, twoFactorLastStep: null }
+      }),
+      prisma.recoveryCode.deleteMany({ where: { userId: user.id } })
+    ]);
+
+    return res.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    console.error('Disable two-factor error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to disable two-factor authentication'
+    });
+  }
+};
+
+/**
+ * Clear a user's two-factor setup after a lost device (Admin only)
+ * The user is signed out and must enroll again on next login if their role requires it
+ */
+export const resetUserTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id }
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id },
+        data: { twoFactorEnabled: false, twoFactorSecret: null, twoFactorLastStep: null }
+      }),
+      prisma.recoveryCode.deleteMany({ where: { userId: id } })
+    ]);
+
+    await revokeUserSessions(id, 'two_factor_reset');
+
+    return res.json({
+      success: true,
+      message: 'Two-factor authentication reset'
+    });
+  } catch (error) {
+    console.error('Reset two-factor error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to reset two-factor authentication'
+    });
+  }
+};
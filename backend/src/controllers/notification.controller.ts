@@ -0,0 +1,241 @@
+/**
+ * Notification Controller
+ * Per-user channel preferences and the outbound delivery log
+ */
+
+import { Request, Response } from 'express';
+import prisma from '../utils/db';
+import { SEVERITY_RANK, attemptDelivery } from '../services/notification.service';
+import { hasPermission } from '../services/access.permissions';
+import { checkPublicUrl } from '../utils/network';
+
+const NOTIFICATION_CHANNELS = ['email', 'sms', 'webhook'];
+
+/**
+ * Get the current user's notification preferences
+ * Defaults are returned (not stored) until the user saves once
+ */
+export const getPreferences = async (req: Request, res: Response) => {
+  try {
+    const preferences = await prisma.notificationPreference.findUnique({
+      where: { userId: req.user!.id }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        preferences: preferences ?? {
+          userId: req.user!.id,
+          emailEnabled: true,
+          emailMinSeverity: 'WARNING',
+          smsEnabled: false,
+          smsMinSeverity: 'CRITICAL',
+          pushEnabled: true,
+          webhookUrl: null,
+          webhookMinSeverity: 'INFO'
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get notification preferences error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get notification preferences'
+    });
+  }
+};
+
+/**
+ * Save the current user's notification preferences
+ */
+export const updatePreferences = async (req: Request, res: Response) => {
+  try {
+    const {
+      emailEnabled, emailMinSeverity,
+      smsEnabled, smsMinSeverity,
+      pushEnabled,
+      webhookUrl, webhookMinSeverity
+    } = req.body;
+
+    for (const severity of [emailMinSeverity, smsMinSeverity, webhookMinSeverity]) {
+      if (severity !== undefined && SEVERITY_RANK[severity] === undefined) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid severity: ${severity}`
+        });
+      }
+    }
+
+    if (webhookUrl) {
+      const problem = typeof webhookUrl === 'string' ? await checkPublicUrl(webhookUrl) : 'must be an http(s) URL';
+      if (problem) {
+        return res.status(400).json({
+          success: false,
+          message: `webhookUrl ${problem}`
+        });
+      }
+    }
+
+    const data = {
+      ...(emailEnabled !== undefined && { emailEnabled: Boolean(emailEnabled) }),
+      ...(emailMinSeverity !== undefined && { emailMinSeverity }),
+      ...(smsEnabled !== undefined && { smsEnabled: Boolean(smsEnabled) }),
+      ...(smsMinSeverity !== undefined && { smsMinSeverity }),
+      ...(pushEnabled !== undefined && { pushEnabled: Boolean(pushEnabled) }),
+      ...(webhookUrl !== undefined && { webhookUrl: webhookUrl || null }),
+      ...(webhookMinSeverity !== undefined && { webhookMinSeverity })
+    };
+
+    const preferences = await prisma.notificationPreference.upsert({
+      where: { userId: req.user!.id },
+      create: { userId: req.user!.id, ...data },
+      update: data
+    });
+
+    return res.json({
+      success: true,
+      message: 'Notification preferences updated successfully',
+      data: { preferences }
+    });
+  } catch (error) {
+    console.error('Update notification preferences error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update notification preferences'
+    });
+  }
+};
+
+/**
+ * Get the delivery log
+ * Users with notification:manage see every delivery, others only their own
+ */
+export const getDeliveries = async (req: Request, res: Response) => {
+  try {
+    const { status, channel, alertId } = req.query;
+
+    const deliveries = await prisma.notificationDelivery.findMany({
+      where: {
+        ...(status && { status: String(status) }),
+        ...(channel && { channel: String(channel) }),
+        ...(alertId && { alertId: String(alertId) }),
+        ...(!hasPermission(req.user, 'notification:manage') && { userId: req.user?.id })
+      },
+      include: {
+        alert: { select: { id: true, title: true, severity: true } },
+        user: { select: { id: true, firstName: true, lastName: true, email: true } }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 200
+    });
+
+    res.json({
+      success: true,
+      data: { deliveries }
+    });
+  } catch (error) {
+    console.error('Get notification deliveries error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get notification deliveries'
+    });
+  }
+};
+
+/**
+ * Retry a failed delivery now (Admin only)
+ */
+export const retryDelivery = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.notificationDelivery.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Delivery not found'
+      });
+    }
+
+    if (existing.status === 'SENT') {
+      return res.status(400).json({
+        success: false,
+        message: 'Delivery was already sent'
+      });
+    }
+
+    // A manual retry gets a fresh set of attempts
+    const delivery = await attemptDelivery({ ...existing, attempts: 0 });
+
+    return res.json({
+      success: true,
+      message: delivery.status === 'SENT' ? 'Delivery sent' : 'Delivery failed, retry scheduled',
+      data: { delivery }
+    });
+  } catch (error) {
+    console.error('Retry notification delivery error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to retry delivery'
+    });
+  }
+};
+
+/**
+ * Send a test message to the current user through one channel
+ */
+export const sendTestNotification = async (req: Request, res: Response) => {
+  try {
+    const { channel } = req.body;
+
+    if (!NOTIFICATION_CHANNELS.includes(channel)) {
+      return res.status(400).json({
+        success: false,
+        message: `channel must be one of: ${NOTIFICATION_CHANNELS.join(', ')}`
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      include: { notificationPreference: true }
+    });
+
+    const recipient = channel === 'email'
+      ? user?.email
+      : channel === 'sms' ? user?.phone : user?.notificationPreference?.webhookUrl;
+
+    if (!recipient) {
+      return res.status(400).json({
+        success: false,
+        message: `No ${channel} address on your profile`
+      });
+    }
+
+    const pending = await prisma.notificationDelivery.create({
+      data: {
+        userId: req.user!.id,
+        channel,
+        recipient,
+        subject: '[INFO] KUBE test notification',
+        body: 'This is a test message from the KUBE platform. Your notification channel is working.'
+      }
+    });
+
+    const delivery = await attemptDelivery(pending);
+
+    return res.json({
+      success: delivery.status === 'SENT',
+      message: delivery.status === 'SENT' ? 'Test notification sent' : `Test notification failed: ${delivery.lastError}`,
+      data: { delivery }
+    });
+  } catch (error) {
+    console.error('Send test notification error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to send test notification'
+    });
+  }
+};
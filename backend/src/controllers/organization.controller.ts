@@ -0,0 +1,537 @@
+/**
+ * Organization Controller
+ * Organizations, their members, and moving assets into them
+ */
+
+import { Request, Response } from 'express';
+import prisma from '../utils/db';
+import { hasPermission } from '../services/access.permissions';
+import { getSocketEmitters } from '../socket/socket.handlers';
+import {
+  canManageOrganization,
+  createOrganization as createOrganizationWithOwner,
+  findMembership,
+  isOrganizationRole,
+  ORGANIZATION_ROLES,
+  uniqueOrganizationSlug
+} from '../services/organization.members';
+
+const ORGANIZATION_STATUSES = ['ACTIVE', 'SUSPENDED'];
+
+const memberInclude = {
+  user: { select: { id: true, firstName: true, lastName: true, email: true, role: true } }
+};
+
+/**
+ * Managing an organization takes OWNER or ADMIN membership, or organization:manage
+ */
+const canManage = async (user: Request['user'], organizationId: string) =>
+  !!user && (hasPermission(user, 'organization:manage') || canManageOrganization(organizationId, user.id));
+
+/**
+ * Granting, changing or removing the OWNER role takes OWNER membership or organization:manage
+ */
+const canManageOwners = async (user: Request['user'], organizationId: string) =>
+  !!user && (hasPermission(user, 'organization:manage') ||
+    (await findMembership(organizationId, user.id))?.role === 'OWNER');
+
+/**
+ * The organization must keep at least one owner
+ */
+const isLastOwner = async (organizationId: string, userId: string) => {
+  const owners = await prisma.organizationMember.findMany({
+    where: { organizationId, role: 'OWNER' },
+    select: { userId: true }
+  });
+  return owners.length === 1 && owners[0].userId === userId;
+};
+
+/**
+ * Get the organizations the current user belongs to, or all of them with organization:manage
+ */
+export const getOrganizations = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const all = hasPermission(req.user, 'organization:manage');
+
+    const organizations = await prisma.organization.findMany({
+      where: all ? {} : { members: { some: { userId } } },
+      include: {
+        members: { where: { userId }, select: { role: true } },
+        _count: { select: { members: true, farms: true, parks: true, landZones: true } }
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        organizations: organizations.map(({ members, ...organization }) => ({
+          ...organization,
+          myRole: members[0]?.role ?? null
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Get organizations error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get organizations'
+    });
+  }
+};
+
+/**
+ * Get one organization with its members and assets
+ */
+export const getOrganizationById = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const membership = await findMembership(id, req.user!.id);
+    if (!membership && !hasPermission(req.user, 'organization:manage')) {
+      return res.status(404).json({
+        success: false,
+        message: 'Organization not found'
+      });
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id },
+      include: {
+        members: { include: memberInclude, orderBy: { createdAt: 'asc' } },
+        farms: { select: { id: true, name: true, location: true, ownerId: true } },
+        parks: { select: { id: true, name: true, location: true, managerId: true } },
+        landZones: { select: { id: true, name: true, region: true, managerId: true } }
+      }
+    });
+
+    if (!organization) {
+      return res.status(404).json({
+        success: false,
+        message: 'Organization not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { organization: { ...organization, myRole: membership?.role ?? null } }
+    });
+  } catch (error) {
+    console.error('Get organization error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get organization'
+    });
+  }
+};
+
+/**
+ * Create an organization; the creator becomes its owner
+ */
+export const createOrganization = async (req: Request, res: Response) => {
+  try {
+    const { name, companySize, industry } = req.body;
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Organization name is required'
+      });
+    }
+
+    const organization = await createOrganizationWithOwner(
+      {
+        name: name.trim(),
+        companySize: companySize || null,
+        industry: industry || null,
+        slug: await uniqueOrganizationSlug(name)
+      },
+      req.user!.id
+    );
+
+    return res.status(201).json({
+      success: true,
+      message: 'Organization created successfully',
+      data: { organization }
+    });
+  } catch (error) {
+    console.error('Create organization error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to create organization'
+    });
+  }
+};
+
+/**
+ * Update an organization's details; only organization:manage changes its status
+ */
+export const updateOrganization = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, companySize, industry, status } = req.body;
+
+    if (!(await canManage(req.user, id))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to manage this organization'
+      });
+    }
+
+    if (status !== undefined) {
+      if (!hasPermission(req.user, 'organization:manage')) {
+        return res.status(403).json({
+          success: false,
+          message: 'Only platform administrators can change an organization\'s status'
+        });
+      }
+      if (!ORGANIZATION_STATUSES.includes(status)) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid status: ${status}`
+        });
+      }
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return res.status(400).json({
+        success: false,
+        message: 'Organization name cannot be empty'
+      });
+    }
+
+    const existing = await prisma.organization.findUnique({ where: { id } });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Organization not found'
+      });
+    }
+
+    const organization = await prisma.organization.update({
+      where: { id },
+      data: {
+        name: name?.trim(),
+        companySize,
+        industry,
+        status
+      }
+    });
+
+    return res.json({
+      success: true,
+      message: 'Organization updated successfully',
+      data: { organization }
+    });
+  } catch (error) {
+    console.error('Update organization error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update organization'
+    });
+  }
+};
+
+/**
+ * Add a user to an organization by id or email
+ */
+export const addMember = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { userId, email, role = 'MEMBER' } = req.body;
+
+    if (!(await canManage(req.user, id))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to manage this organization'
+      });
+    }
+
+    if (!isOrganizationRole(role)) {
+      return res.status(400).json({
+        success: false,
+        message: `role must be one of: ${ORGANIZATION_ROLES.join(', ')}`
+      });
+    }
+
+    if (!userId && !email) {
+      return res.status(400).json({
+        success: false,
+        message: 'userId or email is required'
+      });
+    }
+
+    if (role === 'OWNER' && !(await canManageOwners(req.user, id))) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only an owner can grant, change or remove the owner role'
+      });
+    }
+
+    const [organization, user] = await Promise.all([
+      prisma.organization.findUnique({ where: { id }, select: { id: true } }),
+      prisma.user.findUnique({
+        where: userId ? { id: userId } : { email },
+        select: { id: true }
+      })
+    ]);
+
+    if (!organization) {
+      return res.status(404).json({
+        success: false,
+        message: 'Organization not found'
+      });
+    }
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    if (await findMembership(id, user.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'User is already a member of this organization'
+      });
+    }
+
+    const member = await prisma.organizationMember.create({
+      data: { organizationId: id, userId: user.id, role },
+      include: memberInclude
+    });
+
+    // Membership changes what the user's live sockets may follow
+    getSocketEmitters()?.disconnectUser(user.id);
+
+    return res.status(201).json({
+      success: true,
+      message: 'Member added successfully',
+      data: { member }
+    });
+  } catch (error) {
+    console.error('Add organization member error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to add member'
+    });
+  }
+};
+
+/**
+ * Change a member's role
+ */
+export const updateMember = async (req: Request, res: Response) => {
+  try {
+    const { id, userId } = req.params;
+    const { role } = req.body;
+
+    if (!(await canManage(req.user, id))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to manage this organization'
+      });
+    }
+
+    if (!isOrganizationRole(role)) {
+      return res.status(400).json({
+        success: false,
+        message: `role must be one of: ${ORGANIZATION_ROLES.join(', ')}`
+      });
+    }
+
+    const membership = await findMembership(id, userId);
+
+    if (!membership) {
+      return res.status(404).json({
+        success: false,
+        message: 'Member not found'
+      });
+    }
+
+    if ((role === 'OWNER' || membership.role === 'OWNER') && !(await canManageOwners(req.user, id))) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only an owner can grant, change or remove the owner role'
+      });
+    }
+
+    if (role !== 'OWNER' && (await isLastOwner(id, userId))) {
+      return res.status(400).json({
+        success: false,
+        message: 'An organization needs at least one owner'
+      });
+    }
+
+    const member = await prisma.organizationMember.update({
+      where: { id: membership.id },
+      data: { role },
+      include: memberInclude
+    });
+
+    getSocketEmitters()?.disconnectUser(userId);
+
+    return res.json({
+      success: true,
+      message: 'Member updated successfully',
+      data: { member }
+    });
+  } catch (error) {
+    console.error('Update organization member error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update member'
+    });
+  }
+};
+
+/**
+ * Remove a member; members may also leave on their own
+ */
+export const removeMember = async (req: Request, res: Response) => {
+  try {
+    const { id, userId } = req.params;
+
+    if (userId !== req.user!.id && !(await canManage(req.user, id))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to manage this organization'
+      });
+    }
+
+    const membership = await findMembership(id, userId);
+
+    if (!membership) {
+      return res.status(404).json({
+        success: false,
+        message: 'Member not found'
+      });
+    }
+
+    // Owners may leave, but only another owner can remove them
+    if (membership.role === 'OWNER' && userId !== req.user!.id && !(await canManageOwners(req.user, id))) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only an owner can grant, change or remove the owner role'
+      });
+    }
+
+    if (await isLastOwner(id, userId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'An organization needs at least one owner'
+      });
+    }
+
+    await prisma.organizationMember.delete({ where: { id: membership.id } });
+    getSocketEmitters()?.disconnectUser(userId);
+
+    return res.json({
+      success: true,
+      message: 'Member removed successfully'
+    });
+  } catch (error) {
+    console.error('Remove organization member error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to remove member'
+    });
+  }
+};
+
+/**
+ * Move farms, parks and land zones into an organization (organization:manage).
+ * Either list the ids, or pass `userId` to move everything that user owns or
+ * manages. Owners and managers stay on the records; they are added to the
+ * organization as members if they are not already.
+ */
+export const moveAssets = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { userId, farmIds = [], parkIds = [], landZoneIds = [] } = req.body;
+
+    const idLists = [farmIds, parkIds, landZoneIds];
+    if (idLists.some(ids => !Array.isArray(ids))) {
+      return res.status(400).json({
+        success: false,
+        message: 'farmIds, parkIds and landZoneIds must be arrays'
+      });
+    }
+
+    if (!userId && idLists.every(ids => ids.length === 0)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Provide a userId or the farmIds, parkIds or landZoneIds to move'
+      });
+    }
+
+    const organization = await prisma.organization.findUnique({ where: { id }, select: { id: true } });
+
+    if (!organization) {
+      return res.status(404).json({
+        success: false,
+        message: 'Organization not found'
+      });
+    }
+
+    const byUser = (field: 'ownerId' | 'managerId', ids: string[]) =>
+      userId ? { OR: [{ [field]: userId }, { id: { in: ids } }] } : { id: { in: ids } };
+
+    const moved = await prisma.$transaction(async (tx) => {
+      const [farms, parks, landZones] = await Promise.all([
+        tx.farm.findMany({ where: byUser('ownerId', farmIds), select: { id: true, ownerId: true } }),
+        tx.park.findMany({ where: byUser('managerId', parkIds), select: { id: true, managerId: true } }),
+        tx.landZone.findMany({ where: byUser('managerId', landZoneIds), select: { id: true, managerId: true } })
+      ]);
+
+      await tx.farm.updateMany({ where: { id: { in: farms.map(farm => farm.id) } }, data: { organizationId: id } });
+      await tx.park.updateMany({ where: { id: { in: parks.map(park => park.id) } }, data: { organizationId: id } });
+      await tx.landZone.updateMany({
+        where: { id: { in: landZones.map(zone => zone.id) } },
+        data: { organizationId: id }
+      });
+
+      // Whoever held the assets keeps working on them as a member
+      const holders = new Set<string>([
+        ...farms.map(farm => farm.ownerId),
+        ...parks.map(park => park.managerId),
+        ...landZones.flatMap(zone => (zone.managerId ? [zone.managerId] : []))
+      ]);
+
+      const existing = await tx.organizationMember.findMany({
+        where: { organizationId: id, userId: { in: [...holders] } },
+        select: { userId: true }
+      });
+      const existingIds = new Set(existing.map(member => member.userId));
+      const newMembers = [...holders].filter(holderId => !existingIds.has(holderId));
+
+      for (const holderId of newMembers) {
+        await tx.organizationMember.create({
+          data: { organizationId: id, userId: holderId, role: 'MEMBER' }
+        });
+      }
+
+      return {
+        farms: farms.length,
+        parks: parks.length,
+        landZones: landZones.length,
+        membersAdded: newMembers.length
+      };
+    });
+
+    return res.json({
+      success: true,
+      message: 'Assets moved successfully',
+      data: moved
+    });
+  } catch (error) {
+    console.error('Move organization assets error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to move assets'
+    });
+  }
+};
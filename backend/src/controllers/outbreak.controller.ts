@@ -0,0 +1,161 @@
+/**
+ * Outbreak Controller
+ * Outbreaks found by the detection job, as seen by the farms they affect or
+ * were warned about
+ */
+
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/db';
+import { farmScope } from '../services/access.scope';
+import { hasPermission } from '../services/access.permissions';
+import { runOutbreakScan } from '../services/outbreak.detection';
+
+const outbreakInclude = (herdWhere: Prisma.HerdWhereInput) => ({
+  herds: {
+    where: herdWhere,
+    select: {
+      id: true,
+      name: true,
+      quarantined: true,
+      farm: { select: { id: true, name: true } }
+    }
+  },
+  alert: {
+    select: { id: true, status: true, severity: true }
+  }
+});
+
+type OutbreakWithHerds = Prisma.OutbreakGetPayload<{ include: ReturnType<typeof outbreakInclude> }>;
+
+interface OutbreakAccess {
+  where: Prisma.OutbreakWhereInput;
+  herds: Prisma.HerdWhereInput;
+  // Farms whose ids may be shown; null for all
+  farmIds: Set<string> | null;
+}
+
+/**
+ * Outbreaks touching a herd the user can see, or that warned one of their
+ * farms. Only the user's own herds and farms are shown on them.
+ */
+const outbreakAccess = async (req: Request): Promise<OutbreakAccess> => {
+  if (hasPermission(req.user, 'farm:all')) return { where: {}, herds: {}, farmIds: null };
+
+  const scope = await farmScope(req.user);
+  const farms = await prisma.farm.findMany({ where: scope, select: { id: true } });
+
+  return {
+    where: {
+      OR: [
+        { herds: { some: { farm: scope } } },
+        ...farms.map(farm => ({ notifiedFarmIds: { contains: farm.id } }))
+      ]
+    },
+    herds: { farm: scope },
+    farmIds: new Set(farms.map(farm => farm.id))
+  };
+};
+
+const toOutbreak = (outbreak: OutbreakWithHerds, access: OutbreakAccess) => {
+  const visible = (ids: string[]) => (access.farmIds ? ids.filter(id => access.farmIds!.has(id)) : ids);
+
+  return {
+    ...outbreak,
+    farmIds: visible(JSON.parse(outbreak.farmIds)),
+    notifiedFarmIds: visible(outbreak.notifiedFarmIds ? JSON.parse(outbreak.notifiedFarmIds) : [])
+  };
+};
+
+/**
+ * List outbreaks, newest case first; `status` defaults to ACTIVE, `all` lists every one
+ */
+export const getOutbreaks = async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status ? String(req.query.status) : 'ACTIVE';
+    const access = await outbreakAccess(req);
+
+    const outbreaks = await prisma.outbreak.findMany({
+      where: {
+        ...(status !== 'all' && { status }),
+        AND: [access.where]
+      },
+      include: outbreakInclude(access.herds),
+      orderBy: { lastCaseAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: { outbreaks: outbreaks.map(outbreak => toOutbreak(outbreak, access)) }
+    });
+  } catch (error) {
+    console.error('Get outbreaks error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get outbreaks'
+    });
+  }
+};
+
+/**
+ * Get one outbreak
+ */
+export const getOutbreakById = async (req: Request, res: Response) => {
+  try {
+    const access = await outbreakAccess(req);
+
+    const outbreak = await prisma.outbreak.findFirst({
+      where: {
+        id: req.params.id,
+        AND: [access.where]
+      },
+      include: outbreakInclude(access.herds)
+    });
+
+    if (!outbreak) {
+      return res.status(404).json({
+        success: false,
+        message: 'Outbreak not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { outbreak: toOutbreak(outbreak, access) }
+    });
+  } catch (error) {
+    console.error('Get outbreak error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get outbreak'
+    });
+  }
+};
+
+/**
+ * Run the outbreak scan now instead of waiting for the next interval
+ */
+export const scanOutbreaks = async (_req: Request, res: Response) => {
+  try {
+    const result = await runOutbreakScan();
+
+    if (!result) {
+      return res.status(409).json({
+        success: false,
+        message: 'An outbreak scan is already running or failed; try again shortly'
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Outbreak scan complete',
+      data: result
+    });
+  } catch (error) {
+    console.error('Scan outbreaks error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to scan for outbreaks'
+    });
+  }
+};
@@ -5,22 +5,29 @@
 
 import { Request, Response } from 'express';
 import prisma from '../utils/db';
+import { parkScope } from '../services/access.scope';
+import { canAddAssetsTo } from '../services/organization.members';
 
 /**
- * Get all parks
+ * Get the parks the current user manages, reaches through an organization or has been granted;
+ * `organizationId` narrows the list to one organization
  */
 export const getParks = async (req: Request, res: Response) => {
   try {
-    const userId = req.user?.id;
+    const { organizationId } = req.query;
 
     const parks = await prisma.park.findMany({
       where: {
-        ...(req.user?.role !== 'ADMIN' && { managerId: userId })
+        ...(organizationId && { organizationId: String(organizationId) }),
+        AND: [await parkScope(req.user)]
       },
       include: {
         manager: {
           select: { id: true, firstName: true, lastName: true, email: true }
         },
+        organization: {
+          select: { id: true, name: true }
+        },
         wildlife: {
           select: { id: true, species: true, estimatedCount: true }
         },
@@ -102,7 +109,7 @@ export const getParkById = async (req: Request, res: Response) => {
  */
 export const createPark = async (req: Request, res: Response) => {
   try {
-    const { name, description, parkType, location, latitude, longitude, area } = req.body;
+    const { name, description, parkType, location, latitude, longitude, area, organizationId } = req.body;
     const managerId = req.user?.id;
 
     if (!name || !parkType || !location || !latitude || !longitude) {
@@ -112,6 +119,13 @@ export const createPark = async (req: Request, res: Response) => {
       });
     }
 
+    if (organizationId && !(await canAddAssetsTo(req.user!, organizationId))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You cannot add parks to this organization'
+      });
+    }
+
     const park = await prisma.park.create({
       data: {
         name,
@@ -121,7 +135,8 @@ export const createPark = async (req: Request, res: Response) => {
         latitude,
         longitude,
         area: area || 0,
-        managerId: managerId!
+        managerId: managerId!,
+        organizationId: organizationId || null
       },
       include: {
         manager: {
@@ -5,17 +5,15 @@
 
 import { Request, Response } from 'express';
 import prisma from '../utils/db';
+import { hasPermission } from '../services/access.permissions';
 
 /**
  * Get all reports
  */
 export const getReports = async (req: Request, res: Response) => {
   try {
-    const userId = req.user?.id;
-    const isAdmin = req.user?.role === 'ADMIN';
-
     const reports = await prisma.report.findMany({
-      where: !isAdmin ? { generatedById: userId } : undefined,
+      where: hasPermission(req.user, 'report:all') ? undefined : { generatedById: req.user?.id },
       include: {
         generatedBy: {
           select: { id: true, firstName: true, lastName: true, email: true }
@@ -44,8 +42,12 @@ export const getReportById = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
-    const report = await prisma.report.findUnique({
-      where: { id },
+    // Reports are private to whoever generated them unless the user has report:all
+    const report = await prisma.report.findFirst({
+      where: {
+        id,
+        ...(!hasPermission(req.user, 'report:all') && { generatedById: req.user?.id })
+      },
       include: {
         generatedBy: {
           select: { id: true, firstName: true, lastName: true, email: true }
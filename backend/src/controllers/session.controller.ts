@@ -0,0 +1,198 @@
+/**
+ * Session Controller
+ * Lists where a user is signed in and signs devices out remotely,
+ * for the user themselves and for admins on any account
+ */
+
+import { Request, Response } from 'express';
+import prisma from '../utils/db';
+import { revokeSession, revokeUserSessions } from '../services/auth.tokens';
+
+const sessionSelect = {
+  id: true,
+  userAgent: true,
+  ipAddress: true,
+  createdAt: true,
+  lastUsedAt: true,
+  expiresAt: true
+};
+
+const findActiveSessions = (userId: string) =>
+  prisma.session.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() }
+    },
+    select: sessionSelect,
+    orderBy: { lastUsedAt: 'desc' }
+  });
+
+/**
+ * Get the current user's active sessions
+ */
+export const getMySessions = async (req: Request, res: Response) => {
+  try {
+    const sessions = await findActiveSessions(req.user!.id);
+
+    res.json({
+      success: true,
+      data: {
+        sessions: sessions.map(session => ({
+          ...session,
+          current: session.id === req.user!.sessionId
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get sessions'
+    });
+  }
+};
+
+/**
+ * Sign out one of the current user's sessions
+ */
+export const revokeMySession = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const session = await prisma.session.findFirst({
+      where: { id, userId: req.user!.id }
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found'
+      });
+    }
+
+    await revokeSession(id, 'revoked_by_user');
+
+    return res.json({
+      success: true,
+      message: 'Session signed out'
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to sign out session'
+    });
+  }
+};
+
+/**
+ * Sign out every session except the one making the request
+ */
+export const revokeOtherSessions = async (req: Request, res: Response) => {
+  try {
+    const count = await revokeUserSessions(req.user!.id, 'revoked_by_user', req.user!.sessionId);
+
+    res.json({
+      success: true,
+      message: `Signed out ${count} other session(s)`,
+      data: { count }
+    });
+  } catch (error) {
+    console.error('Revoke other sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to sign out other sessions'
+    });
+  }
+};
+
+/**
+ * Get a user's active sessions (Admin only)
+ */
+export const getUserSessions = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true }
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const sessions = await findActiveSessions(id);
+
+    return res.json({
+      success: true,
+      data: { sessions }
+    });
+  } catch (error) {
+    console.error('Get user sessions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get user sessions'
+    });
+  }
+};
+
+/**
+ * Sign out one of a user's sessions (Admin only)
+ */
+export const revokeUserSession = async (req: Request, res: Response) => {
+  try {
+    const { id, sessionId } = req.params;
+
+    const session = await prisma.session.findFirst({
+      where: { id: sessionId, userId: id }
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found'
+      });
+    }
+
+    await revokeSession(sessionId, 'revoked_by_admin');
+
+    return res.json({
+      success: true,
+      message: 'Session signed out'
+    });
+  } catch (error) {
+    console.error('Revoke user session error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to sign out session'
+    });
+  }
+};
+
+/**
+ * Sign out every session of a user (Admin only)
+ */
+export const revokeAllUserSessions = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const count = await revokeUserSessions(id, 'revoked_by_admin');
+
+    res.json({
+      success: true,
+      message: `Signed out ${count} session(s)`,
+      data: { count }
+    });
+  } catch (error) {
+    console.error('Revoke all user sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to sign out sessions'
+    });
+  }
+};
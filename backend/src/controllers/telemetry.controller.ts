@@ -0,0 +1,521 @@
+/**
+ * Telemetry Controller
+ * Ingests detection batches uploaded by drones and ground stations
+ */
+
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/db';
+import { getSocketEmitters } from '../socket/socket.handlers';
+import {
+  evaluateAnimalTelemetry,
+  evaluateHerdTelemetry,
+  evaluateWildlifeSighting,
+  runRulesInBackground
+} from '../services/alert.engine';
+import { syncHerdAggregates } from '../services/herd.aggregates';
+import { withoutAudit } from '../services/audit.trail';
+
+const MAX_BATCH_SIZE = 500;
+const RECORD_KINDS = ['herd', 'animal', 'wildlife'];
+
+interface IngestResult {
+  clientId: string | null;
+  kind?: string;
+  status: 'accepted' | 'duplicate' | 'rejected';
+  id?: string;
+  error?: string;
+}
+
+interface BatchContext {
+  droneId?: string;
+  missionId?: string;
+  detectedBy: string;
+}
+
+type Device = NonNullable<Request['device']>;
+
+// Fields every detection record carries
+interface BaseRecord {
+  clientId: string;
+  latitude: number;
+  longitude: number;
+  timestamp?: string | number | null;
+  confidence?: number | null;
+  imageUrl?: string | null;
+  metadata?: unknown;
+}
+
+interface HerdRecord extends BaseRecord {
+  kind: 'herd';
+  herdId: string;
+  countDetected: number;
+  countHealthy?: number | null;
+  countSick?: number | null;
+  countMissing?: number | null;
+  altitude?: number | null;
+  temperature?: number | null;
+  humidity?: number | null;
+  windSpeed?: number | null;
+}
+
+interface AnimalRecord extends BaseRecord {
+  kind: 'animal';
+  animalId?: string;
+  tagId?: string;
+  temperature?: number | null;
+  heartRate?: number | null;
+  activity?: string | null;
+}
+
+interface WildlifeRecord extends BaseRecord {
+  kind: 'wildlife';
+  populationId: string;
+  count: number;
+  behavior?: string | null;
+  health?: string | null;
+  detectedBy?: string | null;
+  videoUrl?: string | null;
+}
+
+// A detection record that passed validateRecord
+type TelemetryRecord = HerdRecord | AnimalRecord | WildlifeRecord;
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isCount = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0;
+
+const isOptionalNumber = (value: unknown) =>
+  value === undefined || value === null || isNumber(value);
+
+const isOptionalCount = (value: unknown) =>
+  value === undefined || value === null || isCount(value);
+
+const isId = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '';
+
+const isOptionalString = (value: unknown) =>
+  value === undefined || value === null || typeof value === 'string';
+
+const toMetadata = (metadata: unknown) =>
+  metadata === undefined || metadata === null
+    ? undefined
+    : typeof metadata === 'string' ? metadata : JSON.stringify(metadata);
+
+/**
+ * Check a single detection record, returning the problem or null
+ */
+const validateRecord = (value: unknown): string | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return 'Record must be an object';
+  const record = value as Record<string, unknown>;
+
+  if (!isId(record.clientId)) return 'clientId is required';
+  if (!RECORD_KINDS.includes(record.kind as string)) return `Invalid record kind: ${record.kind}`;
+  if (!isNumber(record.latitude) || !isNumber(record.longitude)) return 'latitude and longitude are required';
+  if (record.timestamp !== undefined && record.timestamp !== null) {
+    if (typeof record.timestamp !== 'string' && typeof record.timestamp !== 'number') return 'Invalid timestamp';
+    if (isNaN(new Date(record.timestamp).getTime())) return 'Invalid timestamp';
+  }
+  if (!isOptionalNumber(record.confidence) || (isNumber(record.confidence) && (record.confidence < 0 || record.confidence > 1))) {
+    return 'confidence must be between 0 and 1';
+  }
+  if (!isOptionalString(record.imageUrl)) return 'imageUrl must be a string';
+
+  if (record.kind === 'herd') {
+    if (!isId(record.herdId)) return 'herdId is required for herd counts';
+    if (!isCount(record.countDetected)) return 'countDetected must be a non-negative integer';
+    for (const field of ['countHealthy', 'countSick', 'countMissing']) {
+      if (!isOptionalCount(record[field])) return `${field} must be a non-negative integer`;
+    }
+    for (const field of ['altitude', 'temperature', 'humidity', 'windSpeed']) {
+      if (!isOptionalNumber(record[field])) return `${field} must be a number`;
+    }
+  }
+
+  if (record.kind === 'animal') {
+    if (!isId(record.animalId) && !isId(record.tagId)) return 'animalId or tagId is required for animal fixes';
+    for (const field of ['animalId', 'tagId']) {
+      if (record[field] !== undefined && !isId(record[field])) return `${field} must be a non-empty string`;
+    }
+    if (!isOptionalNumber(record.temperature)) return 'temperature must be a number';
+    if (!isOptionalCount(record.heartRate)) return 'heartRate must be a non-negative integer';
+    if (!isOptionalString(record.activity)) return 'activity must be a string';
+  }
+
+  if (record.kind === 'wildlife') {
+    if (!isId(record.populationId)) return 'populationId is required for wildlife sightings';
+    if (!isCount(record.count) || record.count < 1) return 'count must be a positive integer';
+    for (const field of ['behavior', 'health', 'detectedBy', 'videoUrl']) {
+      if (!isOptionalString(record[field])) return `${field} must be a string`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Check that a record belongs to the farm or park the device key is scoped to
+ */
+const checkDeviceScope = async (record: TelemetryRecord, device: Device): Promise<string | null> => {
+  if (record.kind === 'herd') {
+    const herd = await prisma.herd.findUnique({ where: { id: record.herdId }, select: { farmId: true } });
+    if (!herd) return `Unknown herd: ${record.herdId}`;
+    return herd.farmId === device.farmId ? null : 'Herd is outside this device scope';
+  }
+
+  if (record.kind === 'animal') {
+    const animal = await prisma.animal.findUnique({
+      where: record.animalId ? { id: record.animalId } : { tagId: record.tagId },
+      select: { herd: { select: { farmId: true } } }
+    });
+    if (!animal) return `Unknown animal: ${record.animalId || record.tagId}`;
+    return animal.herd.farmId === device.farmId ? null : 'Animal is outside this device scope';
+  }
+
+  const population = await prisma.wildlifePopulation.findUnique({
+    where: { id: record.populationId },
+    select: { parkId: true }
+  });
+  if (!population) return `Unknown population: ${record.populationId}`;
+  return population.parkId === device.parkId ? null : 'Population is outside this device scope';
+};
+
+/**
+ * A device may report for the drone its key is bound to, or for drones
+ * flying for the key's farm or park
+ */
+const isDeviceDrone = (drone: { id: string; farmId: string | null; parkId: string | null }, device: Device) =>
+  drone.id === device.droneId ||
+  (!!drone.farmId && drone.farmId === device.farmId) ||
+  (!!drone.parkId && drone.parkId === device.parkId);
+
+/**
+ * Look up a clientId that was already stored by an earlier upload
+ */
+const findExisting = async (record: TelemetryRecord) => {
+  const where = { clientId: record.clientId };
+  const select = { id: true };
+
+  if (record.kind === 'herd') return prisma.herdTelemetry.findUnique({ where, select });
+  if (record.kind === 'animal') return prisma.animalTelemetry.findUnique({ where, select });
+  return prisma.wildlifeSighting.findUnique({ where, select });
+};
+
+/**
+ * Store one validated record, broadcast it to telemetry subscribers and run alert rules
+ */
+const saveRecord = async (record: TelemetryRecord, context: BatchContext): Promise<{ id?: string; error?: string }> => {
+  const timestamp = record.timestamp ? new Date(record.timestamp) : new Date();
+  const emitters = getSocketEmitters();
+
+  // Counters and last sightings moved by every fix are not worth an audit entry each
+  if (record.kind === 'herd') {
+    const telemetry = await withoutAudit(() => prisma.$transaction(async (tx) => {
+      const created = await tx.herdTelemetry.create({
+        data: {
+          clientId: record.clientId,
+          herdId: record.herdId,
+          countDetected: record.countDetected,
+          countHealthy: record.countHealthy,
+          countSick: record.countSick,
+          countMissing: record.countMissing,
+          latitude: record.latitude,
+          longitude: record.longitude,
+          altitude: record.altitude,
+          temperature: record.temperature,
+          humidity: record.humidity,
+          windSpeed: record.windSpeed,
+          droneId: context.droneId,
+          missionId: context.missionId,
+          imageUrl: record.imageUrl,
+          timestamp,
+          metadata: toMetadata(record.metadata)
+        }
+      });
+
+      await syncHerdAggregates(tx, created.herdId);
+      return created;
+    }));
+
+    emitters?.emitTelemetry('herd', telemetry.herdId, telemetry);
+    runRulesInBackground(evaluateHerdTelemetry(telemetry));
+    return { id: telemetry.id };
+  }
+
+  if (record.kind === 'animal') {
+    const animal = record.animalId
+      ? await prisma.animal.findUnique({ where: { id: record.animalId } })
+      : await prisma.animal.findUnique({ where: { tagId: record.tagId } });
+
+    if (!animal) {
+      return { error: `Unknown animal: ${record.animalId || record.tagId}` };
+    }
+
+    const telemetry = await withoutAudit(() => prisma.$transaction(async (tx) => {
+      const created = await tx.animalTelemetry.create({
+        data: {
+          clientId: record.clientId,
+          animalId: animal.id,
+          latitude: record.latitude,
+          longitude: record.longitude,
+          temperature: record.temperature,
+          heartRate: record.heartRate,
+          activity: record.activity,
+          confidence: record.confidence,
+          droneId: context.droneId,
+          imageUrl: record.imageUrl,
+          timestamp,
+          metadata: toMetadata(record.metadata)
+        }
+      });
+
+      // Late uploads of older fixes must not move the animal backwards
+      if (!animal.lastSeenAt || animal.lastSeenAt < timestamp) {
+        await tx.animal.update({
+          where: { id: animal.id },
+          data: {
+            lastSeenLat: record.latitude,
+            lastSeenLng: record.longitude,
+            lastSeenAt: timestamp,
+            ...(isNumber(record.temperature) && { temperature: record.temperature }),
+            ...(isNumber(record.heartRate) && { heartRate: record.heartRate })
+          }
+        });
+
+        // A fix only moves the herd's last sighting; its counters are unchanged
+        await tx.herd.updateMany({
+          where: { id: animal.herdId, OR: [{ lastSeenAt: null }, { lastSeenAt: { lt: timestamp } }] },
+          data: { lastSeenAt: timestamp }
+        });
+      }
+
+      return created;
+    }));
+
+    emitters?.emitTelemetry('animal', telemetry.animalId, telemetry);
+    runRulesInBackground(evaluateAnimalTelemetry(telemetry));
+    return { id: telemetry.id };
+  }
+
+  const sighting = await prisma.wildlifeSighting.create({
+    data: {
+      clientId: record.clientId,
+      populationId: record.populationId,
+      count: record.count,
+      latitude: record.latitude,
+      longitude: record.longitude,
+      behavior: record.behavior,
+      health: record.health,
+      detectedBy: record.detectedBy || context.detectedBy,
+      confidence: record.confidence,
+      imageUrl: record.imageUrl,
+      videoUrl: record.videoUrl,
+      timestamp,
+      metadata: toMetadata(record.metadata)
+    }
+  });
+
+  emitters?.emitTelemetry('population', sighting.populationId, sighting);
+  runRulesInBackground(evaluateWildlifeSighting(sighting));
+  return { id: sighting.id };
+};
+
+/**
+ * Ingest a batch of mixed detections
+ * Records are idempotent on clientId, so a retried upload reports duplicates instead of storing twice
+ */
+export const ingestTelemetry = async (req: Request, res: Response) => {
+  try {
+    const device = req.device!;
+    const { missionId, records } = req.body;
+    const droneId = req.body.droneId || device.droneId || undefined;
+
+    if (device.droneId && droneId !== device.droneId) {
+      return res.status(403).json({
+        success: false,
+        message: 'Device key is bound to a different drone'
+      });
+    }
+
+    if (!Array.isArray(records) || records.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'records must be a non-empty array'
+      });
+    }
+
+    if (records.length > MAX_BATCH_SIZE) {
+      return res.status(400).json({
+        success: false,
+        message: `Batch exceeds the maximum of ${MAX_BATCH_SIZE} records`
+      });
+    }
+
+    let detectedBy = 'ground_station';
+
+    if (droneId) {
+      const drone = await prisma.drone.findUnique({
+        where: { id: droneId }
+      });
+
+      if (!drone) {
+        return res.status(400).json({
+          success: false,
+          message: 'Unknown drone'
+        });
+      }
+
+      if (!isDeviceDrone(drone, device)) {
+        return res.status(403).json({
+          success: false,
+          message: 'Drone is outside this device scope'
+        });
+      }
+
+      detectedBy = drone.callSign;
+    }
+
+    if (missionId) {
+      const mission = await prisma.mission.findUnique({
+        where: { id: missionId },
+        include: { drone: { select: { id: true, farmId: true, parkId: true } } }
+      });
+
+      if (!mission) {
+        return res.status(400).json({
+          success: false,
+          message: 'Unknown mission'
+        });
+      }
+
+      // The mission must be flown by the reporting drone, or one the key covers
+      if (droneId ? mission.droneId !== droneId : !mission.drone || !isDeviceDrone(mission.drone, device)) {
+        return res.status(403).json({
+          success: false,
+          message: 'Mission is outside this device scope'
+        });
+      }
+    }
+
+    const context: BatchContext = { droneId, missionId, detectedBy };
+    const results: IngestResult[] = [];
+    const seenInBatch = new Set<string>();
+
+    for (const raw of records) {
+      const validationError = validateRecord(raw);
+
+      if (validationError) {
+        results.push({
+          clientId: typeof raw?.clientId === 'string' ? raw.clientId : null,
+          kind: typeof raw?.kind === 'string' ? raw.kind : undefined,
+          status: 'rejected',
+          error: validationError
+        });
+        continue;
+      }
+
+      const record = raw as TelemetryRecord;
+      const { clientId, kind } = record;
+
+      if (seenInBatch.has(clientId)) {
+        results.push({ clientId, kind, status: 'duplicate' });
+        continue;
+      }
+      seenInBatch.add(clientId);
+
+      // Each record succeeds or fails on its own, so one bad record cannot
+      // fail a batch the device will keep retrying
+      try {
+        const scopeError = await checkDeviceScope(record, device);
+        if (scopeError) {
+          results.push({ clientId, kind, status: 'rejected', error: scopeError });
+          continue;
+        }
+
+        const existing = await findExisting(record);
+        if (existing) {
+          results.push({ clientId, kind, status: 'duplicate', id: existing.id });
+          continue;
+        }
+
+        const saved = await saveRecord(record, context);
+        results.push(saved.error
+          ? { clientId, kind, status: 'rejected', error: saved.error }
+          : { clientId, kind, status: 'accepted', id: saved.id });
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          // Another upload of the same record won the race
+          results.push({ clientId, kind, status: 'duplicate' });
+        } else if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003') {
+          results.push({ clientId, kind, status: 'rejected', error: 'Referenced herd or population does not exist' });
+        } else if (error instanceof Prisma.PrismaClientValidationError) {
+          results.push({ clientId, kind, status: 'rejected', error: 'Record has fields of the wrong type' });
+        } else {
+          throw error;
+        }
+      }
+    }
+
+    const accepted = results.filter(r => r.status === 'accepted').length;
+    const duplicates = results.filter(r => r.status === 'duplicate').length;
+    const rejected = results.filter(r => r.status === 'rejected').length;
+
+    return res.json({
+      success: true,
+      message: `Ingested ${accepted} of ${records.length} records`,
+      data: { accepted, duplicates, rejected, results }
+    });
+  } catch (error) {
+    console.error('Ingest telemetry error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to ingest telemetry'
+    });
+  }
+};
+
+/**
+ * Upcoming and in-progress missions a device flies: its bound drone's, or
+ * those of every drone in the key's farm or park
+ */
+export const getDeviceMissions = async (req: Request, res: Response) => {
+  try {
+    const device = req.device!;
+
+    const missions = await prisma.mission.findMany({
+      where: {
+        status: { in: ['SCHEDULED', 'IN_PROGRESS'] },
+        drone: device.droneId
+          ? { id: device.droneId }
+          : device.farmId ? { farmId: device.farmId } : { parkId: device.parkId }
+      },
+      select: {
+        id: true,
+        name: true,
+        type: true,
+        status: true,
+        area: true,
+        droneId: true,
+        nextRunAt: true,
+        estimatedDuration: true,
+        altitude: true,
+        maxSpeed: true,
+        cameraMode: true
+      },
+      orderBy: { nextRunAt: 'asc' }
+    });
+
+    res.json({
+      success: true,
+      data: { missions: missions.map(mission => ({ ...mission, area: JSON.parse(mission.area) })) }
+    });
+  } catch (error) {
+    console.error('Get device missions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get missions'
+    });
+  }
+};
@@ -5,6 +5,13 @@
 
 import { Request, Response } from 'express';
 import prisma from '../utils/db';
+import { revokeUserSessions } from '../services/auth.tokens';
+import { getSocketEmitters } from '../socket/socket.handlers';
+import { sendInBackground, sendVerificationEmail } from '../services/account.tokens';
+import { unlockAccount } from '../services/auth.lockout';
+import { roleExists } from '../services/access.permissions';
+
+const USER_STATUSES = ['ACTIVE', 'PENDING', 'SUSPENDED'];
 
 /**
  * Get all users (Admin only)
@@ -24,6 +31,8 @@ export const getUsers = async (_req: Request, res: Response) => {
         services: true,
         companyName: true,
         organization: true,
+        twoFactorEnabled: true,
+        lockedUntil: true,
         createdAt: true,
         lastLoginAt: true
       },
@@ -70,6 +79,8 @@ export const getUserById = async (req: Request, res: Response) => {
         organization: true,
         location: true,
         language: true,
+        twoFactorEnabled: true,
+        lockedUntil: true,
         createdAt: true,
         lastLoginAt: true
       }
@@ -113,6 +124,13 @@ export const createUser = async (req: Request, res: Response) => {
       });
     }
 
+    if (!(await roleExists(role))) {
+      return res.status(400).json({
+        success: false,
+        message: `Unknown role: ${role}`
+      });
+    }
+
     // Check if user already exists
     const existingUser = await prisma.user.findUnique({
       where: { email }
@@ -156,10 +174,14 @@ export const createUser = async (req: Request, res: Response) => {
         services: true,
         companyName: true,
         organization: true,
+        emailVerifiedAt: true,
         createdAt: true
       }
     });
 
+    // The new user confirms their own address
+    sendInBackground(sendVerificationEmail(user));
+
     // Parse services for response
     const parsedUser = {
       ...user,
@@ -226,3 +248,166 @@ export const updateUser = async (req: Request, res: Response) => {
     });
   }
 };
+
+/**
+ * Update user status (Admin only)
+ * Suspending a user also drops their live socket connections
+ */
+export const updateUserStatus = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { status } = req.body;
+
+    if (!USER_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid status: ${status}`
+      });
+    }
+
+    if (id === req.user?.id && status !== 'ACTIVE') {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot suspend your own account'
+      });
+    }
+
+    const existing = await prisma.user.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: { status },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        role: true,
+        status: true
+      }
+    });
+
+    // Suspended or pending users lose every session, which also drops their sockets
+    if (status !== 'ACTIVE') {
+      await revokeUserSessions(id, 'suspended');
+    }
+
+    return res.json({
+      success: true,
+      message: 'User status updated successfully',
+      data: { user }
+    });
+  } catch (error) {
+    console.error('Update user status error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update user status'
+    });
+  }
+};
+
+/**
+ * Change a user's role; permissions follow on their next request
+ */
+export const updateUserRole = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { role } = req.body;
+
+    if (!role || !(await roleExists(role))) {
+      return res.status(400).json({
+        success: false,
+        message: `Unknown role: ${role}`
+      });
+    }
+
+    if (id === req.user?.id) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot change your own role'
+      });
+    }
+
+    const existing = await prisma.user.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: { role },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        role: true,
+        status: true
+      }
+    });
+
+    // Live sockets keep the rooms and permissions of the old role until they reconnect
+    getSocketEmitters()?.disconnectUser(id);
+
+    return res.json({
+      success: true,
+      message: 'User role updated successfully',
+      data: { user }
+    });
+  } catch (error) {
+    console.error('Update user role error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update user role'
+    });
+  }
+};
+
+/**
+ * Lift a sign-in lockout before it expires (Admin only)
+ */
+export const unlockUser = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, email: true }
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    await unlockAccount(user);
+
+    return res.json({
+      success: true,
+      message: 'Account unlocked'
+    });
+  } catch (error) {
+    console.error('Unlock user error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to unlock account'
+    });
+  }
+};
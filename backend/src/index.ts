@@ -21,17 +21,43 @@ import landRoutes from './routes/land.routes';
 import alertRoutes from './routes/alert.routes';
 import reportRoutes from './routes/report.routes';
 import dashboardRoutes from './routes/dashboard.routes';
+import droneRoutes from './routes/drone.routes';
+import telemetryRoutes from './routes/telemetry.routes';
+import deviceRoutes from './routes/device.routes';
+import notificationRoutes from './routes/notification.routes';
+import accessRoutes from './routes/access.routes';
+import organizationRoutes from './routes/organization.routes';
+import auditRoutes from './routes/audit.routes';
+import outbreakRoutes from './routes/outbreak.routes';
 
 // Import middleware
 import { errorHandler } from './middleware/error.middleware';
 import { requestLogger } from './middleware/logger.middleware';
+import { rateLimit } from './middleware/rate.limit.middleware';
+import { auditTrail } from './middleware/audit.middleware';
+import { registerAuditTrail } from './services/audit.trail';
 
 // Import socket handlers
 import { initializeSocketHandlers } from './socket/socket.handlers';
 
+// Import background jobs
+import { startMissionScheduler } from './services/mission.scheduler';
+import { startAlertEngine } from './services/alert.engine';
+import { startNotificationWorker } from './services/notification.service';
+import { startEscalationWorker } from './services/alert.escalation';
+import { startVaccinationReminders } from './services/vaccination.schedule';
+import { startOutbreakDetection } from './services/outbreak.detection';
+
 const app: Application = express();
 const httpServer = createServer(app);
 
+// Behind a reverse proxy, take the client address from X-Forwarded-For
+// (value is a hop count or an Express trust setting such as "loopback")
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isNaN(hops) ? process.env.TRUST_PROXY : hops);
+}
+
 // Initialize Socket.IO
 const io = new SocketIOServer(httpServer, {
   cors: {
@@ -46,7 +72,7 @@ app.use(cors({
   origin: ['https://kubesystems.vercel.app', 'http://localhost:3000'],
   credentials: true
 }));
-app.use(express.json());
+app.use(express.json({ limit: '5mb' }));
 app.use(express.urlencoded({ extended: true }));
 app.use(requestLogger);
 
@@ -60,6 +86,13 @@ app.get('/health', (_req, res) => {
   });
 });
 
+// Every API request counts against the global per-address limit
+app.use('/api', rateLimit('GLOBAL'));
+
+// Record the writes every mutating API request makes
+registerAuditTrail();
+app.use('/api', auditTrail);
+
 // API Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
@@ -69,6 +102,14 @@ app.use('/api/land', landRoutes);
 app.use('/api/alerts', alertRoutes);
 app.use('/api/reports', reportRoutes);
 app.use('/api/dashboard', dashboardRoutes);
+app.use('/api/drones', droneRoutes);
+app.use('/api/telemetry', telemetryRoutes);
+app.use('/api/devices', deviceRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/access', accessRoutes);
+app.use('/api/organizations', organizationRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/outbreaks', outbreakRoutes);
 
 // 404 handler
 app.use('*', (_req, res) => {
@@ -84,6 +125,14 @@ app.use(errorHandler);
 // Initialize WebSocket handlers
 initializeSocketHandlers(io);
 
+// Start background jobs
+startMissionScheduler();
+startAlertEngine();
+startNotificationWorker();
+startEscalationWorker();
+startVaccinationReminders();
+startOutbreakDetection();
+
 // Start server
 const PORT = process.env.PORT || 5000;
 
@@ -0,0 +1,147 @@
+/**
+ * Access Middleware
+ * Permission checks and resource-scoped checks for routes. Runs after
+ * authenticate, which loads the user's permissions from their role.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import prisma from '../utils/db';
+import { hasPermission, Permission } from '../services/access.permissions';
+import {
+  AccessLevel,
+  canAccessScope,
+  findDroneScope,
+  findMissionScope,
+  findResourceScope,
+  ResourceScope
+} from '../services/access.scope';
+
+/**
+ * Require every listed permission
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authenticated'
+      });
+      return;
+    }
+
+    const missing = permissions.filter(permission => !hasPermission(req.user, permission));
+
+    if (missing.length > 0) {
+      res.status(403).json({
+        success: false,
+        message: 'Insufficient permissions',
+        missing
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Let users act on their own account (`:id`), others need the permission
+ */
+export const requireSelfOrPermission = (permission: Permission) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (req.user && req.params.id === req.user.id) {
+      next();
+      return;
+    }
+
+    requirePermission(permission)(req, res, next);
+  };
+};
+
+export type ScopedResource = 'farm' | 'park' | 'landZone' | 'herd' | 'animal' | 'drone' | 'mission';
+
+/**
+ * Records that live under a farm, park or land zone, and how to find it.
+ * `all` names a permission that reaches every record of that kind.
+ */
+const SCOPED_RESOURCES: Record<ScopedResource, {
+  label: string;
+  all?: Permission;
+  resolve: (id: string) => Promise<ResourceScope | null>;
+}> = {
+  farm: { label: 'Farm', resolve: (id: string) => findResourceScope('FARM', id) },
+  park: { label: 'Park', resolve: (id: string) => findResourceScope('PARK', id) },
+  landZone: { label: 'Land zone', resolve: (id: string) => findResourceScope('LAND_ZONE', id) },
+  herd: {
+    label: 'Herd',
+    resolve: async (id: string): Promise<ResourceScope | null> => {
+      const herd = await prisma.herd.findUnique({
+        where: { id },
+        select: { farm: { select: { id: true, ownerId: true, organizationId: true } } }
+      });
+      return herd && {
+        type: 'FARM',
+        id: herd.farm.id,
+        holderId: herd.farm.ownerId,
+        organizationId: herd.farm.organizationId
+      };
+    }
+  },
+  animal: {
+    label: 'Animal',
+    resolve: async (id: string): Promise<ResourceScope | null> => {
+      const animal = await prisma.animal.findUnique({
+        where: { id },
+        select: { herd: { select: { farm: { select: { id: true, ownerId: true, organizationId: true } } } } }
+      });
+      return animal && {
+        type: 'FARM',
+        id: animal.herd.farm.id,
+        holderId: animal.herd.farm.ownerId,
+        organizationId: animal.herd.farm.organizationId
+      };
+    }
+  },
+  drone: { label: 'Drone', all: 'drone:all', resolve: findDroneScope },
+  mission: { label: 'Mission', all: 'drone:all', resolve: findMissionScope }
+};
+
+
+/**
+ * Require access to the farm, park or land zone behind a route parameter:
+ * owning or managing it, membership of the organization that owns it, a grant
+ * at the needed level, or the module's `:all` permission. Unknown ids are 404s.
+ */
+export const requireResource = (resource: ScopedResource, param: string, level: AccessLevel = 'READ') => {
+  const { label, all, resolve } = SCOPED_RESOURCES[resource];
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const scope = await resolve(req.params[param]);
+
+      if (!scope) {
+        res.status(404).json({
+          success: false,
+          message: `${label} not found`
+        });
+        return;
+      }
+
+      if (!(all && hasPermission(req.user, all)) && !(await canAccessScope(req.user, scope, level))) {
+        res.status(403).json({
+          success: false,
+          message: `You do not have permission to ${level === 'WRITE' ? 'change' : 'view'} this ${label.toLowerCase()}`
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      console.error('Resource access check error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Authorization error'
+      });
+    }
+  };
+};
@@ -0,0 +1,38 @@
+/**
+ * Audit Middleware
+ * Opens an audit context for each mutating request so the writes it makes
+ * are recorded, then saves them once the response has succeeded.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { AuditContext, flushAuditEntries, runWithAuditContext } from '../services/audit.trail';
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+export const auditTrail = (req: Request, res: Response, next: NextFunction) => {
+  if (!MUTATING_METHODS.has(req.method)) {
+    next();
+    return;
+  }
+
+  const context: AuditContext = {
+    // authenticate runs later in the route, so read the user when a write happens
+    userId: () => req.user?.id,
+    device: () => req.device,
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent'),
+    method: req.method,
+    path: req.originalUrl.split('?')[0],
+    entries: []
+  };
+
+  res.on('finish', () => {
+    if (res.statusCode >= 400) return;
+
+    flushAuditEntries(context).catch(error => {
+      console.error('Audit trail write error:', error);
+    });
+  });
+
+  runWithAuditContext(context, next);
+};
@@ -6,15 +6,22 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import prisma from '../utils/db';
+import { parseDeviceKey, verifyDeviceKey } from '../services/device.keys';
+import { Permission, permissionsForRole } from '../services/access.permissions';
 
 // Extend Express Request type to include user
 declare global {
   namespace Express {
     interface Request {
-      user?: {
+      user?: AuthenticatedUser;
+      device?: {
         id: string;
-        email: string;
-        role: string;
+        name: string;
+        deviceType: string;
+        farmId: string | null;
+        parkId: string | null;
+        droneId: string | null;
+        scopes: string[];
       };
     }
   }
@@ -24,8 +31,87 @@ interface JWTPayload {
   id: string;
   email: string;
   role: string;
+  sid?: string;
 }
 
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  role: string;
+  sessionId: string;
+  emailVerified: boolean;
+  permissions: Permission[];
+}
+
+type TokenResult =
+  | { user: AuthenticatedUser; error?: undefined }
+  | { user?: undefined; error: string };
+
+/**
+ * Verify a user JWT and load the account behind it
+ * Shared by the HTTP middleware and the Socket.IO handshake
+ */
+export const verifyAccessToken = async (token: string): Promise<TokenResult> => {
+  let decoded: JWTPayload;
+
+  try {
+    decoded = jwt.verify(
+      token,
+      process.env.JWT_SECRET || 'default-secret'
+    ) as JWTPayload;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      return { error: 'Token expired' };
+    }
+    return { error: 'Invalid token' };
+  }
+
+  // Tokens are only good while the session they were issued for is
+  if (!decoded.sid) {
+    return { error: 'Invalid token' };
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: decoded.sid },
+    select: { userId: true, revokedAt: true, expiresAt: true }
+  });
+
+  if (!session || session.userId !== decoded.id || session.revokedAt || session.expiresAt < new Date()) {
+    return { error: 'Session has been revoked' };
+  }
+
+  // Check if user still exists
+  const user = await prisma.user.findUnique({
+    where: { id: decoded.id },
+    select: {
+      id: true,
+      email: true,
+      role: true,
+      status: true,
+      emailVerifiedAt: true
+    }
+  });
+
+  if (!user) {
+    return { error: 'User not found' };
+  }
+
+  if (user.status !== 'ACTIVE') {
+    return { error: 'Account is not active' };
+  }
+
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      sessionId: decoded.sid,
+      emailVerified: user.emailVerifiedAt !== null,
+      permissions: await permissionsForRole(user.role)
+    }
+  };
+};
+
 /**
  * Verify JWT token and attach user to request
  */
@@ -48,64 +134,21 @@ export const authenticate = async (
 
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
 
-    // Verify token
-    const decoded = jwt.verify(
-      token,
-      process.env.JWT_SECRET || 'default-secret'
-    ) as JWTPayload;
-
-    // Check if user still exists
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.id },
-      select: {
-        id: true,
-        email: true,
-        role: true,
-        status: true
-      }
-    });
-
-    if (!user) {
-      res.status(401).json({
-        success: false,
-        message: 'User not found'
-      });
-      return;
-    }
+    const result = await verifyAccessToken(token);
 
-    if (user.status !== 'ACTIVE') {
+    if (result.error !== undefined) {
       res.status(401).json({
         success: false,
-        message: 'Account is not active'
+        message: result.error
       });
       return;
     }
 
     // Attach user to request
-    req.user = {
-      id: user.id,
-      email: user.email,
-      role: user.role
-    };
+    req.user = result.user;
 
     next();
   } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
-      res.status(401).json({
-        success: false,
-        message: 'Invalid token'
-      });
-      return;
-    }
-
-    if (error instanceof jwt.TokenExpiredError) {
-      res.status(401).json({
-        success: false,
-        message: 'Token expired'
-      });
-      return;
-    }
-
     res.status(500).json({
       success: false,
       message: 'Authentication error'
@@ -114,26 +157,115 @@ export const authenticate = async (
 };
 
 /**
- * Check if user has required role
+ * Authenticate unless the body carries a login challenge token, which the
+ * handler verifies itself (two-factor enrollment before the first session)
  */
-export const authorize = (...roles: string[]) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
-    if (!req.user) {
-      res.status(401).json({
-        success: false,
-        message: 'Not authenticated'
+export const authenticateOrChallenge = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> | void => {
+  if (typeof req.body?.challengeToken === 'string') {
+    next();
+    return;
+  }
+
+  return authenticate(req, res, next);
+};
+
+/**
+ * Require a verified email address for sensitive actions
+ */
+export const requireVerifiedEmail = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      message: 'Not authenticated'
+    });
+    return;
+  }
+
+  if (!req.user.emailVerified) {
+    res.status(403).json({
+      success: false,
+      message: 'Verify your email address to do this',
+      code: 'EMAIL_NOT_VERIFIED'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Verify a device API key (X-Device-Key header) and attach the device to request
+ * Rejects keys that are revoked or not allowed to call the given scope
+ */
+export const authenticateDevice = (scope: string) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const header = req.headers['x-device-key'];
+      const parsed = typeof header === 'string' ? parseDeviceKey(header) : null;
+
+      if (!parsed) {
+        res.status(401).json({
+          success: false,
+          message: 'No device key provided'
+        });
+        return;
+      }
+
+      const deviceKey = await prisma.deviceKey.findUnique({
+        where: { keyPrefix: parsed.keyPrefix }
       });
-      return;
-    }
 
-    if (!roles.includes(req.user.role)) {
-      res.status(403).json({
+      if (!deviceKey || !verifyDeviceKey(parsed.secret, deviceKey.keyHash)) {
+        res.status(401).json({
+          success: false,
+          message: 'Invalid device key'
+        });
+        return;
+      }
+
+      if (deviceKey.status !== 'ACTIVE') {
+        res.status(401).json({
+          success: false,
+          message: 'Device key has been revoked'
+        });
+        return;
+      }
+
+      const scopes: string[] = JSON.parse(deviceKey.scopes);
+
+      if (!scopes.includes(scope)) {
+        res.status(403).json({
+          success: false,
+          message: 'Device key is not allowed to call this endpoint'
+        });
+        return;
+      }
+
+      await prisma.deviceKey.update({
+        where: { id: deviceKey.id },
+        data: { lastUsedAt: new Date(), lastUsedIp: req.ip }
+      });
+
+      req.device = {
+        id: deviceKey.id,
+        name: deviceKey.name,
+        deviceType: deviceKey.deviceType,
+        farmId: deviceKey.farmId,
+        parkId: deviceKey.parkId,
+        droneId: deviceKey.droneId,
+        scopes
+      };
+
+      next();
+    } catch (error) {
+      res.status(500).json({
         success: false,
-        message: 'Insufficient permissions'
+        message: 'Authentication error'
       });
-      return;
     }
-
-    next();
   };
 };
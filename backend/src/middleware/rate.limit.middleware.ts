@@ -0,0 +1,54 @@
+/**
+ * Rate Limit Middleware
+ * Counts requests per key against a named limit and answers 429 with
+ * Retry-After once the window is used up
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { getRateLimitRule, getRateLimitStore, RateLimitName } from '../services/rate.limits';
+
+type KeyFn = (req: Request) => string | undefined;
+
+// Per client address (honours TRUST_PROXY for the real address behind a proxy)
+export const byIp: KeyFn = (req) => req.ip;
+
+// Per target account, whoever is asking; requests without an email are not counted
+export const byAccount: KeyFn = (req) =>
+  typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : undefined;
+
+export const rateLimit = (name: RateLimitName, keyFn: KeyFn = byIp) => {
+  const rule = getRateLimitRule(name);
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const key = keyFn(req);
+
+    if (rule.max <= 0 || !key) {
+      next();
+      return;
+    }
+
+    try {
+      const { count, resetAt } = await getRateLimitStore().increment(`${name}:${key}`, rule.windowMs);
+      const resetSeconds = Math.max(1, Math.ceil((resetAt.getTime() - Date.now()) / 1000));
+
+      res.setHeader('RateLimit-Limit', rule.max);
+      res.setHeader('RateLimit-Remaining', Math.max(0, rule.max - count));
+      res.setHeader('RateLimit-Reset', resetSeconds);
+
+      if (count > rule.max) {
+        res.setHeader('Retry-After', resetSeconds);
+        res.status(429).json({
+          success: false,
+          message: `Too many requests, try again in ${resetSeconds} seconds`,
+          retryAfter: resetSeconds
+        });
+        return;
+      }
+    } catch (error) {
+      // A broken store should not take the API down with it
+      console.error(`Rate limit ${name} error:`, error);
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,39 @@
+/**
+ * Access Routes
+ */
+
+import { Router } from 'express';
+import {
+  getMyAccess,
+  getPermissions,
+  getRoles,
+  createRole,
+  updateRole,
+  deleteRole,
+  getGrants,
+  createGrant,
+  deleteGrant
+} from '../controllers/access.controller';
+import { authenticate, requireVerifiedEmail } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/access.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/me', getMyAccess);
+
+// Roles
+router.get('/permissions', requirePermission('role:manage'), getPermissions);
+router.get('/roles', requirePermission('role:manage'), getRoles);
+router.post('/roles', requirePermission('role:manage'), requireVerifiedEmail, createRole);
+router.put('/roles/:id', requirePermission('role:manage'), requireVerifiedEmail, updateRole);
+router.delete('/roles/:id', requirePermission('role:manage'), requireVerifiedEmail, deleteRole);
+
+// Grants, checked against the resource's owner or manager in the controller
+router.get('/grants', getGrants);
+router.post('/grants', createGrant);
+router.delete('/grants/:id', deleteGrant);
+
+export default router;
@@ -8,21 +8,58 @@ import {
   getAlertById,
   createAlert,
   updateAlertStatus,
+  reopenAlert,
   assignAlert,
-  getAlertStats
+  getAlertGroupById,
+  resolveAlertGroup,
+  getAlertComments,
+  addAlertComment,
+  getAlertStats,
+  getAlertRules,
+  createAlertRule,
+  updateAlertRule,
+  deleteAlertRule
 } from '../controllers/alert.controller';
+import {
+  getEscalationPolicies,
+  createEscalationPolicy,
+  updateEscalationPolicy,
+  deleteEscalationPolicy
+} from '../controllers/escalation.controller';
 import { authenticate } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/access.middleware';
 
 const router = Router();
 
 // All routes require authentication
 router.use(authenticate);
 
-router.get('/', getAlerts);
-router.get('/stats', getAlertStats);
-router.post('/', createAlert);
-router.get('/:id', getAlertById);
-router.put('/:id/status', updateAlertStatus);
-router.put('/:id/assign', assignAlert);
+// Alert rule routes
+// Rule scopes (farm, park, zone) are checked per rule in the controller
+router.get('/rules', requirePermission('rule:manage'), getAlertRules);
+router.post('/rules', requirePermission('rule:manage'), createAlertRule);
+router.put('/rules/:id', requirePermission('rule:manage'), updateAlertRule);
+router.delete('/rules/:id', requirePermission('rule:manage'), deleteAlertRule);
+
+// Escalation policy routes
+router.get('/escalation-policies', requirePermission('escalation:manage'), getEscalationPolicies);
+router.post('/escalation-policies', requirePermission('escalation:manage'), createEscalationPolicy);
+router.put('/escalation-policies/:id', requirePermission('escalation:manage'), updateEscalationPolicy);
+router.delete('/escalation-policies/:id', requirePermission('escalation:manage'), deleteEscalationPolicy);
+
+// Alert group routes (the controller only returns and resolves the alerts the user can see)
+router.get('/groups/:id', requirePermission('alert:read'), getAlertGroupById);
+router.post('/groups/:id/resolve', requirePermission('alert:update'), resolveAlertGroup);
+
+// Alert routes
+router.get('/', requirePermission('alert:read'), getAlerts);
+router.get('/stats', requirePermission('alert:read'), getAlertStats);
+router.post('/', requirePermission('alert:create'), createAlert);
+router.get('/:id', requirePermission('alert:read'), getAlertById);
+router.put('/:id/status', requirePermission('alert:update'), updateAlertStatus);
+router.post('/:id/reopen', requirePermission('alert:update'), reopenAlert);
+router.put('/:id/assign', requirePermission('alert:assign'), assignAlert);
+router.get('/:id/comments', requirePermission('alert:read'), getAlertComments);
+router.post('/:id/comments', requirePermission('alert:update'), addAlertComment);
 
 export default router;
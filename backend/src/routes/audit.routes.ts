@@ -0,0 +1,18 @@
+/**
+ * Audit Routes
+ */
+
+import { Router } from 'express';
+import { getAuditLog, exportAuditLog } from '../controllers/audit.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/access.middleware';
+
+const router = Router();
+
+// The full audit trail is for auditors only; records show their own history on their routes
+router.use(authenticate, requirePermission('audit:read'));
+
+router.get('/', getAuditLog);
+router.get('/export', exportAuditLog);
+
+export default router;
@@ -3,19 +3,57 @@
  */
 
 import { Router } from 'express';
-import { register, login, getProfile, refreshToken, updateProfile, changePassword } from '../controllers/auth.controller';
-import { authenticate } from '../middleware/auth.middleware';
+import {
+  register,
+  login,
+  logout,
+  getProfile,
+  refreshToken,
+  updateProfile,
+  changePassword,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerification
+} from '../controllers/auth.controller';
+import { getMySessions, revokeMySession, revokeOtherSessions } from '../controllers/session.controller';
+import {
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  verifyTwoFactorLogin,
+  disableTwoFactor,
+  regenerateRecoveryCodes
+} from '../controllers/mfa.controller';
+import { authenticate, authenticateOrChallenge } from '../middleware/auth.middleware';
+import { rateLimit, byAccount } from '../middleware/rate.limit.middleware';
 
 const router = Router();
 
-// Public routes
-router.post('/register', register);
-router.post('/login', login);
+// Public routes (throttled per address, and per account where one is named)
+router.post('/register', rateLimit('REGISTER_IP'), register);
+router.post('/login', rateLimit('LOGIN_IP'), rateLimit('LOGIN_ACCOUNT', byAccount), login);
+router.post('/refresh', rateLimit('REFRESH_IP'), refreshToken);
+router.post('/logout', logout);
+router.post('/forgot-password', rateLimit('PASSWORD_RESET_IP'), rateLimit('PASSWORD_RESET_ACCOUNT', byAccount), forgotPassword);
+router.post('/reset-password', rateLimit('PASSWORD_RESET_IP'), resetPassword);
+router.post('/verify-email', rateLimit('EMAIL_VERIFICATION_IP'), verifyEmail);
+router.post('/2fa/verify', rateLimit('TWO_FACTOR_IP'), verifyTwoFactorLogin);
+
+// Signed in, or mid-login with an enrollment challenge
+router.post('/2fa/setup', rateLimit('TWO_FACTOR_IP'), authenticateOrChallenge, setupTwoFactor);
+router.post('/2fa/enable', rateLimit('TWO_FACTOR_IP'), authenticateOrChallenge, enableTwoFactor);
 
 // Protected routes
 router.get('/profile', authenticate, getProfile);
 router.put('/profile', authenticate, updateProfile);
-router.post('/refresh', authenticate, refreshToken);
 router.post('/change-password', authenticate, changePassword);
+router.post('/resend-verification', authenticate, rateLimit('EMAIL_VERIFICATION_IP'), resendVerification);
+router.get('/sessions', authenticate, getMySessions);
+router.delete('/sessions', authenticate, revokeOtherSessions);
+router.delete('/sessions/:id', authenticate, revokeMySession);
+router.get('/2fa', authenticate, getTwoFactorStatus);
+router.post('/2fa/disable', authenticate, disableTwoFactor);
+router.post('/2fa/recovery-codes', authenticate, regenerateRecoveryCodes);
 
 export default router;
@@ -10,15 +10,16 @@ import {
   getLandDashboard
 } from '../controllers/dashboard.controller';
 import { authenticate } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/access.middleware';
 
 const router = Router();
 
 // All routes require authentication
-router.use(authenticate);
+router.use(authenticate, requirePermission('dashboard:read'));
 
 router.get('/overview', getOverviewStats);
-router.get('/farm', getFarmDashboard);
-router.get('/park', getParkDashboard);
-router.get('/land', getLandDashboard);
+router.get('/farm', requirePermission('farm:read'), getFarmDashboard);
+router.get('/park', requirePermission('park:read'), getParkDashboard);
+router.get('/land', requirePermission('land:read'), getLandDashboard);
 
 export default router;
@@ -0,0 +1,25 @@
+/**
+ * Device Routes
+ */
+
+import { Router } from 'express';
+import {
+  getDeviceKeys,
+  issueDeviceKey,
+  rotateDeviceKey,
+  revokeDeviceKey
+} from '../controllers/device.controller';
+import { authenticate, requireVerifiedEmail } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/access.middleware';
+
+const router = Router();
+
+// Device credentials are managed by admins only
+router.use(authenticate, requirePermission('device:manage'));
+
+router.get('/keys', getDeviceKeys);
+router.post('/keys', requireVerifiedEmail, issueDeviceKey);
+router.post('/keys/:id/rotate', requireVerifiedEmail, rotateDeviceKey);
+router.post('/keys/:id/revoke', requireVerifiedEmail, revokeDeviceKey);
+
+export default router;
@@ -0,0 +1,48 @@
+/**
+ * Drone Routes
+ */
+
+import { Router } from 'express';
+import {
+  getDrones,
+  getDroneById,
+  createDrone,
+  updateDrone,
+  getBaseCamps,
+  createBaseCamp,
+  updateBaseCamp,
+  getMissions,
+  getMissionById,
+  createMission,
+  updateMission,
+  updateMissionStatus,
+  deleteMission
+} from '../controllers/drone.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requirePermission, requireResource } from '../middleware/access.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Base camp routes
+router.get('/base-camps', requirePermission('drone:read'), getBaseCamps);
+router.post('/base-camps', requirePermission('drone:manage'), createBaseCamp);
+router.put('/base-camps/:id', requirePermission('drone:manage'), updateBaseCamp);
+
+// Mission routes
+router.get('/missions', requirePermission('mission:read'), getMissions);
+router.post('/missions', requirePermission('mission:write'), createMission);
+router.get('/missions/:id', requirePermission('mission:read'), requireResource('mission', 'id'), getMissionById);
+router.put('/missions/:id', requirePermission('mission:write'), requireResource('mission', 'id', 'WRITE'), updateMission);
+router.put('/missions/:id/status', requirePermission('mission:write'), requireResource('mission', 'id', 'WRITE'), updateMissionStatus);
+router.delete('/missions/:id', requirePermission('mission:write'), requireResource('mission', 'id', 'WRITE'), deleteMission);
+
+// Drone routes
+router.get('/', requirePermission('drone:read'), getDrones);
+router.post('/', requirePermission('drone:manage'), createDrone);
+router.get('/:id', requirePermission('drone:read'), requireResource('drone', 'id'), getDroneById);
+router.put('/:id', requirePermission('drone:write'), requireResource('drone', 'id', 'WRITE'), updateDrone);
+
+export default router;
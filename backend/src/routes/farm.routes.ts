@@ -2,38 +2,142 @@
  * Farm Routes
  */
 
-import { Router } from 'express';
+import express, { Router } from 'express';
 import {
   getFarms,
   getFarmById,
   createFarm,
   getHerds,
   createHerd,
+  setHerdQuarantine,
   getAnimals,
   getAnimalById,
+  updateAnimalStatus,
+  createHealthEvent,
+  getHealthEvents,
+  updateHealthEvent,
+  resolveHealthEvent,
+  getHerdDiscrepancies,
   getPastureZones
 } from '../controllers/farm.controller';
+import {
+  registerAnimal,
+  updateAnimal,
+  transferAnimal,
+  disposeAnimal,
+  getAnimalMovements,
+  importAnimals,
+  exportAnimals
+} from '../controllers/animal.controller';
+import {
+  getTreatmentPlans,
+  createTreatmentPlan,
+  updateTreatmentPlan,
+  administerDose,
+  getVaccinationSchedules,
+  createVaccinationSchedule,
+  updateVaccinationSchedule,
+  deleteVaccinationSchedule,
+  getDueVaccinations,
+  getVaccinations,
+  recordVaccination
+} from '../controllers/health.controller';
+import { getEntityHistory } from '../controllers/audit.controller';
 import { authenticate } from '../middleware/auth.middleware';
+import { requirePermission, requireResource } from '../middleware/access.middleware';
+import { XLSX_CONTENT_TYPE } from '../services/animal.import';
 
 const router = Router();
 
+// Registry sheets arrive as the raw request body; browsers label CSV files inconsistently
+const sheetUpload = express.raw({
+  type: ['text/csv', 'application/csv', 'application/vnd.ms-excel', 'application/octet-stream', XLSX_CONTENT_TYPE],
+  limit: '10mb'
+});
+
 // All routes require authentication
 router.use(authenticate);
 
 // Farm routes
-router.get('/', getFarms);
-router.post('/', createFarm);
-router.get('/:id', getFarmById);
+router.get('/', requirePermission('farm:read'), getFarms);
+router.post('/', requirePermission('farm:create'), createFarm);
+router.get('/:id', requirePermission('farm:read'), requireResource('farm', 'id'), getFarmById);
+router.get('/:id/history', requirePermission('farm:read'), requireResource('farm', 'id'), getEntityHistory('farm'));
 
 // Herd routes
-router.get('/:farmId/herds', getHerds);
-router.post('/:farmId/herds', createHerd);
+router.get('/:farmId/herds', requirePermission('farm:read'), requireResource('farm', 'farmId'), getHerds);
+router.post('/:farmId/herds', requirePermission('farm:write'), requireResource('farm', 'farmId', 'WRITE'), createHerd);
+router.put('/herds/:herdId/quarantine', requirePermission('farm:write'), requireResource('herd', 'herdId', 'WRITE'), setHerdQuarantine);
+router.get('/herds/:herdId/history', requirePermission('farm:read'), requireResource('herd', 'herdId'), getEntityHistory('herd', 'herdId'));
+
+// Herds whose registry and latest drone count disagree
+router.get('/herds/discrepancies', requirePermission('farm:read'), getHerdDiscrepancies);
+
+// Registry import and export
+router.post(
+  '/:farmId/animals/import',
+  requirePermission('farm:write'),
+  requireResource('farm', 'farmId', 'WRITE'),
+  sheetUpload,
+  importAnimals
+);
+router.get('/:farmId/animals/export', requirePermission('farm:read'), requireResource('farm', 'farmId'), exportAnimals);
 
 // Animal routes
-router.get('/herds/:herdId/animals', getAnimals);
-router.get('/animals/:id', getAnimalById);
+router.get('/herds/:herdId/animals', requirePermission('farm:read'), requireResource('herd', 'herdId'), getAnimals);
+router.post('/herds/:herdId/animals', requirePermission('farm:write'), requireResource('herd', 'herdId', 'WRITE'), registerAnimal);
+router.get('/animals/:id', requirePermission('farm:read'), requireResource('animal', 'id'), getAnimalById);
+router.put('/animals/:id', requirePermission('farm:write'), requireResource('animal', 'id', 'WRITE'), updateAnimal);
+router.get('/animals/:id/history', requirePermission('farm:read'), requireResource('animal', 'id'), getEntityHistory('animal'));
+router.put('/animals/:id/status', requirePermission('farm:write'), requireResource('animal', 'id', 'WRITE'), updateAnimalStatus);
+
+// Movement routes: transfers between herds and end-of-life records
+router.get('/animals/:id/movements', requirePermission('farm:read'), requireResource('animal', 'id'), getAnimalMovements);
+router.post('/animals/:id/transfer', requirePermission('farm:write'), requireResource('animal', 'id', 'WRITE'), transferAnimal);
+router.post('/animals/:id/disposition', requirePermission('farm:write'), requireResource('animal', 'id', 'WRITE'), disposeAnimal);
+
+// Health event routes
+router.get('/animals/:id/health-events', requirePermission('farm:read'), requireResource('animal', 'id'), getHealthEvents);
+router.post('/animals/:id/health-events', requirePermission('farm:write'), requireResource('animal', 'id', 'WRITE'), createHealthEvent);
+router.put('/animals/:id/health-events/:eventId', requirePermission('farm:write'), requireResource('animal', 'id', 'WRITE'), updateHealthEvent);
+router.post(
+  '/animals/:id/health-events/:eventId/resolve',
+  requirePermission('farm:write'),
+  requireResource('animal', 'id', 'WRITE'),
+  resolveHealthEvent
+);
+
+// Treatment plan routes
+router.get('/animals/:id/treatment-plans', requirePermission('farm:read'), requireResource('animal', 'id'), getTreatmentPlans);
+router.post('/animals/:id/treatment-plans', requirePermission('farm:write'), requireResource('animal', 'id', 'WRITE'), createTreatmentPlan);
+router.put('/animals/:id/treatment-plans/:planId', requirePermission('farm:write'), requireResource('animal', 'id', 'WRITE'), updateTreatmentPlan);
+router.post(
+  '/animals/:id/treatment-plans/:planId/doses/:doseId/administer',
+  requirePermission('farm:write'),
+  requireResource('animal', 'id', 'WRITE'),
+  administerDose
+);
+
+// Vaccination routes
+router.get('/animals/:id/vaccinations', requirePermission('farm:read'), requireResource('animal', 'id'), getVaccinations);
+router.post('/animals/:id/vaccinations', requirePermission('farm:write'), requireResource('animal', 'id', 'WRITE'), recordVaccination);
+router.get('/:farmId/vaccinations/due', requirePermission('farm:read'), requireResource('farm', 'farmId'), getDueVaccinations);
+router.get('/:farmId/vaccination-schedules', requirePermission('farm:read'), requireResource('farm', 'farmId'), getVaccinationSchedules);
+router.post('/:farmId/vaccination-schedules', requirePermission('farm:write'), requireResource('farm', 'farmId', 'WRITE'), createVaccinationSchedule);
+router.put(
+  '/:farmId/vaccination-schedules/:scheduleId',
+  requirePermission('farm:write'),
+  requireResource('farm', 'farmId', 'WRITE'),
+  updateVaccinationSchedule
+);
+router.delete(
+  '/:farmId/vaccination-schedules/:scheduleId',
+  requirePermission('farm:write'),
+  requireResource('farm', 'farmId', 'WRITE'),
+  deleteVaccinationSchedule
+);
 
 // Pasture routes
-router.get('/:farmId/pastures', getPastureZones);
+router.get('/:farmId/pastures', requirePermission('farm:read'), requireResource('farm', 'farmId'), getPastureZones);
 
 export default router;
@@ -12,7 +12,9 @@ import {
   getChanges,
   createChange
 } from '../controllers/land.controller';
+import { getEntityHistory } from '../controllers/audit.controller';
 import { authenticate } from '../middleware/auth.middleware';
+import { requirePermission, requireResource } from '../middleware/access.middleware';
 
 const router = Router();
 
@@ -20,16 +22,17 @@ const router = Router();
 router.use(authenticate);
 
 // Land zone routes
-router.get('/zones', getLandZones);
-router.post('/zones', createLandZone);
-router.get('/zones/:id', getLandZoneById);
+router.get('/zones', requirePermission('land:read'), getLandZones);
+router.post('/zones', requirePermission('land:create'), createLandZone);
+router.get('/zones/:id', requirePermission('land:read'), requireResource('landZone', 'id'), getLandZoneById);
+router.get('/zones/:id/history', requirePermission('land:read'), requireResource('landZone', 'id'), getEntityHistory('landZone'));
 
 // Survey routes
-router.get('/zones/:zoneId/surveys', getSurveys);
-router.post('/zones/:zoneId/surveys', createSurvey);
+router.get('/zones/:zoneId/surveys', requirePermission('land:read'), requireResource('landZone', 'zoneId'), getSurveys);
+router.post('/zones/:zoneId/surveys', requirePermission('land:write'), requireResource('landZone', 'zoneId', 'WRITE'), createSurvey);
 
 // Change routes
-router.get('/zones/:zoneId/changes', getChanges);
-router.post('/zones/:zoneId/changes', createChange);
+router.get('/zones/:zoneId/changes', requirePermission('land:read'), requireResource('landZone', 'zoneId'), getChanges);
+router.post('/zones/:zoneId/changes', requirePermission('land:write'), requireResource('landZone', 'zoneId', 'WRITE'), createChange);
 
 export default router;
@@ -0,0 +1,28 @@
+/**
+ * Notification Routes
+ */
+
+import { Router } from 'express';
+import {
+  getPreferences,
+  updatePreferences,
+  getDeliveries,
+  retryDelivery,
+  sendTestNotification
+} from '../controllers/notification.controller';
+import { authenticate, requireVerifiedEmail } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/access.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/preferences', getPreferences);
+// Preferences can point alerts at external addresses
+router.put('/preferences', requireVerifiedEmail, updatePreferences);
+router.post('/test', requireVerifiedEmail, sendTestNotification);
+router.get('/deliveries', getDeliveries);
+router.post('/deliveries/:id/retry', requirePermission('notification:manage'), retryDelivery);
+
+export default router;
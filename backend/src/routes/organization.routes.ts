@@ -0,0 +1,37 @@
+/**
+ * Organization Routes
+ */
+
+import { Router } from 'express';
+import {
+  getOrganizations,
+  getOrganizationById,
+  createOrganization,
+  updateOrganization,
+  addMember,
+  updateMember,
+  removeMember,
+  moveAssets
+} from '../controllers/organization.controller';
+import { authenticate, requireVerifiedEmail } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/access.middleware';
+
+const router = Router();
+
+// All routes require authentication; membership roles are checked in the controller
+router.use(authenticate);
+
+router.get('/', getOrganizations);
+router.post('/', requireVerifiedEmail, createOrganization);
+router.get('/:id', getOrganizationById);
+router.put('/:id', updateOrganization);
+
+// Members
+router.post('/:id/members', addMember);
+router.put('/:id/members/:userId', updateMember);
+router.delete('/:id/members/:userId', removeMember);
+
+// Move existing user-owned assets into the organization
+router.post('/:id/assets', requirePermission('organization:manage'), requireVerifiedEmail, moveAssets);
+
+export default router;
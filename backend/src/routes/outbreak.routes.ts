@@ -0,0 +1,19 @@
+/**
+ * Outbreak Routes
+ */
+
+import { Router } from 'express';
+import { getOutbreaks, getOutbreakById, scanOutbreaks } from '../controllers/outbreak.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/access.middleware';
+
+const router = Router();
+
+router.use(authenticate, requirePermission('farm:read'));
+
+router.get('/', getOutbreaks);
+// Scans every farm, so only users who see every farm may start one
+router.post('/scan', requirePermission('farm:all'), scanOutbreaks);
+router.get('/:id', getOutbreakById);
+
+export default router;
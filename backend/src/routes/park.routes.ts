@@ -13,7 +13,9 @@ import {
   getIncidents,
   createIncident
 } from '../controllers/park.controller';
+import { getEntityHistory } from '../controllers/audit.controller';
 import { authenticate } from '../middleware/auth.middleware';
+import { requirePermission, requireResource } from '../middleware/access.middleware';
 
 const router = Router();
 
@@ -21,19 +23,20 @@ const router = Router();
 router.use(authenticate);
 
 // Park routes
-router.get('/', getParks);
-router.post('/', createPark);
-router.get('/:id', getParkById);
+router.get('/', requirePermission('park:read'), getParks);
+router.post('/', requirePermission('park:create'), createPark);
+router.get('/:id', requirePermission('park:read'), requireResource('park', 'id'), getParkById);
+router.get('/:id/history', requirePermission('park:read'), requireResource('park', 'id'), getEntityHistory('park'));
 
 // Wildlife routes
-router.get('/:parkId/wildlife', getWildlife);
+router.get('/:parkId/wildlife', requirePermission('park:read'), requireResource('park', 'parkId'), getWildlife);
 
 // Patrol routes
-router.get('/:parkId/patrols', getPatrols);
-router.post('/:parkId/patrols', createPatrol);
+router.get('/:parkId/patrols', requirePermission('park:read'), requireResource('park', 'parkId'), getPatrols);
+router.post('/:parkId/patrols', requirePermission('park:write'), requireResource('park', 'parkId', 'WRITE'), createPatrol);
 
 // Incident routes
-router.get('/:parkId/incidents', getIncidents);
-router.post('/:parkId/incidents', createIncident);
+router.get('/:parkId/incidents', requirePermission('park:read'), requireResource('park', 'parkId'), getIncidents);
+router.post('/:parkId/incidents', requirePermission('park:write'), requireResource('park', 'parkId', 'WRITE'), createIncident);
 
 export default router;
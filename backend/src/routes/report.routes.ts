@@ -9,14 +9,15 @@ import {
   generateReport
 } from '../controllers/report.controller';
 import { authenticate } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/access.middleware';
 
 const router = Router();
 
 // All routes require authentication
 router.use(authenticate);
 
-router.get('/', getReports);
-router.post('/', generateReport);
-router.get('/:id', getReportById);
+router.get('/', requirePermission('report:read'), getReports);
+router.post('/', requirePermission('report:create'), generateReport);
+router.get('/:id', requirePermission('report:read'), getReportById);
 
 export default router;
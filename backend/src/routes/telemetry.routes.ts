@@ -0,0 +1,15 @@
+/**
+ * Telemetry Routes
+ */
+
+import { Router } from 'express';
+import { getDeviceMissions, ingestTelemetry } from '../controllers/telemetry.controller';
+import { authenticateDevice } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Called by drones and ground stations with a device key, not a user token
+router.post('/ingest', authenticateDevice('telemetry:ingest'), ingestTelemetry);
+router.get('/missions', authenticateDevice('missions:read'), getDeviceMissions);
+
+export default router;
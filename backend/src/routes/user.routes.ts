@@ -3,17 +3,27 @@
  */
 
 import { Router } from 'express';
-import { getUsers, getUserById, createUser, updateUser } from '../controllers/user.controller';
-import { authenticate, authorize } from '../middleware/auth.middleware';
+import { getUsers, getUserById, createUser, updateUser, updateUserStatus, updateUserRole, unlockUser } from '../controllers/user.controller';
+import { getUserSessions, revokeUserSession, revokeAllUserSessions } from '../controllers/session.controller';
+import { resetUserTwoFactor } from '../controllers/mfa.controller';
+import { authenticate, requireVerifiedEmail } from '../middleware/auth.middleware';
+import { requirePermission, requireSelfOrPermission } from '../middleware/access.middleware';
 
 const router = Router();
 
 // All routes require authentication
 router.use(authenticate);
 
-router.get('/', authorize('ADMIN'), getUsers);
-router.post('/', authorize('ADMIN'), createUser);
-router.get('/:id', getUserById);
-router.put('/:id', updateUser);
+router.get('/', requirePermission('user:read'), getUsers);
+router.post('/', requirePermission('user:manage'), requireVerifiedEmail, createUser);
+router.get('/:id', requireSelfOrPermission('user:read'), getUserById);
+router.put('/:id', requireSelfOrPermission('user:manage'), updateUser);
+router.put('/:id/status', requirePermission('user:manage'), requireVerifiedEmail, updateUserStatus);
+router.put('/:id/role', requirePermission('user:manage', 'role:manage'), requireVerifiedEmail, updateUserRole);
+router.post('/:id/unlock', requirePermission('user:manage'), unlockUser);
+router.get('/:id/sessions', requirePermission('user:manage'), getUserSessions);
+router.delete('/:id/sessions', requirePermission('user:manage'), revokeAllUserSessions);
+router.delete('/:id/sessions/:sessionId', requirePermission('user:manage'), revokeUserSession);
+router.post('/:id/2fa/reset', requirePermission('user:manage'), requireVerifiedEmail, resetUserTwoFactor);
 
 export default router;
@@ -0,0 +1,127 @@
+/**
+ * Permissions
+ * What each role may do. Routes ask for a permission rather than a role, so
+ * custom roles can be assembled from the same list the built-in roles use.
+ */
+
+import prisma from '../utils/db';
+
+export const PERMISSIONS = [
+  'farm:read', 'farm:create', 'farm:write', 'farm:all',
+  'park:read', 'park:create', 'park:write', 'park:all',
+  'land:read', 'land:create', 'land:write', 'land:all',
+  'patrol:monitor',
+  'alert:read', 'alert:create', 'alert:update', 'alert:assign', 'alert:all',
+  'rule:manage',
+  'escalation:manage',
+  'drone:read', 'drone:write', 'drone:manage', 'drone:all',
+  'mission:read', 'mission:write',
+  'report:read', 'report:create', 'report:all',
+  'dashboard:read',
+  'notification:manage',
+  'user:read', 'user:manage',
+  'device:manage',
+  'role:manage',
+  'organization:manage',
+  'audit:read'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const isPermission = (value: unknown): value is Permission =>
+  typeof value === 'string' && (PERMISSIONS as readonly string[]).includes(value);
+
+/**
+ * Built-in roles. The `:all` permissions lift ownership checks for that
+ * module; without them a user only reaches the farms, parks and land zones
+ * they own, manage or have been granted.
+ */
+export const BUILT_IN_ROLES: Record<string, readonly Permission[]> = {
+  ADMIN: PERMISSIONS,
+  FARMER: [
+    'farm:read', 'farm:create', 'farm:write',
+    'land:read', 'land:create', 'land:write',
+    'alert:read', 'alert:create', 'alert:update', 'alert:assign',
+    'rule:manage',
+    'drone:read', 'drone:write', 'mission:read', 'mission:write',
+    'report:read', 'report:create',
+    'dashboard:read'
+  ],
+  RANGER: [
+    'park:read', 'park:create', 'park:write',
+    'land:read',
+    'patrol:monitor',
+    'alert:read', 'alert:create', 'alert:update', 'alert:assign',
+    'rule:manage',
+    'drone:read', 'drone:write', 'mission:read', 'mission:write',
+    'report:read', 'report:create',
+    'dashboard:read'
+  ],
+  ANALYST: [
+    'farm:read', 'park:read',
+    'land:read', 'land:create', 'land:write',
+    'alert:read', 'alert:update',
+    'drone:read', 'mission:read',
+    'report:read', 'report:create',
+    'dashboard:read'
+  ]
+};
+
+export const isBuiltInRole = (name: string) => Object.prototype.hasOwnProperty.call(BUILT_IN_ROLES, name);
+
+// Custom roles are read on every authenticated request; keep them briefly
+const ROLE_CACHE_MS = 30 * 1000;
+const roleCache = new Map<string, { permissions: Permission[]; loadedAt: number }>();
+
+export const clearRoleCache = () => roleCache.clear();
+
+/**
+ * Stored permission JSON, keeping only names that still exist
+ */
+export const parsePermissions = (stored: string): Permission[] => {
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isPermission) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Permissions of a built-in or custom role; unknown roles get none
+ */
+export const permissionsForRole = async (role: string): Promise<Permission[]> => {
+  if (isBuiltInRole(role)) return [...BUILT_IN_ROLES[role]];
+
+  const cached = roleCache.get(role);
+  if (cached && Date.now() - cached.loadedAt < ROLE_CACHE_MS) return cached.permissions;
+
+  const stored = await prisma.role.findUnique({
+    where: { name: role },
+    select: { permissions: true }
+  });
+  const permissions = stored ? parsePermissions(stored.permissions) : [];
+
+  roleCache.set(role, { permissions, loadedAt: Date.now() });
+  return permissions;
+};
+
+/**
+ * Check a permission on an authenticated user
+ */
+export const hasPermission = (user: { permissions: readonly string[] } | undefined, permission: Permission) =>
+  !!user && user.permissions.includes(permission);
+
+/**
+ * Whether a role name is built in or defined as a custom role
+ */
+export const roleExists = async (role: string) =>
+  isBuiltInRole(role) || (await prisma.role.count({ where: { name: role } })) > 0;
+
+/**
+ * Every assignable role name, built-in roles first
+ */
+export const roleNames = async () => {
+  const custom = await prisma.role.findMany({ select: { name: true }, orderBy: { name: 'asc' } });
+  return [...Object.keys(BUILT_IN_ROLES), ...custom.map(role => role.name)];
+};
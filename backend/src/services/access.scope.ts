@@ -0,0 +1,216 @@
+/**
+ * Resource Scope
+ * Which farms, parks and land zones a user may reach: the ones they own or
+ * manage, the ones their organizations own, the ones granted to them, or all
+ * of them with the module's `:all` permission. Route guards, list and
+ * dashboard queries and live subscriptions share it.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/db';
+import { hasPermission, Permission } from './access.permissions';
+import { canAccessAsMember, memberOrganizationIds } from './organization.members';
+
+export const RESOURCE_TYPES = ['FARM', 'PARK', 'LAND_ZONE'] as const;
+export type ResourceType = typeof RESOURCE_TYPES[number];
+
+export const ACCESS_LEVELS = ['READ', 'WRITE'] as const;
+export type AccessLevel = typeof ACCESS_LEVELS[number];
+
+interface ScopedUser {
+  id: string;
+  permissions: readonly string[];
+}
+
+// Drones that fly for no farm or park belong to the shared fleet
+export type ScopeType = ResourceType | 'FLEET';
+
+const ALL_PERMISSION: Record<ScopeType, Permission> = {
+  FARM: 'farm:all',
+  PARK: 'park:all',
+  LAND_ZONE: 'land:all',
+  FLEET: 'drone:all'
+};
+
+/**
+ * The farm, park or land zone a request is about, with whoever owns or
+ * manages it and the organization it belongs to
+ */
+export interface ResourceScope {
+  type: ScopeType;
+  id: string;
+  holderId: string | null;
+  organizationId: string | null;
+}
+
+export const findResourceScope = async (type: ResourceType, id: string): Promise<ResourceScope | null> => {
+  if (type === 'FARM') {
+    const farm = await prisma.farm.findUnique({ where: { id }, select: { ownerId: true, organizationId: true } });
+    return farm && { type, id, holderId: farm.ownerId, organizationId: farm.organizationId };
+  }
+
+  if (type === 'PARK') {
+    const park = await prisma.park.findUnique({ where: { id }, select: { managerId: true, organizationId: true } });
+    return park && { type, id, holderId: park.managerId, organizationId: park.organizationId };
+  }
+
+  const zone = await prisma.landZone.findUnique({ where: { id }, select: { managerId: true, organizationId: true } });
+  return zone && { type, id, holderId: zone.managerId, organizationId: zone.organizationId };
+};
+
+const droneScopeSelect = {
+  id: true,
+  farm: { select: { id: true, ownerId: true, organizationId: true } },
+  park: { select: { id: true, managerId: true, organizationId: true } }
+};
+
+const droneResourceScope = (drone: Prisma.DroneGetPayload<{ select: typeof droneScopeSelect }>): ResourceScope => {
+  if (drone.farm) {
+    return { type: 'FARM', id: drone.farm.id, holderId: drone.farm.ownerId, organizationId: drone.farm.organizationId };
+  }
+  if (drone.park) {
+    return { type: 'PARK', id: drone.park.id, holderId: drone.park.managerId, organizationId: drone.park.organizationId };
+  }
+  return { type: 'FLEET', id: drone.id, holderId: null, organizationId: null };
+};
+
+/**
+ * Where a drone flies: its farm, its park, or the shared fleet
+ */
+export const findDroneScope = async (id: string): Promise<ResourceScope | null> => {
+  const drone = await prisma.drone.findUnique({ where: { id }, select: droneScopeSelect });
+  return drone && droneResourceScope(drone);
+};
+
+/**
+ * A mission is scoped by its drone; one without a drone is a fleet mission
+ */
+export const findMissionScope = async (id: string): Promise<ResourceScope | null> => {
+  const mission = await prisma.mission.findUnique({
+    where: { id },
+    select: { id: true, drone: { select: droneScopeSelect } }
+  });
+  if (!mission) return null;
+  return mission.drone
+    ? droneResourceScope(mission.drone)
+    : { type: 'FLEET', id: mission.id, holderId: null, organizationId: null };
+};
+
+/**
+ * Ids of resources granted to a user; a WRITE grant also satisfies READ
+ */
+export const grantedResourceIds = async (userId: string, type: ResourceType, level: AccessLevel = 'READ') => {
+  const grants = await prisma.resourceGrant.findMany({
+    where: {
+      userId,
+      resourceType: type,
+      ...(level === 'WRITE' && { access: 'WRITE' })
+    },
+    select: { resourceId: true }
+  });
+  return grants.map(grant => grant.resourceId);
+};
+
+export const canAccessScope = async (user: ScopedUser | undefined, scope: ResourceScope, level: AccessLevel = 'READ') => {
+  if (!user) return false;
+  if (hasPermission(user, ALL_PERMISSION[scope.type])) return true;
+  if (scope.holderId === user.id) return true;
+  if (scope.organizationId && (await canAccessAsMember(scope.organizationId, user.id, level))) return true;
+  if (scope.type === 'FLEET') return false;
+
+  const grant = await prisma.resourceGrant.findUnique({
+    where: {
+      userId_resourceType_resourceId: { userId: user.id, resourceType: scope.type, resourceId: scope.id }
+    },
+    select: { access: true }
+  });
+  return !!grant && (level === 'READ' || grant.access === 'WRITE');
+};
+
+export const canAccessResource = async (
+  user: ScopedUser | undefined,
+  type: ResourceType,
+  id: string,
+  level: AccessLevel = 'READ'
+) => {
+  const scope = await findResourceScope(type, id);
+  return !!scope && canAccessScope(user, scope, level);
+};
+
+/**
+ * Check a drone the way requireResource('drone') does, for drones named in a request body
+ */
+export const canAccessDrone = async (user: ScopedUser | undefined, id: string, level: AccessLevel = 'READ') => {
+  const scope = await findDroneScope(id);
+  if (!scope) return false;
+  return hasPermission(user, 'drone:all') || canAccessScope(user, scope, level);
+};
+
+/**
+ * Filters for list queries; empty when the user may see every record
+ */
+export const farmScope = async (user: ScopedUser | undefined): Promise<Prisma.FarmWhereInput> => {
+  if (!user) return { id: { in: [] } };
+  if (hasPermission(user, 'farm:all')) return {};
+
+  const [granted, organizationIds] = await Promise.all([
+    grantedResourceIds(user.id, 'FARM'),
+    memberOrganizationIds(user.id)
+  ]);
+  return {
+    OR: [{ ownerId: user.id }, { organizationId: { in: organizationIds } }, { id: { in: granted } }]
+  };
+};
+
+export const parkScope = async (user: ScopedUser | undefined): Promise<Prisma.ParkWhereInput> => {
+  if (!user) return { id: { in: [] } };
+  if (hasPermission(user, 'park:all')) return {};
+
+  const [granted, organizationIds] = await Promise.all([
+    grantedResourceIds(user.id, 'PARK'),
+    memberOrganizationIds(user.id)
+  ]);
+  return {
+    OR: [{ managerId: user.id }, { organizationId: { in: organizationIds } }, { id: { in: granted } }]
+  };
+};
+
+export const landZoneScope = async (user: ScopedUser | undefined): Promise<Prisma.LandZoneWhereInput> => {
+  if (!user) return { id: { in: [] } };
+  if (hasPermission(user, 'land:all')) return {};
+
+  const [granted, organizationIds] = await Promise.all([
+    grantedResourceIds(user.id, 'LAND_ZONE'),
+    memberOrganizationIds(user.id)
+  ]);
+  return {
+    OR: [{ managerId: user.id }, { organizationId: { in: organizationIds } }, { id: { in: granted } }]
+  };
+};
+
+/**
+ * Drones flying for a farm or park the user can reach; fleet drones need drone:all
+ */
+export const droneScope = async (user: ScopedUser | undefined): Promise<Prisma.DroneWhereInput> => {
+  if (!user) return { id: { in: [] } };
+  if (hasPermission(user, 'drone:all')) return {};
+
+  const [farm, park] = await Promise.all([farmScope(user), parkScope(user)]);
+  return {
+    OR: [{ farm }, { park }]
+  };
+};
+
+/**
+ * Missions follow their drone; missions without one are fleet missions
+ */
+export const missionScope = async (user: ScopedUser | undefined): Promise<Prisma.MissionWhereInput> => {
+  if (hasPermission(user, 'drone:all')) return {};
+  return { drone: await droneScope(user) };
+};
+
+/**
+ * Narrow a scope to one organization's records, for tenant-filtered lists and dashboards
+ */
+export const withinOrganization = <T extends object>(scope: T, organizationId?: unknown): T =>
+  organizationId ? ({ AND: [scope, { organizationId: String(organizationId) }] } as T) : scope;
@@ -0,0 +1,116 @@
+/**
+ * Account Token Service
+ * Single-use, expiring links for password reset and email verification,
+ * delivered through the email notification channel
+ */
+
+import crypto from 'crypto';
+import prisma from '../utils/db';
+import { getChannel } from './notification.channels';
+
+export const TOKEN_PURPOSES = {
+  password_reset: { ttlMs: 60 * 60 * 1000, path: '/reset-password' },
+  email_verification: { ttlMs: 24 * 60 * 60 * 1000, path: '/verify-email' }
+};
+
+export type TokenPurpose = keyof typeof TOKEN_PURPOSES;
+
+const APP_URL = process.env.APP_URL || process.env.CORS_ORIGIN || 'http://localhost:3000';
+
+// Keyed with the server secret, so a leaked table cannot be used to forge links
+const signToken = (token: string): string =>
+  crypto.createHmac('sha256', process.env.JWT_SECRET || 'default-secret').update(token).digest('hex');
+
+/**
+ * Issue a new token, invalidating any unused one for the same purpose
+ */
+export const issueUserToken = async (userId: string, purpose: TokenPurpose) => {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  await prisma.$transaction([
+    prisma.userToken.updateMany({
+      where: { userId, purpose, usedAt: null },
+      data: { usedAt: new Date() }
+    }),
+    prisma.userToken.create({
+      data: {
+        userId,
+        purpose,
+        tokenHash: signToken(token),
+        expiresAt: new Date(Date.now() + TOKEN_PURPOSES[purpose].ttlMs)
+      }
+    })
+  ]);
+
+  return token;
+};
+
+/**
+ * Spend a token and return the user it belongs to, or null if it is
+ * unknown, expired, already used or meant for something else
+ */
+export const consumeUserToken = async (token: string, purpose: TokenPurpose) => {
+  const stored = await prisma.userToken.findUnique({
+    where: { tokenHash: signToken(token) }
+  });
+
+  if (!stored || stored.purpose !== purpose || stored.usedAt || stored.expiresAt < new Date()) {
+    return null;
+  }
+
+  // Conditional update so a token cannot be spent twice concurrently
+  const spent = await prisma.userToken.updateMany({
+    where: { id: stored.id, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+
+  return spent.count === 1 ? stored.userId : null;
+};
+
+/**
+ * Send an account email. Without a configured email channel the message is
+ * logged outside production so the flows can be exercised locally.
+ */
+const sendAccountEmail = async (to: string, subject: string, body: string) => {
+  const channel = getChannel('email');
+
+  if (!channel || !channel.isConfigured()) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.log(`✉️ [email not configured] To: ${to}\n${subject}\n${body}`);
+      return;
+    }
+    throw new Error('Email channel is not configured');
+  }
+
+  await channel.send(to, { subject, body });
+};
+
+const linkFor = (purpose: TokenPurpose, token: string) =>
+  `${APP_URL}${TOKEN_PURPOSES[purpose].path}?token=${encodeURIComponent(token)}`;
+
+export const sendVerificationEmail = async (user: { id: string; email: string; firstName: string }) => {
+  const token = await issueUserToken(user.id, 'email_verification');
+
+  await sendAccountEmail(
+    user.email,
+    'Verify your KUBE email address',
+    `Hi ${user.firstName},\n\nConfirm your email address to finish setting up your account:\n\n${linkFor('email_verification', token)}\n\nThis link expires in 24 hours.`
+  );
+};
+
+export const sendPasswordResetEmail = async (user: { id: string; email: string; firstName: string }) => {
+  const token = await issueUserToken(user.id, 'password_reset');
+
+  await sendAccountEmail(
+    user.email,
+    'Reset your KUBE password',
+    `Hi ${user.firstName},\n\nSomeone asked to reset the password for this account. If it was you, choose a new password here:\n\n${linkFor('password_reset', token)}\n\nThis link expires in 1 hour and can be used once. If you did not ask for a reset, you can ignore this email.`
+  );
+};
+
+/**
+ * Send without holding up the request; failures are logged
+ */
+export const sendInBackground = (send: Promise<void>) => {
+  send.catch(error => console.error('Account email error:', error));
+};
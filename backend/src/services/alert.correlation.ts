@@ -0,0 +1,188 @@
+/**
+ * Alert Correlation
+ * Folds repeats of an open alert into an occurrence counter and groups alerts
+ * about the same entity, or raised close together in place and time, under
+ * one alert group
+ */
+
+import { Alert, AlertGroup, Prisma } from '@prisma/client';
+import prisma from '../utils/db';
+import { distanceKm } from '../utils/geo';
+import { SEVERITY_RANK } from './notification.service';
+
+const CORRELATION_WINDOW_MS = (Number(process.env.ALERT_CORRELATION_WINDOW_MINUTES) || 60) * 60 * 1000;
+const CORRELATION_RADIUS_KM = Number(process.env.ALERT_CORRELATION_RADIUS_KM) || 1;
+
+// Least advanced first; a group takes the status of its least advanced open alert
+const STATUS_ORDER = ['NEW', 'ACKNOWLEDGED', 'IN_PROGRESS'];
+
+type AlertInput = Prisma.AlertUncheckedCreateInput;
+type Position = { latitude: number | null; longitude: number | null };
+
+const isNearby = (a: Position, b: Position) =>
+  a.latitude !== null && a.longitude !== null && b.latitude !== null && b.longitude !== null
+  && distanceKm({ latitude: a.latitude, longitude: a.longitude }, { latitude: b.latitude, longitude: b.longitude })
+    <= CORRELATION_RADIUS_KM;
+
+const higherSeverity = (a: string, b: string) =>
+  (SEVERITY_RANK[a] ?? 0) >= (SEVERITY_RANK[b] ?? 0) ? a : b;
+
+const position = (data: AlertInput): Position => ({
+  latitude: data.latitude ?? null,
+  longitude: data.longitude ?? null
+});
+
+/**
+ * An open alert this one repeats: same type about the same entity, or for
+ * entity-less alerts the same title at the same place
+ */
+const findDuplicate = async (tx: Prisma.TransactionClient, data: AlertInput, since: Date) => {
+  const candidates = await tx.alert.findMany({
+    where: {
+      type: data.type,
+      status: { not: 'RESOLVED' },
+      lastOccurredAt: { gte: since },
+      farmId: data.farmId ?? null,
+      parkId: data.parkId ?? null,
+      landZoneId: data.landZoneId ?? null,
+      ...(data.entityId
+        ? { entityType: data.entityType ?? null, entityId: data.entityId }
+        : { entityId: null, title: data.title })
+    },
+    orderBy: { lastOccurredAt: 'desc' }
+  });
+
+  const hasPosition = data.latitude != null && data.longitude != null;
+
+  return candidates.find(alert =>
+    data.entityId || !hasPosition || alert.latitude === null || isNearby(alert, position(data))
+  ) ?? null;
+};
+
+/**
+ * An open group recently seen for the same entity or within the radius.
+ * Groups never span farms, parks or land zones, so one tenant's alerts
+ * cannot land in a group another tenant can see.
+ */
+const findGroup = async (tx: Prisma.TransactionClient, data: AlertInput, since: Date) => {
+  const groups = await tx.alertGroup.findMany({
+    where: {
+      status: { not: 'RESOLVED' },
+      lastSeenAt: { gte: since },
+      module: data.module,
+      farmId: data.farmId ?? null,
+      parkId: data.parkId ?? null,
+      landZoneId: data.landZoneId ?? null,
+      OR: [
+        ...(data.entityId ? [{ entityType: data.entityType ?? null, entityId: data.entityId }] : []),
+        { latitude: { not: null }, longitude: { not: null } }
+      ]
+    },
+    orderBy: { lastSeenAt: 'desc' }
+  });
+
+  return groups.find(group =>
+    (data.entityId && group.entityId === data.entityId && group.entityType === (data.entityType ?? null))
+    || isNearby(group, position(data))
+  ) ?? null;
+};
+
+/**
+ * Store an alert, or count it against the open alert it repeats.
+ * New alerts join a matching group or start their own.
+ */
+export const recordAlert = async (data: AlertInput): Promise<{ alert: Alert; duplicate: boolean }> => {
+  return prisma.$transaction(async (tx) => {
+    const now = new Date();
+    const since = new Date(now.getTime() - CORRELATION_WINDOW_MS);
+
+    const existing = await findDuplicate(tx, data, since);
+
+    if (existing) {
+      const alert = await tx.alert.update({
+        where: { id: existing.id },
+        data: {
+          occurrenceCount: { increment: 1 },
+          lastOccurredAt: now,
+          severity: higherSeverity(existing.severity, data.severity)
+        }
+      });
+
+      if (alert.groupId) {
+        const group = await tx.alertGroup.findUniqueOrThrow({ where: { id: alert.groupId } });
+        await tx.alertGroup.update({
+          where: { id: group.id },
+          data: { lastSeenAt: now, severity: higherSeverity(group.severity, data.severity) }
+        });
+      }
+
+      return { alert, duplicate: true };
+    }
+
+    const group = await findGroup(tx, data, since);
+    let groupId: string;
+
+    if (group) {
+      await tx.alertGroup.update({
+        where: { id: group.id },
+        data: {
+          alertCount: { increment: 1 },
+          lastSeenAt: now,
+          severity: higherSeverity(group.severity, data.severity),
+          // The new alert is NEW, and so is the group again
+          status: 'NEW'
+        }
+      });
+      groupId = group.id;
+    } else {
+      const created = await tx.alertGroup.create({
+        data: {
+          title: data.title,
+          severity: data.severity,
+          module: data.module,
+          entityType: data.entityType,
+          entityId: data.entityId,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          farmId: data.farmId,
+          parkId: data.parkId,
+          landZoneId: data.landZoneId
+        }
+      });
+      groupId = created.id;
+    }
+
+    const alert = await tx.alert.create({
+      data: { ...data, groupId, lastOccurredAt: now }
+    });
+
+    return { alert, duplicate: false };
+  });
+};
+
+/**
+ * Bring a group's status in line with its alerts after one of them changed
+ */
+export const syncGroupStatus = async (groupId: string | null): Promise<AlertGroup | null> => {
+  if (!groupId) return null;
+
+  const alerts = await prisma.alert.findMany({
+    where: { groupId },
+    select: { status: true, resolvedBy: true }
+  });
+
+  const open = alerts.filter(alert => alert.status !== 'RESOLVED');
+  const status = open.length === 0
+    ? 'RESOLVED'
+    : STATUS_ORDER.find(s => open.some(alert => alert.status === s)) ?? 'NEW';
+
+  return prisma.alertGroup.update({
+    where: { id: groupId },
+    data: {
+      status,
+      ...(status === 'RESOLVED'
+        ? { resolvedAt: new Date(), resolvedBy: alerts.find(alert => alert.resolvedBy)?.resolvedBy ?? null }
+        : { resolvedAt: null, resolvedBy: null })
+    }
+  });
+};
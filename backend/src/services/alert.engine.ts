@@ -0,0 +1,291 @@
+/**
+ * Alert Rules Engine
+ * Evaluates stored alert rules against incoming telemetry and surveys,
+ * and periodically sweeps for animals that have stopped reporting
+ */
+
+import { AlertRule, AnimalTelemetry, HerdTelemetry, LandSurvey, WildlifeSighting } from '@prisma/client';
+import prisma from '../utils/db';
+import { getSocketEmitters } from '../socket/socket.handlers';
+import { notifyInBackground } from './notification.service';
+import { recordAlert } from './alert.correlation';
+import { INACTIVE_ANIMAL_STATUSES } from './animal.registry';
+
+const SWEEP_INTERVAL_MS = Number(process.env.ALERT_SWEEP_INTERVAL_MS) || 5 * 60 * 1000;
+
+// Which scope each rule type is stored against and what kind of alert it raises
+export const RULE_TYPES: Record<string, { scope: 'farm' | 'park' | 'zone'; alertType: string; module: string }> = {
+  temperature_above: { scope: 'farm', alertType: 'HEALTH', module: 'farm' },
+  not_seen: { scope: 'farm', alertType: 'SECURITY', module: 'farm' },
+  herd_count_drop: { scope: 'farm', alertType: 'SECURITY', module: 'farm' },
+  ndvi_below: { scope: 'zone', alertType: 'ENVIRONMENTAL', module: 'land' },
+  wildlife_health: { scope: 'park', alertType: 'HEALTH', module: 'park' }
+};
+
+export const ALERT_SEVERITIES = ['INFO', 'WARNING', 'CRITICAL'];
+
+// Sighting health values that count as a problem for wildlife_health rules
+const UNHEALTHY_WILDLIFE = ['sick', 'injured', 'dead'];
+
+let isSweeping = false;
+
+interface AlertCandidate {
+  entityType: string;
+  entityId: string;
+  title: string;
+  message: string;
+  details?: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  location?: string;
+}
+
+const findRules = (ruleType: string, scope: { farmId?: string; parkId?: string; zoneId?: string }) =>
+  prisma.alertRule.findMany({
+    where: { ruleType, enabled: true, ...scope }
+  });
+
+/**
+ * Create an alert for a matched rule unless the same rule already fired
+ * for this entity within its cooldown window
+ */
+const raiseAlert = async (rule: AlertRule, candidate: AlertCandidate) => {
+  const cooldownStart = new Date(Date.now() - rule.cooldownMinutes * 60 * 1000);
+
+  const recent = await prisma.alert.findFirst({
+    where: {
+      ruleId: rule.id,
+      entityId: candidate.entityId,
+      createdAt: { gte: cooldownStart }
+    },
+    select: { id: true }
+  });
+
+  if (recent) return null;
+
+  const definition = RULE_TYPES[rule.ruleType];
+
+  const { alert, duplicate } = await recordAlert({
+    type: definition.alertType,
+    severity: rule.severity,
+    title: candidate.title,
+    message: candidate.message,
+    details: candidate.details,
+    module: definition.module,
+    entityType: candidate.entityType,
+    entityId: candidate.entityId,
+    latitude: candidate.latitude,
+    longitude: candidate.longitude,
+    location: candidate.location,
+    farmId: rule.farmId,
+    parkId: rule.parkId,
+    landZoneId: rule.zoneId,
+    ruleId: rule.id,
+    events: {
+      create: {
+        type: 'CREATED',
+        message: `Raised by rule "${rule.name}"`,
+        data: JSON.stringify({ ruleId: rule.id })
+      }
+    }
+  });
+
+  await prisma.alertRule.update({
+    where: { id: rule.id },
+    data: { lastTriggeredAt: alert.createdAt }
+  });
+
+  // Repeats only bump the open alert's counter; people already heard about it
+  if (duplicate) {
+    getSocketEmitters()?.emitAlertUpdate(alert);
+    return alert;
+  }
+
+  getSocketEmitters()?.emitAlert(alert);
+  notifyInBackground(alert);
+  return alert;
+};
+
+const raiseAll = async (rules: AlertRule[], matches: (rule: AlertRule) => AlertCandidate | null) => {
+  const alerts = [];
+
+  for (const rule of rules) {
+    const candidate = matches(rule);
+    if (!candidate) continue;
+
+    const alert = await raiseAlert(rule, candidate);
+    if (alert) alerts.push(alert);
+  }
+
+  return alerts;
+};
+
+/**
+ * Temperature rules for a single tagged-animal fix
+ */
+export const evaluateAnimalTelemetry = async (telemetry: AnimalTelemetry) => {
+  const temperature = telemetry.temperature;
+  if (temperature === null) return [];
+
+  const animal = await prisma.animal.findUnique({
+    where: { id: telemetry.animalId },
+    include: { herd: { select: { name: true, farmId: true } } }
+  });
+  if (!animal) return [];
+
+  const rules = await findRules('temperature_above', { farmId: animal.herd.farmId });
+
+  return raiseAll(rules, (rule) => temperature > rule.threshold ? {
+    entityType: 'animal',
+    entityId: animal.id,
+    title: `High temperature: ${animal.tagId}`,
+    message: `${animal.name || animal.tagId} in ${animal.herd.name} recorded ${temperature.toFixed(1)}°C`,
+    details: `Rule "${rule.name}" triggers above ${rule.threshold}°C`,
+    latitude: telemetry.latitude,
+    longitude: telemetry.longitude,
+    location: animal.herd.name
+  } : null);
+};
+
+/**
+ * Count-drop rules for an aerial herd count, compared against Herd.totalCount
+ */
+export const evaluateHerdTelemetry = async (telemetry: HerdTelemetry) => {
+  const herd = await prisma.herd.findUnique({
+    where: { id: telemetry.herdId }
+  });
+  if (!herd || herd.totalCount <= 0) return [];
+
+  const dropPercent = ((herd.totalCount - telemetry.countDetected) / herd.totalCount) * 100;
+  const rules = await findRules('herd_count_drop', { farmId: herd.farmId });
+
+  return raiseAll(rules, (rule) => dropPercent >= rule.threshold ? {
+    entityType: 'herd',
+    entityId: herd.id,
+    title: `Herd count below expected: ${herd.name}`,
+    message: `Only ${telemetry.countDetected} of ${herd.totalCount} animals detected (${Math.round(dropPercent)}% missing)`,
+    details: `Rule "${rule.name}" triggers at a ${rule.threshold}% drop`,
+    latitude: telemetry.latitude,
+    longitude: telemetry.longitude,
+    location: herd.name
+  } : null);
+};
+
+/**
+ * NDVI rules for a land survey, compared against the zone's vegetation index baseline
+ */
+export const evaluateLandSurvey = async (survey: LandSurvey) => {
+  const ndvi = survey.ndvi;
+  if (ndvi === null) return [];
+
+  const zone = await prisma.landZone.findUnique({
+    where: { id: survey.zoneId }
+  });
+  const baseline = zone?.vegetationIndex;
+  if (!zone || baseline === null || baseline === undefined) return [];
+
+  const rules = await findRules('ndvi_below', { zoneId: zone.id });
+
+  return raiseAll(rules, (rule) => ndvi < baseline - rule.threshold ? {
+    entityType: 'land_zone',
+    entityId: zone.id,
+    title: `Vegetation decline: ${zone.name}`,
+    message: `NDVI ${ndvi.toFixed(2)} is below the zone baseline of ${baseline.toFixed(2)}`,
+    details: `Rule "${rule.name}" allows a drop of ${rule.threshold} below baseline`,
+    location: zone.name
+  } : null);
+};
+
+/**
+ * Health rules for a wildlife sighting; threshold is the minimum detection confidence
+ */
+export const evaluateWildlifeSighting = async (sighting: WildlifeSighting) => {
+  if (!sighting.health || !UNHEALTHY_WILDLIFE.includes(sighting.health.toLowerCase())) return [];
+
+  const population = await prisma.wildlifePopulation.findUnique({
+    where: { id: sighting.populationId }
+  });
+  if (!population) return [];
+
+  const rules = await findRules('wildlife_health', { parkId: population.parkId });
+  const confidence = sighting.confidence ?? 1;
+
+  return raiseAll(rules, (rule) => confidence >= rule.threshold ? {
+    entityType: 'population',
+    entityId: population.id,
+    title: `Unhealthy wildlife sighted: ${population.commonName}`,
+    message: `${sighting.count} ${population.commonName} reported as ${sighting.health} by ${sighting.detectedBy}`,
+    details: `Detection confidence ${Math.round(confidence * 100)}%`,
+    latitude: sighting.latitude,
+    longitude: sighting.longitude
+  } : null);
+};
+
+/**
+ * Raise not_seen alerts for animals whose last fix is older than each rule's threshold (hours)
+ */
+export const runAbsenceSweep = async () => {
+  if (isSweeping) return;
+  isSweeping = true;
+
+  try {
+    const rules = await prisma.alertRule.findMany({
+      where: { ruleType: 'not_seen', enabled: true, farmId: { not: null } }
+    });
+
+    for (const rule of rules) {
+      const cutoff = new Date(Date.now() - rule.threshold * 60 * 60 * 1000);
+
+      const animals = await prisma.animal.findMany({
+        where: {
+          herd: { farmId: rule.farmId! },
+          // Animals that have left the herd are not expected to be seen
+          status: { notIn: INACTIVE_ANIMAL_STATUSES },
+          OR: [
+            { lastSeenAt: { lt: cutoff } },
+            // Never detected: count from registration so new animals get the same grace period
+            { lastSeenAt: null, createdAt: { lt: cutoff } }
+          ]
+        },
+        include: { herd: { select: { name: true } } }
+      });
+
+      for (const animal of animals) {
+        const since = animal.lastSeenAt || animal.createdAt;
+        const hours = Math.floor((Date.now() - since.getTime()) / (60 * 60 * 1000));
+
+        await raiseAlert(rule, {
+          entityType: 'animal',
+          entityId: animal.id,
+          title: `Animal not seen: ${animal.tagId}`,
+          message: animal.lastSeenAt
+            ? `${animal.name || animal.tagId} in ${animal.herd.name} has not been detected for ${hours} hours`
+            : `${animal.name || animal.tagId} in ${animal.herd.name} has not been detected since it was registered ${hours} hours ago`,
+          details: `Rule "${rule.name}" triggers after ${rule.threshold} hours`,
+          latitude: animal.lastSeenLat,
+          longitude: animal.lastSeenLng,
+          location: animal.herd.name
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Alert absence sweep error:', error);
+  } finally {
+    isSweeping = false;
+  }
+};
+
+/**
+ * Evaluate rules without holding up the request that stored the record
+ */
+export const runRulesInBackground = (evaluation: Promise<unknown>) => {
+  evaluation.catch(error => console.error('Alert rule evaluation error:', error));
+};
+
+/**
+ * Start the periodic absence sweep
+ */
+export const startAlertEngine = () => {
+  console.log(`🚨 Alert engine sweeping every ${SWEEP_INTERVAL_MS / 1000}s`);
+  return setInterval(runAbsenceSweep, SWEEP_INTERVAL_MS);
+};
@@ -0,0 +1,173 @@
+/**
+ * Alert Escalation
+ * Applies escalation policies to alerts that stay unacknowledged: each step
+ * can reassign the alert and page users by role, and is written to the
+ * alert's history
+ */
+
+import { Alert, EscalationPolicy, EscalationStep } from '@prisma/client';
+import prisma from '../utils/db';
+import { getSocketEmitters } from '../socket/socket.handlers';
+import { notifyInBackground } from './notification.service';
+
+const ESCALATION_INTERVAL_MS = Number(process.env.ALERT_ESCALATION_INTERVAL_MS) || 60 * 1000;
+
+export const REASSIGN_TARGETS = ['park_manager', 'farm_owner', 'user'];
+
+let isRunning = false;
+
+type PolicyWithSteps = EscalationPolicy & { steps: EscalationStep[] };
+
+/**
+ * Manager of the park an alert is about, from its park link or its entity
+ */
+const findParkManager = async (alert: Alert): Promise<string | null> => {
+  if (alert.parkId) {
+    const park = await prisma.park.findUnique({ where: { id: alert.parkId } });
+    return park?.managerId ?? null;
+  }
+
+  if (!alert.entityId) return null;
+
+  if (alert.entityType === 'park') {
+    const park = await prisma.park.findUnique({ where: { id: alert.entityId } });
+    return park?.managerId ?? null;
+  }
+
+  if (alert.entityType === 'population') {
+    const population = await prisma.wildlifePopulation.findUnique({
+      where: { id: alert.entityId },
+      select: { park: { select: { managerId: true } } }
+    });
+    return population?.park.managerId ?? null;
+  }
+
+  if (alert.entityType === 'patrol' || alert.entityType === 'incident') {
+    const record = alert.entityType === 'patrol'
+      ? await prisma.patrol.findUnique({ where: { id: alert.entityId }, select: { park: { select: { managerId: true } } } })
+      : await prisma.incident.findUnique({ where: { id: alert.entityId }, select: { park: { select: { managerId: true } } } });
+    return record?.park.managerId ?? null;
+  }
+
+  return null;
+};
+
+const findReassignee = async (alert: Alert, step: EscalationStep): Promise<string | null> => {
+  if (step.reassignTo === 'user') return step.reassignUserId;
+  if (step.reassignTo === 'park_manager') return findParkManager(alert);
+
+  if (step.reassignTo === 'farm_owner' && alert.farmId) {
+    const farm = await prisma.farm.findUnique({ where: { id: alert.farmId } });
+    return farm?.ownerId ?? null;
+  }
+
+  return null;
+};
+
+/**
+ * The policy for an alert: one for its module wins over a catch-all
+ */
+const selectPolicy = (policies: PolicyWithSteps[], alert: Alert) =>
+  policies.find(p => p.severity === alert.severity && p.module === alert.module)
+  ?? policies.find(p => p.severity === alert.severity && p.module === null);
+
+/**
+ * Apply one escalation step and record it in the alert's history
+ */
+const applyStep = async (alert: Alert, step: EscalationStep) => {
+  const reassigneeId = step.reassignTo ? await findReassignee(alert, step) : null;
+  const notifyRoles: string[] = step.notifyRoles ? JSON.parse(step.notifyRoles) : [];
+
+  const paged = await prisma.user.findMany({
+    where: {
+      status: 'ACTIVE',
+      OR: [
+        ...(reassigneeId ? [{ id: reassigneeId }] : []),
+        ...(notifyRoles.length > 0 ? [{ role: { in: notifyRoles } }] : [])
+      ]
+    },
+    select: { id: true, firstName: true, lastName: true, role: true }
+  });
+
+  const [updated] = await prisma.$transaction([
+    prisma.alert.update({
+      where: { id: alert.id },
+      data: {
+        escalationLevel: step.level,
+        escalatedAt: new Date(),
+        ...(reassigneeId && { assignedToId: reassigneeId })
+      }
+    }),
+    prisma.alertEvent.create({
+      data: {
+        alertId: alert.id,
+        type: 'ESCALATED',
+        message: `Escalated to level ${step.level} after ${step.afterMinutes} minutes without acknowledgment`,
+        data: JSON.stringify({
+          level: step.level,
+          reassignedTo: reassigneeId,
+          reassignTarget: step.reassignTo,
+          unresolvedTarget: Boolean(step.reassignTo) && !reassigneeId,
+          // Everyone who can see the alert reads its events, so no contact details here
+          paged: paged.map(user => ({ id: user.id, name: `${user.firstName} ${user.lastName}`, role: user.role }))
+        })
+      }
+    })
+  ]);
+
+  const emitters = getSocketEmitters();
+  if (reassigneeId) emitters?.emitAlertAssigned(updated);
+  else emitters?.emitAlertUpdate(updated);
+
+  if (paged.length > 0) {
+    notifyInBackground(updated, paged.map(user => user.id));
+  }
+};
+
+/**
+ * Escalate every unacknowledged alert whose next step is due
+ */
+export const runEscalations = async () => {
+  if (isRunning) return;
+  isRunning = true;
+
+  try {
+    const policies = await prisma.escalationPolicy.findMany({
+      where: { enabled: true },
+      include: { steps: { orderBy: { level: 'asc' } } }
+    });
+
+    if (policies.length === 0) return;
+
+    const alerts = await prisma.alert.findMany({
+      where: {
+        status: 'NEW',
+        severity: { in: [...new Set(policies.map(p => p.severity))] }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const now = Date.now();
+
+    for (const alert of alerts) {
+      const policy = selectPolicy(policies, alert);
+      const step = policy?.steps.find(s => s.level > alert.escalationLevel);
+
+      if (!step || alert.createdAt.getTime() + step.afterMinutes * 60 * 1000 > now) continue;
+
+      await applyStep(alert, step);
+    }
+  } catch (error) {
+    console.error('Alert escalation error:', error);
+  } finally {
+    isRunning = false;
+  }
+};
+
+/**
+ * Start the periodic escalation job
+ */
+export const startEscalationWorker = () => {
+  console.log(`⏫ Alert escalation running every ${ESCALATION_INTERVAL_MS / 1000}s`);
+  return setInterval(runEscalations, ESCALATION_INTERVAL_MS);
+};
@@ -0,0 +1,97 @@
+/**
+ * Alert Visibility
+ * Which alerts a user may see. Alert lists, stats, dashboards and live
+ * subscriptions all use this rule so their numbers agree.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/db';
+import { AuthenticatedUser } from '../middleware/auth.middleware';
+import { hasPermission } from './access.permissions';
+import { canAccessResource, farmScope, landZoneScope, parkScope } from './access.scope';
+
+/**
+ * With alert:all a user sees everything; everyone else sees alerts assigned
+ * to them and alerts about the farms, parks and land zones they can reach
+ */
+export const alertVisibility = async (user?: AuthenticatedUser): Promise<Prisma.AlertWhereInput> => {
+  if (hasPermission(user, 'alert:all')) return {};
+  if (!user) return { id: { in: [] } };
+
+  const [farm, park, landZone] = await Promise.all([
+    farmScope(user),
+    parkScope(user),
+    landZoneScope(user)
+  ]);
+
+  return {
+    OR: [
+      { assignedToId: user.id },
+      { farm },
+      { park },
+      { parkZone: { park } },
+      { landZone }
+    ]
+  };
+};
+
+/**
+ * Whether a user reaches an alert through alert:all or its farm, park or land
+ * zone. Being assigned to it does not count, so this decides who may be assigned.
+ */
+export const canReachAlert = async (
+  user: { id: string; permissions: readonly string[] },
+  alert: { farmId: string | null; parkId: string | null; parkZoneId: string | null; landZoneId: string | null }
+) => {
+  if (hasPermission(user, 'alert:all')) return true;
+
+  const parkId = alert.parkId ?? (alert.parkZoneId
+    ? (await prisma.parkZone.findUnique({ where: { id: alert.parkZoneId }, select: { parkId: true } }))?.parkId
+    : null);
+
+  if (alert.farmId && await canAccessResource(user, 'FARM', alert.farmId)) return true;
+  if (parkId && await canAccessResource(user, 'PARK', parkId)) return true;
+  if (alert.landZoneId && await canAccessResource(user, 'LAND_ZONE', alert.landZoneId)) return true;
+  return false;
+};
+
+/**
+ * Alerts about one organization's farms, parks and land zones
+ */
+export const organizationAlerts = (organizationId: string): Prisma.AlertWhereInput => ({
+  OR: [
+    { farm: { organizationId } },
+    { park: { organizationId } },
+    { parkZone: { park: { organizationId } } },
+    { landZone: { organizationId } }
+  ]
+});
+
+/**
+ * A group is visible when any of its alerts is
+ */
+export const alertGroupVisibility = async (user?: AuthenticatedUser): Promise<Prisma.AlertGroupWhereInput> =>
+  hasPermission(user, 'alert:all') ? {} : { alerts: { some: await alertVisibility(user) } };
+
+/**
+ * Live alert rooms a user without alert:all follows: one per farm, park and land zone they can reach
+ */
+export const alertRoomsForUser = async (user: AuthenticatedUser) => {
+  const [farmWhere, parkWhere, landZoneWhere] = await Promise.all([
+    farmScope(user),
+    parkScope(user),
+    landZoneScope(user)
+  ]);
+
+  const [farms, parks, landZones] = await Promise.all([
+    prisma.farm.findMany({ where: farmWhere, select: { id: true } }),
+    prisma.park.findMany({ where: parkWhere, select: { id: true } }),
+    prisma.landZone.findMany({ where: landZoneWhere, select: { id: true } })
+  ]);
+
+  return [
+    ...farms.map(farm => `alerts_farm_${farm.id}`),
+    ...parks.map(park => `alerts_park_${park.id}`),
+    ...landZones.map(zone => `alerts_land_zone_${zone.id}`)
+  ];
+};
@@ -0,0 +1,326 @@
+/**
+ * Animal Import
+ * Reads an animal registry sheet (CSV or XLSX), checks every row against the
+ * farm's herds and the tag register, and writes the whole sheet in one
+ * transaction. Export produces the same columns so a registry can be edited
+ * offline and imported into another farm.
+ */
+
+import { randomUUID } from 'crypto';
+import ExcelJS from 'exceljs';
+import prisma from '../utils/db';
+import { parseCsv, toCsv, unquoteFormula } from '../utils/csv';
+import { syncHerdAggregates } from './herd.aggregates';
+import { ACTIVE_ANIMAL_STATUSES, ANIMAL_GENDERS, INACTIVE_ANIMAL_STATUSES, isActiveStatus, normalizeTagId } from './animal.registry';
+
+export const REGISTRY_COLUMNS = ['tagId', 'name', 'species', 'breed', 'gender', 'age', 'weight', 'status', 'herd'] as const;
+
+export const REQUIRED_COLUMNS = ['tagId', 'gender', 'herd'];
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export type SheetFormat = 'csv' | 'xlsx';
+
+type RegistryColumn = typeof REGISTRY_COLUMNS[number];
+
+export interface ImportError {
+  row: number;
+  column?: string;
+  message: string;
+}
+
+export interface ImportRow {
+  row: number;
+  tagId: string;
+  name: string | null;
+  species: string;
+  breed: string | null;
+  gender: string;
+  age: number | null;
+  weight: number | null;
+  status: string;
+  herdId: string;
+  herdName: string;
+}
+
+export interface ImportReport {
+  totalRows: number;
+  validRows: number;
+  errors: ImportError[];
+  herds: { herdId: string; herdName: string; animals: number }[];
+}
+
+// Header spellings accepted for each column, compared lowercase without spaces or punctuation
+const HEADER_ALIASES: Record<string, RegistryColumn> = {
+  tagid: 'tagId', tag: 'tagId', eartag: 'tagId',
+  name: 'name',
+  species: 'species',
+  breed: 'breed',
+  gender: 'gender', sex: 'gender',
+  age: 'age',
+  weight: 'weight', weightkg: 'weight',
+  status: 'status',
+  herd: 'herd', herdname: 'herd'
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Work out the sheet format from the upload's content type, falling back to
+ * the ZIP signature every XLSX file starts with
+ */
+export const detectSheetFormat = (contentType: string | undefined, body: Buffer): SheetFormat =>
+  contentType?.includes('spreadsheetml') || body.subarray(0, 2).toString('latin1') === 'PK' ? 'xlsx' : 'csv';
+
+/**
+ * Read the first sheet into rows of text cells, header row first
+ */
+const readSheet = async (body: Buffer, format: SheetFormat): Promise<string[][]> => {
+  if (format === 'csv') {
+    return parseCsv(body.toString('utf8')).map(row => row.map(unquoteFormula));
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(body as unknown as ExcelJS.Buffer);
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const rows: string[][] = [];
+  worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= worksheet.columnCount; column++) {
+      cells.push(row.getCell(column).text);
+    }
+    rows[rowNumber - 1] = cells;
+  });
+
+  return Array.from(rows, row => row ?? []);
+};
+
+// A decimal comma is read ("12,5"), but not where it could be a thousands separator ("1,200")
+const parseNumber = (value: string) => {
+  if (!/^-?\d*([.,]\d+)?$/.test(value) || /^-?\d+,\d{3}$/.test(value)) return null;
+  const number = Number(value.replace(',', '.'));
+  return value === '' || !Number.isFinite(number) ? null : number;
+};
+
+/**
+ * Parse and validate a sheet against one farm. Nothing is written; rows are
+ * returned only when every row is valid.
+ */
+export const validateImport = async (farmId: string, body: Buffer, format: SheetFormat) => {
+  const errors: ImportError[] = [];
+  const sheet = await readSheet(body, format);
+  const [header = [], ...lines] = sheet;
+
+  // Sheet row numbers as the farmer sees them, header being row 1
+  const dataRows = lines
+    .map((cells, index) => ({ row: index + 2, cells: cells.map(cell => cell.trim()) }))
+    .filter(line => line.cells.some(cell => cell !== ''));
+
+  const columns = header.map(cell => HEADER_ALIASES[normalizeHeader(cell)]);
+  const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column as RegistryColumn));
+
+  if (missing.length > 0) {
+    errors.push({ row: 1, message: `Missing required column(s): ${missing.join(', ')}` });
+  }
+
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    errors.push({ row: 1, message: `A sheet can hold at most ${MAX_IMPORT_ROWS} animals` });
+  }
+
+  if (errors.length > 0) {
+    return { report: { totalRows: dataRows.length, validRows: 0, errors, herds: [] } as ImportReport, rows: [] };
+  }
+
+  const records = dataRows.map(({ row, cells }) => {
+    const record = { row } as Record<RegistryColumn, string> & { row: number };
+    REGISTRY_COLUMNS.forEach(column => { record[column] = ''; });
+    columns.forEach((column, index) => {
+      if (column) record[column] = cells[index] ?? '';
+    });
+    return record;
+  });
+
+  const tagIds = records.map(record => normalizeTagId(record.tagId)).filter(Boolean);
+
+  const [herds, registered] = await Promise.all([
+    prisma.herd.findMany({
+      where: { farmId },
+      select: { id: true, name: true, animalType: true }
+    }),
+    prisma.animal.findMany({
+      where: { tagId: { in: tagIds } },
+      select: { tagId: true }
+    })
+  ]);
+
+  const herdsByName = new Map(herds.map(herd => [herd.name.trim().toLowerCase(), herd]));
+  const registeredTags = new Set(registered.map(animal => animal.tagId));
+  const firstRowForTag = new Map<string, number>();
+  const rows: ImportRow[] = [];
+
+  for (const record of records) {
+    const rowErrors: ImportError[] = [];
+    const fail = (column: RegistryColumn, message: string) => rowErrors.push({ row: record.row, column, message });
+
+    const tagId = normalizeTagId(record.tagId);
+    if (!tagId) {
+      fail('tagId', 'tagId is required');
+    } else if (firstRowForTag.has(tagId)) {
+      fail('tagId', `Tag ${tagId} also appears on row ${firstRowForTag.get(tagId)}`);
+    } else if (registeredTags.has(tagId)) {
+      fail('tagId', `Tag ${tagId} is already registered`);
+    }
+    if (tagId && !firstRowForTag.has(tagId)) firstRowForTag.set(tagId, record.row);
+
+    const herd = herdsByName.get(record.herd.toLowerCase());
+    if (!record.herd) {
+      fail('herd', 'herd is required');
+    } else if (!herd) {
+      fail('herd', `Unknown herd "${record.herd}" on this farm`);
+    }
+
+    const gender = ANIMAL_GENDERS.find(value => value.toLowerCase() === record.gender.toLowerCase());
+    if (!gender) {
+      fail('gender', `gender must be one of: ${ANIMAL_GENDERS.join(', ')}`);
+    }
+
+    const status = record.status ? record.status.toUpperCase() : 'HEALTHY';
+    if (!isActiveStatus(status)) {
+      fail('status', `status must be one of: ${ACTIVE_ANIMAL_STATUSES.join(', ')}`);
+    }
+
+    const age = parseNumber(record.age);
+    if (record.age && (age === null || !Number.isInteger(age) || age < 0)) {
+      fail('age', 'age must be a whole number, 0 or more, without separators');
+    }
+
+    const weight = parseNumber(record.weight);
+    if (record.weight && (weight === null || weight <= 0)) {
+      fail('weight', 'weight must be a positive number, without thousands separators');
+    }
+
+    const species = record.species || herd?.animalType;
+    if (herd && !species) {
+      fail('species', 'species is required when the herd has no animal type');
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      continue;
+    }
+
+    rows.push({
+      row: record.row,
+      tagId,
+      name: record.name || null,
+      species: species!,
+      breed: record.breed || null,
+      gender: gender!,
+      age,
+      weight,
+      status,
+      herdId: herd!.id,
+      herdName: herd!.name
+    });
+  }
+
+  const perHerd = new Map<string, { herdId: string; herdName: string; animals: number }>();
+  for (const row of rows) {
+    const entry = perHerd.get(row.herdId) ?? { herdId: row.herdId, herdName: row.herdName, animals: 0 };
+    entry.animals++;
+    perHerd.set(row.herdId, entry);
+  }
+
+  const report: ImportReport = {
+    totalRows: records.length,
+    validRows: rows.length,
+    errors,
+    herds: [...perHerd.values()]
+  };
+
+  return { report, rows: errors.length === 0 ? rows : [] };
+};
+
+/**
+ * Register every validated row and its registration movement, then re-count
+ * the herds involved. All or nothing.
+ */
+export const commitImport = async (rows: ImportRow[], recordedById?: string) => {
+  const animals = rows.map(row => ({
+    id: randomUUID(),
+    tagId: row.tagId,
+    name: row.name,
+    species: row.species,
+    breed: row.breed,
+    gender: row.gender,
+    age: row.age,
+    weight: row.weight,
+    status: row.status,
+    herdId: row.herdId
+  }));
+
+  const herdIds = [...new Set(rows.map(row => row.herdId))];
+
+  await prisma.$transaction(async (tx) => {
+    await tx.animal.createMany({ data: animals });
+
+    await tx.animalMovement.createMany({
+      data: animals.map(animal => ({
+        type: 'REGISTRATION',
+        animalId: animal.id,
+        toHerdId: animal.herdId,
+        reason: 'Bulk import',
+        recordedById
+      }))
+    });
+
+    for (const herdId of herdIds) {
+      await syncHerdAggregates(tx, herdId);
+    }
+  }, { timeout: 60000 });
+
+  return { created: animals.length, herdIds };
+};
+
+/**
+ * A farm's animals still in its herds, in import columns. Animals that have
+ * left are not exported, since an import only registers active animals.
+ */
+export const exportRegistry = async (farmId: string, format: SheetFormat) => {
+  const animals = await prisma.animal.findMany({
+    where: { herd: { farmId }, status: { notIn: INACTIVE_ANIMAL_STATUSES } },
+    include: { herd: { select: { name: true } } },
+    orderBy: [{ herd: { name: 'asc' } }, { tagId: 'asc' }]
+  });
+
+  const rows = animals.map(animal => {
+    const values: Record<RegistryColumn, string | number | null> = {
+      tagId: animal.tagId,
+      name: animal.name,
+      species: animal.species,
+      breed: animal.breed,
+      gender: animal.gender,
+      age: animal.age,
+      weight: animal.weight,
+      status: animal.status,
+      herd: animal.herd.name
+    };
+    return REGISTRY_COLUMNS.map(column => values[column]);
+  });
+
+  if (format === 'csv') {
+    return Buffer.from(toCsv(REGISTRY_COLUMNS, rows), 'utf8');
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet('Animals');
+  worksheet.addRow([...REGISTRY_COLUMNS]).font = { bold: true };
+  rows.forEach(row => worksheet.addRow(row));
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
@@ -0,0 +1,45 @@
+/**
+ * Animal Registry
+ * Animal statuses, how animals leave a herd, and tag checks shared by the
+ * lifecycle API and the herd aggregates.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/db';
+
+// Statuses an animal in the herd can move between
+export const ACTIVE_ANIMAL_STATUSES = ['HEALTHY', 'SICK', 'INJURED', 'MISSING'];
+
+// Animals that have left the herd for good; only a disposition sets these
+export const INACTIVE_ANIMAL_STATUSES = ['SOLD', 'SLAUGHTERED', 'DECEASED'];
+
+// End-of-life records and the status each one leaves the animal in
+export const DISPOSITIONS: Record<string, string> = {
+  SALE: 'SOLD',
+  SLAUGHTER: 'SLAUGHTERED',
+  DEATH: 'DECEASED'
+};
+
+export const ANIMAL_GENDERS = ['Male', 'Female'];
+
+export const MOVEMENT_TYPES = ['REGISTRATION', 'TRANSFER', ...Object.keys(DISPOSITIONS)];
+
+export const isActiveStatus = (status: string) => ACTIVE_ANIMAL_STATUSES.includes(status);
+
+export const normalizeTagId = (tagId: unknown) => (typeof tagId === 'string' ? tagId.trim() : '');
+
+/**
+ * Whether a tag already belongs to another animal
+ */
+export const isTagTaken = async (tagId: string, exceptAnimalId?: string, tx: Prisma.TransactionClient = prisma) => {
+  const existing = await tx.animal.findUnique({ where: { tagId }, select: { id: true } });
+  return !!existing && existing.id !== exceptAnimalId;
+};
+
+/**
+ * A unique constraint on the tag lost a race with another write
+ */
+export const isDuplicateTagError = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === 'P2002' &&
+  String(error.meta?.target ?? '').includes('tagId');
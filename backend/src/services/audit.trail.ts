@@ -0,0 +1,252 @@
+/**
+ * Audit Trail
+ * Records every write made while handling a mutating API request as an
+ * Activity row: who made it (a user, or a device key for device endpoints),
+ * which record, a before/after diff, and the caller's IP and user agent. A Prisma middleware collects the writes into
+ * the request's audit context; they are saved once the response has been
+ * sent successfully, so failed or rolled-back requests leave no trail.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/db';
+
+export interface AuditContext {
+  userId?: () => string | undefined;
+  device?: () => { id: string; name: string } | undefined;
+  ipAddress?: string;
+  userAgent?: string;
+  method: string;
+  path: string;
+  entries: Prisma.ActivityCreateManyInput[];
+}
+
+const auditStorage = new AsyncLocalStorage<AuditContext>();
+
+export const runWithAuditContext = <T>(context: AuditContext, fn: () => T) => auditStorage.run(context, fn);
+
+/**
+ * Run fn without recording its writes, for high-volume bookkeeping such as
+ * telemetry ingestion moving an animal's last sighting or a herd's counters
+ */
+export const withoutAudit = <T>(fn: () => T) => auditStorage.exit(fn);
+
+// Bookkeeping and high-volume records that are not worth an audit entry
+const UNAUDITED_MODELS = new Set<string>([
+  'Activity',
+  'Session',
+  'RefreshToken',
+  'UserToken',
+  'RecoveryCode',
+  'HerdTelemetry',
+  'AnimalTelemetry',
+  'NotificationDelivery',
+  'AlertEvent'
+]);
+
+// Fields whose changes carry no information
+const IGNORED_FIELDS = new Set(['updatedAt', 'lastLoginAt']);
+
+const REDACTED = '[REDACTED]';
+const SENSITIVE_FIELD = /password|secret|hash|token/i;
+
+const WRITE_ACTIONS: Record<string, 'create' | 'update' | 'delete'> = {
+  create: 'create',
+  createMany: 'create',
+  update: 'update',
+  updateMany: 'update',
+  upsert: 'update',
+  delete: 'delete',
+  deleteMany: 'delete'
+};
+
+const MODULES: Record<string, string> = {
+  Farm: 'farm', Herd: 'farm', Animal: 'farm', AnimalMovement: 'farm', HealthEvent: 'farm', PastureZone: 'farm',
+  TreatmentPlan: 'farm', TreatmentDose: 'farm', VaccinationSchedule: 'farm', Vaccination: 'farm', Outbreak: 'farm',
+  Park: 'park', ParkZone: 'park', WildlifePopulation: 'park', WildlifeSighting: 'park', Patrol: 'park', Incident: 'park',
+  LandZone: 'land', LandSurvey: 'land', LandChange: 'land',
+  BaseCamp: 'drone', Drone: 'drone', Mission: 'drone', MissionRun: 'drone',
+  Alert: 'alert', AlertGroup: 'alert', AlertRule: 'alert', EscalationPolicy: 'alert', EscalationStep: 'alert'
+};
+
+const lowerFirst = <T extends string>(value: T) => (value.charAt(0).toLowerCase() + value.slice(1)) as Uncapitalize<T>;
+
+const toConstant = (value: string) => value.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase();
+
+/**
+ * Replace sensitive values, at any depth, before they are stored
+ */
+export const redact = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(redact);
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key, SENSITIVE_FIELD.test(key) ? REDACTED : redact(field)])
+    );
+  }
+  return value;
+};
+
+type Row = Record<string, unknown>;
+type Changes = Record<string, { before?: unknown; after?: unknown }>;
+
+const isScalar = (value: unknown) =>
+  value === null || value instanceof Date || typeof value !== 'object';
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Field-level diff between two versions of a record; either side may be missing
+ */
+export const diffRecords = (before: Row | null, after: Row | null): Changes => {
+  const changes: Changes = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const hasBefore = !!before && field in before && isScalar(before[field]);
+    const hasAfter = !!after && field in after && isScalar(after[field]);
+    if (!hasBefore && !hasAfter) continue;
+
+    // A partial select on one side says nothing about fields it left out
+    if (before && after && (!hasBefore || !hasAfter)) continue;
+    if (hasBefore && hasAfter && sameValue(before![field], after![field])) continue;
+
+    changes[field] = SENSITIVE_FIELD.test(field)
+      ? { ...(hasBefore && { before: REDACTED }), ...(hasAfter && { after: REDACTED }) }
+      : { ...(hasBefore && { before: before![field] }), ...(hasAfter && { after: after![field] }) };
+  }
+
+  return changes;
+};
+
+/**
+ * A readable label for a record, from whichever naming field it has
+ */
+const describeRecord = (record: Row | null) => {
+  if (!record) return '';
+  const label = record.name ?? record.title ?? record.callSign ?? record.tagId ?? record.email;
+  return typeof label === 'string' ? ` ${label}` : '';
+};
+
+// Every model delegate has findUnique, but a union of them is not callable
+type FindUniqueDelegate = { findUnique: (args: { where: unknown }) => Promise<Row | null> };
+
+const findUniqueDelegate = (model: Prisma.ModelName) =>
+  prisma[lowerFirst(model)] as unknown as FindUniqueDelegate;
+
+const record = (
+  context: AuditContext,
+  model: string,
+  action: 'create' | 'update' | 'delete',
+  entityId: string | undefined,
+  changes: Changes | unknown,
+  description: string,
+  metadata: Row = {}
+) => {
+  const device = context.device?.();
+
+  context.entries.push({
+    type: `${toConstant(model)}_${action.toUpperCase()}D`,
+    action,
+    description,
+    userId: context.userId?.() ?? null,
+    module: MODULES[model] ?? 'system',
+    entityType: lowerFirst(model),
+    entityId: entityId ?? null,
+    changes: JSON.stringify(changes),
+    ipAddress: context.ipAddress ?? null,
+    userAgent: context.userAgent ?? null,
+    metadata: JSON.stringify({
+      method: context.method,
+      path: context.path,
+      ...(device && { deviceId: device.id, deviceName: device.name }),
+      ...metadata
+    })
+  });
+};
+
+const readableModel = (model: string) => toConstant(model).replace(/_/g, ' ').toLowerCase();
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Prisma middleware that collects audit entries for writes made inside a request
+ */
+const auditMiddleware: Prisma.Middleware = async (params, next) => {
+  const context = auditStorage.getStore();
+  const action = params.model && WRITE_ACTIONS[params.action];
+
+  if (!context || !params.model || !action || UNAUDITED_MODELS.has(params.model)) {
+    return next(params);
+  }
+
+  const model = params.model;
+  const label = capitalize(readableModel(model));
+
+  // Bulk writes get one summary entry
+  if (params.action.endsWith('Many')) {
+    const result = await next(params);
+    record(
+      context,
+      model,
+      action,
+      undefined,
+      redact({ where: params.args?.where, data: params.args?.data }),
+      `${result?.count ?? 0} ${readableModel(model)} record(s) ${action}d`,
+      { count: result?.count ?? 0 }
+    );
+    return result;
+  }
+
+  // Reading the old row outside a running transaction would wait on the
+  // transaction's own connection, so writes inside one are recorded from
+  // their result alone
+  const before: Row | null = action !== 'create' && !params.runInTransaction
+    ? await findUniqueDelegate(model).findUnique({ where: params.args.where }).catch(() => null)
+    : null;
+
+  const result = await next(params);
+  const after: Row | null = action === 'delete' ? null : result;
+  const entityId = (result?.id ?? before?.id ?? params.args?.where?.id) as string | undefined;
+
+  // An upsert that found nothing to update created the record
+  if (params.action === 'upsert' && !before && !params.runInTransaction) {
+    record(context, model, 'create', entityId, diffRecords(null, after), `${label}${describeRecord(after)} created`);
+    return result;
+  }
+
+  let changes: Changes;
+  if (action === 'update' && !before) {
+    // Only the fields the write set are known to have changed
+    const data = (params.action === 'upsert' ? params.args?.update : params.args?.data) ?? {};
+    const written = Object.keys(data).filter(field => after && field in after);
+    changes = diffRecords(null, Object.fromEntries(written.map(field => [field, after![field]])));
+  } else {
+    changes = diffRecords(action === 'delete' ? before ?? result : before, after);
+  }
+
+  if (action === 'update' && Object.keys(changes).length === 0) return result;
+
+  record(context, model, action, entityId, changes, `${label}${describeRecord(after ?? before ?? result)} ${action}d`);
+
+  return result;
+};
+
+let registered = false;
+
+export const registerAuditTrail = () => {
+  if (registered) return;
+  prisma.$use(auditMiddleware);
+  registered = true;
+};
+
+/**
+ * Save the entries a request collected
+ */
+export const flushAuditEntries = async (context: AuditContext) => {
+  if (context.entries.length === 0) return;
+
+  const entries = context.entries.splice(0);
+  await prisma.activity.createMany({ data: entries });
+};
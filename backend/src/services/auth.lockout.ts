@@ -0,0 +1,67 @@
+/**
+ * Account Lockout
+ * Temporarily locks an account after repeated failed sign-ins (wrong
+ * password or wrong two-factor code), independent of the caller's address
+ */
+
+import { Response } from 'express';
+import prisma from '../utils/db';
+import { resetAccountLimits } from './rate.limits';
+
+const MAX_FAILED_ATTEMPTS = Number(process.env.LOGIN_MAX_FAILED_ATTEMPTS) || 5;
+const LOCKOUT_MINUTES = Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15;
+
+/**
+ * Seconds until a locked account opens again, or 0 if it is not locked
+ */
+export const lockoutRemainingSeconds = (user: { lockedUntil: Date | null }) =>
+  user.lockedUntil
+    ? Math.max(0, Math.ceil((user.lockedUntil.getTime() - Date.now()) / 1000))
+    : 0;
+
+/**
+ * 423 for a locked account, telling the client when to try again
+ */
+export const sendAccountLocked = (res: Response, seconds: number) => {
+  res.setHeader('Retry-After', seconds);
+  return res.status(423).json({
+    success: false,
+    message: `Account temporarily locked after too many failed sign-ins. Try again in ${Math.ceil(seconds / 60)} minutes.`,
+    retryAfter: seconds
+  });
+};
+
+/**
+ * Count a failed attempt; returns the lock expiry when this attempt locked the account
+ */
+export const recordFailedLogin = async (userId: string): Promise<Date | null> => {
+  const { failedLoginCount } = await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: { increment: 1 } },
+    select: { failedLoginCount: true }
+  });
+
+  if (failedLoginCount < MAX_FAILED_ATTEMPTS) return null;
+
+  const lockedUntil = new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000);
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: 0, lockedUntil }
+  });
+
+  console.warn(`🔒 Account ${userId} locked until ${lockedUntil.toISOString()} after ${failedLoginCount} failed sign-ins`);
+
+  return lockedUntil;
+};
+
+/**
+ * Lift a lock and forget failed attempts (Admin unlock)
+ */
+export const unlockAccount = async (user: { id: string; email: string }) => {
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { failedLoginCount: 0, lockedUntil: null }
+  });
+  await resetAccountLimits(user.email);
+};
@@ -0,0 +1,214 @@
+/**
+ * Two-Factor Authentication
+ * RFC 6238 time-based one-time passwords, one-time recovery codes and the
+ * short-lived challenge token that stands in for a session between the
+ * password step and the code step of a login
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import prisma from '../utils/db';
+
+const ISSUER = process.env.TWO_FACTOR_ISSUER || 'KUBE';
+const STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+// Accept the previous and next step to allow for clock drift
+const DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_EXPIRES_IN = '5m';
+const CHALLENGE_AUDIENCE = 'kube-2fa';
+
+// Roles that may not sign in without two-factor authentication
+export const TWO_FACTOR_REQUIRED_ROLES = (process.env.TWO_FACTOR_REQUIRED_ROLES ?? 'ADMIN,RANGER')
+  .split(',')
+  .map(role => role.trim())
+  .filter(Boolean);
+
+export const isTwoFactorRequired = (role: string) => TWO_FACTOR_REQUIRED_ROLES.includes(role);
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer: Buffer) => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+const base32Decode = (input: string) => {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+const codeForStep = (secret: string, step: number) => {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 2 ** 32), 0);
+  counter.writeUInt32BE(step >>> 0, 4);
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** CODE_DIGITS).padStart(CODE_DIGITS, '0');
+};
+
+/**
+ * Time step a code matches, or null. Callers reject steps at or before the
+ * last accepted one so a code cannot be replayed.
+ */
+export const verifyTotp = (secret: string, code: string, lastStep?: number | null): number | null => {
+  if (!/^\d{6}$/.test(code)) return null;
+
+  const current = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (lastStep !== null && lastStep !== undefined && step <= lastStep) continue;
+
+    const expected = Buffer.from(codeForStep(secret, step));
+    if (crypto.timingSafeEqual(expected, Buffer.from(code))) return step;
+  }
+  return null;
+};
+
+export const generateTotpSecret = () => base32Encode(crypto.randomBytes(20));
+
+/**
+ * otpauth:// URI and a QR code image of it for authenticator apps
+ */
+export const provisionTotp = async (email: string, secret: string) => {
+  const label = encodeURIComponent(`${ISSUER}:${email}`);
+  const uri = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}&algorithm=SHA1&digits=${CODE_DIGITS}&period=${STEP_SECONDS}`;
+
+  return { uri, qrCode: await QRCode.toDataURL(uri) };
+};
+
+// Secrets are encrypted at rest with a key derived from the server secret
+const encryptionKey = () =>
+  crypto.createHash('sha256')
+    .update(process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || 'default-secret')
+    .digest();
+
+export const encryptSecret = (secret: string) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+};
+
+export const decryptSecret = (stored: string) => {
+  const [iv, tag, encrypted] = stored.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+const hashRecoveryCode = (code: string) =>
+  crypto.createHmac('sha256', process.env.JWT_SECRET || 'default-secret')
+    .update(code.replace(/[\s-]/g, '').toLowerCase())
+    .digest('hex');
+
+/**
+ * Replace a user's recovery codes. The plain codes are returned once.
+ */
+export const generateRecoveryCodes = async (userId: string) => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map(code => ({ userId, codeHash: hashRecoveryCode(code) }))
+    })
+  ]);
+
+  return codes;
+};
+
+/**
+ * Spend a recovery code; true if it was valid and unused
+ */
+export const useRecoveryCode = async (userId: string, code: string) => {
+  const { count } = await prisma.recoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() }
+  });
+  return count === 1;
+};
+
+/**
+ * Check a TOTP or recovery code for a user with two-factor enabled,
+ * recording the accepted time step
+ */
+export const verifySecondFactor = async (
+  user: { id: string; twoFactorSecret: string | null; twoFactorLastStep: number | null },
+  code: string
+) => {
+  const trimmed = code.trim();
+
+  if (/^\d{6}$/.test(trimmed)) {
+    if (!user.twoFactorSecret) return false;
+
+    const step = verifyTotp(decryptSecret(user.twoFactorSecret), trimmed, user.twoFactorLastStep);
+    if (step === null) return false;
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorLastStep: step }
+    });
+    return true;
+  }
+
+  return useRecoveryCode(user.id, trimmed);
+};
+
+export type ChallengePurpose = 'verify' | 'enroll';
+
+/**
+ * Token proving the password step passed; it cannot be used as an access token
+ */
+export const signChallengeToken = (userId: string, purpose: ChallengePurpose) =>
+  jwt.sign(
+    { id: userId, purpose },
+    process.env.JWT_SECRET || 'default-secret',
+    { expiresIn: CHALLENGE_EXPIRES_IN, audience: CHALLENGE_AUDIENCE }
+  );
+
+export const verifyChallengeToken = (token: string, purpose: ChallengePurpose): string | null => {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'default-secret', {
+      audience: CHALLENGE_AUDIENCE
+    }) as { id: string; purpose: ChallengePurpose };
+
+    return decoded.purpose === purpose ? decoded.id : null;
+  } catch {
+    return null;
+  }
+};
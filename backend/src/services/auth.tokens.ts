@@ -0,0 +1,226 @@
+/**
+ * Auth Token Service
+ * Issues short-lived access tokens and rotating refresh tokens tied to a
+ * server-side session, so sign-ins can be revoked before they expire
+ */
+
+import crypto from 'crypto';
+import { Request } from 'express';
+import jwt from 'jsonwebtoken';
+import { User } from '@prisma/client';
+import prisma from '../utils/db';
+import { getSocketEmitters } from '../socket/socket.handlers';
+import { permissionsForRole } from './access.permissions';
+
+const ACCESS_TOKEN_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+const REFRESH_TOKEN_TTL_MS = (Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30) * 24 * 60 * 60 * 1000;
+
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export const sessionContext = (req: Request): SessionContext => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip
+});
+
+interface TokenUser {
+  id: string;
+  email: string;
+  role: string;
+}
+
+const hashRefreshToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+export const signAccessToken = (user: TokenUser, sessionId: string) =>
+  jwt.sign(
+    { id: user.id, email: user.email, role: user.role, sid: sessionId },
+    process.env.JWT_SECRET || 'default-secret',
+    { expiresIn: ACCESS_TOKEN_EXPIRES_IN } as jwt.SignOptions
+  );
+
+/**
+ * Create the next refresh token for a session. Only the hash is stored.
+ */
+const issueRefreshToken = async (sessionId: string) => {
+  const token = crypto.randomBytes(48).toString('base64url');
+
+  await prisma.refreshToken.create({
+    data: {
+      sessionId,
+      tokenHash: hashRefreshToken(token),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+    }
+  });
+
+  return token;
+};
+
+/**
+ * Start a session for a user who just proved who they are
+ */
+export const createSession = async (user: TokenUser, context: SessionContext = {}) => {
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      userAgent: context.userAgent?.slice(0, 512),
+      ipAddress: context.ipAddress,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+    }
+  });
+
+  return {
+    session,
+    token: signAccessToken(user, session.id),
+    refreshToken: await issueRefreshToken(session.id)
+  };
+};
+
+/**
+ * Finish a sign-in once every factor has been checked: record it, start a
+ * session and shape the user for the client
+ */
+export const completeLogin = async (user: User, context: SessionContext) => {
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lastLoginAt: new Date(), failedLoginCount: 0, lockedUntil: null }
+  });
+
+  const { token, refreshToken } = await createSession(user, context);
+
+  // Never return the password hash or the two-factor secret
+  const {
+    password: _password,
+    twoFactorSecret: _secret,
+    twoFactorLastStep: _step,
+    failedLoginCount: _failed,
+    lockedUntil: _locked,
+    ...userData
+  } = user;
+
+  return {
+    user: {
+      ...userData,
+      services: userData.services ? JSON.parse(userData.services) : [],
+      permissions: await permissionsForRole(user.role)
+    },
+    token,
+    refreshToken
+  };
+};
+
+export const revokeSession = async (sessionId: string, reason: string) => {
+  const { count } = await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason }
+  });
+
+  if (count > 0) {
+    getSocketEmitters()?.disconnectSession(sessionId);
+  }
+
+  return count > 0;
+};
+
+/**
+ * Revoke every session a user has, optionally keeping one (the caller's own)
+ */
+export const revokeUserSessions = async (userId: string, reason: string, exceptSessionId?: string) => {
+  const { count } = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } })
+    },
+    data: { revokedAt: new Date(), revokedReason: reason }
+  });
+
+  // Live sockets were authorized with tokens from those sessions; the
+  // caller's own client reconnects with its current token
+  if (count > 0) {
+    getSocketEmitters()?.disconnectUser(userId);
+  }
+
+  return count;
+};
+
+type RotateResult =
+  | { token: string; refreshToken: string; error?: undefined }
+  | { token?: undefined; refreshToken?: undefined; error: string };
+
+/**
+ * Spend a refresh token for a new access and refresh token pair.
+ * A token that was already spent is treated as stolen: the whole session is revoked.
+ */
+export const rotateRefreshToken = async (presented: string, context: SessionContext = {}): Promise<RotateResult> => {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashRefreshToken(presented) },
+    include: {
+      session: {
+        include: { user: { select: { id: true, email: true, role: true, status: true } } }
+      }
+    }
+  });
+
+  if (!stored) {
+    return { error: 'Invalid refresh token' };
+  }
+
+  const { session } = stored;
+
+  if (stored.usedAt) {
+    await revokeSession(session.id, 'reuse_detected');
+    console.warn(`⚠️ Refresh token reuse detected for session ${session.id}; session revoked`);
+    return { error: 'Refresh token has already been used' };
+  }
+
+  if (session.revokedAt) {
+    return { error: 'Session has been revoked' };
+  }
+
+  if (stored.expiresAt < new Date() || session.expiresAt < new Date()) {
+    return { error: 'Refresh token expired' };
+  }
+
+  if (session.user.status !== 'ACTIVE') {
+    return { error: 'Account is not active' };
+  }
+
+  // Conditional update so two concurrent refreshes cannot both spend the token
+  const spent = await prisma.refreshToken.updateMany({
+    where: { id: stored.id, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+
+  if (spent.count === 0) {
+    await revokeSession(session.id, 'reuse_detected');
+    return { error: 'Refresh token has already been used' };
+  }
+
+  await prisma.session.update({
+    where: { id: session.id },
+    data: {
+      lastUsedAt: new Date(),
+      ...(context.ipAddress && { ipAddress: context.ipAddress }),
+      ...(context.userAgent && { userAgent: context.userAgent.slice(0, 512) })
+    }
+  });
+
+  return {
+    token: signAccessToken(session.user, session.id),
+    refreshToken: await issueRefreshToken(session.id)
+  };
+};
+
+/**
+ * Session id behind a refresh token, for logging out with the token alone
+ */
+export const findSessionIdByRefreshToken = async (presented: string) => {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashRefreshToken(presented) },
+    select: { sessionId: true }
+  });
+  return stored?.sessionId ?? null;
+};
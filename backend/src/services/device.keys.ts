@@ -0,0 +1,47 @@
+/**
+ * Device Key Service
+ * Generates and verifies API keys for drones and ground stations
+ */
+
+import crypto from 'crypto';
+
+// Endpoints a device key can be allowed to call
+export const DEVICE_SCOPES = ['telemetry:ingest', 'missions:read'];
+export const DEVICE_TYPES = ['drone', 'ground_station'];
+
+const KEY_PREFIX = 'kube_dk';
+
+export const hashDeviceKey = (secret: string): string =>
+  crypto.createHash('sha256').update(secret).digest('hex');
+
+/**
+ * Create a new key. The full key is returned once and never stored;
+ * callers persist only the prefix and the hash.
+ */
+export const generateDeviceKey = () => {
+  const prefix = crypto.randomBytes(6).toString('hex');
+  const secret = crypto.randomBytes(32).toString('hex');
+
+  return {
+    key: `${KEY_PREFIX}_${prefix}_${secret}`,
+    keyPrefix: prefix,
+    keyHash: hashDeviceKey(secret)
+  };
+};
+
+/**
+ * Split a presented key into its lookup prefix and secret
+ */
+export const parseDeviceKey = (key: string): { keyPrefix: string; secret: string } | null => {
+  const match = /^kube_dk_([0-9a-f]{12})_([0-9a-f]{64})$/.exec(key);
+  return match ? { keyPrefix: match[1], secret: match[2] } : null;
+};
+
+/**
+ * Constant-time comparison of a presented secret against the stored hash
+ */
+export const verifyDeviceKey = (secret: string, keyHash: string): boolean => {
+  const presented = Buffer.from(hashDeviceKey(secret), 'hex');
+  const stored = Buffer.from(keyHash, 'hex');
+  return presented.length === stored.length && crypto.timingSafeEqual(presented, stored);
+};
@@ -0,0 +1,190 @@
+/**
+ * Herd Aggregates
+ * Keeps a herd's counters, health, risk and last sighting in step with its
+ * animal registry, open health events and drone counts. Every write that
+ * changes one of those calls syncHerdAggregates inside the same transaction,
+ * so readers never see the new record next to stale counters.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/db';
+import { INACTIVE_ANIMAL_STATUSES } from './animal.registry';
+
+export const HEALTH_EVENT_SEVERITIES = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+// Per-animal health score deducted for the worst open health event
+const EVENT_PENALTY: Record<string, number> = {
+  LOW: 10,
+  MEDIUM: 25,
+  HIGH: 50,
+  CRITICAL: 70
+};
+
+// Score of an animal whose status is neither HEALTHY nor MISSING (sick, injured, ...)
+const UNWELL_SCORE = 40;
+
+// Herd status thresholds on the risk score
+const CRITICAL_RISK = 50;
+const AT_RISK = 20;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const maxDate = (...dates: (Date | null | undefined)[]) =>
+  dates.reduce<Date | null>((latest, date) => (date && (!latest || date > latest) ? date : latest), null);
+
+/**
+ * Whether animals were ever registered in or moved through a herd
+ */
+const hasRegistry = async (tx: Prisma.TransactionClient, herdId: string) => {
+  const [animal, movement] = await Promise.all([
+    tx.animal.findFirst({ where: { herdId }, select: { id: true } }),
+    tx.animalMovement.findFirst({
+      where: { OR: [{ toHerdId: herdId }, { fromHerdId: herdId }] },
+      select: { id: true }
+    })
+  ]);
+  return !!animal || !!movement;
+};
+
+/**
+ * Recompute one herd's aggregates and store them.
+ *
+ * Herds with registered animals take their counts from the registry, and
+ * drop to zero once the last one has left. Herds nobody has ever registered
+ * animals for keep their declared head count and take sick and missing
+ * numbers from the latest drone count.
+ */
+export const syncHerdAggregates = async (tx: Prisma.TransactionClient, herdId: string) => {
+  const herd = await tx.herd.findUnique({
+    where: { id: herdId },
+    select: { id: true, totalCount: true, sickCount: true }
+  });
+  if (!herd) return null;
+
+  const [animals, latestCount] = await Promise.all([
+    tx.animal.findMany({
+      where: { herdId, status: { notIn: INACTIVE_ANIMAL_STATUSES } },
+      select: {
+        status: true,
+        lastSeenAt: true,
+        healthEvents: {
+          where: { resolvedAt: null },
+          select: { severity: true }
+        }
+      }
+    }),
+    tx.herdTelemetry.findFirst({
+      where: { herdId },
+      orderBy: { timestamp: 'desc' }
+    })
+  ]);
+
+  let totalCount: number;
+  let sickCount: number;
+  let missingCount: number;
+  let healthScores: number[];
+  let severeCount = 0;
+
+  if (animals.length > 0 || await hasRegistry(tx, herdId)) {
+    totalCount = animals.length;
+    missingCount = animals.filter(animal => animal.status === 'MISSING').length;
+    sickCount = animals.filter(animal => animal.status !== 'HEALTHY' && animal.status !== 'MISSING').length;
+
+    healthScores = animals
+      .filter(animal => animal.status !== 'MISSING')
+      .map(animal => {
+        const penalty = Math.max(0, ...animal.healthEvents.map(event => EVENT_PENALTY[event.severity.toUpperCase()] ?? 0));
+        if (penalty >= EVENT_PENALTY.HIGH) severeCount++;
+        return animal.status === 'HEALTHY' ? 100 - penalty : Math.min(UNWELL_SCORE, 100 - penalty);
+      });
+  } else {
+    totalCount = herd.totalCount;
+    sickCount = Math.min(totalCount, latestCount?.countSick ?? herd.sickCount);
+    missingCount = latestCount
+      ? Math.min(totalCount - sickCount, latestCount.countMissing ?? Math.max(0, totalCount - latestCount.countDetected))
+      : 0;
+
+    const present = totalCount - missingCount;
+    healthScores = present > 0
+      ? [((present - sickCount) * 100 + sickCount * UNWELL_SCORE) / present]
+      : [];
+  }
+
+  const healthyCount = Math.max(0, totalCount - sickCount - missingCount);
+  const avgHealth = healthScores.length > 0
+    ? round(healthScores.reduce((sum, score) => sum + score, 0) / healthScores.length)
+    : null;
+
+  const riskScore = totalCount > 0
+    ? round(Math.min(100, 100 * (0.5 * sickCount + 0.3 * missingCount + 0.2 * severeCount) / totalCount))
+    : 0;
+
+  const status = riskScore >= CRITICAL_RISK ? 'CRITICAL' : riskScore >= AT_RISK ? 'AT_RISK' : 'HEALTHY';
+
+  const lastSeenAt = maxDate(latestCount?.timestamp, ...animals.map(animal => animal.lastSeenAt));
+
+  return tx.herd.update({
+    where: { id: herdId },
+    data: {
+      totalCount,
+      healthyCount,
+      sickCount,
+      missingCount,
+      avgHealth,
+      riskScore,
+      status,
+      lastSeenAt
+    }
+  });
+};
+
+/**
+ * Compare each herd's registry against its latest drone count. The registry
+ * count is the animals a drone should see: active and not reported missing.
+ * Herds without registered animals or without a drone count are skipped.
+ */
+export const findCountDiscrepancies = async (herdWhere: Prisma.HerdWhereInput, tolerancePercent = 0) => {
+  const herds = await prisma.herd.findMany({
+    where: herdWhere,
+    select: {
+      id: true,
+      name: true,
+      farmId: true,
+      farm: { select: { name: true } },
+      _count: {
+        select: { animals: { where: { status: { notIn: [...INACTIVE_ANIMAL_STATUSES, 'MISSING'] } } } }
+      },
+      telemetry: {
+        orderBy: { timestamp: 'desc' },
+        take: 1,
+        select: { id: true, countDetected: true, timestamp: true, droneId: true, missionId: true }
+      }
+    },
+    orderBy: { name: 'asc' }
+  });
+
+  return herds.flatMap(herd => {
+    const latest = herd.telemetry[0];
+    const registryCount = herd._count.animals;
+    if (!latest || registryCount === 0) return [];
+
+    const difference = latest.countDetected - registryCount;
+    const differencePercent = round((Math.abs(difference) / registryCount) * 100);
+    if (difference === 0 || differencePercent < tolerancePercent) return [];
+
+    return [{
+      herdId: herd.id,
+      herdName: herd.name,
+      farmId: herd.farmId,
+      farmName: herd.farm.name,
+      registryCount,
+      droneCount: latest.countDetected,
+      difference,
+      differencePercent,
+      countedAt: latest.timestamp,
+      telemetryId: latest.id,
+      droneId: latest.droneId,
+      missionId: latest.missionId
+    }];
+  });
+};
@@ -0,0 +1,286 @@
+/**
+ * Mission Scheduler
+ * Creates mission runs from recurring mission definitions and moves them
+ * through SCHEDULED → IN_PROGRESS → COMPLETED on the server
+ */
+
+import { Drone } from '@prisma/client';
+import prisma from '../utils/db';
+import { getSocketEmitters } from '../socket/socket.handlers';
+
+const SCHEDULER_INTERVAL_MS = Number(process.env.MISSION_SCHEDULER_INTERVAL_MS) || 30 * 1000;
+const MIN_LAUNCH_BATTERY = Number(process.env.MISSION_MIN_BATTERY) || 30;
+
+let isRunning = false;
+
+/**
+ * Work out when a mission should fly next after the given occurrence
+ */
+export const computeNextRun = (schedule: string, from: Date, now: Date = new Date()): Date | null => {
+  if (schedule === 'once') return null;
+
+  const next = new Date(from);
+  // Skip occurrences missed while the server was down instead of replaying them
+  do {
+    if (schedule === 'daily') next.setDate(next.getDate() + 1);
+    else if (schedule === 'weekly') next.setDate(next.getDate() + 7);
+    else if (schedule === 'monthly') next.setMonth(next.getMonth() + 1);
+    else return null;
+  } while (next <= now);
+
+  return next;
+};
+
+/**
+ * Reason a drone cannot take off, or null when it is ready
+ */
+export const getLaunchBlocker = (drone: Drone | null): string | null => {
+  if (!drone) return 'No drone assigned';
+  if (drone.status === 'CHARGING') return `Drone ${drone.callSign} is charging`;
+  if (drone.status === 'MAINTENANCE') return `Drone ${drone.callSign} is in maintenance`;
+  if (drone.status === 'ACTIVE') return `Drone ${drone.callSign} is already flying`;
+  if (drone.battery < MIN_LAUNCH_BATTERY) {
+    return `Drone ${drone.callSign} battery at ${Math.round(drone.battery)}% (minimum ${MIN_LAUNCH_BATTERY}%)`;
+  }
+  return null;
+};
+
+const emitMission = async (missionId: string) => {
+  const emitters = getSocketEmitters();
+  if (!emitters) return;
+
+  const mission = await prisma.mission.findUnique({
+    where: { id: missionId },
+    include: {
+      drone: {
+        select: { id: true, callSign: true, name: true, model: true, status: true, battery: true, farmId: true, parkId: true }
+      },
+      runs: {
+        orderBy: { scheduledFor: 'desc' },
+        take: 1
+      }
+    }
+  });
+
+  if (mission) {
+    emitters.emitMissionUpdate(mission);
+  }
+};
+
+/**
+ * Launch the next run of a mission
+ * A run is always recorded: SKIPPED with the reason when the drone is not ready.
+ * The mission row is claimed with a conditional update, so a manual launch racing
+ * the scheduler (or two scheduler passes) only ever starts one run.
+ */
+export const launchMission = async (missionId: string, triggeredBy = 'scheduler') => {
+  const mission = await prisma.mission.findUnique({
+    where: { id: missionId },
+    include: { drone: true }
+  });
+
+  if (!mission || mission.status === 'IN_PROGRESS') {
+    return null;
+  }
+
+  const now = new Date();
+  const isDue = mission.nextRunAt !== null && mission.nextRunAt <= now;
+  const scheduledFor = isDue ? mission.nextRunAt! : now;
+
+  // A manual launch ahead of schedule leaves the recurring plan untouched
+  const nextRunAt = isDue || mission.schedule === 'once'
+    ? computeNextRun(mission.schedule, scheduledFor, now)
+    : mission.nextRunAt;
+
+  const skipReason = getLaunchBlocker(mission.drone);
+
+  // Only the caller that still sees the mission as loaded above gets to act on it
+  const claim = {
+    id: missionId,
+    status: { not: 'IN_PROGRESS' },
+    nextRunAt: mission.nextRunAt
+  };
+
+  if (skipReason) {
+    const run = await prisma.$transaction(async (tx) => {
+      // A due one-off mission that is skipped has nothing left to run, so it stops
+      // showing as scheduled; an early manual attempt keeps the plan as it was
+      const claimed = await tx.mission.updateMany({
+        where: claim,
+        data: isDue
+          ? { nextRunAt, ...(nextRunAt === null && { status: 'SKIPPED' }) }
+          : { nextRunAt: mission.nextRunAt }
+      });
+
+      if (claimed.count === 0) return null;
+
+      return tx.missionRun.create({
+        data: {
+          missionId,
+          droneId: mission.droneId,
+          status: 'SKIPPED',
+          scheduledFor,
+          skipReason,
+          triggeredBy
+        }
+      });
+    });
+
+    if (!run) return null;
+
+    console.log(`⏭️ Mission "${mission.name}" skipped: ${skipReason}`);
+    await emitMission(missionId);
+    return { run, skipReason };
+  }
+
+  const run = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.mission.updateMany({
+      where: claim,
+      data: {
+        status: 'IN_PROGRESS',
+        actualStart: now,
+        nextRunAt
+      }
+    });
+
+    if (claimed.count === 0) return null;
+
+    const started = await tx.missionRun.create({
+      data: {
+        missionId,
+        droneId: mission.droneId,
+        status: 'IN_PROGRESS',
+        scheduledFor,
+        startedAt: now,
+        triggeredBy
+      }
+    });
+
+    await tx.drone.update({
+      where: { id: mission.droneId! },
+      data: { status: 'ACTIVE', lastMission: mission.name }
+    });
+
+    return started;
+  });
+
+  if (!run) return null;
+
+  console.log(`🚀 Mission "${mission.name}" launched (${triggeredBy})`);
+  await emitMission(missionId);
+  return { run, skipReason: null };
+};
+
+/**
+ * Complete the in-progress run of a mission and return the drone to standby
+ */
+export const completeMission = async (missionId: string) => {
+  const mission = await prisma.mission.findUnique({
+    where: { id: missionId },
+    include: {
+      runs: {
+        where: { status: 'IN_PROGRESS' }
+      }
+    }
+  });
+
+  if (!mission || mission.status !== 'IN_PROGRESS') {
+    return null;
+  }
+
+  const now = new Date();
+  const flightHours = mission.actualStart
+    ? (now.getTime() - mission.actualStart.getTime()) / (60 * 60 * 1000)
+    : 0;
+
+  // Claim the run so a concurrent completion cannot close it and log its flight time twice
+  const completed = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.mission.updateMany({
+      where: { id: missionId, status: 'IN_PROGRESS' },
+      data: {
+        status: mission.nextRunAt ? 'SCHEDULED' : 'COMPLETED',
+        actualEnd: now
+      }
+    });
+
+    if (claimed.count !== 1) return false;
+
+    await tx.missionRun.updateMany({
+      where: { missionId, status: 'IN_PROGRESS' },
+      data: { status: 'COMPLETED', completedAt: now }
+    });
+
+    if (mission.droneId) {
+      await tx.drone.update({
+        where: { id: mission.droneId },
+        data: {
+          status: 'IDLE',
+          altitude: 0,
+          speed: 0,
+          flightTime: { increment: flightHours }
+        }
+      });
+    }
+
+    return true;
+  });
+
+  if (!completed) return null;
+
+  console.log(`✅ Mission "${mission.name}" completed`);
+  await emitMission(missionId);
+  return mission.runs;
+};
+
+/**
+ * Launch due missions and close runs that have outlived their estimated duration
+ */
+export const runMissionScheduler = async () => {
+  if (isRunning) return;
+  isRunning = true;
+
+  try {
+    const now = new Date();
+
+    const dueMissions = await prisma.mission.findMany({
+      where: {
+        nextRunAt: { lte: now },
+        status: { not: 'IN_PROGRESS' }
+      },
+      select: { id: true },
+      orderBy: { nextRunAt: 'asc' }
+    });
+
+    for (const mission of dueMissions) {
+      await launchMission(mission.id);
+    }
+
+    const activeRuns = await prisma.missionRun.findMany({
+      where: { status: 'IN_PROGRESS' },
+      include: {
+        mission: {
+          select: { estimatedDuration: true }
+        }
+      }
+    });
+
+    for (const run of activeRuns) {
+      const endsAt = (run.startedAt || run.scheduledFor).getTime() + run.mission.estimatedDuration * 60 * 1000;
+      if (endsAt <= now.getTime()) {
+        await completeMission(run.missionId);
+      }
+    }
+  } catch (error) {
+    console.error('Mission scheduler error:', error);
+  } finally {
+    isRunning = false;
+  }
+};
+
+/**
+ * Start the background scheduler loop
+ */
+export const startMissionScheduler = () => {
+  console.log(`🗓️ Mission scheduler running every ${SCHEDULER_INTERVAL_MS / 1000}s`);
+  return setInterval(runMissionScheduler, SCHEDULER_INTERVAL_MS);
+};
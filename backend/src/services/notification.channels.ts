@@ -0,0 +1,174 @@
+/**
+ * Notification Channels
+ * Pluggable outbound transports for alert notifications. Each channel is
+ * configured from the environment, so local stand-ins (a fake SMTP server,
+ * a mock HTTP receiver) can be used by pointing the env vars at them.
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import nodemailer, { Transporter } from 'nodemailer';
+import { checkPublicUrl, publicLookup } from '../utils/network';
+
+export interface NotificationMessage {
+  subject: string;
+  body: string;
+  // Structured payload for machine receivers (webhooks)
+  data?: Record<string, unknown>;
+}
+
+export interface NotificationChannel {
+  name: string;
+  isConfigured: () => boolean;
+  // Resolves when the provider accepted the message, throws otherwise
+  send: (recipient: string, message: NotificationMessage) => Promise<void>;
+}
+
+const HTTP_TIMEOUT_MS = 10 * 1000;
+
+let mailTransport: Transporter | null = null;
+
+const getMailTransport = () => {
+  if (!mailTransport) {
+    const port = Number(process.env.SMTP_PORT) || 587;
+
+    mailTransport = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: port === 465,
+      ...(process.env.SMTP_USER && {
+        auth: {
+          user: process.env.SMTP_USER,
+          pass: process.env.SMTP_PASSWORD
+        }
+      })
+    });
+  }
+  return mailTransport;
+};
+
+/**
+ * POST JSON and treat any non-2xx response as a failure
+ */
+const postJson = async (url: string, payload: unknown, headers: Record<string, string> = {}) => {
+  const body = JSON.stringify(payload);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body,
+    signal: AbortSignal.timeout(HTTP_TIMEOUT_MS)
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} from ${new URL(url).host}`);
+  }
+};
+
+/**
+ * POST JSON to a user-supplied URL. Only public addresses are dialled and
+ * redirects are not followed; the error names no status or host, since the
+ * delivery log is shown back to the user who set the URL.
+ */
+const postJsonToPublicUrl = async (url: string, payload: unknown, headers: Record<string, string> = {}) => {
+  const problem = await checkPublicUrl(url);
+  if (problem) {
+    throw new Error('Webhook URL is not allowed');
+  }
+
+  const body = JSON.stringify(payload);
+  const target = new URL(url);
+  const client = target.protocol === 'https:' ? https : http;
+
+  const status = await new Promise<number>((resolve, reject) => {
+    const request = client.request(target, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body), ...headers },
+      lookup: publicLookup,
+      timeout: HTTP_TIMEOUT_MS
+    }, response => {
+      response.resume();
+      resolve(response.statusCode || 0);
+    });
+
+    request.on('timeout', () => request.destroy(new Error('timeout')));
+    request.on('error', reject);
+    request.end(body);
+  }).catch(error => {
+    console.error(`Webhook delivery to ${target.host} failed:`, error.message);
+    throw new Error('Webhook could not be reached');
+  });
+
+  if (status < 200 || status >= 300) {
+    console.error(`Webhook delivery to ${target.host} got HTTP ${status}`);
+    throw new Error('Webhook did not accept the notification');
+  }
+};
+
+export const emailChannel: NotificationChannel = {
+  name: 'email',
+  isConfigured: () => Boolean(process.env.SMTP_HOST),
+  send: async (recipient, message) => {
+    await getMailTransport().sendMail({
+      from: process.env.SMTP_FROM || 'KUBE Alerts <alerts@kube.local>',
+      to: recipient,
+      subject: message.subject,
+      text: message.body
+    });
+  }
+};
+
+/**
+ * Generic HTTP SMS gateway: POST { to, message } with the API key as a bearer token
+ */
+export const smsChannel: NotificationChannel = {
+  name: 'sms',
+  isConfigured: () => Boolean(process.env.SMS_API_URL),
+  send: async (recipient, message) => {
+    await postJson(
+      process.env.SMS_API_URL!,
+      {
+        to: recipient,
+        from: process.env.SMS_SENDER_ID || 'KUBE',
+        message: `${message.subject}: ${message.body}`.slice(0, 459)
+      },
+      process.env.SMS_API_KEY ? { Authorization: `Bearer ${process.env.SMS_API_KEY}` } : {}
+    );
+  }
+};
+
+/**
+ * Webhooks receive the structured payload, signed with HMAC-SHA256 when a secret is set
+ */
+export const webhookChannel: NotificationChannel = {
+  name: 'webhook',
+  isConfigured: () => true,
+  send: async (recipient, message) => {
+    const payload = { subject: message.subject, body: message.body, ...message.data };
+    const secret = process.env.WEBHOOK_SIGNING_SECRET;
+    const headers: Record<string, string> = {};
+
+    if (secret) {
+      headers['X-Kube-Signature'] = crypto
+        .createHmac('sha256', secret)
+        .update(JSON.stringify(payload))
+        .digest('hex');
+    }
+
+    await postJsonToPublicUrl(recipient, payload, headers);
+  }
+};
+
+const channels = new Map<string, NotificationChannel>(
+  [emailChannel, smsChannel, webhookChannel].map(channel => [channel.name, channel])
+);
+
+export const getChannel = (name: string) => channels.get(name);
+
+/**
+ * Add a channel or replace a built-in one (e.g. with an in-memory stand-in)
+ */
+export const registerChannel = (channel: NotificationChannel) => {
+  channels.set(channel.name, channel);
+};
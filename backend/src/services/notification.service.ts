@@ -0,0 +1,230 @@
+/**
+ * Notification Service
+ * Fans alerts out to email, SMS and webhooks according to each user's
+ * preferences, records every attempt and retries failures with backoff
+ */
+
+import { Alert, NotificationDelivery, NotificationPreference } from '@prisma/client';
+import prisma from '../utils/db';
+import { getChannel } from './notification.channels';
+
+const RETRY_INTERVAL_MS = Number(process.env.NOTIFICATION_RETRY_INTERVAL_MS) || 60 * 1000;
+const MAX_ATTEMPTS = Number(process.env.NOTIFICATION_MAX_ATTEMPTS) || 5;
+const BACKOFF_BASE_MS = 30 * 1000;
+
+export const SEVERITY_RANK: Record<string, number> = { INFO: 0, WARNING: 1, CRITICAL: 2 };
+
+// Used for users who never saved preferences
+const DEFAULT_PREFERENCES = {
+  emailEnabled: true,
+  emailMinSeverity: 'WARNING',
+  smsEnabled: false,
+  smsMinSeverity: 'CRITICAL',
+  webhookUrl: null,
+  webhookMinSeverity: 'INFO'
+};
+
+let isRetrying = false;
+
+interface Recipient {
+  id: string;
+  email: string;
+  phone: string | null;
+  notificationPreference: NotificationPreference | null;
+}
+
+const meetsSeverity = (severity: string, minimum: string) =>
+  (SEVERITY_RANK[severity] ?? 0) >= (SEVERITY_RANK[minimum] ?? 0);
+
+/**
+ * Channels and addresses a user wants for an alert of this severity
+ */
+const selectTargets = (user: Recipient, severity: string) => {
+  const prefs = user.notificationPreference ?? DEFAULT_PREFERENCES;
+  const targets: { channel: string; recipient: string }[] = [];
+
+  if (prefs.emailEnabled && meetsSeverity(severity, prefs.emailMinSeverity)) {
+    targets.push({ channel: 'email', recipient: user.email });
+  }
+  if (prefs.smsEnabled && user.phone && meetsSeverity(severity, prefs.smsMinSeverity)) {
+    targets.push({ channel: 'sms', recipient: user.phone });
+  }
+  if (prefs.webhookUrl && meetsSeverity(severity, prefs.webhookMinSeverity)) {
+    targets.push({ channel: 'webhook', recipient: prefs.webhookUrl });
+  }
+
+  return targets;
+};
+
+/**
+ * Users who should hear about an alert: the assignee, whoever owns or manages
+ * its farm, park or land zone, and every admin for critical alerts, unless
+ * specific users are given
+ */
+const findRecipients = async (alert: Alert, userIds?: string[]) => {
+  return prisma.user.findMany({
+    where: {
+      status: 'ACTIVE',
+      OR: userIds ? [{ id: { in: userIds } }] : [
+        ...(alert.assignedToId ? [{ id: alert.assignedToId }] : []),
+        ...(alert.farmId ? [{ farms: { some: { id: alert.farmId } } }] : []),
+        ...(alert.parkId ? [{ parks: { some: { id: alert.parkId } } }] : []),
+        ...(alert.landZoneId ? [{ landZones: { some: { id: alert.landZoneId } } }] : []),
+        ...(alert.severity === 'CRITICAL' ? [{ role: 'ADMIN' }] : [])
+      ]
+    },
+    select: {
+      id: true,
+      email: true,
+      phone: true,
+      notificationPreference: true
+    }
+  });
+};
+
+const formatMessage = (alert: Alert) => ({
+  subject: `[${alert.severity}] ${alert.title}`,
+  body: [alert.message, alert.details, alert.location && `Location: ${alert.location}`]
+    .filter(Boolean)
+    .join('\n\n')
+});
+
+/**
+ * Record on the alert which channels reached someone
+ */
+const markAlertNotified = async (alertId: string, sentChannels: string[]) => {
+  const alert = await prisma.alert.findUnique({ where: { id: alertId } });
+  if (!alert) return;
+
+  const previous: string[] = alert.notificationChannels ? JSON.parse(alert.notificationChannels) : [];
+
+  await prisma.alert.update({
+    where: { id: alertId },
+    data: {
+      notificationSent: true,
+      notificationChannels: JSON.stringify([...new Set([...previous, ...sentChannels])])
+    }
+  });
+};
+
+/**
+ * Try to send one logged delivery, scheduling a retry with exponential backoff on failure
+ */
+export const attemptDelivery = async (delivery: NotificationDelivery) => {
+  const channel = getChannel(delivery.channel);
+  const attempts = delivery.attempts + 1;
+
+  try {
+    if (!channel || !channel.isConfigured()) {
+      throw new Error(`Channel ${delivery.channel} is not configured`);
+    }
+
+    const alert = delivery.alertId
+      ? await prisma.alert.findUnique({ where: { id: delivery.alertId } })
+      : null;
+
+    await channel.send(delivery.recipient, {
+      subject: delivery.subject,
+      body: delivery.body,
+      data: { deliveryId: delivery.id, alert }
+    });
+
+    return prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: { status: 'SENT', attempts, sentAt: new Date(), nextAttemptAt: null, lastError: null }
+    });
+  } catch (error) {
+    const exhausted = attempts >= MAX_ATTEMPTS;
+
+    return prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: exhausted ? 'FAILED' : 'RETRYING',
+        attempts,
+        lastError: error instanceof Error ? error.message : String(error),
+        nextAttemptAt: exhausted ? null : new Date(Date.now() + BACKOFF_BASE_MS * 2 ** (attempts - 1))
+      }
+    });
+  }
+};
+
+/**
+ * Log and send notifications for an alert to everyone who should receive it,
+ * or only to the given users (e.g. when paging during escalation)
+ */
+export const notifyAlert = async (alert: Alert, userIds?: string[]) => {
+  const recipients = await findRecipients(alert, userIds);
+  const message = formatMessage(alert);
+  const results: NotificationDelivery[] = [];
+
+  for (const user of recipients) {
+    for (const target of selectTargets(user, alert.severity)) {
+      const delivery = await prisma.notificationDelivery.create({
+        data: {
+          alertId: alert.id,
+          userId: user.id,
+          channel: target.channel,
+          recipient: target.recipient,
+          subject: message.subject,
+          body: message.body
+        }
+      });
+
+      results.push(await attemptDelivery(delivery));
+    }
+  }
+
+  const sentChannels = results.filter(r => r.status === 'SENT').map(r => r.channel);
+
+  if (sentChannels.length > 0) {
+    await markAlertNotified(alert.id, sentChannels);
+  }
+
+  return results;
+};
+
+/**
+ * Notify without holding up the request or job that raised the alert
+ */
+export const notifyInBackground = (alert: Alert, userIds?: string[]) => {
+  notifyAlert(alert, userIds).catch(error => console.error('Alert notification error:', error));
+};
+
+/**
+ * Retry deliveries whose backoff has elapsed
+ */
+export const runNotificationRetries = async () => {
+  if (isRetrying) return;
+  isRetrying = true;
+
+  try {
+    const due = await prisma.notificationDelivery.findMany({
+      where: {
+        status: 'RETRYING',
+        nextAttemptAt: { lte: new Date() }
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: 100
+    });
+
+    for (const delivery of due) {
+      const updated = await attemptDelivery(delivery);
+
+      if (updated.status === 'SENT' && updated.alertId) {
+        await markAlertNotified(updated.alertId, [updated.channel]);
+      }
+    }
+  } catch (error) {
+    console.error('Notification retry error:', error);
+  } finally {
+    isRetrying = false;
+  }
+};
+
+/**
+ * Start the periodic retry worker
+ */
+export const startNotificationWorker = () => {
+  console.log(`📨 Notification retries running every ${RETRY_INTERVAL_MS / 1000}s`);
+  return setInterval(runNotificationRetries, RETRY_INTERVAL_MS);
+};
@@ -0,0 +1,102 @@
+/**
+ * Organization Members
+ * Membership roles inside an organization and what each allows. Members
+ * reach every farm, park and land zone their organization owns: viewers
+ * read them, everyone else may also change them.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/db';
+import { AccessLevel } from './access.scope';
+import { hasPermission } from './access.permissions';
+
+export const ORGANIZATION_ROLES = ['OWNER', 'ADMIN', 'MEMBER', 'VIEWER'] as const;
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
+
+// Roles that may change the organization's assets
+const WRITE_ROLES: OrganizationRole[] = ['OWNER', 'ADMIN', 'MEMBER'];
+
+// Roles that may rename the organization and manage its members
+const MANAGER_ROLES: OrganizationRole[] = ['OWNER', 'ADMIN'];
+
+export const isOrganizationRole = (value: unknown): value is OrganizationRole =>
+  typeof value === 'string' && (ORGANIZATION_ROLES as readonly string[]).includes(value);
+
+/**
+ * Ids of active organizations the user belongs to at the given level
+ */
+export const memberOrganizationIds = async (userId: string, level: AccessLevel = 'READ') => {
+  const memberships = await prisma.organizationMember.findMany({
+    where: {
+      userId,
+      organization: { status: 'ACTIVE' },
+      ...(level === 'WRITE' && { role: { in: WRITE_ROLES } })
+    },
+    select: { organizationId: true }
+  });
+  return memberships.map(membership => membership.organizationId);
+};
+
+export const findMembership = (organizationId: string, userId: string) =>
+  prisma.organizationMember.findUnique({
+    where: { organizationId_userId: { organizationId, userId } },
+    include: { organization: { select: { status: true } } }
+  });
+
+/**
+ * Whether a member of an active organization may reach its assets at this level
+ */
+export const canAccessAsMember = async (organizationId: string, userId: string, level: AccessLevel = 'READ') => {
+  const membership = await findMembership(organizationId, userId);
+  if (!membership || membership.organization.status !== 'ACTIVE') return false;
+  return level === 'READ' || WRITE_ROLES.includes(membership.role as OrganizationRole);
+};
+
+export const canManageOrganization = async (organizationId: string, userId: string) => {
+  const membership = await findMembership(organizationId, userId);
+  return !!membership && MANAGER_ROLES.includes(membership.role as OrganizationRole);
+};
+
+/**
+ * Whether a user may create farms, parks and land zones owned by the organization
+ */
+export const canAddAssetsTo = async (user: { id: string; permissions: readonly string[] }, organizationId: string) =>
+  hasPermission(user, 'organization:manage') || canAccessAsMember(organizationId, user.id, 'WRITE');
+
+/**
+ * URL-safe name, made unique with a numeric suffix when taken
+ */
+export const uniqueOrganizationSlug = async (name: string) => {
+  const base = name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 48) || 'organization';
+
+  const taken = await prisma.organization.findMany({
+    where: { slug: { startsWith: base } },
+    select: { slug: true }
+  });
+  const slugs = new Set(taken.map(organization => organization.slug));
+
+  if (!slugs.has(base)) return base;
+  let suffix = 2;
+  while (slugs.has(`${base}-${suffix}`)) suffix++;
+  return `${base}-${suffix}`;
+};
+
+/**
+ * Create an organization with its first owner
+ */
+export const createOrganization = (
+  data: { name: string; companySize?: string | null; industry?: string | null; slug: string },
+  ownerId: string,
+  tx: Prisma.TransactionClient = prisma
+) =>
+  tx.organization.create({
+    data: {
+      ...data,
+      members: { create: { userId: ownerId, role: 'OWNER' } }
+    }
+  });
@@ -0,0 +1,426 @@
+/**
+ * Outbreak Detection
+ * Periodically looks for space-time clusters of similar health events across
+ * animals, herds and farms. A cluster large enough to be an outbreak raises a
+ * critical alert listing the affected herds, and the owners of every farm
+ * within the notification radius are told.
+ */
+
+import { Outbreak } from '@prisma/client';
+import prisma from '../utils/db';
+import { distanceKm } from '../utils/geo';
+import { getSocketEmitters } from '../socket/socket.handlers';
+import { notifyInBackground } from './notification.service';
+import { recordAlert } from './alert.correlation';
+import { HEALTH_EVENT_SEVERITIES } from './herd.aggregates';
+
+const SCAN_INTERVAL_MS = Number(process.env.OUTBREAK_SCAN_INTERVAL_MS) || 15 * 60 * 1000;
+
+// Health events older than this are not part of a current outbreak
+const WINDOW_DAYS = Number(process.env.OUTBREAK_WINDOW_DAYS) || 7;
+
+// Cases this close to another case of the same disease belong to one cluster
+const CLUSTER_RADIUS_KM = Number(process.env.OUTBREAK_CLUSTER_RADIUS_KM) || 10;
+
+// Distinct animals a cluster needs before it counts as an outbreak
+const MIN_ANIMALS = Number(process.env.OUTBREAK_MIN_ANIMALS) || 3;
+
+// Events below this severity are not cases
+const MIN_SEVERITY = process.env.OUTBREAK_MIN_SEVERITY || 'MEDIUM';
+
+// Undiagnosed events count as cases only for these types; injuries and the
+// like do not spread
+const INFECTIOUS_EVENT_TYPES = (process.env.OUTBREAK_EVENT_TYPES || 'DISEASE,INFECTION,ILLNESS')
+  .split(',')
+  .map(type => type.trim().toUpperCase());
+
+// Farms within this distance of an outbreak's centre are notified
+const NOTIFY_RADIUS_KM = Number(process.env.OUTBREAK_NOTIFY_RADIUS_KM) || 25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const KM_PER_DEGREE = 111.32;
+
+let isScanning = false;
+
+interface Case {
+  disease: string;
+  animalId: string;
+  herdId: string;
+  farmId: string;
+  latitude: number;
+  longitude: number;
+  detectedAt: Date;
+}
+
+interface Cluster {
+  disease: string;
+  cases: Case[];
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+  animalCount: number;
+  herds: Map<string, { farmId: string; cases: number }>;
+  farmIds: string[];
+  firstCaseAt: Date;
+  lastCaseAt: Date;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const parseIds = (value: string | null): string[] => (value ? JSON.parse(value) : []);
+
+/**
+ * Diagnosed or infectious health events of at least the minimum severity
+ * within the window, placed where the animal was last seen or, failing that,
+ * at its farm
+ */
+const recentCases = async (since: Date): Promise<Case[]> => {
+  const severities = HEALTH_EVENT_SEVERITIES.slice(Math.max(0, HEALTH_EVENT_SEVERITIES.indexOf(MIN_SEVERITY.toUpperCase())));
+
+  const events = await prisma.healthEvent.findMany({
+    where: { detectedAt: { gte: since }, severity: { in: severities } },
+    select: {
+      type: true,
+      diagnosis: true,
+      detectedAt: true,
+      animal: {
+        select: {
+          id: true,
+          lastSeenLat: true,
+          lastSeenLng: true,
+          herd: {
+            select: {
+              id: true,
+              farm: { select: { id: true, latitude: true, longitude: true } }
+            }
+          }
+        }
+      }
+    }
+  });
+
+  const infectious = events.filter(event =>
+    event.diagnosis?.trim() || INFECTIOUS_EVENT_TYPES.includes(event.type.trim().toUpperCase()));
+
+  return infectious.map(event => {
+    const { animal } = event;
+    const { farm } = animal.herd;
+    const located = animal.lastSeenLat !== null && animal.lastSeenLng !== null;
+
+    return {
+      disease: (event.diagnosis?.trim() || event.type).toLowerCase(),
+      animalId: animal.id,
+      herdId: animal.herd.id,
+      farmId: farm.id,
+      latitude: located ? animal.lastSeenLat! : farm.latitude,
+      longitude: located ? animal.lastSeenLng! : farm.longitude,
+      detectedAt: event.detectedAt
+    };
+  });
+};
+
+const summarize = (disease: string, cases: Case[]): Cluster => {
+  const latitude = cases.reduce((sum, c) => sum + c.latitude, 0) / cases.length;
+  const longitude = cases.reduce((sum, c) => sum + c.longitude, 0) / cases.length;
+
+  const herds: Cluster['herds'] = new Map();
+  for (const c of cases) {
+    const herd = herds.get(c.herdId) ?? { farmId: c.farmId, cases: 0 };
+    herd.cases++;
+    herds.set(c.herdId, herd);
+  }
+
+  const times = cases.map(c => c.detectedAt.getTime());
+
+  return {
+    disease,
+    cases,
+    latitude,
+    longitude,
+    radiusKm: round(Math.max(...cases.map(c => distanceKm({ latitude, longitude }, c)))),
+    animalCount: new Set(cases.map(c => c.animalId)).size,
+    herds,
+    farmIds: [...new Set(cases.map(c => c.farmId))],
+    firstCaseAt: new Date(Math.min(...times)),
+    lastCaseAt: new Date(Math.max(...times))
+  };
+};
+
+/**
+ * Group cases of the same disease that are chained together by cases within
+ * the cluster radius of each other, keeping groups with enough animals
+ */
+const findClusters = (cases: Case[]): Cluster[] => {
+  const byDisease = new Map<string, Case[]>();
+  for (const c of cases) {
+    byDisease.set(c.disease, [...(byDisease.get(c.disease) ?? []), c]);
+  }
+
+  const clusters: Cluster[] = [];
+
+  for (const [disease, group] of byDisease) {
+    if (new Set(group.map(c => c.animalId)).size < MIN_ANIMALS) continue;
+
+    const parent = group.map((_, index) => index);
+    const find = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
+    };
+
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        if (distanceKm(group[i], group[j]) <= CLUSTER_RADIUS_KM) {
+          parent[find(i)] = find(j);
+        }
+      }
+    }
+
+    const components = new Map<number, Case[]>();
+    group.forEach((c, index) => {
+      const root = find(index);
+      components.set(root, [...(components.get(root) ?? []), c]);
+    });
+
+    for (const members of components.values()) {
+      const cluster = summarize(disease, members);
+      if (cluster.animalCount >= MIN_ANIMALS) clusters.push(cluster);
+    }
+  }
+
+  return clusters;
+};
+
+/**
+ * Farms whose location is within the notification radius of a point
+ */
+const farmsNear = async (latitude: number, longitude: number) => {
+  const latDelta = NOTIFY_RADIUS_KM / KM_PER_DEGREE;
+  const lngDelta = NOTIFY_RADIUS_KM / (KM_PER_DEGREE * Math.max(0.01, Math.cos((latitude * Math.PI) / 180)));
+
+  const farms = await prisma.farm.findMany({
+    where: {
+      latitude: { gte: latitude - latDelta, lte: latitude + latDelta },
+      longitude: { gte: longitude - lngDelta, lte: longitude + lngDelta }
+    },
+    select: { id: true, ownerId: true, latitude: true, longitude: true }
+  });
+
+  return farms.filter(farm => distanceKm({ latitude, longitude }, farm) <= NOTIFY_RADIUS_KM);
+};
+
+/**
+ * Alert text for a cluster. Neighbouring farms are sent the same alert, so it
+ * gives counts only; each farm sees its own affected herds on the outbreak.
+ */
+const describe = (cluster: Cluster) => ({
+  title: `Possible outbreak: ${cluster.disease}`,
+  message: `${cluster.animalCount} animals with ${cluster.disease} across ${cluster.herds.size} herd(s) ` +
+    `on ${cluster.farmIds.length} farm(s) within ${cluster.radiusKm} km`,
+  details: [
+    `${cluster.cases.length} case(s) since ${cluster.firstCaseAt.toISOString().slice(0, 10)}.`,
+    '',
+    'Check the outbreak for affected herds on your farms and consider quarantining them to stop transfers.'
+  ].join('\n')
+});
+
+/**
+ * The farm with the most cases owns the alert, so it shows on that farm's
+ * dashboard; the other farms hear about it through notifications
+ */
+const primaryFarmId = (cluster: Cluster) => {
+  const perFarm = new Map<string, number>();
+  for (const c of cluster.cases) {
+    perFarm.set(c.farmId, (perFarm.get(c.farmId) ?? 0) + 1);
+  }
+  return [...perFarm.entries()].sort((a, b) => b[1] - a[1])[0][0];
+};
+
+const raiseOutbreakAlert = async (outbreak: Outbreak, cluster: Cluster) => {
+  const { alert } = await recordAlert({
+    type: 'HEALTH',
+    severity: 'CRITICAL',
+    ...describe(cluster),
+    module: 'farm',
+    entityType: 'outbreak',
+    entityId: outbreak.id,
+    latitude: cluster.latitude,
+    longitude: cluster.longitude,
+    // No farm name as the location: neighbours are notified of this alert too
+    farmId: primaryFarmId(cluster),
+    events: {
+      create: {
+        type: 'CREATED',
+        message: 'Raised by outbreak detection',
+        data: JSON.stringify({ outbreakId: outbreak.id, herdIds: [...cluster.herds.keys()] })
+      }
+    }
+  });
+
+  await prisma.outbreak.update({
+    where: { id: outbreak.id },
+    data: { alertId: alert.id }
+  });
+
+  getSocketEmitters()?.emitAlert(alert);
+  notifyInBackground(alert);
+  return alert;
+};
+
+/**
+ * Tell the owners of affected and nearby farms that have not heard yet
+ */
+const notifyFarms = async (outbreak: Outbreak, cluster: Cluster, alertFarmId: string | null) => {
+  const alert = outbreak.alertId ? await prisma.alert.findUnique({ where: { id: outbreak.alertId } }) : null;
+  if (!alert) return;
+
+  const notified = new Set(parseIds(outbreak.notifiedFarmIds));
+  const nearby = await farmsNear(cluster.latitude, cluster.longitude);
+  const affected = await prisma.farm.findMany({
+    where: { id: { in: cluster.farmIds } },
+    select: { id: true, ownerId: true }
+  });
+
+  const reached = [...affected, ...nearby].filter(farm => !notified.has(farm.id));
+  if (reached.length === 0) return;
+
+  // The alert's own farm owner is reached by the alert's default recipients
+  const ownerOfAlertFarm = affected.find(farm => farm.id === alertFarmId)?.ownerId;
+  const ownerIds = [...new Set(reached.map(farm => farm.ownerId))].filter(id => id !== ownerOfAlertFarm);
+
+  if (ownerIds.length > 0) {
+    notifyInBackground(alert, ownerIds);
+  }
+
+  await prisma.outbreak.update({
+    where: { id: outbreak.id },
+    data: { notifiedFarmIds: JSON.stringify([...notified, ...reached.map(farm => farm.id)]) }
+  });
+};
+
+/**
+ * An active outbreak of the same disease sharing a herd with the cluster or
+ * close enough to be the same spread
+ */
+const findExisting = (active: (Outbreak & { herds: { id: string }[] })[], cluster: Cluster) =>
+  active.find(outbreak =>
+    outbreak.disease === cluster.disease && (
+      outbreak.herds.some(herd => cluster.herds.has(herd.id)) ||
+      distanceKm(outbreak, cluster) <= CLUSTER_RADIUS_KM + outbreak.radiusKm
+    )
+  );
+
+/**
+ * Record each cluster as a new outbreak or fold it into a known one, and end
+ * outbreaks whose last case has left the window
+ */
+export const detectOutbreaks = async () => {
+  const since = new Date(Date.now() - WINDOW_DAYS * DAY_MS);
+
+  const ended = await prisma.outbreak.updateMany({
+    where: { status: 'ACTIVE', lastCaseAt: { lt: since } },
+    data: { status: 'ENDED', endedAt: new Date() }
+  });
+
+  const clusters = findClusters(await recentCases(since));
+  const active = await prisma.outbreak.findMany({
+    where: { status: 'ACTIVE' },
+    include: { herds: { select: { id: true } } }
+  });
+
+  let created = 0;
+  let updated = 0;
+
+  for (const cluster of clusters) {
+    const existing = findExisting(active, cluster);
+    const data = {
+      latitude: cluster.latitude,
+      longitude: cluster.longitude,
+      radiusKm: cluster.radiusKm,
+      caseCount: cluster.cases.length,
+      animalCount: cluster.animalCount,
+      farmIds: JSON.stringify(cluster.farmIds),
+      lastCaseAt: cluster.lastCaseAt
+    };
+    const herds = [...cluster.herds.keys()].map(id => ({ id }));
+
+    if (!existing) {
+      const outbreak = await prisma.outbreak.create({
+        data: {
+          ...data,
+          disease: cluster.disease,
+          firstCaseAt: cluster.firstCaseAt,
+          herds: { connect: herds }
+        }
+      });
+      const alert = await raiseOutbreakAlert(outbreak, cluster);
+      await notifyFarms({ ...outbreak, alertId: alert.id }, cluster, alert.farmId);
+      created++;
+      continue;
+    }
+
+    const hasNewCases = cluster.lastCaseAt > existing.lastCaseAt || cluster.cases.length > existing.caseCount;
+    if (!hasNewCases) continue;
+
+    const outbreak = await prisma.outbreak.update({
+      where: { id: existing.id },
+      data: {
+        ...data,
+        farmIds: JSON.stringify([...new Set([...parseIds(existing.farmIds), ...cluster.farmIds])]),
+        herds: { connect: herds }
+      }
+    });
+
+    const alert = outbreak.alertId ? await prisma.alert.findUnique({ where: { id: outbreak.alertId } }) : null;
+
+    if (!alert || alert.status === 'RESOLVED') {
+      // New cases after the alert was closed: raise it again
+      const raised = await raiseOutbreakAlert(outbreak, cluster);
+      // Farms told about the closed alert hear about the new one too
+      await notifyFarms({ ...outbreak, alertId: raised.id, notifiedFarmIds: null }, cluster, raised.farmId);
+    } else {
+      const refreshed = await prisma.alert.update({
+        where: { id: alert.id },
+        data: {
+          ...describe(cluster),
+          latitude: cluster.latitude,
+          longitude: cluster.longitude,
+          occurrenceCount: { increment: 1 },
+          lastOccurredAt: new Date()
+        }
+      });
+      getSocketEmitters()?.emitAlertUpdate(refreshed);
+      await notifyFarms(outbreak, cluster, refreshed.farmId);
+    }
+    updated++;
+  }
+
+  return { clusters: clusters.length, created, updated, ended: ended.count };
+};
+
+/**
+ * Run a scan unless one is already in progress
+ */
+export const runOutbreakScan = async () => {
+  if (isScanning) return null;
+  isScanning = true;
+
+  try {
+    return await detectOutbreaks();
+  } catch (error) {
+    console.error('Outbreak scan error:', error);
+    return null;
+  } finally {
+    isScanning = false;
+  }
+};
+
+/**
+ * Start the periodic outbreak scan
+ */
+export const startOutbreakDetection = () => {
+  console.log(`🦠 Outbreak detection scanning every ${SCAN_INTERVAL_MS / 1000}s`);
+  return setInterval(runOutbreakScan, SCAN_INTERVAL_MS);
+};
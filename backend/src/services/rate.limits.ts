@@ -0,0 +1,106 @@
+/**
+ * Rate Limits
+ * Fixed-window request counters behind a store interface. The default store
+ * keeps counters in process memory, which is enough for a single node; a
+ * shared store (Redis, the database) can be swapped in with setRateLimitStore.
+ */
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+export interface RateLimitStore {
+  // Count one hit against a key, starting a new window if the last one ended
+  increment: (key: string, windowMs: number) => Promise<RateLimitHit>;
+  reset: (key: string) => Promise<void>;
+}
+
+export interface RateLimitRule {
+  max: number;
+  windowMs: number;
+}
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export const createMemoryStore = (): RateLimitStore => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  // Drop ended windows so idle keys do not accumulate
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+  }, SWEEP_INTERVAL_MS);
+  sweep.unref();
+
+  return {
+    increment: async (key, windowMs) => {
+      const now = Date.now();
+      let window = windows.get(key);
+
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+      window.count += 1;
+
+      return { count: window.count, resetAt: new Date(window.resetAt) };
+    },
+    reset: async (key) => {
+      windows.delete(key);
+    }
+  };
+};
+
+let store: RateLimitStore = createMemoryStore();
+
+export const getRateLimitStore = () => store;
+
+export const setRateLimitStore = (next: RateLimitStore) => {
+  store = next;
+};
+
+/**
+ * Named limits with their defaults. Each can be overridden with
+ * RATE_LIMIT_<NAME>=<max>/<window seconds>, e.g. RATE_LIMIT_LOGIN_IP=20/900;
+ * a max of 0 turns the limit off.
+ */
+const DEFAULT_RULES = {
+  GLOBAL: { max: 600, windowMs: 60 * 1000 },
+  LOGIN_IP: { max: 20, windowMs: 15 * 60 * 1000 },
+  LOGIN_ACCOUNT: { max: 10, windowMs: 15 * 60 * 1000 },
+  TWO_FACTOR_IP: { max: 10, windowMs: 5 * 60 * 1000 },
+  REGISTER_IP: { max: 10, windowMs: 60 * 60 * 1000 },
+  PASSWORD_RESET_IP: { max: 10, windowMs: 60 * 60 * 1000 },
+  PASSWORD_RESET_ACCOUNT: { max: 3, windowMs: 60 * 60 * 1000 },
+  REFRESH_IP: { max: 60, windowMs: 15 * 60 * 1000 },
+  EMAIL_VERIFICATION_IP: { max: 10, windowMs: 60 * 60 * 1000 }
+} satisfies Record<string, RateLimitRule>;
+
+export type RateLimitName = keyof typeof DEFAULT_RULES;
+
+export const getRateLimitRule = (name: RateLimitName): RateLimitRule => {
+  const override = process.env[`RATE_LIMIT_${name}`];
+  const match = override?.match(/^\s*(\d+)\s*\/\s*(\d+)\s*$/);
+
+  if (override && !match) {
+    console.warn(`Ignoring malformed RATE_LIMIT_${name}="${override}" (expected <max>/<seconds>)`);
+  }
+
+  return match
+    ? { max: Number(match[1]), windowMs: Number(match[2]) * 1000 }
+    : DEFAULT_RULES[name];
+};
+
+/**
+ * Forget the per-account counters for an email, e.g. when an admin unlocks it
+ */
+export const resetAccountLimits = async (email: string) => {
+  const account = email.trim().toLowerCase();
+  await Promise.all([
+    store.reset(`LOGIN_ACCOUNT:${account}`),
+    store.reset(`PASSWORD_RESET_ACCOUNT:${account}`)
+  ]);
+};
@@ -0,0 +1,56 @@
+/**
+ * Treatment Plans
+ * Dose schedules and drug withdrawal periods. A plan's withdrawal end dates
+ * are kept on the plan so the registry can refuse to slaughter an animal
+ * whose meat may still carry residues.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/db';
+
+export const TREATMENT_STATUSES = ['ACTIVE', 'COMPLETED', 'CANCELLED'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+/**
+ * Recompute a plan's withdrawal end dates from its doses. A given dose counts
+ * from when it was given, a pending one from when it is scheduled; cancelled
+ * plans only count doses actually given.
+ */
+export const refreshWithdrawal = async (tx: Prisma.TransactionClient, planId: string) => {
+  const plan = await tx.treatmentPlan.findUnique({
+    where: { id: planId },
+    include: { doses: true }
+  });
+  if (!plan) return null;
+
+  const doseDates = plan.doses
+    .filter(dose => plan.status !== 'CANCELLED' || dose.administeredAt)
+    .map(dose => dose.administeredAt ?? dose.scheduledAt);
+
+  const lastDose = doseDates.length > 0
+    ? new Date(Math.max(...doseDates.map(date => date.getTime())))
+    : null;
+
+  return tx.treatmentPlan.update({
+    where: { id: planId },
+    data: {
+      meatWithdrawalEndsAt: lastDose && addDays(lastDose, plan.meatWithdrawalDays),
+      milkWithdrawalEndsAt: lastDose && addDays(lastDose, plan.milkWithdrawalDays)
+    }
+  });
+};
+
+/**
+ * The latest meat withdrawal end still ahead of `at`, if any
+ */
+export const meatWithdrawalEnd = async (animalId: string, at = new Date()) => {
+  const plan = await prisma.treatmentPlan.findFirst({
+    where: { animalId, meatWithdrawalEndsAt: { gt: at } },
+    orderBy: { meatWithdrawalEndsAt: 'desc' },
+    select: { meatWithdrawalEndsAt: true }
+  });
+  return plan?.meatWithdrawalEndsAt ?? null;
+};
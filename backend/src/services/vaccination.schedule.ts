@@ -0,0 +1,198 @@
+/**
+ * Vaccination Schedule
+ * Works out which animals are due a vaccine under their farm's per-species
+ * schedules, and periodically reminds farm owners about due and overdue doses
+ */
+
+import prisma from '../utils/db';
+import { getSocketEmitters } from '../socket/socket.handlers';
+import { notifyInBackground } from './notification.service';
+import { recordAlert } from './alert.correlation';
+import { INACTIVE_ANIMAL_STATUSES } from './animal.registry';
+
+const REMINDER_INTERVAL_MS = Number(process.env.VACCINATION_REMINDER_INTERVAL_MS) || 60 * 60 * 1000;
+
+// A schedule raises at most one reminder per window, however often the sweep runs
+const REMINDER_COOLDOWN_MS = (Number(process.env.VACCINATION_REMINDER_COOLDOWN_HOURS) || 24) * 60 * 60 * 1000;
+
+// Tags listed in a reminder before it falls back to a count
+const REMINDER_TAG_LIMIT = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let isSweeping = false;
+
+export interface DueVaccination {
+  animalId: string;
+  tagId: string;
+  animalName: string | null;
+  herdId: string;
+  herdName: string;
+  scheduleId: string;
+  species: string;
+  vaccine: string;
+  lastGivenAt: Date | null;
+  dueAt: Date;
+  status: 'OVERDUE' | 'DUE';
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Doses due on one farm by `until`; each schedule's reminder window is used
+ * when no date is given. Overdue doses come first.
+ */
+export const findDueVaccinations = async (farmId: string, until?: Date) => {
+  const now = new Date();
+
+  const schedules = await prisma.vaccinationSchedule.findMany({
+    where: { farmId, active: true }
+  });
+  if (schedules.length === 0) return [];
+
+  const animals = await prisma.animal.findMany({
+    where: {
+      herd: { farmId },
+      status: { notIn: INACTIVE_ANIMAL_STATUSES }
+    },
+    select: {
+      id: true,
+      tagId: true,
+      name: true,
+      species: true,
+      createdAt: true,
+      herd: { select: { id: true, name: true } },
+      vaccinationRecords: {
+        select: { scheduleId: true, vaccine: true, administeredAt: true },
+        orderBy: { administeredAt: 'desc' }
+      }
+    }
+  });
+
+  const due: DueVaccination[] = [];
+
+  for (const schedule of schedules) {
+    const horizon = until ?? new Date(now.getTime() + schedule.reminderDays * DAY_MS);
+
+    for (const animal of animals) {
+      if (!sameName(animal.species, schedule.species)) continue;
+
+      // Doses recorded by name before the schedule existed still count
+      const last = animal.vaccinationRecords.find(record =>
+        record.scheduleId === schedule.id || sameName(record.vaccine, schedule.vaccine)
+      );
+
+      let dueAt: Date;
+      if (!last) {
+        dueAt = new Date(animal.createdAt.getTime() + schedule.firstDoseDays * DAY_MS);
+      } else if (schedule.intervalDays) {
+        dueAt = new Date(last.administeredAt.getTime() + schedule.intervalDays * DAY_MS);
+      } else {
+        continue;
+      }
+
+      if (dueAt > horizon) continue;
+
+      due.push({
+        animalId: animal.id,
+        tagId: animal.tagId,
+        animalName: animal.name,
+        herdId: animal.herd.id,
+        herdName: animal.herd.name,
+        scheduleId: schedule.id,
+        species: schedule.species,
+        vaccine: schedule.vaccine,
+        lastGivenAt: last?.administeredAt ?? null,
+        dueAt,
+        status: dueAt < now ? 'OVERDUE' : 'DUE'
+      });
+    }
+  }
+
+  return due.sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+};
+
+/**
+ * Raise one reminder per schedule with animals due or overdue, addressed to
+ * the farm's owner through the usual alert notifications
+ */
+export const runVaccinationReminders = async () => {
+  if (isSweeping) return;
+  isSweeping = true;
+
+  try {
+    const farms = await prisma.farm.findMany({
+      where: { vaccinationSchedules: { some: { active: true } } },
+      select: { id: true, name: true, latitude: true, longitude: true }
+    });
+
+    for (const farm of farms) {
+      const due = await findDueVaccinations(farm.id);
+
+      const bySchedule = new Map<string, DueVaccination[]>();
+      for (const dose of due) {
+        bySchedule.set(dose.scheduleId, [...(bySchedule.get(dose.scheduleId) ?? []), dose]);
+      }
+
+      for (const [scheduleId, doses] of bySchedule) {
+        const recent = await prisma.alert.findFirst({
+          where: {
+            entityType: 'vaccination_schedule',
+            entityId: scheduleId,
+            createdAt: { gte: new Date(Date.now() - REMINDER_COOLDOWN_MS) }
+          },
+          select: { id: true }
+        });
+        if (recent) continue;
+
+        const overdue = doses.filter(dose => dose.status === 'OVERDUE').length;
+        const { vaccine, species } = doses[0];
+        const tags = doses.slice(0, REMINDER_TAG_LIMIT).map(dose => dose.tagId).join(', ');
+        const more = doses.length > REMINDER_TAG_LIMIT ? ` and ${doses.length - REMINDER_TAG_LIMIT} more` : '';
+
+        const { alert, duplicate } = await recordAlert({
+          type: 'HEALTH',
+          severity: overdue > 0 ? 'WARNING' : 'INFO',
+          title: `Vaccination ${overdue > 0 ? 'overdue' : 'due'}: ${vaccine}`,
+          message: `${doses.length} ${species} on ${farm.name} need ${vaccine}` +
+            (overdue > 0 ? ` (${overdue} overdue)` : ''),
+          details: `Animals: ${tags}${more}`,
+          module: 'farm',
+          entityType: 'vaccination_schedule',
+          entityId: scheduleId,
+          latitude: farm.latitude,
+          longitude: farm.longitude,
+          location: farm.name,
+          farmId: farm.id,
+          events: {
+            create: {
+              type: 'CREATED',
+              message: 'Raised by the vaccination schedule',
+              data: JSON.stringify({ scheduleId, due: doses.length, overdue })
+            }
+          }
+        });
+
+        if (duplicate) {
+          getSocketEmitters()?.emitAlertUpdate(alert);
+          continue;
+        }
+
+        getSocketEmitters()?.emitAlert(alert);
+        notifyInBackground(alert);
+      }
+    }
+  } catch (error) {
+    console.error('Vaccination reminder sweep error:', error);
+  } finally {
+    isSweeping = false;
+  }
+};
+
+/**
+ * Start the periodic reminder sweep
+ */
+export const startVaccinationReminders = () => {
+  console.log(`💉 Vaccination reminders checking every ${REMINDER_INTERVAL_MS / 1000}s`);
+  return setInterval(runVaccinationReminders, REMINDER_INTERVAL_MS);
+};
@@ -4,6 +4,11 @@
  */
 
 import { Server as SocketIOServer, Socket } from 'socket.io';
+import prisma from '../utils/db';
+import { AuthenticatedUser, verifyAccessToken } from '../middleware/auth.middleware';
+import { alertRoomsForUser } from '../services/alert.visibility';
+import { hasPermission } from '../services/access.permissions';
+import { canAccessResource, farmScope, parkScope } from '../services/access.scope';
 
 interface ConnectedUser {
   userId: string;
@@ -13,25 +18,120 @@ interface ConnectedUser {
 
 const connectedUsers: Map<string, ConnectedUser> = new Map();
 
+/**
+ * Mission rooms a user follows: every mission with drone:all, otherwise one
+ * room per farm and park they can reach
+ */
+const missionRoomsForUser = async (user: AuthenticatedUser) => {
+  if (hasPermission(user, 'drone:all')) return ['missions_all'];
+
+  const [farmWhere, parkWhere] = await Promise.all([farmScope(user), parkScope(user)]);
+  const [farms, parks] = await Promise.all([
+    prisma.farm.findMany({ where: farmWhere, select: { id: true } }),
+    prisma.park.findMany({ where: parkWhere, select: { id: true } })
+  ]);
+
+  return [
+    ...farms.map(farm => `missions_farm_${farm.id}`),
+    ...parks.map(park => `missions_park_${park.id}`)
+  ];
+};
+
+let socketEmitters: SocketEmitters | null = null;
+
+/**
+ * Check the user may watch telemetry for a herd, animal or wildlife population
+ */
+const canViewTelemetry = async (user: AuthenticatedUser, entityType: string, entityId: string) => {
+  if (entityType === 'herd') {
+    const herd = await prisma.herd.findUnique({
+      where: { id: entityId },
+      select: { farmId: true }
+    });
+    return !!herd && hasPermission(user, 'farm:read') && canAccessResource(user, 'FARM', herd.farmId);
+  }
+
+  if (entityType === 'animal') {
+    const animal = await prisma.animal.findUnique({
+      where: { id: entityId },
+      select: { herd: { select: { farmId: true } } }
+    });
+    return !!animal && hasPermission(user, 'farm:read') && canAccessResource(user, 'FARM', animal.herd.farmId);
+  }
+
+  if (entityType === 'population') {
+    if (hasPermission(user, 'patrol:monitor')) return true;
+
+    const population = await prisma.wildlifePopulation.findUnique({
+      where: { id: entityId },
+      select: { parkId: true }
+    });
+    return !!population && hasPermission(user, 'park:read') && canAccessResource(user, 'PARK', population.parkId);
+  }
+
+  return false;
+};
+
+/**
+ * Check the user may follow a patrol: patrol:monitor, or access to its park
+ */
+const canViewPatrol = async (user: AuthenticatedUser, patrolId: string) => {
+  if (hasPermission(user, 'patrol:monitor')) return true;
+
+  const patrol = await prisma.patrol.findUnique({
+    where: { id: patrolId },
+    select: { parkId: true }
+  });
+  return !!patrol && hasPermission(user, 'park:read') && canAccessResource(user, 'PARK', patrol.parkId);
+};
+
 export const initializeSocketHandlers = (io: SocketIOServer) => {
+  // Verify the JWT during the handshake, before any event handler runs
+  io.use(async (socket, next) => {
+    try {
+      const authHeader = socket.handshake.headers.authorization;
+      const token = socket.handshake.auth?.token
+        || (authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : undefined);
+
+      if (!token) {
+        return next(new Error('No token provided'));
+      }
+
+      const result = await verifyAccessToken(token);
+
+      if (result.error !== undefined) {
+        return next(new Error(result.error));
+      }
+
+      socket.data.user = result.user;
+      next();
+    } catch (error) {
+      next(new Error('Authentication error'));
+    }
+  });
+
   io.on('connection', (socket: Socket) => {
-    console.log(`🔌 Client connected: ${socket.id}`);
-
-    // Handle user authentication
-    socket.on('authenticate', (data: { userId: string; role: string }) => {
-      connectedUsers.set(socket.id, {
-        userId: data.userId,
-        socketId: socket.id,
-        role: data.role
-      });
+    const user: AuthenticatedUser = socket.data.user;
+
+    connectedUsers.set(socket.id, {
+      userId: user.id,
+      socketId: socket.id,
+      role: user.role
+    });
 
-      console.log(`✅ User authenticated: ${data.userId} (${data.role})`);
+    // Join role-based rooms from the verified token, never from client input
+    socket.join(user.role);
+    socket.join(`user_${user.id}`);
+    socket.join(`session_${user.sessionId}`);
 
-      // Join role-based rooms
-      socket.join(data.role);
-      socket.join(`user_${data.userId}`);
+    console.log(`🔌 Client connected: ${socket.id} (${user.id}, ${user.role})`);
 
-      // Send confirmation
+    const deny = (event: string, message: string) => {
+      socket.emit('subscribe:error', { event, message });
+    };
+
+    // Kept for older clients; identity now comes from the handshake
+    socket.on('authenticate', () => {
       socket.emit('authenticated', {
         success: true,
         message: 'Successfully authenticated'
@@ -39,61 +139,124 @@ export const initializeSocketHandlers = (io: SocketIOServer) => {
     });
 
     // Handle real-time alert subscription
-    socket.on('subscribe:alerts', (data: { module?: string }) => {
-      const room = data.module ? `alerts_${data.module}` : 'alerts_all';
-      socket.join(room);
-      console.log(`📢 Client subscribed to: ${room}`);
+    socket.on('subscribe:alerts', async (data: { module?: string } = {}) => {
+      try {
+        if (!hasPermission(user, 'alert:read')) {
+          return deny('subscribe:alerts', 'Not allowed to view alerts');
+        }
+
+        if (hasPermission(user, 'alert:all')) {
+          const room = data.module ? `alerts_${data.module}` : 'alerts_all';
+          socket.join(room);
+          console.log(`📢 Client subscribed to: ${room}`);
+          return;
+        }
+
+        // Other users follow alerts for what they can reach; assigned
+        // alerts already reach them through their user room
+        const rooms = await alertRoomsForUser(user);
+        socket.join(rooms);
+        console.log(`📢 Client subscribed to ${rooms.length} alert room(s)`);
+      } catch (error) {
+        deny('subscribe:alerts', 'Failed to subscribe to alerts');
+      }
     });
 
     // Handle real-time telemetry subscription
-    socket.on('subscribe:telemetry', (data: { entityId: string; entityType: string }) => {
-      const room = `telemetry_${data.entityType}_${data.entityId}`;
-      socket.join(room);
-      console.log(`📊 Client subscribed to telemetry: ${room}`);
+    socket.on('subscribe:telemetry', async (data: { entityId: string; entityType: string }) => {
+      try {
+        if (!data?.entityId || !(await canViewTelemetry(user, data.entityType, data.entityId))) {
+          return deny('subscribe:telemetry', 'Not allowed to view this telemetry');
+        }
+
+        const room = `telemetry_${data.entityType}_${data.entityId}`;
+        socket.join(room);
+        console.log(`📊 Client subscribed to telemetry: ${room}`);
+      } catch (error) {
+        deny('subscribe:telemetry', 'Failed to subscribe to telemetry');
+      }
     });
 
     // Handle patrol tracking
-    socket.on('subscribe:patrol', (data: { patrolId: string }) => {
-      socket.join(`patrol_${data.patrolId}`);
-      console.log(`🚁 Client subscribed to patrol: ${data.patrolId}`);
+    socket.on('subscribe:patrol', async (data: { patrolId: string }) => {
+      try {
+        if (!data?.patrolId || !(await canViewPatrol(user, data.patrolId))) {
+          return deny('subscribe:patrol', 'Not allowed to follow this patrol');
+        }
+
+        socket.join(`patrol_${data.patrolId}`);
+        console.log(`🚁 Client subscribed to patrol: ${data.patrolId}`);
+      } catch (error) {
+        deny('subscribe:patrol', 'Failed to subscribe to patrol');
+      }
+    });
+
+    // Handle drone mission tracking
+    socket.on('subscribe:missions', async () => {
+      try {
+        if (!hasPermission(user, 'mission:read')) {
+          return deny('subscribe:missions', 'Not allowed to view missions');
+        }
+
+        const rooms = await missionRoomsForUser(user);
+        socket.join(rooms);
+        console.log(`🛩️ Client subscribed to ${rooms.length} mission room(s): ${socket.id}`);
+      } catch (error) {
+        deny('subscribe:missions', 'Failed to subscribe to missions');
+      }
     });
 
     // Handle location updates
     socket.on('location:update', (data: any) => {
-      const user = connectedUsers.get(socket.id);
-      if (user) {
-        // Broadcast location to relevant users
-        io.to(user.role).emit('location:changed', {
-          userId: user.userId,
-          ...data
-        });
-      }
+      // Broadcast location to relevant users
+      io.to(user.role).emit('location:changed', {
+        ...data,
+        userId: user.id
+      });
     });
 
     // Handle disconnection
     socket.on('disconnect', () => {
-      const user = connectedUsers.get(socket.id);
-      if (user) {
-        console.log(`👋 User disconnected: ${user.userId}`);
-        connectedUsers.delete(socket.id);
-      } else {
-        console.log(`👋 Client disconnected: ${socket.id}`);
-      }
+      console.log(`👋 User disconnected: ${user.id}`);
+      connectedUsers.delete(socket.id);
     });
   });
 
-  // Return helper functions for emitting events
-  return {
+  // Rooms that should hear about an alert
+  const alertRooms = (alert: any) => {
+    const rooms = ['alerts_all', `alerts_${alert.module}`];
+    if (alert.farmId) rooms.push(`alerts_farm_${alert.farmId}`);
+    if (alert.parkId) rooms.push(`alerts_park_${alert.parkId}`);
+    if (alert.landZoneId) rooms.push(`alerts_land_zone_${alert.landZoneId}`);
+    return rooms;
+  };
+
+  // Helper functions for emitting events
+  const emitters = {
     // Emit new alert to relevant users
     emitAlert: (alert: any) => {
-      io.to('alerts_all').emit('alert:new', alert);
-      io.to(`alerts_${alert.module}`).emit('alert:new', alert);
+      // Multi-room emits are de-duplicated, so a socket in several rooms gets one event
+      io.to(alertRooms(alert)).emit('alert:new', alert);
 
       if (alert.assignedToId) {
         io.to(`user_${alert.assignedToId}`).emit('alert:assigned', alert);
       }
     },
 
+    // Emit alert assignment to the assignee and the change to subscribers
+    emitAlertAssigned: (alert: any) => {
+      io.to(`user_${alert.assignedToId}`).emit('alert:assigned', alert);
+      io.to(alertRooms(alert)).emit('alert:updated', alert);
+    },
+
+    // Emit status change or resolution
+    emitAlertUpdate: (alert: any) => {
+      const rooms = alertRooms(alert);
+      if (alert.assignedToId) rooms.push(`user_${alert.assignedToId}`);
+
+      io.to(rooms).emit('alert:updated', alert);
+    },
+
     // Emit telemetry data
     emitTelemetry: (entityType: string, entityId: string, data: any) => {
       io.to(`telemetry_${entityType}_${entityId}`).emit('telemetry:update', data);
@@ -104,11 +267,46 @@ export const initializeSocketHandlers = (io: SocketIOServer) => {
       io.to(`patrol_${patrolId}`).emit('patrol:update', update);
     },
 
+    // Emit mission status change to operators of the drone's farm or park
+    emitMissionUpdate: (mission: any) => {
+      const rooms = ['missions_all'];
+      if (mission.drone?.farmId) rooms.push(`missions_farm_${mission.drone.farmId}`);
+      if (mission.drone?.parkId) rooms.push(`missions_park_${mission.drone.parkId}`);
+
+      io.to(rooms).emit('mission:updated', mission);
+    },
+
+    // Drop every socket of a user, e.g. after suspension
+    disconnectUser: (userId: string) => {
+      io.in(`user_${userId}`).disconnectSockets(true);
+    },
+
+    // Drop every socket of a role's holders, e.g. after its permissions change
+    disconnectRole: (role: string) => {
+      io.in(role).disconnectSockets(true);
+    },
+
+    // Drop the sockets opened by one sign-in, e.g. a lost device
+    disconnectSession: (sessionId: string) => {
+      io.in(`session_${sessionId}`).disconnectSockets(true);
+    },
+
     // Broadcast system notification
     broadcastNotification: (notification: any) => {
       io.emit('notification', notification);
     }
   };
+
+  socketEmitters = emitters;
+  return emitters;
 };
 
+/**
+ * Emitters for use outside the socket layer (controllers, background jobs)
+ * Null until initializeSocketHandlers has run
+ */
+export const getSocketEmitters = (): SocketEmitters | null => socketEmitters;
+
+export type SocketEmitters = ReturnType<typeof initializeSocketHandlers>;
+
 export default initializeSocketHandlers;
@@ -0,0 +1,113 @@
+/**
+ * Outbound address checks
+ * User-supplied URLs (webhooks) must not reach loopback, private, link-local
+ * or cloud metadata addresses on the server's network.
+ */
+
+import dns from 'dns';
+import net from 'net';
+
+const blocked = new net.BlockList();
+
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const) {
+  blocked.addSubnet(prefix, bits, 'ipv4');
+}
+
+for (const [prefix, bits] of [
+  // Unspecified, loopback and the deprecated IPv4-compatible range
+  ['::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  blocked.addSubnet(prefix, bits, 'ipv6');
+}
+
+// Local stand-ins (a mock receiver on localhost) need this in development
+const allowPrivate = () => process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS === 'true';
+
+/**
+ * Whether an IP address is reachable on the public internet
+ */
+export const isPublicAddress = (address: string): boolean => {
+  // IPv4-mapped and NAT64 IPv6 addresses carry an IPv4 address in the last 32 bits,
+  // written dotted (::ffff:127.0.0.1) or in hex as URL parsing leaves it (::ffff:7f00:1)
+  const dotted = address.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/i);
+  if (dotted) return isPublicAddress(dotted[1]);
+
+  const hex = address.match(/^(?:::ffff:|64:ff9b::)([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+  if (hex) {
+    const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+    return isPublicAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !blocked.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Check an outbound http(s) URL, resolving its host; returns the problem or null
+ */
+export const checkPublicUrl = async (value: string): Promise<string | null> => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'must be an http(s) URL';
+  }
+
+  if (!['http:', 'https:'].includes(url.protocol)) return 'must be an http(s) URL';
+  if (url.username || url.password) return 'must not contain credentials';
+  if (allowPrivate()) return null;
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+
+  try {
+    const addresses = net.isIP(host)
+      ? [{ address: host }]
+      : await dns.promises.lookup(host, { all: true, verbatim: true });
+
+    if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+      return 'must point to a public address';
+    }
+  } catch {
+    return 'host could not be resolved';
+  }
+
+  return null;
+};
+
+/**
+ * dns.lookup replacement for http(s).request that refuses non-public
+ * addresses, so a host that re-resolves after checkPublicUrl is still held
+ */
+export const publicLookup = (
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+): void => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+
+    const refused = !allowPrivate() && addresses.some(({ address }) => !isPublicAddress(address));
+    if (refused || addresses.length === 0) {
+      return callback(Object.assign(new Error(`Refusing to connect to ${hostname}`), { code: 'EADDRNOTALLOWED' }), []);
+    }
+
+    if (options.all) return callback(null, addresses);
+    return callback(null, addresses[0].address, addresses[0].family);
+  });
+};
@@ -5,6 +5,7 @@
 
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import { syncHerdAggregates } from '../services/herd.aggregates';
 
 const prisma = new PrismaClient();
 
@@ -14,10 +15,18 @@ async function main() {
   // Clear existing data
   console.log('🧹 Clearing existing data...');
   await prisma.activity.deleteMany();
+  await prisma.outbreak.deleteMany();
   await prisma.alert.deleteMany();
+  await prisma.alertGroup.deleteMany();
+  await prisma.alertRule.deleteMany();
+  await prisma.escalationPolicy.deleteMany();
+  await prisma.deviceKey.deleteMany();
   await prisma.report.deleteMany();
   await prisma.animalTelemetry.deleteMany();
   await prisma.herdTelemetry.deleteMany();
+  await prisma.missionRun.deleteMany();
+  await prisma.mission.deleteMany();
+  await prisma.treatmentPlan.deleteMany();
   await prisma.healthEvent.deleteMany();
   await prisma.animal.deleteMany();
   await prisma.herd.deleteMany();
@@ -32,6 +41,8 @@ async function main() {
   await prisma.wildlifePopulation.deleteMany();
   await prisma.parkZone.deleteMany();
   await prisma.park.deleteMany();
+  await prisma.drone.deleteMany();
+  await prisma.baseCamp.deleteMany();
   await prisma.user.deleteMany();
 
   // Create Users
@@ -45,6 +56,7 @@ async function main() {
       firstName: 'System',
       lastName: 'Administrator',
       role: 'ADMIN',
+      emailVerifiedAt: new Date(),
       phone: '+250788000001',
       organization: 'KUBE Platform',
       location: 'Kigali, Rwanda',
@@ -63,6 +75,7 @@ async function main() {
       firstName: 'Jean',
       lastName: 'Mugabo',
       role: 'FARMER',
+      emailVerifiedAt: new Date(),
       phone: '+250788123456',
       organization: 'Kigali Dairy Cooperative',
       location: 'Bugesera, Rwanda',
@@ -78,6 +91,7 @@ async function main() {
       firstName: 'Grace',
       lastName: 'Uwase',
       role: 'FARMER',
+      emailVerifiedAt: new Date(),
       phone: '+250788123457',
       organization: 'Eastern Province Livestock Association',
       location: 'Kayonza, Rwanda',
@@ -93,6 +107,7 @@ async function main() {
       firstName: 'Patrick',
       lastName: 'Habimana',
       role: 'RANGER',
+      emailVerifiedAt: new Date(),
       phone: '+250788234567',
       organization: 'Rwanda Development Board',
       location: 'Akagera National Park',
@@ -104,13 +119,14 @@ async function main() {
     }
   });
 
-  await prisma.user.create({
+  const analyst = await prisma.user.create({
     data: {
       email: 'analyst@kube.africa',
       password: hashedPassword,
       firstName: 'Sarah',
       lastName: 'Mutesi',
       role: 'ANALYST',
+      emailVerifiedAt: new Date(),
       phone: '+250788345678',
       organization: 'MINAGRI',
       location: 'Kigali, Rwanda',
@@ -260,6 +276,11 @@ async function main() {
     });
   }
 
+  // Derive herd counters from the animals just registered
+  for (const herd of [herd1, herd2, herd3]) {
+    await prisma.$transaction(tx => syncHerdAggregates(tx, herd.id));
+  }
+
   // Create Pasture Zones
   await prisma.pastureZone.create({
     data: {
@@ -604,6 +625,7 @@ async function main() {
       district: 'Bugesera',
       landUseType: 'grassland',
       ownership: 'communal',
+      managerId: analyst.id,
       vegetationIndex: 0.58,
       soilHealth: 65,
       degradationLevel: 38,
@@ -713,6 +735,43 @@ async function main() {
   console.log(`✅ Created ${await prisma.landSurvey.count()} land surveys`);
   console.log(`✅ Created ${await prisma.landChange.count()} land changes`);
 
+  // Create Base Camps & Drones (Aerial Operations)
+  console.log('\n🚁 Creating aerial operations data...');
+
+  const baseCampData = [
+    { name: 'Akagera Station', codename: 'ALPHA', region: 'Eastern Province', latitude: -1.90, longitude: 30.47, capacity: 4, chargingBaysTotal: 6, chargingBaysInUse: 2, powerSource: 'solar', status: 'ONLINE', signalStrength: 95, temperature: 26 },
+    { name: 'Nyungwe Outpost', codename: 'BRAVO', region: 'Southern Province', latitude: -2.48, longitude: 29.22, capacity: 3, chargingBaysTotal: 4, chargingBaysInUse: 1, powerSource: 'hybrid', status: 'ONLINE', signalStrength: 78, temperature: 18 },
+    { name: 'Volcanoes Camp', codename: 'CHARLIE', region: 'Northern Province', latitude: -1.47, longitude: 29.53, capacity: 3, chargingBaysTotal: 4, chargingBaysInUse: 0, powerSource: 'grid', status: 'ONLINE', signalStrength: 88, temperature: 14 },
+    { name: 'Kigali Central Hub', codename: 'DELTA', region: 'Kigali City', latitude: -1.94, longitude: 30.06, capacity: 6, chargingBaysTotal: 8, chargingBaysInUse: 3, powerSource: 'grid', status: 'ONLINE', signalStrength: 99, temperature: 24 },
+    { name: 'Kayonza Field Base', codename: 'ECHO', region: 'Eastern Province', latitude: -1.88, longitude: 30.60, capacity: 2, chargingBaysTotal: 3, chargingBaysInUse: 1, powerSource: 'solar', status: 'LOW_POWER', signalStrength: 62, temperature: 28 }
+  ];
+
+  const baseCamps: Record<string, string> = {};
+  for (const camp of baseCampData) {
+    const created = await prisma.baseCamp.create({ data: camp });
+    baseCamps[camp.codename] = created.id;
+  }
+
+  const droneData = [
+    { callSign: 'KD-001', name: 'Eagle Eye Alpha', model: 'DJI M300', status: 'ACTIVE', battery: 87, altitude: 120, speed: 45, heading: 45, latitude: -1.95, longitude: 29.87, lastMission: 'Akagera Patrol', flightTime: 245, coverage: 12.5, camp: 'ALPHA', parkId: akagera.id },
+    { callSign: 'KD-002', name: 'Forest Sentinel', model: 'DJI M350', status: 'ACTIVE', battery: 62, altitude: 80, speed: 38, heading: 120, latitude: -2.45, longitude: 29.20, lastMission: 'Nyungwe Survey', flightTime: 189, coverage: 8.3, camp: 'BRAVO', parkId: nyungwe.id },
+    { callSign: 'KD-003', name: 'Gorilla Guardian', model: 'Autel EVO II', status: 'IDLE', battery: 100, altitude: 0, speed: 0, heading: 0, latitude: -1.47, longitude: 29.53, lastMission: 'Volcanoes Monitor', flightTime: 156, coverage: 6.7, camp: 'CHARLIE' },
+    { callSign: 'KD-004', name: 'Crop Hawk', model: 'DJI Mavic 3', status: 'CHARGING', battery: 45, altitude: 0, speed: 0, heading: 0, latitude: -2.12, longitude: 30.15, lastMission: 'Farm Health Check', flightTime: 312, coverage: 15.8, camp: 'DELTA', farmId: farm1.id },
+    { callSign: 'KD-005', name: 'Land Scanner', model: 'Parrot Anafi', status: 'ACTIVE', battery: 73, altitude: 130, speed: 35, heading: 220, latitude: -1.88, longitude: 30.60, lastMission: 'Kayonza Mapping', flightTime: 278, coverage: 11.2, camp: 'ECHO', farmId: farm2.id },
+    { callSign: 'KD-006', name: 'Urban Eye', model: 'DJI Phantom 4', status: 'IDLE', battery: 100, altitude: 0, speed: 0, heading: 0, latitude: -1.94, longitude: 30.06, lastMission: 'Kigali Survey', flightTime: 203, coverage: 9.4, camp: 'DELTA' },
+    { callSign: 'KD-007', name: 'Night Owl', model: 'DJI Matrice 30', status: 'MAINTENANCE', battery: 0, altitude: 0, speed: 0, heading: 0, latitude: -1.95, longitude: 29.87, lastMission: 'Maintenance', flightTime: 412, coverage: 18.9, camp: 'DELTA' },
+    { callSign: 'KD-008', name: 'Sky Relay', model: 'Custom Relay', status: 'ACTIVE', battery: 92, altitude: 500, speed: 0, heading: 90, latitude: -1.94, longitude: 29.87, lastMission: 'Communication Hub', flightTime: 523, coverage: 25.0, camp: 'ALPHA' }
+  ];
+
+  for (const { camp, ...drone } of droneData) {
+    await prisma.drone.create({
+      data: { ...drone, baseCampId: baseCamps[camp] }
+    });
+  }
+
+  console.log(`✅ Created ${await prisma.baseCamp.count()} base camps`);
+  console.log(`✅ Created ${await prisma.drone.count()} drones`);
+
   // Create Alerts
   console.log('\n🚨 Creating alerts...');
 
@@ -778,6 +837,7 @@ async function main() {
       message: 'Unusual movement detected in restricted zone',
       details: 'Night thermal patrol detected human activity near elephant habitat. Multiple heat signatures moving toward park boundary.',
       module: 'park',
+      parkId: akagera.id,
       latitude: -1.7498,
       longitude: 30.7623,
       location: 'Akagera National Park - Northern Sector',
@@ -794,6 +854,9 @@ async function main() {
       message: 'Significant vegetation loss in Bugesera Grasslands',
       details: 'Satellite analysis shows 15% reduction in vegetation cover over 3 months. Bare soil exposure increasing.',
       module: 'land',
+      entityType: 'land_zone',
+      entityId: zone1.id,
+      landZoneId: zone1.id,
       latitude: -2.1250,
       longitude: 30.1250,
       location: 'Bugesera Grasslands - Southern Section'
@@ -802,6 +865,53 @@ async function main() {
 
   console.log(`✅ Created ${await prisma.alert.count()} alerts`);
 
+  // Create Alert Rules
+  console.log('\n📏 Creating alert rules...');
+
+  await prisma.alertRule.createMany({
+    data: [
+      { name: 'Fever threshold', ruleType: 'temperature_above', threshold: 39.5, severity: 'CRITICAL', cooldownMinutes: 360, farmId: farm1.id, createdById: admin.id },
+      { name: 'Animal not seen for 24h', ruleType: 'not_seen', threshold: 24, severity: 'WARNING', cooldownMinutes: 720, farmId: farm1.id, createdById: admin.id },
+      { name: 'Herd count drop', ruleType: 'herd_count_drop', threshold: 10, severity: 'WARNING', cooldownMinutes: 180, farmId: farm1.id, createdById: admin.id },
+      { name: 'Vegetation decline', ruleType: 'ndvi_below', threshold: 0.1, severity: 'WARNING', cooldownMinutes: 1440, zoneId: zone1.id, createdById: admin.id },
+      { name: 'Injured wildlife', ruleType: 'wildlife_health', threshold: 0.7, severity: 'CRITICAL', cooldownMinutes: 120, parkId: akagera.id, createdById: admin.id }
+    ]
+  });
+
+  console.log(`✅ Created ${await prisma.alertRule.count()} alert rules`);
+
+  // Create Escalation Policies
+  console.log('\n⏫ Creating escalation policies...');
+
+  await prisma.escalationPolicy.create({
+    data: {
+      name: 'Critical park alerts',
+      module: 'park',
+      severity: 'CRITICAL',
+      steps: {
+        create: [
+          { level: 1, afterMinutes: 10, reassignTo: 'park_manager', notifyRoles: JSON.stringify(['ADMIN']) },
+          { level: 2, afterMinutes: 30, notifyRoles: JSON.stringify(['ADMIN', 'RANGER']) }
+        ]
+      }
+    }
+  });
+
+  await prisma.escalationPolicy.create({
+    data: {
+      name: 'Critical alerts (any module)',
+      severity: 'CRITICAL',
+      steps: {
+        create: [
+          { level: 1, afterMinutes: 15, reassignTo: 'farm_owner', notifyRoles: JSON.stringify(['ADMIN']) },
+          { level: 2, afterMinutes: 45, notifyRoles: JSON.stringify(['ADMIN']) }
+        ]
+      }
+    }
+  });
+
+  console.log(`✅ Created ${await prisma.escalationPolicy.count()} escalation policies`);
+
   // Create Activities
   console.log('\n📊 Creating activities...');
 
@@ -852,6 +962,7 @@ async function main() {
   console.log(`   - Parks: ${await prisma.park.count()}`);
   console.log(`   - Wildlife Populations: ${await prisma.wildlifePopulation.count()}`);
   console.log(`   - Land Zones: ${await prisma.landZone.count()}`);
+  console.log(`   - Drones: ${await prisma.drone.count()}`);
   console.log(`   - Alerts: ${await prisma.alert.count()}`);
   console.log(`   - Activities: ${await prisma.activity.count()}`);
   console.log('\n🔐 Default login credentials:');
@@ -0,0 +1,106 @@
+'use client'
+
+import { useState, FormEvent } from 'react'
+import Link from 'next/link'
+import { motion } from 'framer-motion'
+import { Mail, ArrowRight, ArrowLeft, KeyRound } from 'lucide-react'
+import api from '@/lib/api'
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('')
+  const [error, setError] = useState('')
+  const [sent, setSent] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setIsSubmitting(true)
+
+    try {
+      await api.forgotPassword(email)
+      setSent(true)
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Could not send a reset link. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="w-full max-w-md"
+    >
+      <div className="hud-panel p-8">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-gradient-to-br from-cyan-500 to-blue-600 rounded-2xl flex items-center justify-center mx-auto mb-4 shadow-[0_0_30px_rgba(0,170,255,0.3)]">
+            <KeyRound className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-2xl font-bold text-white neon-blue mb-2">Forgot Password</h1>
+          <p className="text-sm text-gray-500">We&apos;ll email you a link to choose a new one</p>
+        </div>
+
+        {/* Error */}
+        {error && (
+          <div className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+
+        {sent ? (
+          <div className="p-4 rounded-lg bg-cyan-500/5 border border-cyan-500/20 text-sm text-gray-300">
+            If an account exists for <span className="text-cyan-400">{email}</span>, a reset link is on its way.
+            The link expires in 1 hour.
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div>
+              <label className="block text-[10px] font-mono text-cyan-500/50 uppercase tracking-wider mb-2">
+                Email Address
+              </label>
+              <div className="relative">
+                <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-cyan-500/40" />
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="operator@kube.africa"
+                  className="hud-input"
+                  required
+                />
+              </div>
+            </div>
+
+            <motion.button
+              type="submit"
+              disabled={isSubmitting}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              className="w-full py-3 rounded-lg font-semibold text-sm bg-gradient-to-r from-blue-600 to-cyan-500 text-white shadow-[0_0_20px_rgba(0,102,255,0.3)] hover:shadow-[0_0_30px_rgba(0,102,255,0.5)] transition-shadow disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {isSubmitting ? (
+                <div className="auth-spinner" />
+              ) : (
+                <>
+                  Send Reset Link
+                  <ArrowRight className="w-4 h-4" />
+                </>
+              )}
+            </motion.button>
+          </form>
+        )}
+
+        <div className="mt-6 text-center text-sm text-gray-500">
+          <Link href="/login" className="inline-flex items-center gap-1 text-cyan-400 hover:text-cyan-300 transition-colors font-medium">
+            <ArrowLeft className="w-4 h-4" />
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </motion.div>
+  )
+}
@@ -1,20 +1,25 @@
 'use client'
 
 import { useEffect } from 'react'
-import { useRouter } from 'next/navigation'
+import { useRouter, usePathname } from 'next/navigation'
 import Link from 'next/link'
 import { Satellite } from 'lucide-react'
 import { useAuth } from '@/contexts/AuthContext'
 
+// Pages reached from email links, which may be opened while signed in
+const SIGNED_IN_PATHS = ['/verify-email']
+
 export default function AuthLayout({ children }: { children: React.ReactNode }) {
   const { isAuthenticated, isLoading } = useAuth()
   const router = useRouter()
+  const pathname = usePathname()
+  const redirectSignedIn = !SIGNED_IN_PATHS.includes(pathname)
 
   useEffect(() => {
-    if (!isLoading && isAuthenticated) {
+    if (!isLoading && isAuthenticated && redirectSignedIn) {
       router.push('/dashboard')
     }
-  }, [isLoading, isAuthenticated, router])
+  }, [isLoading, isAuthenticated, redirectSignedIn, router])
 
   if (isLoading) {
     return (
@@ -24,7 +29,7 @@ export default function AuthLayout({ children }: { children: React.ReactNode })
     )
   }
 
-  if (isAuthenticated) return null
+  if (isAuthenticated && redirectSignedIn) return null
 
   return (
     <div className="min-h-screen bg-[#040810] relative overflow-hidden">
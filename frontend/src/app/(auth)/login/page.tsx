@@ -4,8 +4,12 @@ import { useState, FormEvent } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { motion } from 'framer-motion'
-import { Mail, Lock, Eye, EyeOff, ArrowRight, Satellite } from 'lucide-react'
+import { Mail, Lock, Eye, EyeOff, ArrowRight, Satellite, KeyRound } from 'lucide-react'
 import { useAuth } from '@/contexts/AuthContext'
+import { TwoFactorSetup } from '@/components/auth/TwoFactorSetup'
+import api from '@/lib/api'
+
+type LoginStep = 'password' | 'code' | 'enroll'
 
 export default function LoginPage() {
   const [email, setEmail] = useState('')
@@ -13,7 +17,10 @@ export default function LoginPage() {
   const [showPassword, setShowPassword] = useState(false)
   const [error, setError] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
-  const { login } = useAuth()
+  const [step, setStep] = useState<LoginStep>('password')
+  const [challengeToken, setChallengeToken] = useState('')
+  const [code, setCode] = useState('')
+  const { login, completeLogin } = useAuth()
   const router = useRouter()
 
   const handleSubmit = async (e: FormEvent) => {
@@ -22,7 +29,12 @@ export default function LoginPage() {
     setIsSubmitting(true)
 
     try {
-      await login(email, password)
+      const challenge = await login(email, password)
+      if (challenge?.challengeToken) {
+        setChallengeToken(challenge.challengeToken)
+        setStep(challenge.twoFactorSetupRequired ? 'enroll' : 'code')
+        return
+      }
       router.push('/dashboard')
     } catch (err: any) {
       setError(err.response?.data?.message || 'Invalid credentials. Please try again.')
@@ -31,6 +43,32 @@ export default function LoginPage() {
     }
   }
 
+  const handleCodeSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setIsSubmitting(true)
+
+    try {
+      const res = await api.verifyTwoFactorLogin(challengeToken, code)
+      completeLogin(res.data.user)
+      router.push('/dashboard')
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Invalid authentication code')
+      // The challenge is short-lived; start over once it has expired
+      if (err.response?.data?.message?.startsWith('Login expired')) {
+        setStep('password')
+        setCode('')
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleEnrolled = (data: any) => {
+    completeLogin(data.user)
+    router.push('/dashboard')
+  }
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -49,8 +87,14 @@ export default function LoginPage() {
           >
             <Satellite className="w-8 h-8 text-white" />
           </motion.div>
-          <h1 className="text-2xl font-bold text-white neon-blue mb-2">Welcome Back</h1>
-          <p className="text-sm text-gray-500">Sign in to your command center</p>
+          <h1 className="text-2xl font-bold text-white neon-blue mb-2">
+            {step === 'password' ? 'Welcome Back' : step === 'code' ? 'Two-Factor Check' : 'Set Up Two-Factor'}
+          </h1>
+          <p className="text-sm text-gray-500">
+            {step === 'password' && 'Sign in to your command center'}
+            {step === 'code' && 'Enter the code from your authenticator app, or a recovery code'}
+            {step === 'enroll' && 'Your role requires two-factor authentication before signing in'}
+          </p>
         </div>
 
         {/* Error */}
@@ -64,65 +108,24 @@ export default function LoginPage() {
           </motion.div>
         )}
 
-        {/* Form */}
-        <form onSubmit={handleSubmit} className="space-y-5">
-          {/* Email */}
-          <motion.div
-            initial={{ opacity: 0, x: -20 }}
-            animate={{ opacity: 1, x: 0 }}
-            transition={{ delay: 0.3 }}
-          >
-            <label className="block text-[10px] font-mono text-cyan-500/50 uppercase tracking-wider mb-2">
-              Email Address
-            </label>
-            <div className="relative">
-              <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-cyan-500/40" />
-              <input
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                placeholder="operator@kube.africa"
-                className="hud-input"
-                required
-              />
-            </div>
-          </motion.div>
+        {step === 'enroll' && (
+          <TwoFactorSetup challengeToken={challengeToken} onComplete={handleEnrolled} />
+        )}
 
-          {/* Password */}
-          <motion.div
-            initial={{ opacity: 0, x: -20 }}
-            animate={{ opacity: 1, x: 0 }}
-            transition={{ delay: 0.4 }}
-          >
-            <label className="block text-[10px] font-mono text-cyan-500/50 uppercase tracking-wider mb-2">
-              Password
-            </label>
+        {step === 'code' && (
+          <form onSubmit={handleCodeSubmit} className="space-y-5">
             <div className="relative">
-              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-cyan-500/40" />
+              <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-cyan-500/40" />
               <input
-                type={showPassword ? 'text' : 'password'}
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                placeholder="Enter your password"
-                className="hud-input pr-10"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456 or recovery code"
+                autoComplete="one-time-code"
+                autoFocus
+                className="hud-input"
                 required
               />
-              <button
-                type="button"
-                onClick={() => setShowPassword(!showPassword)}
-                className="absolute right-3 top-1/2 -translate-y-1/2 text-cyan-500/40 hover:text-cyan-400 transition-colors"
-              >
-                {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-              </button>
             </div>
-          </motion.div>
-
-          {/* Submit */}
-          <motion.div
-            initial={{ opacity: 0, y: 10 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: 0.5 }}
-          >
             <motion.button
               type="submit"
               disabled={isSubmitting}
@@ -134,13 +137,98 @@ export default function LoginPage() {
                 <div className="auth-spinner" />
               ) : (
                 <>
-                  Initialize Session
+                  Verify
                   <ArrowRight className="w-4 h-4" />
                 </>
               )}
             </motion.button>
-          </motion.div>
-        </form>
+          </form>
+        )}
+
+        {/* Form */}
+        {step === 'password' && (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            {/* Email */}
+            <motion.div
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.3 }}
+            >
+              <label className="block text-[10px] font-mono text-cyan-500/50 uppercase tracking-wider mb-2">
+                Email Address
+              </label>
+              <div className="relative">
+                <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-cyan-500/40" />
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="operator@kube.africa"
+                  className="hud-input"
+                  required
+                />
+              </div>
+            </motion.div>
+
+            {/* Password */}
+            <motion.div
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.4 }}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-[10px] font-mono text-cyan-500/50 uppercase tracking-wider">
+                  Password
+                </label>
+                <Link href="/forgot-password" className="text-[10px] font-mono text-cyan-400/70 hover:text-cyan-300 transition-colors">
+                  Forgot password?
+                </Link>
+              </div>
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-cyan-500/40" />
+                <input
+                  type={showPassword ? 'text' : 'password'}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Enter your password"
+                  className="hud-input pr-10"
+                  required
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 text-cyan-500/40 hover:text-cyan-400 transition-colors"
+                >
+                  {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                </button>
+              </div>
+            </motion.div>
+
+            {/* Submit */}
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.5 }}
+            >
+              <motion.button
+                type="submit"
+                disabled={isSubmitting}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                className="w-full py-3 rounded-lg font-semibold text-sm bg-gradient-to-r from-blue-600 to-cyan-500 text-white shadow-[0_0_20px_rgba(0,102,255,0.3)] hover:shadow-[0_0_30px_rgba(0,102,255,0.5)] transition-shadow disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {isSubmitting ? (
+                  <div className="auth-spinner" />
+                ) : (
+                  <>
+                    Initialize Session
+                    <ArrowRight className="w-4 h-4" />
+                  </>
+                )}
+              </motion.button>
+            </motion.div>
+          </form>
+        )}
 
         {/* Demo Credentials */}
         <motion.div
@@ -0,0 +1,157 @@
+'use client'
+
+import { useState, FormEvent, Suspense } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { motion } from 'framer-motion'
+import { Lock, Eye, EyeOff, ArrowRight, KeyRound } from 'lucide-react'
+import api from '@/lib/api'
+
+function ResetPasswordForm() {
+  const token = useSearchParams().get('token') || ''
+  const router = useRouter()
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [showPassword, setShowPassword] = useState(false)
+  const [error, setError] = useState('')
+  const [done, setDone] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    if (password.length < 6) {
+      setError('Password must be at least 6 characters')
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      await api.resetPassword(token, password)
+      setDone(true)
+      setTimeout(() => router.push('/login'), 2500)
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Could not reset your password. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!token) {
+    return (
+      <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/20 text-sm text-red-400">
+        This reset link is incomplete. <Link href="/forgot-password" className="underline">Request a new one</Link>.
+      </div>
+    )
+  }
+
+  if (done) {
+    return (
+      <div className="p-4 rounded-lg bg-green-500/10 border border-green-500/20 text-sm text-green-300">
+        Your password has been reset and all devices were signed out. Redirecting to sign in...
+      </div>
+    )
+  }
+
+  return (
+    <>
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <div>
+          <label className="block text-[10px] font-mono text-cyan-500/50 uppercase tracking-wider mb-2">
+            New Password
+          </label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-cyan-500/40" />
+            <input
+              type={showPassword ? 'text' : 'password'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="At least 6 characters"
+              className="hud-input pr-10"
+              required
+            />
+            <button
+              type="button"
+              onClick={() => setShowPassword(!showPassword)}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-cyan-500/40 hover:text-cyan-400 transition-colors"
+            >
+              {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-[10px] font-mono text-cyan-500/50 uppercase tracking-wider mb-2">
+            Confirm Password
+          </label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-cyan-500/40" />
+            <input
+              type={showPassword ? 'text' : 'password'}
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              placeholder="Repeat the new password"
+              className="hud-input"
+              required
+            />
+          </div>
+        </div>
+
+        <motion.button
+          type="submit"
+          disabled={isSubmitting}
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          className="w-full py-3 rounded-lg font-semibold text-sm bg-gradient-to-r from-blue-600 to-cyan-500 text-white shadow-[0_0_20px_rgba(0,102,255,0.3)] hover:shadow-[0_0_30px_rgba(0,102,255,0.5)] transition-shadow disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          {isSubmitting ? (
+            <div className="auth-spinner" />
+          ) : (
+            <>
+              Reset Password
+              <ArrowRight className="w-4 h-4" />
+            </>
+          )}
+        </motion.button>
+      </form>
+    </>
+  )
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="w-full max-w-md"
+    >
+      <div className="hud-panel p-8">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-gradient-to-br from-cyan-500 to-blue-600 rounded-2xl flex items-center justify-center mx-auto mb-4 shadow-[0_0_30px_rgba(0,170,255,0.3)]">
+            <KeyRound className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-2xl font-bold text-white neon-blue mb-2">Choose a New Password</h1>
+          <p className="text-sm text-gray-500">Resetting signs you out on every device</p>
+        </div>
+
+        {/* useSearchParams needs a Suspense boundary for static rendering */}
+        <Suspense fallback={<div className="auth-spinner mx-auto" />}>
+          <ResetPasswordForm />
+        </Suspense>
+      </div>
+    </motion.div>
+  )
+}
@@ -0,0 +1,97 @@
+'use client'
+
+import { useState, useEffect, useRef, Suspense } from 'react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { motion } from 'framer-motion'
+import { MailCheck, MailX } from 'lucide-react'
+import { useAuth } from '@/contexts/AuthContext'
+import api from '@/lib/api'
+
+type VerifyState = 'verifying' | 'verified' | 'failed'
+
+function VerifyEmailStatus() {
+  const token = useSearchParams().get('token') || ''
+  const { isAuthenticated, updateUser } = useAuth()
+  const [state, setState] = useState<VerifyState>(token ? 'verifying' : 'failed')
+  const [message, setMessage] = useState(token ? '' : 'This verification link is incomplete.')
+  // Tokens are single-use; guard against the effect running twice in development
+  const attempted = useRef(false)
+
+  useEffect(() => {
+    if (!token || attempted.current) return
+    attempted.current = true
+
+    api.verifyEmail(token)
+      .then(() => {
+        setState('verified')
+        updateUser({ emailVerifiedAt: new Date().toISOString() })
+      })
+      .catch((err: any) => {
+        setState('failed')
+        setMessage(err.response?.data?.message || 'Verification failed.')
+      })
+  }, [token, updateUser])
+
+  const handleResend = async () => {
+    try {
+      await api.resendVerification()
+      setMessage('A new verification link has been sent.')
+    } catch (err: any) {
+      setMessage(err.response?.data?.message || 'Could not send a new link.')
+    }
+  }
+
+  if (state === 'verifying') {
+    return <div className="auth-spinner mx-auto" />
+  }
+
+  if (state === 'verified') {
+    return (
+      <div className="text-center space-y-6">
+        <MailCheck className="w-12 h-12 text-green-400 mx-auto" />
+        <p className="text-sm text-gray-300">Your email address is verified.</p>
+        <Link href={isAuthenticated ? '/dashboard' : '/login'} className="text-cyan-400 hover:text-cyan-300 font-medium">
+          {isAuthenticated ? 'Go to dashboard' : 'Sign in'}
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="text-center space-y-6">
+      <MailX className="w-12 h-12 text-red-400 mx-auto" />
+      <p className="text-sm text-gray-300">{message}</p>
+      {isAuthenticated ? (
+        <button onClick={handleResend} className="text-cyan-400 hover:text-cyan-300 font-medium">
+          Send a new link
+        </button>
+      ) : (
+        <Link href="/login" className="text-cyan-400 hover:text-cyan-300 font-medium">
+          Sign in to request a new link
+        </Link>
+      )}
+    </div>
+  )
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="w-full max-w-md"
+    >
+      <div className="hud-panel p-8">
+        <div className="text-center mb-8">
+          <h1 className="text-2xl font-bold text-white neon-blue mb-2">Verify Email</h1>
+        </div>
+
+        <Suspense fallback={<div className="auth-spinner mx-auto" />}>
+          <VerifyEmailStatus />
+        </Suspense>
+      </div>
+    </motion.div>
+  )
+}
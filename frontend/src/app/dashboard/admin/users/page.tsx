@@ -6,11 +6,12 @@ import {
   Users, UserCheck, Building2, UserX, Search, Filter,
   Mail, Phone, MapPin, Calendar, Shield, Edit, Trash2,
   CheckCircle, XCircle, Clock, TrendingUp, BarChart3,
-  Download, RefreshCw, Eye, Ban, UserPlus, ArrowLeft
+  Download, RefreshCw, Eye, Ban, UserPlus, ArrowLeft, ShieldOff, Unlock
 } from 'lucide-react'
 import { useAuth } from '@/contexts/AuthContext'
 import { useRouter } from 'next/navigation'
 import api from '@/lib/api'
+import { SessionList } from '@/components/auth/SessionList'
 
 interface User {
   id: string
@@ -24,6 +25,8 @@ interface User {
   services?: string[]
   companyName?: string
   organization?: string
+  twoFactorEnabled?: boolean
+  lockedUntil?: string | null
   createdAt: string
   lastLoginAt?: string
 }
@@ -43,7 +46,7 @@ const STATUS_COLORS: Record<string, { bg: string; text: string; icon: any }> = {
 
 export default function UserManagementPage() {
   const router = useRouter()
-  const { user: currentUser } = useAuth()
+  const { user: currentUser, hasPermission } = useAuth()
   const [users, setUsers] = useState<User[]>([])
   const [filteredUsers, setFilteredUsers] = useState<User[]>([])
   const [loading, setLoading] = useState(true)
@@ -65,12 +68,12 @@ export default function UserManagementPage() {
     organization: ''
   })
 
-  // Check admin access
+  // Check user management access
   useEffect(() => {
-    if (currentUser && currentUser.role !== 'ADMIN') {
+    if (currentUser && !hasPermission('user:read')) {
       router.push('/dashboard')
     }
-  }, [currentUser, router])
+  }, [currentUser, hasPermission, router])
 
   // Fetch users
   useEffect(() => {
@@ -117,6 +120,45 @@ export default function UserManagementPage() {
     }
   }
 
+  const isLocked = (user: User) => !!user.lockedUntil && new Date(user.lockedUntil) > new Date()
+
+  const handleUnlockUser = async (user: User) => {
+    try {
+      await api.unlockUser(user.id)
+      await fetchUsers()
+      setSelectedUser({ ...user, lockedUntil: null })
+    } catch (error: any) {
+      console.error('Failed to unlock user:', error)
+      alert(error.response?.data?.message || 'Failed to unlock account')
+    }
+  }
+
+  const handleResetTwoFactor = async (user: User) => {
+    if (!confirm(`Reset two-factor authentication for ${user.firstName} ${user.lastName}? They will be signed out and must set it up again.`)) return
+
+    try {
+      await api.resetUserTwoFactor(user.id)
+      await fetchUsers()
+      setSelectedUser({ ...user, twoFactorEnabled: false })
+    } catch (error: any) {
+      console.error('Failed to reset two-factor:', error)
+      alert(error.response?.data?.message || 'Failed to reset two-factor authentication')
+    }
+  }
+
+  const handleSuspendUser = async (user: User) => {
+    if (!confirm(`Suspend ${user.firstName} ${user.lastName}? They will be signed out immediately.`)) return
+
+    try {
+      await api.updateUserStatus(user.id, 'SUSPENDED')
+      await fetchUsers()
+      setSelectedUser(null)
+    } catch (error: any) {
+      console.error('Failed to suspend user:', error)
+      alert(error.response?.data?.message || 'Failed to suspend user')
+    }
+  }
+
   // Filter users
   useEffect(() => {
     let filtered = users
@@ -155,7 +197,7 @@ export default function UserManagementPage() {
     }
   }
 
-  if (currentUser?.role !== 'ADMIN') {
+  if (!hasPermission('user:read')) {
     return null
   }
 
@@ -387,6 +429,9 @@ export default function UserManagementPage() {
                             <StatusIcon className={`w-3 h-3 ${STATUS_COLORS[user.status]?.text}`} />
                             <span className={`text-xs font-mono ${STATUS_COLORS[user.status]?.text}`}>{user.status}</span>
                           </div>
+                          {isLocked(user) && (
+                            <span className="mt-1 inline-block px-2 py-0.5 rounded bg-orange-500/20 text-orange-300 text-[10px] font-mono">LOCKED</span>
+                          )}
                         </td>
                         <td className="px-6 py-4">
                           <p className="text-xs text-blue-400/70 font-mono">
@@ -410,6 +455,7 @@ export default function UserManagementPage() {
                             </button>
                             {user.status === 'ACTIVE' && (
                               <button
+                                onClick={() => handleSuspendUser(user)}
                                 className="p-1.5 rounded bg-yellow-500/10 hover:bg-yellow-500/20 border border-yellow-400/30 transition-all"
                                 title="Suspend User"
                               >
@@ -545,14 +591,40 @@ export default function UserManagementPage() {
                     </div>
                   )}
 
+                  {/* Sessions */}
+                  <div className="p-3 bg-[#0D1B2E] rounded-lg border border-blue-500/20">
+                    <SessionList userId={selectedUser.id} />
+                  </div>
+
                   {/* Actions */}
                   <div className="flex items-center gap-3 pt-4 border-t border-blue-900/30">
                     <button className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-blue-500/10 border border-blue-400/30 hover:bg-blue-500/20 transition-all">
                       <Edit className="w-4 h-4 text-blue-400" />
                       <span className="text-sm text-blue-300 font-mono">Edit User</span>
                     </button>
+                    {isLocked(selectedUser) && (
+                      <button
+                        onClick={() => handleUnlockUser(selectedUser)}
+                        className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-green-500/10 border border-green-400/30 hover:bg-green-500/20 transition-all"
+                      >
+                        <Unlock className="w-4 h-4 text-green-400" />
+                        <span className="text-sm text-green-300 font-mono">Unlock</span>
+                      </button>
+                    )}
+                    {selectedUser.twoFactorEnabled && (
+                      <button
+                        onClick={() => handleResetTwoFactor(selectedUser)}
+                        className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-orange-500/10 border border-orange-400/30 hover:bg-orange-500/20 transition-all"
+                      >
+                        <ShieldOff className="w-4 h-4 text-orange-400" />
+                        <span className="text-sm text-orange-300 font-mono">Reset 2FA</span>
+                      </button>
+                    )}
                     {selectedUser.status === 'ACTIVE' && (
-                      <button className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-yellow-500/10 border border-yellow-400/30 hover:bg-yellow-500/20 transition-all">
+                      <button
+                        onClick={() => handleSuspendUser(selectedUser)}
+                        className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-yellow-500/10 border border-yellow-400/30 hover:bg-yellow-500/20 transition-all"
+                      >
                         <Ban className="w-4 h-4 text-yellow-400" />
                         <span className="text-sm text-yellow-300 font-mono">Suspend</span>
                       </button>
@@ -1,5 +1,11 @@
 import { AuthGuard } from '@/components/auth/AuthGuard'
+import { VerifyEmailBanner } from '@/components/auth/VerifyEmailBanner'
 
 export default function DashboardLayout({ children }: { children: React.ReactNode }) {
-  return <AuthGuard>{children}</AuthGuard>
+  return (
+    <AuthGuard>
+      {children}
+      <VerifyEmailBanner />
+    </AuthGuard>
+  )
 }
@@ -14,7 +14,7 @@ import {
 } from 'recharts'
 import {
   Activity, AlertTriangle, TrendingUp, Shield, Satellite,
-  Map as MapIcon, Users, Layers, Eye, Zap, Bell, MapPin,
+  Map as MapIcon, Users, Layers, Eye, Zap, MapPin,
   Crosshair, Wifi, Database, Cpu, Globe, Thermometer,
   CloudRain, Wind, BarChart3, Target, RefreshCw, Power,
   Signal, LogOut, ChevronDown, User, Settings, Building2,
@@ -23,6 +23,7 @@ import {
 import { useAuth } from '@/contexts/AuthContext'
 import { useRouter } from 'next/navigation'
 import api from '@/lib/api'
+import { AlertTray } from '@/components/alerts/AlertTray'
 
 // ─── Types ──────────────────────────────────────────────
 interface DashboardStats {
@@ -163,7 +164,7 @@ function getRoleBadge(role: string) {
 
 // ─── Main Dashboard Component ───────────────────────────
 export default function DashboardPage() {
-  const { user, logout } = useAuth()
+  const { user, logout, hasPermission } = useAuth()
   const router = useRouter()
   const [activeModule, setActiveModule] = useState<'farm' | 'park' | 'land'>('farm')
   const [liveTime, setLiveTime] = useState(new Date())
@@ -295,16 +296,7 @@ export default function DashboardPage() {
               </div>
 
               {/* Alerts */}
-              <motion.button
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-                className="relative p-2.5 rounded-lg bg-red-500/10 border border-red-500/20 hover:bg-red-500/20 transition-all"
-              >
-                <Bell className="w-4 h-4 text-red-400" />
-                <span className="absolute -top-1.5 -right-1.5 min-w-[18px] h-[18px] bg-red-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center shadow-[0_0_10px_rgba(255,51,102,0.5)]">
-                  {overview.activeAlerts}
-                </span>
-              </motion.button>
+              <AlertTray />
 
               {/* Refresh */}
               <motion.button
@@ -355,8 +347,8 @@ export default function DashboardPage() {
                 </span>
               </motion.button>
 
-              {/* Admin Panel (only for ADMIN role) */}
-              {user?.role === 'ADMIN' && (
+              {/* Admin Panel (only with user management access) */}
+              {hasPermission('user:read') && (
                 <motion.button
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
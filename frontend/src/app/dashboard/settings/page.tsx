@@ -9,6 +9,8 @@ import {
 import { useAuth } from '@/contexts/AuthContext'
 import { useRouter } from 'next/navigation'
 import api from '@/lib/api'
+import { SessionList } from '@/components/auth/SessionList'
+import { TwoFactorSettings } from '@/components/auth/TwoFactorSettings'
 
 type Tab = 'profile' | 'security' | 'preferences'
 
@@ -45,8 +47,11 @@ export default function SettingsPage() {
     language: 'en',
     notifications: {
       email: true,
-      sms: true,
-      push: true
+      emailMinSeverity: 'WARNING',
+      sms: false,
+      smsMinSeverity: 'CRITICAL',
+      push: true,
+      webhookUrl: ''
     },
     theme: 'dark'
   })
@@ -68,6 +73,26 @@ export default function SettingsPage() {
     }
   }, [user])
 
+  // Load saved notification preferences
+  useEffect(() => {
+    api.getNotificationPreferences()
+      .then(res => {
+        const saved = res.data.preferences
+        setPreferences(prev => ({
+          ...prev,
+          notifications: {
+            email: saved.emailEnabled,
+            emailMinSeverity: saved.emailMinSeverity,
+            sms: saved.smsEnabled,
+            smsMinSeverity: saved.smsMinSeverity,
+            push: saved.pushEnabled,
+            webhookUrl: saved.webhookUrl || ''
+          }
+        }))
+      })
+      .catch(error => console.error('Failed to load notification preferences:', error))
+  }, [])
+
   // Handle profile update
   const handleProfileUpdate = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -123,7 +148,18 @@ export default function SettingsPage() {
     setMessage(null)
 
     try {
-      await api.updateProfile({ language: preferences.language })
+      const { notifications } = preferences
+      await Promise.all([
+        api.updateProfile({ language: preferences.language }),
+        api.updateNotificationPreferences({
+          emailEnabled: notifications.email,
+          emailMinSeverity: notifications.emailMinSeverity,
+          smsEnabled: notifications.sms,
+          smsMinSeverity: notifications.smsMinSeverity,
+          pushEnabled: notifications.push,
+          webhookUrl: notifications.webhookUrl
+        })
+      ])
       setMessage({ type: 'success', text: 'Preferences updated successfully!' })
     } catch (error: any) {
       setMessage({ type: 'error', text: error.response?.data?.message || 'Failed to update preferences' })
@@ -420,6 +456,23 @@ export default function SettingsPage() {
             </motion.form>
           )}
 
+          {activeTab === 'security' && (
+            <div className="mt-10 pt-8 border-t border-gray-800">
+              <h2 className="text-xl font-bold mb-6">Two-Factor Authentication</h2>
+              <TwoFactorSettings />
+            </div>
+          )}
+
+          {activeTab === 'security' && (
+            <div className="mt-10 pt-8 border-t border-gray-800">
+              <h2 className="text-xl font-bold mb-2">Where You&apos;re Signed In</h2>
+              <p className="text-sm text-gray-400 mb-6">
+                Sign out a lost or shared device remotely. Changing your password signs out every device.
+              </p>
+              <SessionList />
+            </div>
+          )}
+
           {/* Preferences Tab */}
           {activeTab === 'preferences' && (
             <motion.form
@@ -468,6 +521,18 @@ export default function SettingsPage() {
                         <div className="text-white">Email Notifications</div>
                         <div className="text-sm text-gray-500">Receive updates via email</div>
                       </div>
+                      <select
+                        value={preferences.notifications.emailMinSeverity}
+                        onChange={(e) => setPreferences({
+                          ...preferences,
+                          notifications: { ...preferences.notifications, emailMinSeverity: e.target.value }
+                        })}
+                        className="ml-auto px-3 py-1.5 bg-gray-800/50 border border-gray-700 rounded-lg text-sm text-white focus:outline-none focus:border-cyan-400"
+                      >
+                        <option value="INFO">All alerts</option>
+                        <option value="WARNING">Warning and above</option>
+                        <option value="CRITICAL">Critical only</option>
+                      </select>
                     </label>
 
                     <label className="flex items-center gap-3 cursor-pointer">
@@ -484,6 +549,18 @@ export default function SettingsPage() {
                         <div className="text-white">SMS Notifications</div>
                         <div className="text-sm text-gray-500">Receive alerts via SMS</div>
                       </div>
+                      <select
+                        value={preferences.notifications.smsMinSeverity}
+                        onChange={(e) => setPreferences({
+                          ...preferences,
+                          notifications: { ...preferences.notifications, smsMinSeverity: e.target.value }
+                        })}
+                        className="ml-auto px-3 py-1.5 bg-gray-800/50 border border-gray-700 rounded-lg text-sm text-white focus:outline-none focus:border-cyan-400"
+                      >
+                        <option value="INFO">All alerts</option>
+                        <option value="WARNING">Warning and above</option>
+                        <option value="CRITICAL">Critical only</option>
+                      </select>
                     </label>
 
                     <label className="flex items-center gap-3 cursor-pointer">
@@ -501,6 +578,21 @@ export default function SettingsPage() {
                         <div className="text-sm text-gray-500">Receive browser notifications</div>
                       </div>
                     </label>
+
+                    <div>
+                      <label className="block text-white mb-1">Webhook URL</label>
+                      <div className="text-sm text-gray-500 mb-2">Alerts are POSTed as JSON to this address</div>
+                      <input
+                        type="url"
+                        value={preferences.notifications.webhookUrl}
+                        onChange={(e) => setPreferences({
+                          ...preferences,
+                          notifications: { ...preferences.notifications, webhookUrl: e.target.value }
+                        })}
+                        placeholder="https://example.com/hooks/kube"
+                        className="w-full max-w-md px-4 py-3 bg-gray-800/50 border border-gray-700 rounded-lg focus:outline-none focus:border-cyan-400 transition-all text-white"
+                      />
+                    </div>
                   </div>
                 </div>
               </div>
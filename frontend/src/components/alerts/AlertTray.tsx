@@ -0,0 +1,200 @@
+'use client'
+
+/**
+ * Live Alert Tray
+ * Bell button with a dropdown of recent alerts, kept current over Socket.IO
+ */
+
+import { useState, useEffect, useRef } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Bell, CheckCircle2, Eye, X } from 'lucide-react'
+import { useAuth } from '@/contexts/AuthContext'
+import api from '@/lib/api'
+import { getSocket } from '@/lib/socket'
+
+interface TrayAlert {
+  id: string
+  type: string
+  severity: string
+  status: string
+  title: string
+  message: string
+  module: string
+  location?: string
+  createdAt: string
+  assignedToId?: string
+}
+
+const MAX_ALERTS = 30
+
+const SEVERITY_STYLES: Record<string, string> = {
+  CRITICAL: 'bg-red-500/15 border-red-500/30 text-red-400',
+  WARNING: 'bg-amber-500/15 border-amber-500/30 text-amber-400',
+  INFO: 'bg-cyan-500/15 border-cyan-500/30 text-cyan-400'
+}
+
+const timeAgo = (iso: string) => {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.floor(minutes / 60)
+  return hours < 24 ? `${hours}h ago` : `${Math.floor(hours / 24)}d ago`
+}
+
+export function AlertTray() {
+  const { user } = useAuth()
+  const [alerts, setAlerts] = useState<TrayAlert[]>([])
+  const [isOpen, setIsOpen] = useState(false)
+  const [flashId, setFlashId] = useState<string | null>(null)
+  const trayRef = useRef<HTMLDivElement>(null)
+
+  // Initial load; live changes arrive over the socket afterwards
+  useEffect(() => {
+    api.getAlerts()
+      .then(res => setAlerts((res.data?.alerts || []).slice(0, MAX_ALERTS)))
+      .catch(() => setAlerts([]))
+  }, [])
+
+  useEffect(() => {
+    if (!user) return
+    const socket = getSocket()
+
+    const subscribe = () => {
+      socket.emit('subscribe:alerts', {})
+    }
+
+    const upsert = (alert: TrayAlert) => {
+      setAlerts(prev => [alert, ...prev.filter(a => a.id !== alert.id)].slice(0, MAX_ALERTS))
+    }
+
+    const handleNew = (alert: TrayAlert) => {
+      upsert(alert)
+      setFlashId(alert.id)
+    }
+
+    const handleUpdated = (alert: TrayAlert) => {
+      setAlerts(prev => prev.some(a => a.id === alert.id)
+        ? prev.map(a => a.id === alert.id ? { ...a, ...alert } : a)
+        : [alert, ...prev].slice(0, MAX_ALERTS))
+    }
+
+    subscribe()
+    socket.on('connect', subscribe)
+    socket.on('alert:new', handleNew)
+    socket.on('alert:assigned', handleUpdated)
+    socket.on('alert:updated', handleUpdated)
+
+    return () => {
+      socket.off('connect', subscribe)
+      socket.off('alert:new', handleNew)
+      socket.off('alert:assigned', handleUpdated)
+      socket.off('alert:updated', handleUpdated)
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (!flashId) return
+    const timer = setTimeout(() => setFlashId(null), 4000)
+    return () => clearTimeout(timer)
+  }, [flashId])
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (trayRef.current && !trayRef.current.contains(e.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  const handleStatus = async (id: string, status: string) => {
+    try {
+      await api.updateAlertStatus(id, status)
+    } catch (error: any) {
+      alert(error.response?.data?.message || 'Failed to update alert')
+    }
+  }
+
+  const openAlerts = alerts.filter(a => a.status !== 'RESOLVED')
+  const unread = alerts.filter(a => a.status === 'NEW').length
+
+  return (
+    <div className="relative" ref={trayRef}>
+      <motion.button
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+        onClick={() => setIsOpen(open => !open)}
+        className={`relative p-2.5 rounded-lg bg-red-500/10 border border-red-500/20 hover:bg-red-500/20 transition-all ${flashId ? 'animate-pulse' : ''}`}
+      >
+        <Bell className="w-4 h-4 text-red-400" />
+        {unread > 0 && (
+          <span className="absolute -top-1.5 -right-1.5 min-w-[18px] h-[18px] bg-red-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center shadow-[0_0_10px_rgba(255,51,102,0.5)]">
+            {unread}
+          </span>
+        )}
+      </motion.button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            className="absolute right-0 mt-2 w-96 max-h-[70vh] overflow-y-auto rounded-xl bg-[#060d1a]/95 border border-cyan-500/20 backdrop-blur-2xl shadow-[0_0_30px_rgba(0,170,255,0.15)] z-50"
+          >
+            <div className="flex items-center justify-between px-4 py-3 border-b border-cyan-500/10">
+              <span className="text-[10px] font-mono text-cyan-400 uppercase tracking-[0.3em]">Live Alerts</span>
+              <button onClick={() => setIsOpen(false)} className="text-cyan-500/50 hover:text-cyan-300">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            {openAlerts.length === 0 ? (
+              <div className="px-4 py-8 text-center text-xs font-mono text-cyan-500/40">No open alerts</div>
+            ) : (
+              openAlerts.map(item => (
+                <div
+                  key={item.id}
+                  className={`px-4 py-3 border-b border-cyan-500/5 ${item.id === flashId ? 'bg-cyan-500/10' : ''}`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className={`px-1.5 py-0.5 rounded border text-[9px] font-mono font-bold ${SEVERITY_STYLES[item.severity] || SEVERITY_STYLES.INFO}`}>
+                          {item.severity}
+                        </span>
+                        <span className="text-[9px] font-mono text-cyan-500/40 uppercase">{item.module} · {item.status}</span>
+                      </div>
+                      <div className="text-xs font-semibold text-white truncate">{item.title}</div>
+                      <div className="text-[11px] text-gray-400 line-clamp-2">{item.message}</div>
+                      <div className="text-[10px] font-mono text-cyan-500/40 mt-1">
+                        {item.location ? `${item.location} · ` : ''}{timeAgo(item.createdAt)}
+                      </div>
+                    </div>
+                    <div className="flex flex-col gap-1 shrink-0">
+                      {item.status === 'NEW' && (
+                        <button
+                          onClick={() => handleStatus(item.id, 'ACKNOWLEDGED')}
+                          title="Acknowledge"
+                          className="p-1.5 rounded bg-amber-500/10 border border-amber-500/20 hover:bg-amber-500/20"
+                        >
+                          <Eye className="w-3 h-3 text-amber-400" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleStatus(item.id, 'RESOLVED')}
+                        title="Resolve"
+                        className="p-1.5 rounded bg-emerald-500/10 border border-emerald-500/20 hover:bg-emerald-500/20"
+                      >
+                        <CheckCircle2 className="w-3 h-3 text-emerald-400" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
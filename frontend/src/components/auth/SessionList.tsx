@@ -0,0 +1,147 @@
+'use client'
+
+/**
+ * Session List
+ * Where an account is signed in, with remote sign-out. Shows the current
+ * user's sessions, or any user's when given a userId (admin view).
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { Monitor, Smartphone, LogOut, RefreshCw } from 'lucide-react'
+import api from '@/lib/api'
+
+interface Session {
+  id: string
+  userAgent?: string
+  ipAddress?: string
+  createdAt: string
+  lastUsedAt: string
+  current?: boolean
+}
+
+const describeDevice = (userAgent?: string) => {
+  if (!userAgent) return 'Unknown device'
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser'
+  const os = /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'Unknown OS'
+  return `${browser} on ${os}`
+}
+
+const isMobile = (userAgent?: string) => /Android|iPhone|iPad|Mobile/.test(userAgent || '')
+
+export function SessionList({ userId }: { userId?: string }) {
+  const [sessions, setSessions] = useState<Session[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = userId ? await api.getUserSessions(userId) : await api.getMySessions()
+      setSessions(res.data?.sessions || [])
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to load sessions')
+    } finally {
+      setLoading(false)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const handleRevoke = async (session: Session) => {
+    if (!confirm(`Sign out ${describeDevice(session.userAgent)}?`)) return
+    try {
+      if (userId) await api.revokeUserSession(userId, session.id)
+      else await api.revokeMySession(session.id)
+      setSessions(prev => prev.filter(s => s.id !== session.id))
+    } catch (err: any) {
+      alert(err.response?.data?.message || 'Failed to sign out session')
+    }
+  }
+
+  const handleRevokeAll = async () => {
+    const prompt = userId ? 'Sign this user out of every device?' : 'Sign out of every other device?'
+    if (!confirm(prompt)) return
+    try {
+      if (userId) await api.revokeAllUserSessions(userId)
+      else await api.revokeOtherSessions()
+      await load()
+    } catch (err: any) {
+      alert(err.response?.data?.message || 'Failed to sign out sessions')
+    }
+  }
+
+  const others = sessions.filter(s => !s.current)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-cyan-400/70 font-mono uppercase">Active Sessions ({sessions.length})</p>
+        <div className="flex items-center gap-2">
+          <button onClick={load} title="Refresh" className="p-1.5 rounded text-gray-400 hover:text-cyan-300">
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+          {others.length > 0 && (
+            <button
+              onClick={handleRevokeAll}
+              className="px-3 py-1.5 rounded-lg bg-red-500/10 border border-red-400/30 hover:bg-red-500/20 text-xs text-red-300 font-mono"
+            >
+              {userId ? 'Sign out all' : 'Sign out other devices'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {!loading && sessions.length === 0 && !error && (
+        <p className="text-sm text-gray-500">No active sessions</p>
+      )}
+
+      {sessions.map(session => {
+        const Icon = isMobile(session.userAgent) ? Smartphone : Monitor
+        return (
+          <div
+            key={session.id}
+            className="flex items-center justify-between gap-3 p-3 bg-gray-800/30 border border-gray-700 rounded-lg"
+          >
+            <div className="flex items-center gap-3 min-w-0">
+              <Icon className="w-5 h-5 text-cyan-400 shrink-0" />
+              <div className="min-w-0">
+                <div className="text-sm text-white flex items-center gap-2">
+                  {describeDevice(session.userAgent)}
+                  {session.current && (
+                    <span className="px-1.5 py-0.5 rounded bg-green-500/20 text-green-300 text-[10px] font-mono">THIS DEVICE</span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500 font-mono truncate">
+                  {session.ipAddress || 'Unknown IP'} · signed in {new Date(session.createdAt).toLocaleString()} · last seen {new Date(session.lastUsedAt).toLocaleString()}
+                </div>
+              </div>
+            </div>
+            {!session.current && (
+              <button
+                onClick={() => handleRevoke(session)}
+                title="Sign out"
+                className="p-2 rounded-lg bg-red-500/10 border border-red-400/30 hover:bg-red-500/20 shrink-0"
+              >
+                <LogOut className="w-4 h-4 text-red-400" />
+              </button>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,181 @@
+'use client'
+
+/**
+ * Two-Factor Settings
+ * Turn two-factor authentication on or off and replace recovery codes
+ */
+
+import { useState, useEffect, useCallback, FormEvent } from 'react'
+import { ShieldCheck, ShieldOff } from 'lucide-react'
+import { useAuth } from '@/contexts/AuthContext'
+import { TwoFactorSetup, RecoveryCodeList } from '@/components/auth/TwoFactorSetup'
+import api from '@/lib/api'
+
+interface TwoFactorStatus {
+  enabled: boolean
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+type Action = 'setup' | 'regenerate' | 'disable' | null
+
+export function TwoFactorSettings() {
+  const { updateUser } = useAuth()
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [action, setAction] = useState<Action>(null)
+  const [code, setCode] = useState('')
+  const [password, setPassword] = useState('')
+  const [newCodes, setNewCodes] = useState<string[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  const load = useCallback(async () => {
+    try {
+      const res = await api.getTwoFactorStatus()
+      setStatus(res.data)
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to load two-factor status')
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const startAction = (next: Action) => {
+    setAction(next)
+    setCode('')
+    setPassword('')
+    setError(null)
+    setNewCodes(null)
+  }
+
+  const handleEnabled = () => {
+    setAction(null)
+    updateUser({ twoFactorEnabled: true })
+    load()
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setSubmitting(true)
+    try {
+      if (action === 'regenerate') {
+        const res = await api.regenerateRecoveryCodes(code)
+        setNewCodes(res.data.recoveryCodes)
+        setAction(null)
+      } else if (action === 'disable') {
+        await api.disableTwoFactor(password, code)
+        updateUser({ twoFactorEnabled: false })
+        setAction(null)
+      }
+      await load()
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Request failed')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (!status) {
+    return error ? <p className="text-sm text-red-400">{error}</p> : null
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4 p-4 bg-gray-800/30 border border-gray-700 rounded-lg">
+        <div className="flex items-center gap-3">
+          {status.enabled
+            ? <ShieldCheck className="w-6 h-6 text-green-400" />
+            : <ShieldOff className="w-6 h-6 text-gray-500" />}
+          <div>
+            <p className="text-sm text-white">
+              {status.enabled ? 'Two-factor authentication is on' : 'Two-factor authentication is off'}
+            </p>
+            <p className="text-xs text-gray-500">
+              {status.enabled
+                ? `${status.recoveryCodesRemaining} recovery codes left`
+                : 'Require a code from an authenticator app when signing in'}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {!status.enabled && action !== 'setup' && (
+            <button
+              onClick={() => startAction('setup')}
+              className="px-3 py-1.5 rounded-lg bg-cyan-500/10 border border-cyan-400/30 hover:bg-cyan-500/20 text-xs text-cyan-300 font-mono"
+            >
+              Turn on
+            </button>
+          )}
+          {status.enabled && (
+            <button
+              onClick={() => startAction('regenerate')}
+              className="px-3 py-1.5 rounded-lg bg-cyan-500/10 border border-cyan-400/30 hover:bg-cyan-500/20 text-xs text-cyan-300 font-mono"
+            >
+              New recovery codes
+            </button>
+          )}
+          {status.enabled && !status.required && (
+            <button
+              onClick={() => startAction('disable')}
+              className="px-3 py-1.5 rounded-lg bg-red-500/10 border border-red-400/30 hover:bg-red-500/20 text-xs text-red-300 font-mono"
+            >
+              Turn off
+            </button>
+          )}
+        </div>
+      </div>
+
+      {status.enabled && status.required && (
+        <p className="text-xs text-gray-500">Two-factor authentication is required for your role and cannot be turned off.</p>
+      )}
+
+      {action === 'setup' && (
+        <div className="max-w-sm">
+          <TwoFactorSetup onComplete={handleEnabled} />
+        </div>
+      )}
+
+      {(action === 'regenerate' || action === 'disable') && (
+        <form onSubmit={handleSubmit} className="max-w-sm space-y-3">
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          {action === 'disable' && (
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Current password"
+              className="w-full px-4 py-3 bg-gray-800/50 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-cyan-400 transition-all"
+              required
+            />
+          )}
+          <input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Authenticator or recovery code"
+            autoComplete="one-time-code"
+            className="w-full px-4 py-3 bg-gray-800/50 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-cyan-400 transition-all"
+            required
+          />
+          <div className="flex items-center gap-3">
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-blue-500 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+            >
+              {submitting ? 'Checking...' : action === 'disable' ? 'Turn off two-factor' : 'Generate new codes'}
+            </button>
+            <button type="button" onClick={() => startAction(null)} className="text-sm text-gray-400 hover:text-gray-200">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {newCodes && <RecoveryCodeList codes={newCodes} />}
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+'use client'
+
+/**
+ * Two-Factor Setup
+ * Enrollment flow: scan the QR code, confirm a code from the app, then save
+ * the recovery codes. Used from settings, and from login with a challenge
+ * token when the account's role requires two-factor authentication.
+ */
+
+import { useState, useEffect, useRef, FormEvent } from 'react'
+import { Copy, KeyRound } from 'lucide-react'
+import api from '@/lib/api'
+
+export function RecoveryCodeList({ codes }: { codes: string[] }) {
+  const [copied, setCopied] = useState(false)
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(codes.join('\n'))
+    setCopied(true)
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-amber-300">
+        Each code signs you in once if you lose your authenticator. They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-3 rounded-lg bg-gray-800/30 border border-gray-700 font-mono text-sm text-white">
+        {codes.map(code => <span key={code}>{code}</span>)}
+      </div>
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="flex items-center gap-2 text-xs text-cyan-400 hover:text-cyan-300 font-mono"
+      >
+        <Copy className="w-3.5 h-3.5" />
+        {copied ? 'Copied' : 'Copy codes'}
+      </button>
+    </div>
+  )
+}
+
+interface TwoFactorSetupProps {
+  challengeToken?: string
+  onComplete: (data: any) => void
+}
+
+export function TwoFactorSetup({ challengeToken, onComplete }: TwoFactorSetupProps) {
+  const [qrCode, setQrCode] = useState<string | null>(null)
+  const [secret, setSecret] = useState('')
+  const [code, setCode] = useState('')
+  const [result, setResult] = useState<any>(null)
+  const [error, setError] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  // Each setup call replaces the pending secret; only request one
+  const started = useRef(false)
+
+  useEffect(() => {
+    if (started.current) return
+    started.current = true
+
+    api.setupTwoFactor(challengeToken)
+      .then(res => {
+        setQrCode(res.data.qrCode)
+        setSecret(res.data.secret)
+      })
+      .catch((err: any) => setError(err.response?.data?.message || 'Could not start two-factor setup'))
+  }, [challengeToken])
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setIsSubmitting(true)
+    try {
+      const res = await api.enableTwoFactor(code, challengeToken)
+      setResult(res.data)
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Invalid authentication code')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (result) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodeList codes={result.recoveryCodes} />
+        <button
+          type="button"
+          onClick={() => onComplete(result)}
+          className="w-full py-3 rounded-lg font-semibold text-sm bg-gradient-to-r from-blue-600 to-cyan-500 text-white"
+        >
+          I&apos;ve saved my recovery codes
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {qrCode ? (
+        <div className="flex flex-col items-center gap-3">
+          <img src={qrCode} alt="Authenticator QR code" className="w-44 h-44 rounded-lg bg-white p-2" />
+          <p className="text-xs text-gray-400 text-center">
+            Scan with an authenticator app, or enter this key:
+          </p>
+          <code className="text-xs text-cyan-300 font-mono break-all text-center">{secret}</code>
+        </div>
+      ) : (
+        !error && <div className="auth-spinner mx-auto" />
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="relative">
+          <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-cyan-500/40" />
+          <input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="6-digit code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            className="hud-input"
+            required
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isSubmitting || !qrCode}
+          className="w-full py-3 rounded-lg font-semibold text-sm bg-gradient-to-r from-blue-600 to-cyan-500 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? 'Verifying...' : 'Turn On Two-Factor'}
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+'use client'
+
+/**
+ * Verify Email Banner
+ * Reminds signed-in users with an unverified address, which blocks
+ * sensitive actions, and lets them request a new link
+ */
+
+import { useState } from 'react'
+import { MailWarning, X } from 'lucide-react'
+import { useAuth } from '@/contexts/AuthContext'
+import api from '@/lib/api'
+
+export function VerifyEmailBanner() {
+  const { user } = useAuth()
+  const [dismissed, setDismissed] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+
+  if (!user || user.emailVerifiedAt || dismissed) return null
+
+  const handleResend = async () => {
+    try {
+      await api.resendVerification()
+      setStatus('Link sent. Check your inbox.')
+    } catch (error: any) {
+      setStatus(error.response?.data?.message || 'Could not send the link')
+    }
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 max-w-sm p-4 rounded-xl bg-[#060d1a]/95 border border-amber-500/30 backdrop-blur-2xl shadow-[0_0_30px_rgba(255,170,0,0.15)]">
+      <div className="flex items-start gap-3">
+        <MailWarning className="w-5 h-5 text-amber-400 shrink-0 mt-0.5" />
+        <div className="text-xs text-gray-300 space-y-2">
+          <p>
+            Verify <span className="text-amber-300">{user.email}</span> to manage devices, users and notification targets.
+          </p>
+          {status ? (
+            <p className="text-cyan-400">{status}</p>
+          ) : (
+            <button onClick={handleResend} className="text-cyan-400 hover:text-cyan-300 font-medium">
+              Resend verification email
+            </button>
+          )}
+        </div>
+        <button onClick={() => setDismissed(true)} className="text-gray-500 hover:text-gray-300">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react'
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import MapGL, { Source, Layer, Marker } from 'react-map-gl/maplibre'
 import 'maplibre-gl/dist/maplibre-gl.css'
 import { motion, AnimatePresence } from 'framer-motion'
@@ -15,6 +15,8 @@ import {
   Mountain, Leaf
 } from 'lucide-react'
 import { useRouter } from 'next/navigation'
+import api from '@/lib/api'
+import { getSocket } from '@/lib/socket'
 
 // ═══════════════════════════════════════════════
 // TYPES
@@ -22,6 +24,7 @@ import { useRouter } from 'next/navigation'
 
 interface Drone {
   id: string
+  callSign: string
   name: string
   model: string
   status: 'active' | 'idle' | 'charging' | 'maintenance'
@@ -44,13 +47,14 @@ interface Mission {
   priority: 'low' | 'normal' | 'high' | 'critical'
   area: [number, number][]
   assignedDrone: string
-  status: 'scheduled' | 'in_progress' | 'completed'
+  status: 'scheduled' | 'in_progress' | 'completed' | 'skipped'
   startTime: Date
   estimatedDuration: number
   altitude: number
   maxSpeed: number
   cameraMode: 'photo' | 'video' | 'thermal' | 'multispectral'
   notes: string
+  lastRun?: { status: string; skipReason: string | null }
 }
 
 interface BaseCamp {
@@ -70,6 +74,7 @@ interface BaseCamp {
 interface ActiveFlight {
   missionId: string
   droneId: string
+  callSign: string
   waypoints: [number, number][]
   currentWaypointIdx: number
   segmentProgress: number
@@ -121,25 +126,6 @@ const MAP_STYLE = {
   glyphs: 'https://demotiles.maplibre.org/font/{fontstack}/{range}.pbf',
 }
 
-const MOCK_BASE_CAMPS: BaseCamp[] = [
-  { id: 'BC-01', name: 'Akagera Station', codename: 'ALPHA', location: [30.47, -1.90], capacity: 4, chargingBays: { total: 6, inUse: 2 }, powerSource: 'solar', status: 'online', signalStrength: 95, temperature: 26, region: 'Eastern Province' },
-  { id: 'BC-02', name: 'Nyungwe Outpost', codename: 'BRAVO', location: [29.22, -2.48], capacity: 3, chargingBays: { total: 4, inUse: 1 }, powerSource: 'hybrid', status: 'online', signalStrength: 78, temperature: 18, region: 'Southern Province' },
-  { id: 'BC-03', name: 'Volcanoes Camp', codename: 'CHARLIE', location: [29.53, -1.47], capacity: 3, chargingBays: { total: 4, inUse: 0 }, powerSource: 'grid', status: 'online', signalStrength: 88, temperature: 14, region: 'Northern Province' },
-  { id: 'BC-04', name: 'Kigali Central Hub', codename: 'DELTA', location: [30.06, -1.94], capacity: 6, chargingBays: { total: 8, inUse: 3 }, powerSource: 'grid', status: 'online', signalStrength: 99, temperature: 24, region: 'Kigali City' },
-  { id: 'BC-05', name: 'Kayonza Field Base', codename: 'ECHO', location: [30.60, -1.88], capacity: 2, chargingBays: { total: 3, inUse: 1 }, powerSource: 'solar', status: 'low-power', signalStrength: 62, temperature: 28, region: 'Eastern Province' },
-]
-
-const MOCK_DRONES: Drone[] = [
-  { id: 'KD-001', name: 'Eagle Eye Alpha', model: 'DJI M300', status: 'active', battery: 87, altitude: 120, speed: 45, location: [29.87, -1.95], lastMission: 'Akagera Patrol', flightTime: 245, coverage: 12.5, heading: 45, baseCampId: 'BC-01' },
-  { id: 'KD-002', name: 'Forest Sentinel', model: 'DJI M350', status: 'active', battery: 62, altitude: 80, speed: 38, location: [29.20, -2.45], lastMission: 'Nyungwe Survey', flightTime: 189, coverage: 8.3, heading: 120, baseCampId: 'BC-02' },
-  { id: 'KD-003', name: 'Gorilla Guardian', model: 'Autel EVO II', status: 'idle', battery: 100, altitude: 0, speed: 0, location: [29.53, -1.47], lastMission: 'Volcanoes Monitor', flightTime: 156, coverage: 6.7, heading: 0, baseCampId: 'BC-03' },
-  { id: 'KD-004', name: 'Crop Hawk', model: 'DJI Mavic 3', status: 'charging', battery: 45, altitude: 0, speed: 0, location: [30.15, -2.12], lastMission: 'Farm Health Check', flightTime: 312, coverage: 15.8, heading: 0, baseCampId: 'BC-04' },
-  { id: 'KD-005', name: 'Land Scanner', model: 'Parrot Anafi', status: 'active', battery: 73, altitude: 130, speed: 35, location: [30.60, -1.88], lastMission: 'Kayonza Mapping', flightTime: 278, coverage: 11.2, heading: 220, baseCampId: 'BC-05' },
-  { id: 'KD-006', name: 'Urban Eye', model: 'DJI Phantom 4', status: 'idle', battery: 100, altitude: 0, speed: 0, location: [30.06, -1.94], lastMission: 'Kigali Survey', flightTime: 203, coverage: 9.4, heading: 0, baseCampId: 'BC-04' },
-  { id: 'KD-007', name: 'Night Owl', model: 'DJI Matrice 30', status: 'maintenance', battery: 0, altitude: 0, speed: 0, location: [29.87, -1.95], lastMission: 'Maintenance', flightTime: 412, coverage: 18.9, heading: 0, baseCampId: 'BC-04' },
-  { id: 'KD-008', name: 'Sky Relay', model: 'Custom Relay', status: 'active', battery: 92, altitude: 500, speed: 0, location: [29.87, -1.94], lastMission: 'Communication Hub', flightTime: 523, coverage: 25.0, heading: 90, baseCampId: 'BC-01' },
-]
-
 const STATUS_CONFIG: Record<string, { color: string; bg: string; label: string; icon: any }> = {
   active: { color: '#00DD66', bg: 'bg-green-500/20', label: 'ACTIVE', icon: Activity },
   idle: { color: '#00AAFF', bg: 'bg-blue-500/20', label: 'STANDBY', icon: Clock },
@@ -201,6 +187,34 @@ function calcHeading(from: [number, number], to: [number, number]): number {
   return (angle + 360) % 360
 }
 
+function toDrone(d: any): Drone {
+  return {
+    id: d.id, callSign: d.callSign, name: d.name, model: d.model,
+    status: d.status.toLowerCase(), battery: d.battery, altitude: d.altitude, speed: d.speed,
+    location: [d.longitude, d.latitude], lastMission: d.lastMission || '', flightTime: d.flightTime,
+    coverage: d.coverage, heading: d.heading, baseCampId: d.baseCampId || '',
+  }
+}
+
+function toBaseCamp(c: any): BaseCamp {
+  return {
+    id: c.id, name: c.name, codename: c.codename, location: [c.longitude, c.latitude], capacity: c.capacity,
+    chargingBays: { total: c.chargingBaysTotal, inUse: c.chargingBaysInUse }, powerSource: c.powerSource,
+    status: c.status === 'LOW_POWER' ? 'low-power' : c.status.toLowerCase(),
+    signalStrength: c.signalStrength ?? 0, temperature: c.temperature ?? 0, region: c.region,
+  }
+}
+
+function toMission(m: any): Mission {
+  return {
+    id: m.id, name: m.name, type: m.type, schedule: m.schedule, priority: m.priority,
+    area: JSON.parse(m.area), assignedDrone: m.droneId || '', status: m.status.toLowerCase(),
+    startTime: new Date(m.nextRunAt || m.startTime), estimatedDuration: m.estimatedDuration, altitude: m.altitude,
+    maxSpeed: m.maxSpeed, cameraMode: m.cameraMode, notes: m.notes || '',
+    lastRun: m.runs?.[0] ? { status: m.runs[0].status, skipReason: m.runs[0].skipReason } : undefined,
+  }
+}
+
 function formatCountdown(ms: number): string {
   if (ms <= 0) return 'T-00:00'
   const totalSec = Math.floor(ms / 1000)
@@ -297,7 +311,7 @@ function CameraFeed({ drone, flight }: { drone: Drone | null; flight: ActiveFlig
         <span className="text-xs text-red-400 font-mono font-bold">REC</span>
         <span className="text-[10px] text-white/30 font-mono ml-2">{new Date().toLocaleTimeString('en-US', { hour12: false })}</span>
       </div>
-      <div className="absolute top-3 right-3 text-[10px] font-mono" style={{ color: `${OCEAN}CC` }}>{drone.id} / {drone.name}</div>
+      <div className="absolute top-3 right-3 text-[10px] font-mono" style={{ color: `${OCEAN}CC` }}>{drone.callSign} / {drone.name}</div>
       <div className="absolute bottom-0 left-0 right-0 bg-black/80 backdrop-blur-sm px-4 py-2.5 flex items-center justify-between text-[10px] font-mono border-t border-white/5">
         <span className="text-green-400">ALT {flight.telemetry.altitude.toFixed(0)}m</span>
         <span style={{ color: OCEAN }}>SPD {flight.telemetry.speed.toFixed(1)} km/h</span>
@@ -342,7 +356,8 @@ function StatusDot({ status }: { status: string }) {
 export default function DroneControlCenter() {
   const router = useRouter()
   const [activeTab, setActiveTab] = useState<'planner' | 'fleet' | 'live' | 'basecamps'>('planner')
-  const [drones, setDrones] = useState<Drone[]>(MOCK_DRONES)
+  const [drones, setDrones] = useState<Drone[]>([])
+  const [baseCamps, setBaseCamps] = useState<BaseCamp[]>([])
   const [selectedDrone, setSelectedDrone] = useState<string | null>(null)
   const [drawMode, setDrawMode] = useState<'view' | 'polygon'>('view')
   const [drawingPoints, setDrawingPoints] = useState<[number, number][]>([])
@@ -362,6 +377,27 @@ export default function DroneControlCenter() {
     cameraMode: 'photo' as Mission['cameraMode'], notes: '',
   })
 
+  // Keep the latest fleet visible to the simulation loop, which is created once on mount
+  const dronesRef = useRef<Drone[]>([])
+  dronesRef.current = drones
+  // Missions currently animated locally, so server echoes don't launch a second flight
+  const flyingRef = useRef<Set<string>>(new Set())
+
+  // ── FLEET DATA ──
+  useEffect(() => {
+    const fetchFleet = async () => {
+      const [droneRes, campRes, missionRes] = await Promise.allSettled([
+        api.getDrones(),
+        api.getBaseCamps(),
+        api.getMissions()
+      ])
+      if (droneRes.status === 'fulfilled') setDrones(droneRes.value.data.drones.map(toDrone))
+      if (campRes.status === 'fulfilled') setBaseCamps(campRes.value.data.baseCamps.map(toBaseCamp))
+      if (missionRes.status === 'fulfilled') setMissions(missionRes.value.data.missions.map(toMission))
+    }
+    fetchFleet()
+  }, [])
+
   // ── CLOCK ──
   useEffect(() => {
     const iv = setInterval(() => setNow(Date.now()), 1000)
@@ -371,30 +407,17 @@ export default function DroneControlCenter() {
   // ── FLIGHT SIMULATION ENGINE ──
   useEffect(() => {
     const simInterval = setInterval(() => {
-      setMissions(prev => prev.map(m => {
-        if (m.status === 'scheduled' && m.startTime.getTime() <= Date.now()) {
-          launchMission(m)
-          return { ...m, status: 'in_progress' as const }
-        }
-        return m
-      }))
-
       setActiveFlights(prev => {
         const updated = new globalThis.Map(prev)
         let changed = false
-        updated.forEach((flight, missionId) => {
+        updated.forEach(flight => {
           const wps = flight.waypoints
           if (wps.length < 2) return
           const newProgress = flight.segmentProgress + 0.008
           if (newProgress >= 1) {
+            // The run ends when the server says so; until then keep flying the circuit
             const nextIdx = flight.currentWaypointIdx + 1
-            if (nextIdx >= wps.length - 1) {
-              completeMission(missionId, flight.droneId)
-              updated.delete(missionId)
-              changed = true
-              return
-            }
-            flight.currentWaypointIdx = nextIdx
+            flight.currentWaypointIdx = nextIdx >= wps.length - 1 ? 0 : nextIdx
             flight.segmentProgress = 0
           } else {
             flight.segmentProgress = newProgress
@@ -422,7 +445,7 @@ export default function DroneControlCenter() {
             const msg = MISSION_EVENTS[Math.floor(Math.random() * MISSION_EVENTS.length)]
             const evt: LiveEvent = { id: `evt-${Date.now()}-${Math.random()}`, timestamp: new Date(),
               type: Math.random() > 0.8 ? 'warning' : Math.random() > 0.5 ? 'success' : 'info',
-              message: `[${flight.droneId}] ${msg}` }
+              message: `[${flight.callSign}] ${msg}` }
             flight.events = [...flight.events.slice(-20), evt]
             setLiveEvents(prev => [...prev.slice(-30), evt])
           }
@@ -435,50 +458,98 @@ export default function DroneControlCenter() {
   }, [])
 
   const launchMission = useCallback((mission: Mission) => {
-    if (!mission.assignedDrone || mission.area.length < 2) return
-    const drone = drones.find(d => d.id === mission.assignedDrone)
+    if (!mission.assignedDrone || mission.area.length < 2 || flyingRef.current.has(mission.id)) return
+    const drone = dronesRef.current.find(d => d.id === mission.assignedDrone)
     if (!drone) return
+    flyingRef.current.add(mission.id)
     const waypoints: [number, number][] = [drone.location, ...mission.area, mission.area[0], drone.location]
     const newFlight: ActiveFlight = {
-      missionId: mission.id, droneId: mission.assignedDrone, waypoints,
+      missionId: mission.id, droneId: mission.assignedDrone, callSign: drone.callSign, waypoints,
       currentWaypointIdx: 0, segmentProgress: 0, totalProgress: 0, startedAt: Date.now(),
       telemetry: { altitude: 0, speed: 0, battery: drone.battery, heading: 0, distanceTraveled: 0, gpsLat: drone.location[1], gpsLng: drone.location[0] },
       trail: [drone.location],
-      events: [{ id: `evt-launch-${Date.now()}`, timestamp: new Date(), type: 'success', message: `[${mission.assignedDrone}] Mission "${mission.name}" launched` }]
+      events: [{ id: `evt-launch-${Date.now()}`, timestamp: new Date(), type: 'success', message: `[${drone.callSign}] Mission "${mission.name}" launched` }]
     }
     setActiveFlights(prev => new globalThis.Map(prev).set(mission.id, newFlight))
     setWatchingDrone(mission.assignedDrone)
     setLiveEvents(prev => [...prev, newFlight.events[0]])
     setActiveTab('live')
-  }, [drones])
+  }, [])
 
-  const completeMission = useCallback((missionId: string, droneId: string) => {
-    setMissions(prev => prev.map(m => m.id === missionId ? { ...m, status: 'completed' as const } : m))
+  const landDrone = useCallback((missionId: string, droneId: string, callSign: string) => {
+    flyingRef.current.delete(missionId)
+    setActiveFlights(prev => { const n = new globalThis.Map(prev); n.delete(missionId); return n })
     setDrones(prev => prev.map(d => d.id === droneId ? { ...d, status: 'idle' as const, speed: 0, altitude: 0 } : d))
-    setLiveEvents(prev => [...prev.slice(-30), { id: `evt-complete-${Date.now()}`, timestamp: new Date(), type: 'success' as const, message: `[${droneId}] Mission complete - RTB` }])
+    setLiveEvents(prev => [...prev.slice(-30), { id: `evt-complete-${Date.now()}`, timestamp: new Date(), type: 'success' as const, message: `[${callSign}] Mission complete - RTB` }])
   }, [])
 
-  const handleLaunchNow = useCallback((mission: Mission) => {
-    const updated = { ...mission, startTime: new Date(Date.now() - 1000), status: 'in_progress' as const }
-    setMissions(prev => prev.map(m => m.id === mission.id ? updated : m))
-    launchMission(updated)
-  }, [launchMission])
+  // Server state is authoritative: the scheduler launches and completes runs, the map just follows
+  const applyMissionUpdate = useCallback((raw: any) => {
+    const mission = toMission(raw)
+    setMissions(prev => prev.some(m => m.id === mission.id)
+      ? prev.map(m => m.id === mission.id ? mission : m)
+      : [...prev, mission])
+    if (mission.status === 'in_progress') {
+      launchMission(mission)
+    } else if (flyingRef.current.has(mission.id)) {
+      landDrone(mission.id, mission.assignedDrone, raw.drone?.callSign || mission.assignedDrone)
+    }
+  }, [launchMission, landDrone])
+
+  // A recall ends the run on the server; the drone lands when the update comes back
+  const recallMission = useCallback((missionId: string) => {
+    api.updateMissionStatus(missionId, 'COMPLETED')
+      .then(res => applyMissionUpdate(res.data.mission))
+      .catch(err => console.error('Failed to recall mission:', err))
+  }, [applyMissionUpdate])
+
+  // ── LIVE MISSION STATE ──
+  useEffect(() => {
+    const socket = getSocket()
+    const subscribe = () => socket.emit('subscribe:missions')
+    const handleMissionUpdate = (raw: any) => {
+      applyMissionUpdate(raw)
+      const run = raw.runs?.[0]
+      if (run?.status === 'SKIPPED') {
+        const evt: LiveEvent = { id: `evt-skip-${run.id}`, timestamp: new Date(), type: 'alert',
+          message: `[${raw.drone?.callSign || 'UNASSIGNED'}] Launch of "${raw.name}" skipped - ${run.skipReason}` }
+        setLiveEvents(prev => prev.some(e => e.id === evt.id) ? prev : [...prev.slice(-30), evt])
+      }
+    }
+    subscribe()
+    socket.on('connect', subscribe)
+    socket.on('mission:updated', handleMissionUpdate)
+    return () => {
+      socket.off('connect', subscribe)
+      socket.off('mission:updated', handleMissionUpdate)
+    }
+  }, [applyMissionUpdate])
+
+  const handleLaunchNow = useCallback(async (mission: Mission) => {
+    try {
+      const res = await api.updateMissionStatus(mission.id, 'IN_PROGRESS')
+      applyMissionUpdate(res.data.mission)
+    } catch (error: any) {
+      console.error('Failed to launch mission:', error)
+      alert(error.response?.data?.message || 'Failed to launch mission')
+    }
+  }, [applyMissionUpdate])
 
   const handleRecallDrone = useCallback((droneId: string) => {
-    // Find active flight for this drone and complete it
+    const callSign = drones.find(d => d.id === droneId)?.callSign || droneId
+    // Find active flight for this drone and end its run
     activeFlights.forEach((flight, missionId) => {
       if (flight.droneId === droneId) {
-        completeMission(missionId, droneId)
-        setActiveFlights(prev => { const n = new globalThis.Map(prev); n.delete(missionId); return n })
+        recallMission(missionId)
       }
     })
-    setLiveEvents(prev => [...prev.slice(-30), { id: `evt-recall-${Date.now()}`, timestamp: new Date(), type: 'warning' as const, message: `[${droneId}] RECALL issued - drone returning to base` }])
-  }, [activeFlights, completeMission])
+    setLiveEvents(prev => [...prev.slice(-30), { id: `evt-recall-${Date.now()}`, timestamp: new Date(), type: 'warning' as const, message: `[${callSign}] RECALL issued - drone returning to base` }])
+  }, [drones, activeFlights, recallMission])
 
-  const handleQuickLaunch = useCallback((droneId: string) => {
+  const handleQuickLaunch = useCallback(async (droneId: string) => {
     const drone = drones.find(d => d.id === droneId)
     if (!drone || drone.status === 'maintenance' || drone.battery < 20) return
-    const camp = MOCK_BASE_CAMPS.find(c => c.id === drone.baseCampId)
+    const camp = baseCamps.find(c => c.id === drone.baseCampId)
     if (!camp) return
     // Create a quick patrol mission around the base camp
     const offset = 0.05
@@ -488,15 +559,18 @@ export default function DroneControlCenter() {
       [camp.location[0] + offset, camp.location[1] + offset],
       [camp.location[0] - offset, camp.location[1] + offset],
     ]
-    const quickMission: Mission = {
-      id: `QM-${Date.now()}`, name: `Quick Patrol - ${camp.codename}`,
-      type: 'patrol', schedule: 'once', priority: 'normal', area, assignedDrone: droneId,
-      status: 'in_progress', startTime: new Date(), estimatedDuration: 30,
-      altitude: 120, maxSpeed: 45, cameraMode: 'video', notes: 'Auto-generated quick patrol',
+    try {
+      const res = await api.createMission({
+        name: `Quick Patrol - ${camp.codename}`, type: 'patrol', schedule: 'once', priority: 'normal',
+        area, droneId, estimatedDuration: 30, altitude: 120, maxSpeed: 45, cameraMode: 'video',
+        notes: 'Auto-generated quick patrol', launchNow: true,
+      })
+      applyMissionUpdate(res.data.mission)
+    } catch (error: any) {
+      console.error('Failed to launch quick patrol:', error)
+      alert(error.response?.data?.message || 'Failed to launch quick patrol')
     }
-    setMissions(prev => [...prev, quickMission])
-    launchMission(quickMission)
-  }, [drones, launchMission])
+  }, [drones, baseCamps, applyMissionUpdate])
 
   // ── MAP HANDLERS ──
   const handleMapClick = (e: any) => {
@@ -511,13 +585,13 @@ export default function DroneControlCenter() {
     setShowMissionForm(true)
   }
 
-  const createMission = (launchNow = false) => {
+  const createMission = async (launchNow = false) => {
     if (!missionForm.name || !missionForm.assignedDrone) return
     if (!launchNow && !missionForm.startTime) return
     let area = drawingPoints
     if (area.length < 3) {
       const drone = drones.find(d => d.id === missionForm.assignedDrone)
-      const camp = drone ? MOCK_BASE_CAMPS.find(c => c.id === drone.baseCampId) : null
+      const camp = drone ? baseCamps.find(c => c.id === drone.baseCampId) : null
       if (camp) {
         const off = 0.05
         area = [
@@ -528,33 +602,37 @@ export default function DroneControlCenter() {
         ]
       } else return
     }
-    const newMission: Mission = {
-      id: `M-${Date.now()}`, name: missionForm.name, type: missionForm.type,
-      schedule: missionForm.schedule, priority: missionForm.priority, area,
-      assignedDrone: missionForm.assignedDrone,
-      status: launchNow ? 'in_progress' : 'scheduled',
-      startTime: launchNow ? new Date() : new Date(missionForm.startTime),
-      estimatedDuration: missionForm.estimatedDuration,
-      altitude: missionForm.altitude, maxSpeed: missionForm.maxSpeed,
-      cameraMode: missionForm.cameraMode, notes: missionForm.notes,
+    try {
+      const res = await api.createMission({
+        name: missionForm.name, type: missionForm.type,
+        schedule: missionForm.schedule, priority: missionForm.priority, area,
+        droneId: missionForm.assignedDrone,
+        startTime: launchNow ? undefined : new Date(missionForm.startTime).toISOString(),
+        estimatedDuration: missionForm.estimatedDuration,
+        altitude: missionForm.altitude, maxSpeed: missionForm.maxSpeed,
+        cameraMode: missionForm.cameraMode, notes: missionForm.notes, launchNow,
+      })
+      applyMissionUpdate(res.data.mission)
+    } catch (error: any) {
+      console.error('Failed to create mission:', error)
+      alert(error.response?.data?.message || 'Failed to create mission')
+      return
     }
-    setMissions(prev => [...prev, newMission])
     setShowMissionForm(false)
     setDrawingPoints([])
     setMissionForm({ name: '', type: 'surveillance', schedule: 'once', priority: 'normal',
       assignedDrone: '', startTime: '', estimatedDuration: 60, altitude: 120,
       maxSpeed: 45, cameraMode: 'photo', notes: '' })
-    if (launchNow) launchMission(newMission)
   }
 
   // ── STATS ──
   const stats = useMemo(() => ({
     total: drones.length,
     active: drones.filter(d => d.status === 'active').length,
-    avgBattery: Math.round(drones.reduce((s, d) => s + d.battery, 0) / drones.length),
+    avgBattery: drones.length > 0 ? Math.round(drones.reduce((s, d) => s + d.battery, 0) / drones.length) : 0,
     totalCoverage: drones.reduce((s, d) => s + d.coverage, 0).toFixed(1),
-    campsOnline: MOCK_BASE_CAMPS.filter(c => c.status === 'online').length,
-  }), [drones])
+    campsOnline: baseCamps.filter(c => c.status === 'online').length,
+  }), [drones, baseCamps])
 
   const watchedFlight = watchingDrone ? Array.from(activeFlights.values()).find(f => f.droneId === watchingDrone) || null : null
   const watchedDrone = watchingDrone ? drones.find(d => d.id === watchingDrone) || null : null
@@ -682,7 +760,7 @@ export default function DroneControlCenter() {
                 ))}
 
                 {/* Base Camp Markers on Map */}
-                {MOCK_BASE_CAMPS.map(camp => (
+                {baseCamps.map(camp => (
                   <Marker key={camp.id} longitude={camp.location[0]} latitude={camp.location[1]}>
                     <div className="relative group cursor-pointer">
                       <div className="w-7 h-7 rounded-md flex items-center justify-center border" style={{
@@ -711,7 +789,7 @@ export default function DroneControlCenter() {
                           <Plane className="w-4 h-4" style={{ color: sc.color }} />
                         </div>
                         <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-2 py-1 bg-[#0D1B2E]/95 border rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap z-10" style={{ borderColor: `${OCEAN}30` }}>
-                          <p className="text-[10px] text-white font-mono font-bold">{drone.id} - {drone.name}</p>
+                          <p className="text-[10px] text-white font-mono font-bold">{drone.callSign} - {drone.name}</p>
                           <p className="text-[9px] font-mono" style={{ color: `${OCEAN}CC` }}>{drone.battery.toFixed(0)}% &bull; {drone.altitude.toFixed(0)}m &bull; {drone.speed.toFixed(0)}km/h</p>
                         </div>
                       </button>
@@ -806,7 +884,7 @@ export default function DroneControlCenter() {
                             </div>
                           </div>
                           <div className="space-y-1 text-[10px] font-mono">
-                            <div className="flex justify-between"><span style={{ color: `${OCEAN}50` }}>Drone</span><span className="text-white/70">{assignedDrone ? `${mission.assignedDrone} · ${assignedDrone.model}` : mission.assignedDrone}</span></div>
+                            <div className="flex justify-between"><span style={{ color: `${OCEAN}50` }}>Drone</span><span className="text-white/70">{assignedDrone ? `${assignedDrone.callSign} · ${assignedDrone.model}` : 'Unassigned'}</span></div>
                             <div className="flex justify-between"><span style={{ color: `${OCEAN}50` }}>Schedule</span><span className="text-white/70">{mission.schedule} · {mission.estimatedDuration}min</span></div>
                             <div className="flex justify-between"><span style={{ color: `${OCEAN}50` }}>Flight</span><span className="text-white/70">{mission.altitude}m ALT · {mission.maxSpeed}km/h</span></div>
                             <div className="flex justify-between"><span style={{ color: `${OCEAN}50` }}>Camera</span><span style={{ color: CAMERA_MODE_CONFIG[mission.cameraMode]?.color || OCEAN }}>{CAMERA_MODE_CONFIG[mission.cameraMode]?.label || mission.cameraMode}</span></div>
@@ -817,7 +895,12 @@ export default function DroneControlCenter() {
                               <span className="text-sm font-bold text-yellow-300 font-mono animate-pulse">{formatCountdown(timeUntil)}</span>
                             </div>
                           )}
-                          {mission.status === 'scheduled' && (
+                          {(mission.status === 'scheduled' || mission.status === 'skipped') && mission.lastRun?.status === 'SKIPPED' && (
+                            <div className="mt-2 flex items-start gap-2 rounded-lg px-3 py-2 border border-red-500/20 bg-red-500/5 text-[10px] font-mono text-red-300/80">
+                              <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />Last launch skipped: {mission.lastRun.skipReason}
+                            </div>
+                          )}
+                          {(mission.status === 'scheduled' || mission.status === 'skipped') && (
                             <motion.button whileTap={{ scale: 0.95 }} onClick={() => handleLaunchNow(mission)}
                               className="mt-2 w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-green-500/10 border border-green-500/30 text-green-300 font-mono text-xs hover:bg-green-500/15 transition-all">
                               <Rocket className="w-3.5 h-3.5" />LAUNCH NOW
@@ -884,7 +967,7 @@ export default function DroneControlCenter() {
                   const sc = STATUS_CONFIG[drone.status]
                   const StatusIcon = sc.icon
                   const isFlying = Array.from(activeFlights.values()).some(f => f.droneId === drone.id)
-                  const camp = MOCK_BASE_CAMPS.find(c => c.id === drone.baseCampId)
+                  const camp = baseCamps.find(c => c.id === drone.baseCampId)
                   return (
                     <motion.div key={drone.id} initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: idx * 0.05 }}>
                       <GlassPanel glow={isFlying} className={`p-4 group hover:!border-[${OCEAN}]/40 transition-all ${isFlying ? '!border-green-500/30' : ''}`}>
@@ -899,7 +982,7 @@ export default function DroneControlCenter() {
                             </span>
                           </div>
                         </div>
-                        <h3 className="font-bold text-white text-sm mb-0.5">{drone.id}</h3>
+                        <h3 className="font-bold text-white text-sm mb-0.5">{drone.callSign}</h3>
                         <p className="text-xs font-mono mb-0.5" style={{ color: `${OCEAN}99` }}>{drone.name}</p>
                         <p className="text-[10px] font-mono mb-3" style={{ color: `${OCEAN}40` }}>{drone.model} &middot; {camp?.codename || 'Unassigned'}</p>
                         <div className="space-y-2">
@@ -982,7 +1065,7 @@ export default function DroneControlCenter() {
                     style={{ borderBottomColor: `${OCEAN}10`, borderLeftColor: watchingDrone === drone.id ? OCEAN : 'transparent', backgroundColor: watchingDrone === drone.id ? `${OCEAN}10` : undefined }}>
                     <div className="flex items-center gap-2">
                       <StatusDot status={isFlying ? 'active' : drone.status} />
-                      <span className="text-xs font-mono text-white font-bold">{drone.id}</span>
+                      <span className="text-xs font-mono text-white font-bold">{drone.callSign}</span>
                     </div>
                     <p className="text-[10px] font-mono mt-0.5 ml-4" style={{ color: `${OCEAN}60` }}>{drone.name}</p>
                     {isFlying && <p className="text-[9px] text-green-400 font-mono mt-0.5 ml-4">IN FLIGHT</p>}
@@ -1067,7 +1150,7 @@ export default function DroneControlCenter() {
             <div className="flex-1 relative">
               <MapGL initialViewState={{ longitude: 29.8739, latitude: -1.9403, zoom: 7.5 }}
                 style={{ width: '100%', height: '100%' }} mapStyle={MAP_STYLE}>
-                {MOCK_BASE_CAMPS.map(camp => {
+                {baseCamps.map(camp => {
                   const cs = CAMP_STATUS_CONFIG[camp.status]
                   const campDrones = drones.filter(d => d.baseCampId === camp.id)
                   const isSelected = selectedCamp === camp.id
@@ -1129,12 +1212,12 @@ export default function DroneControlCenter() {
                   <Building2 className="w-4 h-4" />DRONE BASE CAMPS
                 </h3>
                 <p className="text-[10px] font-mono mt-1" style={{ color: `${OCEAN}50` }}>
-                  {MOCK_BASE_CAMPS.length} stations &middot; {MOCK_BASE_CAMPS.filter(c => c.status === 'online').length} online
+                  {baseCamps.length} stations &middot; {baseCamps.filter(c => c.status === 'online').length} online
                 </p>
               </div>
 
               <div className="p-4 space-y-4">
-                {MOCK_BASE_CAMPS.map((camp, idx) => {
+                {baseCamps.map((camp, idx) => {
                   const cs = CAMP_STATUS_CONFIG[camp.status]
                   const campDrones = drones.filter(d => d.baseCampId === camp.id)
                   const isExpanded = selectedCamp === camp.id
@@ -1227,7 +1310,7 @@ export default function DroneControlCenter() {
                                           <div className="flex items-center gap-2.5">
                                             <StatusDot status={drone.status} />
                                             <div>
-                                              <p className="text-xs font-mono text-white font-bold">{drone.id}</p>
+                                              <p className="text-xs font-mono text-white font-bold">{drone.callSign}</p>
                                               <p className="text-[9px] font-mono" style={{ color: `${OCEAN}60` }}>{drone.name}</p>
                                             </div>
                                           </div>
@@ -1388,10 +1471,10 @@ export default function DroneControlCenter() {
                       style={{ borderColor: `${OCEAN}25`, '--tw-ring-color': `${OCEAN}40` } as any}>
                       <option value="">-- Choose a drone --</option>
                       {drones.filter(d => d.status !== 'maintenance').map(d => {
-                        const camp = MOCK_BASE_CAMPS.find(c => c.id === d.baseCampId)
+                        const camp = baseCamps.find(c => c.id === d.baseCampId)
                         return (
                           <option key={d.id} value={d.id}>
-                            {d.id} — {d.name} ({d.model} · {d.battery}% · {STATUS_CONFIG[d.status].label} · {camp?.codename || '?'})
+                            {d.callSign} — {d.name} ({d.model} · {d.battery}% · {STATUS_CONFIG[d.status].label} · {camp?.codename || '?'})
                           </option>
                         )
                       })}
@@ -1401,7 +1484,7 @@ export default function DroneControlCenter() {
                     {missionForm.assignedDrone && (() => {
                       const drone = drones.find(d => d.id === missionForm.assignedDrone)
                       if (!drone) return null
-                      const camp = MOCK_BASE_CAMPS.find(c => c.id === drone.baseCampId)
+                      const camp = baseCamps.find(c => c.id === drone.baseCampId)
                       const sc = STATUS_CONFIG[drone.status]
                       const isFlying = Array.from(activeFlights.values()).some(f => f.droneId === drone.id)
                       return (
@@ -10,6 +10,8 @@ interface User {
   lastName: string
   role: string
   status?: string
+  emailVerifiedAt?: string | null
+  twoFactorEnabled?: boolean
   businessType?: 'B2B' | 'B2C'
   services?: string[]
   organization?: string
@@ -20,6 +22,8 @@ interface User {
   phone?: string
   location?: string
   language?: string
+  permissions?: string[]
+  memberships?: { role: string; organization: { id: string; name: string; slug: string } }[]
 }
 
 interface RegisterData {
@@ -35,14 +39,23 @@ interface RegisterData {
   industry?: string
 }
 
+// Set when the password was accepted but a second factor is still needed
+interface LoginChallenge {
+  twoFactorRequired?: boolean
+  twoFactorSetupRequired?: boolean
+  challengeToken?: string
+}
+
 interface AuthContextType {
   user: User | null
   isLoading: boolean
   isAuthenticated: boolean
-  login: (email: string, password: string) => Promise<void>
+  login: (email: string, password: string) => Promise<LoginChallenge | null>
+  completeLogin: (user: User) => void
   register: (data: RegisterData) => Promise<void>
   logout: () => void
   updateUser: (userData: Partial<User>) => void
+  hasPermission: (permission: string) => boolean
 }
 
 const AuthContext = createContext<AuthContextType | null>(null)
@@ -58,6 +71,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         .then(res => setUser(res.data.user))
         .catch(() => {
           localStorage.removeItem('kube_token')
+          localStorage.removeItem('kube_refresh_token')
           setUser(null)
         })
         .finally(() => setIsLoading(false))
@@ -68,7 +82,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const login = useCallback(async (email: string, password: string) => {
     const res = await api.login(email, password)
+    if (!res.data.token) return res.data as LoginChallenge
     setUser(res.data.user)
+    return null
+  }, [])
+
+  // Second factor accepted; tokens are already stored by the api client
+  const completeLogin = useCallback((loggedInUser: User) => {
+    setUser(loggedInUser)
   }, [])
 
   const register = useCallback(async (data: RegisterData) => {
@@ -77,26 +98,31 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, [])
 
   const logout = useCallback(() => {
-    localStorage.removeItem('kube_token')
     setUser(null)
-    if (typeof window !== 'undefined') {
-      window.location.href = '/login'
-    }
+    // Revokes the session server-side, clears stored tokens and redirects
+    api.logout()
   }, [])
 
   const updateUser = useCallback((userData: Partial<User>) => {
     setUser(prev => prev ? { ...prev, ...userData } : null)
   }, [])
 
+  // Permissions come from the user's role; the server enforces them regardless
+  const hasPermission = useCallback((permission: string) => {
+    return !!user?.permissions?.includes(permission)
+  }, [user])
+
   return (
     <AuthContext.Provider value={{
       user,
       isLoading,
       isAuthenticated: !!user,
       login,
+      completeLogin,
       register,
       logout,
       updateUser,
+      hasPermission,
     }}>
       {children}
     </AuthContext.Provider>
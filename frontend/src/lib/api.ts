@@ -3,12 +3,18 @@
  * Handles all API requests with authentication
  */
 
-import axios, { AxiosInstance, AxiosResponse } from 'axios'
+import axios, { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios'
+import { reconnectSocket } from './socket'
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api'
 
+// A 401 from these is a rejected credential, not an expired access token
+const NO_REFRESH_URLS = ['/auth/refresh', '/auth/login', '/auth/2fa/verify']
+
 class ApiClient {
   private client: AxiosInstance
+  // Shared so concurrent 401s spend the refresh token only once
+  private refreshing: Promise<string | null> | null = null
 
   constructor() {
     this.client = axios.create({
@@ -30,8 +36,22 @@ class ApiClient {
     // Add response interceptor for error handling
     this.client.interceptors.response.use(
       (response) => response,
-      (error) => {
-        if (error.response?.status === 401) {
+      async (error) => {
+        const original = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined
+
+        if (error.response?.status === 401 && original && !original._retried && !NO_REFRESH_URLS.includes(original.url || '')) {
+          // Access token expired: rotate the refresh token and retry once
+          original._retried = true
+          const token = await this.refreshAccessToken()
+          if (token) {
+            original.headers.Authorization = `Bearer ${token}`
+            return this.client(original)
+          }
+        }
+
+        // A rejected login or two-factor code is not an expired session
+        const isCredentialCheck = original?.url?.startsWith('/auth/login') || original?.url?.startsWith('/auth/2fa')
+        if (error.response?.status === 401 && !isCredentialCheck) {
           // Token expired or invalid
           this.clearToken()
           if (typeof window !== 'undefined') {
@@ -43,6 +63,26 @@ class ApiClient {
     )
   }
 
+  private refreshAccessToken(): Promise<string | null> {
+    const refreshToken = this.getRefreshToken()
+    if (!refreshToken) return Promise.resolve(null)
+
+    if (!this.refreshing) {
+      this.refreshing = this.client.post('/auth/refresh', { refreshToken })
+        .then(response => {
+          this.setTokens(response.data.data)
+          // The socket authenticated with the old token; hand it the new one
+          reconnectSocket()
+          return response.data.data.token as string
+        })
+        .catch(() => null)
+        .finally(() => {
+          this.refreshing = null
+        })
+    }
+    return this.refreshing
+  }
+
   // Token management
   private getToken(): string | null {
     if (typeof window !== 'undefined') {
@@ -51,15 +91,24 @@ class ApiClient {
     return null
   }
 
-  private setToken(token: string): void {
+  private getRefreshToken(): string | null {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem('kube_refresh_token')
+    }
+    return null
+  }
+
+  private setTokens({ token, refreshToken }: { token?: string; refreshToken?: string }): void {
     if (typeof window !== 'undefined') {
-      localStorage.setItem('kube_token', token)
+      if (token) localStorage.setItem('kube_token', token)
+      if (refreshToken) localStorage.setItem('kube_refresh_token', refreshToken)
     }
   }
 
   private clearToken(): void {
     if (typeof window !== 'undefined') {
       localStorage.removeItem('kube_token')
+      localStorage.removeItem('kube_refresh_token')
     }
   }
 
@@ -67,7 +116,7 @@ class ApiClient {
   async login(email: string, password: string) {
     const response = await this.client.post('/auth/login', { email, password })
     if (response.data.data.token) {
-      this.setToken(response.data.data.token)
+      this.setTokens(response.data.data)
     }
     return response.data
   }
@@ -75,7 +124,7 @@ class ApiClient {
   async register(data: any) {
     const response = await this.client.post('/auth/register', data)
     if (response.data.data.token) {
-      this.setToken(response.data.data.token)
+      this.setTokens(response.data.data)
     }
     return response.data
   }
@@ -95,10 +144,89 @@ class ApiClient {
       currentPassword,
       newPassword
     })
+    // Every other session was signed out; this one continues on the new tokens
+    if (response.data.data?.token) {
+      this.setTokens(response.data.data)
+    }
+    return response.data
+  }
+
+  async forgotPassword(email: string) {
+    const response = await this.client.post('/auth/forgot-password', { email })
+    return response.data
+  }
+
+  async resetPassword(token: string, password: string) {
+    const response = await this.client.post('/auth/reset-password', { token, password })
+    return response.data
+  }
+
+  async verifyEmail(token: string) {
+    const response = await this.client.post('/auth/verify-email', { token })
+    return response.data
+  }
+
+  async resendVerification() {
+    const response = await this.client.post('/auth/resend-verification')
+    return response.data
+  }
+
+  // Two-factor authentication
+  async verifyTwoFactorLogin(challengeToken: string, code: string) {
+    const response = await this.client.post('/auth/2fa/verify', { challengeToken, code })
+    this.setTokens(response.data.data)
+    return response.data
+  }
+
+  async getTwoFactorStatus() {
+    const response = await this.client.get('/auth/2fa')
+    return response.data
+  }
+
+  // challengeToken is only passed when enrolling during login
+  async setupTwoFactor(challengeToken?: string) {
+    const response = await this.client.post('/auth/2fa/setup', challengeToken ? { challengeToken } : {})
+    return response.data
+  }
+
+  async enableTwoFactor(code: string, challengeToken?: string) {
+    const response = await this.client.post('/auth/2fa/enable', challengeToken ? { code, challengeToken } : { code })
+    if (response.data.data?.token) {
+      this.setTokens(response.data.data)
+    }
     return response.data
   }
 
-  logout() {
+  async disableTwoFactor(password: string, code: string) {
+    const response = await this.client.post('/auth/2fa/disable', { password, code })
+    return response.data
+  }
+
+  async regenerateRecoveryCodes(code: string) {
+    const response = await this.client.post('/auth/2fa/recovery-codes', { code })
+    return response.data
+  }
+
+  async getMySessions() {
+    const response = await this.client.get('/auth/sessions')
+    return response.data
+  }
+
+  async revokeMySession(id: string) {
+    const response = await this.client.delete(`/auth/sessions/${id}`)
+    return response.data
+  }
+
+  async revokeOtherSessions() {
+    const response = await this.client.delete('/auth/sessions')
+    return response.data
+  }
+
+  async logout() {
+    const refreshToken = this.getRefreshToken()
+    if (refreshToken) {
+      await this.client.post('/auth/logout', { refreshToken }).catch(() => undefined)
+    }
     this.clearToken()
     if (typeof window !== 'undefined') {
       window.location.href = '/login'
@@ -106,8 +234,8 @@ class ApiClient {
   }
 
   // Farms (KUBE-Farm)
-  async getFarms() {
-    const response = await this.client.get('/farms')
+  async getFarms(params?: any) {
+    const response = await this.client.get('/farms', { params })
     return response.data
   }
 
@@ -131,14 +259,159 @@ class ApiClient {
     return response.data
   }
 
+  async updateAnimalStatus(id: string, status: string) {
+    const response = await this.client.put(`/farms/animals/${id}/status`, { status })
+    return response.data
+  }
+
+  async createHealthEvent(animalId: string, data: any) {
+    const response = await this.client.post(`/farms/animals/${animalId}/health-events`, data)
+    return response.data
+  }
+
+  async resolveHealthEvent(animalId: string, eventId: string, data?: any) {
+    const response = await this.client.post(`/farms/animals/${animalId}/health-events/${eventId}/resolve`, data)
+    return response.data
+  }
+
+  async getHealthEvents(animalId: string, params?: any) {
+    const response = await this.client.get(`/farms/animals/${animalId}/health-events`, { params })
+    return response.data
+  }
+
+  async updateHealthEvent(animalId: string, eventId: string, data: any) {
+    const response = await this.client.put(`/farms/animals/${animalId}/health-events/${eventId}`, data)
+    return response.data
+  }
+
+  async getTreatmentPlans(animalId: string) {
+    const response = await this.client.get(`/farms/animals/${animalId}/treatment-plans`)
+    return response.data
+  }
+
+  async createTreatmentPlan(animalId: string, data: any) {
+    const response = await this.client.post(`/farms/animals/${animalId}/treatment-plans`, data)
+    return response.data
+  }
+
+  async updateTreatmentPlan(animalId: string, planId: string, data: any) {
+    const response = await this.client.put(`/farms/animals/${animalId}/treatment-plans/${planId}`, data)
+    return response.data
+  }
+
+  async administerDose(animalId: string, planId: string, doseId: string, data?: any) {
+    const response = await this.client.post(`/farms/animals/${animalId}/treatment-plans/${planId}/doses/${doseId}/administer`, data)
+    return response.data
+  }
+
+  async getVaccinations(animalId: string) {
+    const response = await this.client.get(`/farms/animals/${animalId}/vaccinations`)
+    return response.data
+  }
+
+  async recordVaccination(animalId: string, data: any) {
+    const response = await this.client.post(`/farms/animals/${animalId}/vaccinations`, data)
+    return response.data
+  }
+
+  async getDueVaccinations(farmId: string, params?: any) {
+    const response = await this.client.get(`/farms/${farmId}/vaccinations/due`, { params })
+    return response.data
+  }
+
+  async getVaccinationSchedules(farmId: string) {
+    const response = await this.client.get(`/farms/${farmId}/vaccination-schedules`)
+    return response.data
+  }
+
+  async createVaccinationSchedule(farmId: string, data: any) {
+    const response = await this.client.post(`/farms/${farmId}/vaccination-schedules`, data)
+    return response.data
+  }
+
+  async updateVaccinationSchedule(farmId: string, scheduleId: string, data: any) {
+    const response = await this.client.put(`/farms/${farmId}/vaccination-schedules/${scheduleId}`, data)
+    return response.data
+  }
+
+  async deleteVaccinationSchedule(farmId: string, scheduleId: string) {
+    const response = await this.client.delete(`/farms/${farmId}/vaccination-schedules/${scheduleId}`)
+    return response.data
+  }
+
+  async setHerdQuarantine(herdId: string, quarantined: boolean, reason?: string) {
+    const response = await this.client.put(`/farms/herds/${herdId}/quarantine`, { quarantined, reason })
+    return response.data
+  }
+
+  // Outbreaks
+  async getOutbreaks(params?: any) {
+    const response = await this.client.get('/outbreaks', { params })
+    return response.data
+  }
+
+  async getOutbreakById(id: string) {
+    const response = await this.client.get(`/outbreaks/${id}`)
+    return response.data
+  }
+
+  async scanOutbreaks() {
+    const response = await this.client.post('/outbreaks/scan')
+    return response.data
+  }
+
+  async getHerdDiscrepancies(params?: any) {
+    const response = await this.client.get('/farms/herds/discrepancies', { params })
+    return response.data
+  }
+
   async getAnimalById(id: string) {
     const response = await this.client.get(`/farms/animals/${id}`)
     return response.data
   }
 
+  async registerAnimal(herdId: string, data: any) {
+    const response = await this.client.post(`/farms/herds/${herdId}/animals`, data)
+    return response.data
+  }
+
+  async updateAnimal(id: string, data: any) {
+    const response = await this.client.put(`/farms/animals/${id}`, data)
+    return response.data
+  }
+
+  async transferAnimal(id: string, data: any) {
+    const response = await this.client.post(`/farms/animals/${id}/transfer`, data)
+    return response.data
+  }
+
+  async disposeAnimal(id: string, data: any) {
+    const response = await this.client.post(`/farms/animals/${id}/disposition`, data)
+    return response.data
+  }
+
+  async getAnimalMovements(id: string) {
+    const response = await this.client.get(`/farms/animals/${id}/movements`)
+    return response.data
+  }
+
+  // Sends the CSV or XLSX file as the request body; dryRun only validates it
+  async importAnimals(farmId: string, file: File, dryRun = false) {
+    const response = await this.client.post(`/farms/${farmId}/animals/import`, file, {
+      params: { dryRun },
+      headers: { 'Content-Type': file.type || 'application/octet-stream' }
+    })
+    return response.data
+  }
+
+  async exportAnimals(farmId: string, format: 'csv' | 'xlsx' = 'csv') {
+    const response = await this.client.get(`/farms/${farmId}/animals/export`, { params: { format }, responseType: 'blob' })
+    return response.data
+  }
+
   // Parks (KUBE-Park)
-  async getParks() {
-    const response = await this.client.get('/parks')
+  async getParks(params?: any) {
+    const response = await this.client.get('/parks', { params })
     return response.data
   }
 
@@ -163,8 +436,8 @@ class ApiClient {
   }
 
   // Land (KUBE-Land)
-  async getLandZones() {
-    const response = await this.client.get('/land/zones')
+  async getLandZones(params?: any) {
+    const response = await this.client.get('/land/zones', { params })
     return response.data
   }
 
@@ -183,6 +456,52 @@ class ApiClient {
     return response.data
   }
 
+  // Drones & Missions
+  async getDrones(params?: any) {
+    const response = await this.client.get('/drones', { params })
+    return response.data
+  }
+
+  async getDroneById(id: string) {
+    const response = await this.client.get(`/drones/${id}`)
+    return response.data
+  }
+
+  async updateDrone(id: string, data: any) {
+    const response = await this.client.put(`/drones/${id}`, data)
+    return response.data
+  }
+
+  async getBaseCamps() {
+    const response = await this.client.get('/drones/base-camps')
+    return response.data
+  }
+
+  async getMissions(params?: any) {
+    const response = await this.client.get('/drones/missions', { params })
+    return response.data
+  }
+
+  async createMission(data: any) {
+    const response = await this.client.post('/drones/missions', data)
+    return response.data
+  }
+
+  async updateMission(id: string, data: any) {
+    const response = await this.client.put(`/drones/missions/${id}`, data)
+    return response.data
+  }
+
+  async updateMissionStatus(id: string, status: string) {
+    const response = await this.client.put(`/drones/missions/${id}/status`, { status })
+    return response.data
+  }
+
+  async deleteMission(id: string) {
+    const response = await this.client.delete(`/drones/missions/${id}`)
+    return response.data
+  }
+
   // Alerts
   async getAlerts(params?: any) {
     const response = await this.client.get('/alerts', { params })
@@ -194,8 +513,18 @@ class ApiClient {
     return response.data
   }
 
-  async getAlertStats() {
-    const response = await this.client.get('/alerts/stats')
+  async getAlertStats(params?: { grouped?: boolean }) {
+    const response = await this.client.get('/alerts/stats', { params })
+    return response.data
+  }
+
+  async getAlertGroup(id: string) {
+    const response = await this.client.get(`/alerts/groups/${id}`)
+    return response.data
+  }
+
+  async resolveAlertGroup(id: string, actionTaken?: string) {
+    const response = await this.client.post(`/alerts/groups/${id}/resolve`, { actionTaken })
     return response.data
   }
 
@@ -207,9 +536,90 @@ class ApiClient {
     return response.data
   }
 
+  async reopenAlert(id: string, reason: string) {
+    const response = await this.client.post(`/alerts/${id}/reopen`, { reason })
+    return response.data
+  }
+
+  async assignAlert(id: string, assignedToId: string) {
+    const response = await this.client.put(`/alerts/${id}/assign`, { assignedToId })
+    return response.data
+  }
+
+  async getAlertComments(id: string) {
+    const response = await this.client.get(`/alerts/${id}/comments`)
+    return response.data
+  }
+
+  async addAlertComment(id: string, message: string) {
+    const response = await this.client.post(`/alerts/${id}/comments`, { message })
+    return response.data
+  }
+
+  async getAlertRules(params?: any) {
+    const response = await this.client.get('/alerts/rules', { params })
+    return response.data
+  }
+
+  async createAlertRule(data: any) {
+    const response = await this.client.post('/alerts/rules', data)
+    return response.data
+  }
+
+  async updateAlertRule(id: string, data: any) {
+    const response = await this.client.put(`/alerts/rules/${id}`, data)
+    return response.data
+  }
+
+  async deleteAlertRule(id: string) {
+    const response = await this.client.delete(`/alerts/rules/${id}`)
+    return response.data
+  }
+
+  async getEscalationPolicies() {
+    const response = await this.client.get('/alerts/escalation-policies')
+    return response.data
+  }
+
+  async createEscalationPolicy(data: any) {
+    const response = await this.client.post('/alerts/escalation-policies', data)
+    return response.data
+  }
+
+  async updateEscalationPolicy(id: string, data: any) {
+    const response = await this.client.put(`/alerts/escalation-policies/${id}`, data)
+    return response.data
+  }
+
+  async deleteEscalationPolicy(id: string) {
+    const response = await this.client.delete(`/alerts/escalation-policies/${id}`)
+    return response.data
+  }
+
+  // Notifications
+  async getNotificationPreferences() {
+    const response = await this.client.get('/notifications/preferences')
+    return response.data
+  }
+
+  async updateNotificationPreferences(data: any) {
+    const response = await this.client.put('/notifications/preferences', data)
+    return response.data
+  }
+
+  async sendTestNotification(channel: string) {
+    const response = await this.client.post('/notifications/test', { channel })
+    return response.data
+  }
+
+  async getNotificationDeliveries(params?: any) {
+    const response = await this.client.get('/notifications/deliveries', { params })
+    return response.data
+  }
+
   // Dashboard
-  async getDashboardOverview() {
-    const response = await this.client.get('/dashboard/overview')
+  async getDashboardOverview(params?: any) {
+    const response = await this.client.get('/dashboard/overview', { params })
     return response.data
   }
 
@@ -264,6 +674,165 @@ class ApiClient {
     const response = await this.client.put(`/users/${id}`, data)
     return response.data
   }
+
+  async updateUserStatus(id: string, status: string) {
+    const response = await this.client.put(`/users/${id}/status`, { status })
+    return response.data
+  }
+
+  async unlockUser(id: string) {
+    const response = await this.client.post(`/users/${id}/unlock`)
+    return response.data
+  }
+
+  async getUserSessions(userId: string) {
+    const response = await this.client.get(`/users/${userId}/sessions`)
+    return response.data
+  }
+
+  async revokeUserSession(userId: string, sessionId: string) {
+    const response = await this.client.delete(`/users/${userId}/sessions/${sessionId}`)
+    return response.data
+  }
+
+  async revokeAllUserSessions(userId: string) {
+    const response = await this.client.delete(`/users/${userId}/sessions`)
+    return response.data
+  }
+
+  async resetUserTwoFactor(userId: string) {
+    const response = await this.client.post(`/users/${userId}/2fa/reset`)
+    return response.data
+  }
+
+  async updateUserRole(id: string, role: string) {
+    const response = await this.client.put(`/users/${id}/role`, { role })
+    return response.data
+  }
+
+  // Access
+  async getMyAccess() {
+    const response = await this.client.get('/access/me')
+    return response.data
+  }
+
+  async getPermissions() {
+    const response = await this.client.get('/access/permissions')
+    return response.data
+  }
+
+  async getRoles() {
+    const response = await this.client.get('/access/roles')
+    return response.data
+  }
+
+  async createRole(data: any) {
+    const response = await this.client.post('/access/roles', data)
+    return response.data
+  }
+
+  async updateRole(id: string, data: any) {
+    const response = await this.client.put(`/access/roles/${id}`, data)
+    return response.data
+  }
+
+  async deleteRole(id: string) {
+    const response = await this.client.delete(`/access/roles/${id}`)
+    return response.data
+  }
+
+  async getResourceGrants(resourceType: string, resourceId: string) {
+    const response = await this.client.get('/access/grants', { params: { resourceType, resourceId } })
+    return response.data
+  }
+
+  async grantResourceAccess(data: any) {
+    const response = await this.client.post('/access/grants', data)
+    return response.data
+  }
+
+  async revokeResourceAccess(id: string) {
+    const response = await this.client.delete(`/access/grants/${id}`)
+    return response.data
+  }
+
+  // Organizations
+  async getOrganizations() {
+    const response = await this.client.get('/organizations')
+    return response.data
+  }
+
+  async getOrganizationById(id: string) {
+    const response = await this.client.get(`/organizations/${id}`)
+    return response.data
+  }
+
+  async createOrganization(data: any) {
+    const response = await this.client.post('/organizations', data)
+    return response.data
+  }
+
+  async updateOrganization(id: string, data: any) {
+    const response = await this.client.put(`/organizations/${id}`, data)
+    return response.data
+  }
+
+  async addOrganizationMember(id: string, data: any) {
+    const response = await this.client.post(`/organizations/${id}/members`, data)
+    return response.data
+  }
+
+  async updateOrganizationMember(id: string, userId: string, role: string) {
+    const response = await this.client.put(`/organizations/${id}/members/${userId}`, { role })
+    return response.data
+  }
+
+  async removeOrganizationMember(id: string, userId: string) {
+    const response = await this.client.delete(`/organizations/${id}/members/${userId}`)
+    return response.data
+  }
+
+  async moveOrganizationAssets(id: string, data: any) {
+    const response = await this.client.post(`/organizations/${id}/assets`, data)
+    return response.data
+  }
+
+  // Audit trail
+  async getAuditLog(params?: any) {
+    const response = await this.client.get('/audit', { params })
+    return response.data
+  }
+
+  async exportAuditLog(params?: any) {
+    const response = await this.client.get('/audit/export', { params, responseType: 'blob' })
+    return response.data
+  }
+
+  async getEntityHistory(path: string) {
+    const response = await this.client.get(`${path}/history`)
+    return response.data
+  }
+
+  // Device keys (Admin)
+  async getDeviceKeys(params?: any) {
+    const response = await this.client.get('/devices/keys', { params })
+    return response.data
+  }
+
+  async issueDeviceKey(data: any) {
+    const response = await this.client.post('/devices/keys', data)
+    return response.data
+  }
+
+  async rotateDeviceKey(id: string) {
+    const response = await this.client.post(`/devices/keys/${id}/rotate`)
+    return response.data
+  }
+
+  async revokeDeviceKey(id: string) {
+    const response = await this.client.post(`/devices/keys/${id}/revoke`)
+    return response.data
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,49 @@
+/**
+ * Socket.IO Client for KUBE Platform
+ * Shared real-time connection to the backend
+ */
+
+import { io, Socket } from 'socket.io-client'
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api'
+const SOCKET_URL = API_URL.replace(/\/api\/?$/, '')
+
+let socket: Socket | null = null
+
+export function getSocket(): Socket {
+  if (!socket) {
+    socket = io(SOCKET_URL, {
+      withCredentials: true,
+      transports: ['websocket', 'polling'],
+      // Read the token on every (re)connect so a fresh login is picked up
+      auth: (cb) => cb({
+        token: typeof window !== 'undefined' ? localStorage.getItem('kube_token') : null
+      })
+    })
+
+    // The server drops sockets when the user's role or access changes; reconnect
+    // so the rooms are rebuilt (a revoked session fails the handshake instead)
+    socket.on('disconnect', (reason) => {
+      if (reason === 'io server disconnect') socket?.connect()
+    })
+  }
+
+  // A handshake rejected by the server is not retried automatically
+  if (!socket.connected && !socket.active) {
+    socket.connect()
+  }
+
+  return socket
+}
+
+/**
+ * Reconnect an open socket so its handshake carries the current token
+ */
+export function reconnectSocket(): void {
+  if (!socket) return
+
+  socket.disconnect()
+  socket.connect()
+}
+
+export default getSocket